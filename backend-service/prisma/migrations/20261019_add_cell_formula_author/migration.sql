@@ -0,0 +1,4 @@
+-- Track who wrote each formula, so cross-sheet references ({Sheet}!A1) are
+-- evaluated with that user's access to the other sheet
+
+ALTER TABLE "cells" ADD COLUMN "formulaAuthorId" TEXT;
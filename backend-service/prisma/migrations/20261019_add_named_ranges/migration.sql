@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "named_ranges" (
+    "id" TEXT NOT NULL,
+    "sheetId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "range" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "named_ranges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "named_ranges_sheetId_name_key" ON "named_ranges"("sheetId", "name");
+
+-- AddForeignKey
+ALTER TABLE "named_ranges" ADD CONSTRAINT "named_ranges_sheetId_fkey" FOREIGN KEY ("sheetId") REFERENCES "sheets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- Big sheets can switch to manual recalculation, where formulas are only
+-- recalculated when someone asks for it
+
+-- CreateEnum
+CREATE TYPE "CalculationMode" AS ENUM ('AUTOMATIC', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "sheets" ADD COLUMN "calculationMode" "CalculationMode" NOT NULL DEFAULT 'AUTOMATIC';
@@ -0,0 +1,38 @@
+import path from 'path';
+import {
+  AlphaVantageProvider,
+  FileMarketDataProvider,
+  MarketDataProvider,
+} from '../services/marketData.service';
+
+// MARKET_DATA_PROVIDER picks where stock quotes come from: "alphavantage" (the
+// default) or "file", which reads MARKET_DATA_FILE
+function createMarketDataProvider(): MarketDataProvider {
+  const provider = process.env.MARKET_DATA_PROVIDER || 'alphavantage';
+
+  switch (provider) {
+    case 'alphavantage':
+      return new AlphaVantageProvider(process.env.ALPHA_VANTAGE_API_KEY || 'demo');
+    case 'file':
+      return new FileMarketDataProvider(
+        path.resolve(process.env.MARKET_DATA_FILE || 'data/market-data.json')
+      );
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER "${provider}" (expected "alphavantage" or "file")`);
+  }
+}
+
+let marketDataProvider: MarketDataProvider | undefined;
+
+// Created on first use rather than at import, which comes before src/index.ts loads .env
+export function getMarketDataProvider(): MarketDataProvider {
+  if (!marketDataProvider) {
+    marketDataProvider = createMarketDataProvider();
+  }
+  return marketDataProvider;
+}
+
+// How often quotes, and the formulas that read them, are refreshed
+export function stockRefreshIntervalMs(): number {
+  return Number(process.env.STOCK_REFRESH_INTERVAL_MS) || 15 * 60 * 1000;
+}
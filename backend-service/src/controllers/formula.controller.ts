@@ -0,0 +1,12 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../middleware/errorHandler';
+import { FUNCTION_CATALOG } from '../../../shared/formula-engine';
+
+// The catalog only changes with a deploy, so clients can hold on to it
+export const getFunctions = asyncHandler(async (_req: Request, res: Response) => {
+  res.set('Cache-Control', 'private, max-age=3600');
+  res.status(200).json({
+    status: 'success',
+    data: { functions: FUNCTION_CATALOG },
+  });
+});
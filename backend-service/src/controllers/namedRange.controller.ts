@@ -0,0 +1,77 @@
+import { Request, Response } from 'express';
+import { asyncHandler, AppError } from '../middleware/errorHandler';
+import * as namedRangeService from '../services/namedRange.service';
+
+export const getNamedRanges = asyncHandler(async (req: Request, res: Response) => {
+  const { sheetId } = req.params;
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  const namedRanges = await namedRangeService.getNamedRanges(sheetId, req.user.userId);
+
+  res.status(200).json({
+    status: 'success',
+    data: { namedRanges },
+  });
+});
+
+export const createNamedRange = asyncHandler(async (req: Request, res: Response) => {
+  const { sheetId } = req.params;
+  const { name, range } = req.body;
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  if (typeof name !== 'string' || typeof range !== 'string') {
+    throw new AppError('Name and range are required', 400);
+  }
+
+  const namedRange = await namedRangeService.createNamedRange(sheetId, { name: name.trim(), range }, req.user.userId);
+
+  res.status(201).json({
+    status: 'success',
+    data: { namedRange },
+  });
+});
+
+export const updateNamedRange = asyncHandler(async (req: Request, res: Response) => {
+  const { namedRangeId } = req.params;
+  const { name, range } = req.body;
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  if ((name !== undefined && typeof name !== 'string') || (range !== undefined && typeof range !== 'string')) {
+    throw new AppError('Name and range must be text', 400);
+  }
+
+  const namedRange = await namedRangeService.updateNamedRange(
+    namedRangeId,
+    { name: name?.trim(), range },
+    req.user.userId
+  );
+
+  res.status(200).json({
+    status: 'success',
+    data: { namedRange },
+  });
+});
+
+export const deleteNamedRange = asyncHandler(async (req: Request, res: Response) => {
+  const { namedRangeId } = req.params;
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  await namedRangeService.deleteNamedRange(namedRangeId, req.user.userId);
+
+  res.status(200).json({
+    status: 'success',
+    message: 'Named range deleted successfully',
+  });
+});
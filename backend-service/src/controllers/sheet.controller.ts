@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { asyncHandler, AppError } from '../middleware/errorHandler';
 import * as sheetService from '../services/sheet.service';
+import * as formulaService from '../services/formula.service';
 
 export const createSheet = asyncHandler(async (req: Request, res: Response) => {
   const { name, description, template } = req.body;
@@ -55,13 +56,17 @@ export const getAllSheets = asyncHandler(async (req: Request, res: Response) =>
 
 export const updateSheet = asyncHandler(async (req: Request, res: Response) => {
   const { id } = req.params;
-  const { name, description } = req.body;
+  const { name, description, calculationMode } = req.body;
+
+  if (calculationMode !== undefined && !['AUTOMATIC', 'MANUAL'].includes(calculationMode)) {
+    throw new AppError('calculationMode must be AUTOMATIC or MANUAL', 400);
+  }
 
   if (!req.user) {
     throw new AppError('Not authenticated', 401);
   }
 
-  const sheet = await sheetService.updateSheet(id, { name, description }, req.user.userId);
+  const sheet = await sheetService.updateSheet(id, { name, description, calculationMode }, req.user.userId);
 
   res.status(200).json({
     status: 'success',
@@ -146,7 +151,7 @@ export const updateCell = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError('Not authenticated', 401);
   }
 
-  const cell = await sheetService.updateCell(cellId, {
+  const { cell, changedCells } = await sheetService.updateCell(cellId, {
     value,
     textColor,
     backgroundColor,
@@ -162,7 +167,101 @@ export const updateCell = asyncHandler(async (req: Request, res: Response) => {
 
   res.status(200).json({
     status: 'success',
-    data: { cell },
+    data: { cell, changedCells },
+  });
+});
+
+// "Recalculate now" - every formula in the sheet, also in manual calculation mode
+export const recalculateSheet = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  const changedCells = await formulaService.recalculateNow(id, req.user.userId);
+
+  res.status(200).json({
+    status: 'success',
+    data: { changedCells },
+  });
+});
+
+// Precedents and dependents of a cell for formula auditing (?recursive=true
+// follows them all the way instead of one step)
+export const traceCell = asyncHandler(async (req: Request, res: Response) => {
+  const { id, cellId } = req.params;
+  const recursive = req.query.recursive === 'true';
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  const trace = await formulaService.getCellTrace(id, cellId, recursive, req.user.userId);
+
+  res.status(200).json({
+    status: 'success',
+    data: trace,
+  });
+});
+
+const isNumberList = (values: unknown): values is number[] =>
+  Array.isArray(values) && values.length > 0 && values.every((value) => typeof value === 'number' && isFinite(value));
+
+// Goal seek: the input cell value that makes a formula give the desired value
+export const goalSeek = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { targetCell, targetValue, inputCell } = req.body;
+
+  if (typeof targetCell !== 'string' || typeof inputCell !== 'string' || typeof targetValue !== 'number' || !isFinite(targetValue)) {
+    throw new AppError('targetCell, targetValue (a number) and inputCell are required', 400);
+  }
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  const result = await formulaService.seekGoal(id, targetCell, targetValue, inputCell, req.user.userId);
+
+  res.status(200).json({
+    status: 'success',
+    data: result,
+  });
+});
+
+// One- or two-variable what-if data table (columnInput makes it two-variable)
+export const dataTable = asyncHandler(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { targetCells, rowInput, columnInput } = req.body;
+
+  if (
+    !Array.isArray(targetCells) ||
+    targetCells.length === 0 ||
+    !targetCells.every((cell) => typeof cell === 'string') ||
+    typeof rowInput?.cell !== 'string' ||
+    !isNumberList(rowInput.values)
+  ) {
+    throw new AppError('targetCells and rowInput ({ cell, values: number[] }) are required', 400);
+  }
+  if (columnInput !== undefined && (typeof columnInput?.cell !== 'string' || !isNumberList(columnInput.values))) {
+    throw new AppError('columnInput must be { cell, values: number[] }', 400);
+  }
+
+  if (!req.user) {
+    throw new AppError('Not authenticated', 401);
+  }
+
+  const values = await formulaService.computeDataTable(
+    id,
+    targetCells,
+    { cell: rowInput.cell, values: rowInput.values },
+    columnInput && { cell: columnInput.cell, values: columnInput.values },
+    req.user.userId
+  );
+
+  res.status(200).json({
+    status: 'success',
+    data: { values },
   });
 });
 
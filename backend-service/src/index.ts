@@ -13,6 +13,10 @@ import notificationRoutes from './routes/notification.routes';
 import chartRoutes from './routes/chart.routes';
 import dataValidationRoutes from './routes/dataValidation.routes';
 import pivotTableRoutes from './routes/pivotTable.routes';
+import namedRangeRoutes from './routes/namedRange.routes';
+import formulaRoutes from './routes/formula.routes';
+import { scheduleStockRefresh } from './jobs/stockRefresh.job';
+import { scheduleVolatileRecalc } from './jobs/volatileRecalc.job';
 
 // Load environment variables
 dotenv.config();
@@ -49,6 +53,8 @@ app.use('/api/v1/notifications', notificationRoutes);
 app.use('/api/v1', chartRoutes);
 app.use('/api/v1', dataValidationRoutes);
 app.use('/api/v1', pivotTableRoutes);
+app.use('/api/v1', namedRangeRoutes);
+app.use('/api/v1/formulas', formulaRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -57,6 +63,8 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   logger.info(`🚀 Server running on http://${HOST}:${PORT}`);
   logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+  scheduleStockRefresh();
+  scheduleVolatileRecalc();
 });
 
 export default app;
@@ -0,0 +1,66 @@
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { stockRefreshIntervalMs } from '../config/marketData';
+import { usesStockQuotes } from '../../../shared/formula-engine';
+import { refreshStockQuotes } from '../services/stock.service';
+import {
+  SheetGrid,
+  recalculateLinkedSheets,
+  recalculateStockFormulas,
+} from '../services/formula.service';
+
+/**
+ * Fetch fresh quotes, then recalculate every sheet's stock formulas (and what
+ * depends on them) and persist the results, so sheets show current prices
+ * without anyone editing them.
+ */
+export async function refreshStockFormulas(): Promise<void> {
+  await refreshStockQuotes();
+
+  // A cheap text match narrows the cells down; parsing confirms which read stocks
+  const candidates = await prisma.cell.findMany({
+    where: {
+      // Sheets in manual mode pick new prices up when they're recalculated
+      sheet: { calculationMode: 'AUTOMATIC' },
+      OR: [
+        { formula: { contains: '$' } },
+        { formula: { contains: 'STOCK(', mode: 'insensitive' } },
+      ],
+    },
+    select: { sheetId: true, formula: true },
+  });
+  const sheetIds = new Set<string>(
+    candidates
+      .filter((cell) => cell.formula && usesStockQuotes(cell.formula))
+      .map((cell) => cell.sheetId)
+  );
+
+  for (const sheetId of sheetIds) {
+    try {
+      const grid = await SheetGrid.load(sheetId);
+      const changed = await recalculateStockFormulas(grid);
+      if (changed.length > 0) {
+        await recalculateLinkedSheets(sheetId);
+      }
+    } catch (error) {
+      logger.error(`Error refreshing stock formulas in sheet ${sheetId}:`, error);
+    }
+  }
+}
+
+// Refresh on a timer; a run still going when the next is due is left to finish
+export function scheduleStockRefresh(): void {
+  let running = false;
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await refreshStockFormulas();
+    } catch (error) {
+      logger.error('Stock refresh failed:', error);
+    } finally {
+      running = false;
+    }
+  }, stockRefreshIntervalMs());
+}
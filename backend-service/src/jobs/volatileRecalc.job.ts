@@ -0,0 +1,61 @@
+import prisma from '../config/database';
+import { logger } from '../config/logger';
+import { usesVolatileFunctions, VOLATILE_FUNCTIONS } from '../../../shared/formula-engine';
+import {
+  SheetGrid,
+  recalculateLinkedSheets,
+  recalculateVolatileFormulas,
+} from '../services/formula.service';
+
+/**
+ * Recalculate every volatile formula (and what depends on them) in sheets
+ * using automatic calculation and persist the results, so loading a sheet
+ * returns stored values that are at most one interval old.
+ */
+export async function recalculateVolatileSheets(): Promise<void> {
+  // A cheap text match narrows the cells down; parsing confirms which are volatile
+  const candidates = await prisma.cell.findMany({
+    where: {
+      sheet: { calculationMode: 'AUTOMATIC' },
+      OR: VOLATILE_FUNCTIONS.map((name) => ({ formula: { contains: `${name}(`, mode: 'insensitive' as const } })),
+    },
+    select: { sheetId: true, formula: true },
+  });
+  const sheetIds = new Set<string>(
+    candidates
+      .filter((cell) => cell.formula && usesVolatileFunctions(cell.formula))
+      .map((cell) => cell.sheetId)
+  );
+
+  for (const sheetId of sheetIds) {
+    try {
+      const grid = await SheetGrid.load(sheetId);
+      const changed = await recalculateVolatileFormulas(grid);
+      if (changed.length > 0) {
+        await recalculateLinkedSheets(sheetId);
+      }
+    } catch (error) {
+      logger.error(`Error recalculating volatile formulas in sheet ${sheetId}:`, error);
+    }
+  }
+}
+
+// Recalculate on a timer; a run still going when the next is due is left to finish
+export function scheduleVolatileRecalc(): void {
+  // How often NOW(), TODAY(), RAND() and RANDBETWEEN() formulas are recalculated, read
+  // here rather than at import, which comes before src/index.ts loads .env
+  const intervalMs = Number(process.env.VOLATILE_RECALC_INTERVAL_MS) || 5 * 60 * 1000;
+  let running = false;
+
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await recalculateVolatileSheets();
+    } catch (error) {
+      logger.error('Volatile recalculation failed:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
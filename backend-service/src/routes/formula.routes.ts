@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { getFunctions } from '../controllers/formula.controller';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All formula routes require authentication
+router.use(authenticate);
+
+// Functions formulas can call, for autocomplete and signature help
+router.get('/functions', getFunctions);
+
+export default router;
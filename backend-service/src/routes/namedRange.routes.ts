@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import {
+  getNamedRanges,
+  createNamedRange,
+  updateNamedRange,
+  deleteNamedRange,
+} from '../controllers/namedRange.controller';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All named range routes require authentication
+router.use(authenticate);
+
+// Named range CRUD operations
+router.post('/sheets/:sheetId/named-ranges', createNamedRange);
+router.get('/sheets/:sheetId/named-ranges', getNamedRanges);
+router.put('/named-ranges/:namedRangeId', updateNamedRange);
+router.delete('/named-ranges/:namedRangeId', deleteNamedRange);
+
+export default router;
@@ -10,6 +10,10 @@ import {
   createRow,
   updateRow,
   updateCell,
+  traceCell,
+  recalculateSheet,
+  goalSeek,
+  dataTable,
   deleteColumn,
   deleteRow,
   exportSheet,
@@ -41,6 +45,13 @@ router.get('/:id', getSheet);
 router.put('/:id', updateSheet);
 router.delete('/:id', deleteSheet);
 
+// Recalculate every formula (the "Recalculate now" action in manual calculation mode)
+router.post('/:id/recalculate', recalculateSheet);
+
+// What-if analysis, evaluated without changing the sheet
+router.post('/:id/goal-seek', goalSeek);
+router.post('/:id/data-table', dataTable);
+
 // Favorite operations
 router.put('/:id/favorite', toggleFavorite);
 
@@ -64,6 +75,7 @@ router.post('/:id/rows/:rowId/toggle-expand', toggleRowExpand);
 
 // Cell operations
 router.put('/:id/cells/:cellId', updateCell);
+router.get('/:id/cells/:cellId/trace', traceCell);
 
 // Cell merge operations
 router.post('/:id/merge', mergeCells);
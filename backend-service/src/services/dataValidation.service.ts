@@ -1,5 +1,8 @@
 import prisma from '../config/database';
 import type { ValidationType } from '@prisma/client';
+import { SheetGrid } from './formula.service';
+import { parseRangeText } from '../../../shared/formula-engine';
+import { lookupNamedRange } from './namedRange.service';
 
 export interface DataValidationData {
   id?: string;
@@ -86,6 +89,24 @@ export async function getValidationForCell(sheetId: string, cellRef: string) {
   return null;
 }
 
+// Values of the cells a list's source covers - a named range or an A1 range such as C2:C20
+async function getListSourceValues(sheetId: string, source: string): Promise<string[]> {
+  const range = (await lookupNamedRange(sheetId, source)) ?? source;
+  const area = parseRangeText(range);
+  if (!area) return [];
+
+  const grid = await SheetGrid.load(sheetId);
+  const values: string[] = [];
+  for (let row = Math.min(area.start.rowIndex, area.end.rowIndex); row <= Math.max(area.start.rowIndex, area.end.rowIndex); row++) {
+    for (let col = Math.min(area.start.columnIndex, area.end.columnIndex); col <= Math.max(area.start.columnIndex, area.end.columnIndex); col++) {
+      if (!grid.isInSheet(col, row)) continue;
+      const value = grid.getStoredValue(col, row);
+      if (value !== null && value !== '') values.push(String(value));
+    }
+  }
+  return values;
+}
+
 // Validate a cell value against its validation rules
 export async function validateCellValue(
   sheetId: string,
@@ -108,7 +129,9 @@ export async function validateCellValue(
 
     switch (validation.type) {
       case 'LIST': {
-        const validValues: string[] = criteria.values || [];
+        const validValues: string[] = criteria.source
+          ? await getListSourceValues(sheetId, criteria.source)
+          : criteria.values || [];
         const isValid = validValues.includes(String(value));
         return {
           valid: isValid,
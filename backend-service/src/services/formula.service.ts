@@ -1,34 +1,67 @@
 import prisma from '../config/database';
-import { getStockPrice } from './stock.service';
-
-// Formula engine for spreadsheet calculations
-export class FormulaEngine {
-  // Parse cell reference (e.g., "A1" -> {col: 0, row: 0})
-  private static parseCellRef(ref: string): { columnIndex: number; rowIndex: number } | null {
-    const match = ref.match(/^([A-Z]+)(\d+)$/);
-    if (!match) return null;
-
-    const col = match[1];
-    const row = parseInt(match[2]) - 1; // Convert to 0-based
-
-    // Convert column letters to index (A=0, B=1, ..., Z=25, AA=26, etc.)
-    let columnIndex = 0;
-    for (let i = 0; i < col.length; i++) {
-      columnIndex = columnIndex * 26 + (col.charCodeAt(i) - 64);
-    }
-    columnIndex -= 1; // Convert to 0-based
-
-    return { columnIndex, rowIndex: row };
+import type { CalculationMode, Column, Row, Cell, NamedRange } from '@prisma/client';
+import { getStockQuote } from './stock.service';
+import {
+  ErrorCode,
+  FormulaEngine,
+  FormulaEvaluationError,
+  FormulaGrid,
+  FormulaPosition,
+  FormulaResult,
+  FormulaSyntaxError,
+  GoalSeekResult,
+  MAX_DATA_TABLE_RESULTS,
+  RecalculatedCell,
+  ScalarValue,
+  StockQuote,
+  TracedCell,
+  dataTable,
+  dependentsInOrder,
+  evaluateCells,
+  goalSeek,
+  parseCellReference,
+  referencedSheetIds,
+  traceCell,
+  tracedCell,
+  usesStockQuotes,
+  usesVolatileFunctions,
+} from '../../../shared/formula-engine';
+import { getUserPermission } from './permission.service';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../config/logger';
+
+export { FormulaEngine } from '../../../shared/formula-engine';
+export type { FormulaPosition, RecalculatedCell } from '../../../shared/formula-engine';
+
+/**
+ * A sheet's cells loaded from the database, with a fixed number of queries, and
+ * shared by every formula evaluated in a request so evaluation cost doesn't
+ * grow with the number of referenced cells. Unlike the browser's grid it can
+ * read other sheets and stock prices.
+ */
+export class SheetGrid extends FormulaGrid<Cell> {
+  // Other sheets read through {Sheet}!A1 references, and who may read them
+  private linkedSheets = new Map<string, Promise<SheetGrid>>();
+  private linkedAccess = new Map<string, Promise<ErrorCode | null>>();
+
+  constructor(
+    sheetId: string,
+    columns: Column[],
+    rows: Row[],
+    cells: Cell[],
+    namedRanges: NamedRange[] = [],
+    // In MANUAL mode formulas are only recalculated by recalculateNow()
+    public readonly calculationMode: CalculationMode = 'AUTOMATIC'
+  ) {
+    super(sheetId, columns, rows, cells, namedRanges);
   }
 
-  // Get cell value by reference
-  private static async getCellValue(
-    sheetId: string,
-    columnIndex: number,
-    rowIndex: number
-  ): Promise<number | null> {
-    // Get columns and rows to map indices to IDs
-    const [columns, rows] = await Promise.all([
+  static async load(sheetId: string): Promise<SheetGrid> {
+    const [sheet, columns, rows, cells, namedRanges] = await Promise.all([
+      prisma.sheet.findUnique({
+        where: { id: sheetId },
+        select: { calculationMode: true },
+      }),
       prisma.column.findMany({
         where: { sheetId },
         orderBy: { position: 'asc' },
@@ -37,270 +70,330 @@ export class FormulaEngine {
         where: { sheetId },
         orderBy: { position: 'asc' },
       }),
+      prisma.cell.findMany({
+        where: { sheetId },
+      }),
+      prisma.namedRange.findMany({
+        where: { sheetId },
+      }),
     ]);
 
-    const column = columns[columnIndex];
-    const row = rows[rowIndex];
-
-    if (!column || !row) return null;
+    return new SheetGrid(sheetId, columns, rows, cells, namedRanges, sheet?.calculationMode);
+  }
 
-    // Get cell
-    const cell = await prisma.cell.findFirst({
-      where: {
-        sheetId,
-        columnId: column.id,
-        rowId: row.id,
-      },
-    });
+  /**
+   * Value of a cell in another sheet, read by a formula written by `authorId`.
+   * The author needs access to that sheet (#NOACCESS otherwise); unknown sheets
+   * and cells outside them are #REF!. The other sheet's formulas aren't
+   * evaluated here - their stored results are read, and recalculating that
+   * sheet recalculates the formulas that read it.
+   */
+  async getLinkedCellValue(
+    sheet: string,
+    columnIndex: number,
+    rowIndex: number,
+    authorId: string | null
+  ): Promise<ScalarValue> {
+    // Sheet names that didn't match a sheet the author can access are kept as typed
+    if (!sheet.startsWith('#')) {
+      throw new FormulaEvaluationError(`Unknown sheet ${sheet}`, '#REF!');
+    }
+    const sheetId = sheet.slice(1);
 
-    if (!cell || !cell.value) return null;
+    const denied = await this.checkLinkedAccess(sheetId, authorId);
+    if (denied === '#REF!') {
+      throw new FormulaEvaluationError('The referenced sheet no longer exists', denied);
+    }
+    if (denied) {
+      throw new FormulaEvaluationError('The formula author has no access to the referenced sheet', denied);
+    }
 
-    // Parse value
-    try {
-      const value = JSON.parse(cell.value);
-      // If it's a formula, we need to evaluate it (prevent circular refs for now)
-      if (typeof value === 'string' && value.startsWith('=')) {
-        return null; // Don't evaluate nested formulas for now
-      }
-      return parseFloat(value);
-    } catch {
-      return null;
+    let linked = this.linkedSheets.get(sheetId);
+    if (!linked) {
+      linked = SheetGrid.load(sheetId);
+      this.linkedSheets.set(sheetId, linked);
+    }
+    const grid = await linked;
+    if (!grid.isInSheet(columnIndex, rowIndex)) {
+      throw new FormulaEvaluationError('The referenced cell is outside the sheet', '#REF!');
     }
+    return grid.getStoredValue(columnIndex, rowIndex);
   }
 
-  // Get range of values (e.g., "A1:A10")
-  private static async getRangeValues(
-    sheetId: string,
-    startRef: string,
-    endRef: string
-  ): Promise<number[]> {
-    const start = this.parseCellRef(startRef);
-    const end = this.parseCellRef(endRef);
-
-    if (!start || !end) return [];
-
-    const values: number[] = [];
-
-    for (let row = start.rowIndex; row <= end.rowIndex; row++) {
-      for (let col = start.columnIndex; col <= end.columnIndex; col++) {
-        const value = await this.getCellValue(sheetId, col, row);
-        if (value !== null) {
-          values.push(value);
-        }
-      }
+  async getStockQuote(symbol: string): Promise<StockQuote> {
+    const quote = await getStockQuote(symbol);
+    if (!quote) {
+      throw new FormulaEvaluationError(`Unknown stock symbol ${symbol}`, '#N/A');
     }
+    return quote;
+  }
 
-    return values;
+  // Errors in formulas show in their cells, so they're only worth a debug line;
+  // anything else failing during evaluation is a bug
+  reportError(formula: string, error: Error) {
+    if (error instanceof FormulaEvaluationError || error instanceof FormulaSyntaxError) {
+      logger.debug(`Formula error in "${formula}": ${error.message}`);
+    } else {
+      logger.error(`Formula evaluation error in "${formula}":`, error);
+    }
   }
 
-  // Get values from comma-separated references or ranges (e.g., "A1,B2,C1:C5")
-  private static async getValuesFromArgs(
-    sheetId: string,
-    args: string
-  ): Promise<number[]> {
-    const values: number[] = [];
-
-    // Split by commas (but not commas inside parentheses)
-    const parts = args.split(',').map(s => s.trim());
-
-    for (const part of parts) {
-      // Check if it's a range (A1:A10)
-      if (part.includes(':')) {
-        const [start, end] = part.split(':').map(s => s.trim());
-        const rangeValues = await this.getRangeValues(sheetId, start, end);
-        values.push(...rangeValues);
-      } else {
-        // Single cell reference
-        const parsed = this.parseCellRef(part);
-        if (parsed) {
-          const value = await this.getCellValue(sheetId, parsed.columnIndex, parsed.rowIndex);
-          if (value !== null) {
-            values.push(value);
-          }
+  // The error a formula by `authorId` gets for reading the sheet, or null if it may
+  private checkLinkedAccess(sheetId: string, authorId: string | null): Promise<ErrorCode | null> {
+    if (!authorId) return Promise.resolve('#NOACCESS');
+
+    const key = `${authorId}:${sheetId}`;
+    let access = this.linkedAccess.get(key);
+    if (!access) {
+      access = getUserPermission(sheetId, authorId).then(
+        () => null,
+        (error) => {
+          if (error instanceof AppError && error.statusCode === 403) return '#NOACCESS';
+          if (error instanceof AppError && error.statusCode === 404) return '#REF!';
+          throw error;
         }
-      }
+      );
+      this.linkedAccess.set(key, access);
     }
+    return access;
+  }
+}
 
-    return values;
+// Evaluate formula cells in the given order with one shared pass, then persist
+// (and return) the ones whose result changed
+async function recalculateCells(grid: SheetGrid, cells: Cell[]): Promise<RecalculatedCell[]> {
+  const changedCells = await evaluateCells(grid, cells);
+
+  // Persist all new results in a single round trip
+  if (changedCells.length > 0) {
+    await prisma.$transaction(
+      changedCells.map((changed) =>
+        prisma.cell.update({
+          where: { id: changed.id },
+          data: { computedValue: changed.computedValue !== null ? JSON.stringify(changed.computedValue) : null },
+        })
+      )
+    );
   }
 
-  // Evaluate a formula
-  public static async evaluate(sheetId: string, formula: string): Promise<number | string | null> {
-    // Remove leading =
-    formula = formula.trim();
-    if (formula.startsWith('=')) {
-      formula = formula.substring(1);
-    }
+  return changedCells;
+}
 
-    try {
-      // Handle stock ticker - formulas starting with $ (e.g., $AAPL, $GOOGL)
-      const stockMatch = formula.match(/^\$([A-Z]+)$/);
-      if (stockMatch) {
-        const symbol = stockMatch[1];
-        try {
-          const price = await getStockPrice(symbol);
-          return price;
-        } catch (error) {
-          console.error(`Stock ticker error for ${symbol}:`, error);
-          return '#ERROR!';
-        }
-      }
+// Recalculate every formula that depends (directly or transitively) on the
+// changed cells, in dependency order, and persist the new computed values
+export async function recalculateDependents(
+  grid: SheetGrid,
+  changedCellIds: string[]
+): Promise<RecalculatedCell[]> {
+  if (grid.calculationMode === 'MANUAL') return [];
+  return recalculateCells(grid, dependentsInOrder(grid, changedCellIds));
+}
 
-      // Handle SUM function - supports ranges (A1:A10) and comma-separated (A1,B2,C3)
-      const sumMatch = formula.match(/^SUM\((.+)\)$/i);
-      if (sumMatch) {
-        const values = await this.getValuesFromArgs(sheetId, sumMatch[1]);
-        return values.reduce((sum, val) => sum + val, 0);
-      }
+// Recalculate every formula in the sheet - after indenting or outdenting,
+// CHILDREN() and friends cover different rows
+export async function recalculateSheet(grid: SheetGrid): Promise<RecalculatedCell[]> {
+  if (grid.calculationMode === 'MANUAL') return [];
+  return recalculateCells(grid, grid.cells.filter((cell) => cell.formula));
+}
 
-      // Handle AVERAGE/AVG function
-      const avgMatch = formula.match(/^(AVERAGE|AVG)\((.+)\)$/i);
-      if (avgMatch) {
-        const values = await this.getValuesFromArgs(sheetId, avgMatch[2]);
-        return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
-      }
+// Recalculate the formulas that read market data ($AAPL, STOCK()) and the ones
+// that depend on them, after quotes were refreshed
+export async function recalculateStockFormulas(grid: SheetGrid): Promise<RecalculatedCell[]> {
+  return recalculateWithDependents(grid, (formula) => usesStockQuotes(formula));
+}
 
-      // Handle COUNT function
-      const countMatch = formula.match(/^COUNT\((.+)\)$/i);
-      if (countMatch) {
-        const values = await this.getValuesFromArgs(sheetId, countMatch[1]);
-        return values.length;
-      }
+// Recalculate the formulas calling NOW(), TODAY(), RAND() or RANDBETWEEN() and
+// the ones that depend on them, which go stale without anything being edited
+export async function recalculateVolatileFormulas(grid: SheetGrid): Promise<RecalculatedCell[]> {
+  return recalculateWithDependents(grid, (formula) => usesVolatileFunctions(formula));
+}
 
-      // Handle MIN function
-      const minMatch = formula.match(/^MIN\((.+)\)$/i);
-      if (minMatch) {
-        const values = await this.getValuesFromArgs(sheetId, minMatch[1]);
-        return values.length > 0 ? Math.min(...values) : 0;
-      }
+async function recalculateWithDependents(
+  grid: SheetGrid,
+  isStale: (formula: string) => boolean
+): Promise<RecalculatedCell[]> {
+  const stale = grid.cells.filter((cell) => cell.formula && isStale(cell.formula));
+  // One pass, so dependents read the same RAND() or NOW() result that's stored
+  return recalculateCellsWithDependents(grid, stale.map((cell) => cell.id));
+}
 
-      // Handle MAX function
-      const maxMatch = formula.match(/^MAX\((.+)\)$/i);
-      if (maxMatch) {
-        const values = await this.getValuesFromArgs(sheetId, maxMatch[1]);
-        return values.length > 0 ? Math.max(...values) : 0;
-      }
+// Recalculate the formulas in the given cells and every formula that depends on
+// them, in one pass. Ids of cells without a formula only count as changed inputs.
+export async function recalculateCellsWithDependents(
+  grid: SheetGrid,
+  cellIds: string[]
+): Promise<RecalculatedCell[]> {
+  if (grid.calculationMode === 'MANUAL') return [];
+  const dependents = dependentsInOrder(grid, cellIds);
+  const dependentIds = new Set(dependents.map((cell) => cell.id));
+  // Stale formulas reading none of the others go first; the rest are dependents, already in order
+  const stale = [...new Set(cellIds)]
+    .map((cellId) => grid.getCellById(cellId))
+    .filter((cell): cell is Cell => !!cell?.formula && !dependentIds.has(cell.id));
+  return recalculateCells(grid, [...stale, ...dependents]);
+}
 
-      // Handle PRODUCT function (multiply all values)
-      const productMatch = formula.match(/^PRODUCT\((.+)\)$/i);
-      if (productMatch) {
-        const values = await this.getValuesFromArgs(sheetId, productMatch[1]);
-        return values.length > 0 ? values.reduce((product, val) => product * val, 1) : 0;
-      }
+/**
+ * "Recalculate now": every formula in the sheet, whatever its calculation mode,
+ * then the formulas in other sheets reading it.
+ */
+export async function recalculateNow(sheetId: string, userId: string): Promise<RecalculatedCell[]> {
+  const permission = await getUserPermission(sheetId, userId);
+  if (permission === 'VIEWER') {
+    throw new AppError('Access denied. Edit permission required.', 403);
+  }
 
-      // Handle CONCAT function (concatenate text)
-      const concatMatch = formula.match(/^CONCAT\((.+)\)$/i);
-      if (concatMatch) {
-        const args = concatMatch[1].split(',').map(s => s.trim());
-        const parts: string[] = [];
-        for (const arg of args) {
-          // Check if it's a cell reference
-          const cellMatch = arg.match(/^([A-Z]+\d+)$/);
-          if (cellMatch) {
-            const parsed = this.parseCellRef(cellMatch[1]);
-            if (parsed) {
-              const value = await this.getCellValue(sheetId, parsed.columnIndex, parsed.rowIndex);
-              parts.push(value !== null ? value.toString() : '');
-            }
-          } else {
-            // It's a string literal - remove quotes if present
-            parts.push(arg.replace(/^["']|["']$/g, ''));
-          }
-        }
-        return parts.join('');
-      }
+  const grid = await SheetGrid.load(sheetId);
+  const changedCells = await recalculateCells(grid, grid.cells.filter((cell) => cell.formula));
+  await recalculateLinkedSheets(sheetId);
+  return changedCells;
+}
 
-      // Handle IF function - IF(condition, true_value, false_value)
-      // Simple format: IF(A1>10, "Yes", "No") or IF(A1>B1, A1, B1)
-      const ifMatch = formula.match(/^IF\((.+),(.+),(.+)\)$/i);
-      if (ifMatch) {
-        let condition = ifMatch[1].trim();
-        const trueVal = ifMatch[2].trim();
-        const falseVal = ifMatch[3].trim();
-
-        // Replace cell references in condition with values
-        const cellRefs = condition.match(/[A-Z]+\d+/g);
-        if (cellRefs) {
-          for (const ref of cellRefs) {
-            const parsed = this.parseCellRef(ref);
-            if (parsed) {
-              const value = await this.getCellValue(sheetId, parsed.columnIndex, parsed.rowIndex);
-              condition = condition.replace(ref, value !== null ? value.toString() : '0');
-            }
-          }
-        }
+/**
+ * Recalculate formulas in other sheets that read this one through {Sheet}!A1
+ * references, after its values changed (or it was deleted, or unshared). Sheets
+ * whose results changed pass the change on to the sheets reading them; each
+ * sheet is recalculated at most once, so sheets reading each other can't loop.
+ */
+export async function recalculateLinkedSheets(sheetId: string): Promise<void> {
+  const visited = new Set([sheetId]);
+  const queue = [sheetId];
+
+  while (queue.length > 0) {
+    const sourceId = queue.shift()!;
+    const readers = await prisma.cell.findMany({
+      where: { formula: { contains: `{#${sourceId}}` }, sheetId: { not: sourceId } },
+      select: { sheetId: true },
+      distinct: ['sheetId'],
+    });
 
-        // Evaluate condition (simple comparison operators)
-        let conditionResult = false;
-        try {
-          // This is a simple eval for the condition - only allows comparisons
-          if (/^[\d\s+\-*/(). <>!=]+$/.test(condition)) {
-            conditionResult = new Function('return ' + condition)();
-          }
-        } catch {
-          conditionResult = false;
-        }
+    for (const { sheetId: readerSheetId } of readers) {
+      if (visited.has(readerSheetId)) continue;
+      visited.add(readerSheetId);
+
+      const grid = await SheetGrid.load(readerSheetId);
+      // Sheets in manual mode pick the change up when they're recalculated
+      if (grid.calculationMode === 'MANUAL') continue;
+      const linkedCells = grid.cells.filter((cell) => cell.formula && referencedSheetIds(cell.formula).includes(sourceId));
+      const changed = await recalculateCells(grid, linkedCells);
+      const changedDependents = await recalculateDependents(grid, changed.map((cell) => cell.id));
+      if (changed.length > 0 || changedDependents.length > 0) {
+        queue.push(readerSheetId);
+      }
+    }
+  }
+}
 
-        // Get the true or false value
-        const resultVal = conditionResult ? trueVal : falseVal;
-
-        // Check if it's a cell reference
-        const cellMatch = resultVal.match(/^([A-Z]+\d+)$/);
-        if (cellMatch) {
-          const parsed = this.parseCellRef(cellMatch[1]);
-          if (parsed) {
-            const value = await this.getCellValue(sheetId, parsed.columnIndex, parsed.rowIndex);
-            return value !== null ? value : 0;
-          }
-        }
+// The cells a cell's formula reads and the formulas reading it, for formula
+// auditing - only direct ones unless `recursive`
+export async function getCellTrace(
+  sheetId: string,
+  cellId: string,
+  recursive: boolean,
+  userId: string
+): Promise<{ cell: TracedCell; precedents: TracedCell[]; dependents: TracedCell[] }> {
+  await getUserPermission(sheetId, userId);
+
+  const grid = await SheetGrid.load(sheetId);
+  const cell = tracedCell(grid, cellId, 0);
+  if (!cell) {
+    throw new AppError('Cell not found', 404);
+  }
 
-        // Otherwise return the literal value (remove quotes if present)
-        return resultVal.replace(/^["']|["']$/g, '');
-      }
+  return {
+    cell,
+    precedents: traceCell(grid, cellId, 'precedents', recursive),
+    dependents: traceCell(grid, cellId, 'dependents', recursive),
+  };
+}
 
-      // Handle basic arithmetic with cell references
-      // Replace cell references with values
-      let expression = formula;
-      const cellRefs = formula.match(/[A-Z]+\d+/g);
-
-      if (cellRefs) {
-        for (const ref of cellRefs) {
-          const parsed = this.parseCellRef(ref);
-          if (parsed) {
-            const value = await this.getCellValue(sheetId, parsed.columnIndex, parsed.rowIndex);
-            expression = expression.replace(ref, value !== null ? value.toString() : '0');
-          }
-        }
-      }
+// Where a cell addressed as "B2" in a what-if request is
+function whatIfPosition(grid: SheetGrid, address: string): FormulaPosition {
+  const reference = parseCellReference(address.trim());
+  if (!reference || !grid.isInSheet(reference.columnIndex, reference.rowIndex)) {
+    throw new AppError(`${address} is not a cell in this sheet`, 400);
+  }
+  return { columnIndex: reference.columnIndex, rowIndex: reference.rowIndex };
+}
 
-      // Evaluate the expression (basic math only)
-      // This is a simple eval alternative that only supports basic math
-      const result = this.evaluateMathExpression(expression);
-      return result;
-    } catch (error) {
-      console.error('Formula evaluation error:', error);
-      return null;
-    }
+// What-if targets are formulas...
+function whatIfTarget(grid: SheetGrid, address: string): Cell {
+  const { columnIndex, rowIndex } = whatIfPosition(grid, address);
+  const cell = grid.getCell(columnIndex, rowIndex);
+  if (!cell?.formula) {
+    throw new AppError(`The target cell ${address} doesn't hold a formula`, 400);
+  }
+  return cell;
+}
+
+// ...and inputs are values (or empty cells) the formulas read
+function whatIfInput(grid: SheetGrid, address: string): FormulaPosition {
+  const position = whatIfPosition(grid, address);
+  if (grid.getCell(position.columnIndex, position.rowIndex)?.formula) {
+    throw new AppError(`The input cell ${address} holds a formula; it has to hold a value`, 400);
   }
+  return position;
+}
 
-  // Safe math expression evaluator
-  private static evaluateMathExpression(expr: string): number | null {
-    try {
-      // Remove all spaces
-      expr = expr.replace(/\s/g, '');
+/**
+ * Goal seek: the value of the input cell (e.g. a discount) that makes the
+ * target formula (e.g. a margin) give the desired value. The sheet isn't
+ * changed - whoever asked decides whether to enter the value.
+ */
+export async function seekGoal(
+  sheetId: string,
+  targetCell: string,
+  desiredValue: number,
+  inputCell: string,
+  userId: string
+): Promise<GoalSeekResult> {
+  await getUserPermission(sheetId, userId);
+
+  const grid = await SheetGrid.load(sheetId);
+  return goalSeek(grid, whatIfTarget(grid, targetCell), whatIfInput(grid, inputCell), desiredValue);
+}
 
-      // Validate that expression only contains numbers and operators
-      if (!/^[\d+\-*/(). ]+$/.test(expr)) {
-        return null;
-      }
+/**
+ * A what-if data table: the target formulas evaluated with each of the row
+ * input's values in its cell, one row per value and a column per target. With
+ * a column input too (a two-variable table) there's one target, and a column per
+ * column input value. The sheet isn't changed.
+ */
+export async function computeDataTable(
+  sheetId: string,
+  targetCells: string[],
+  rowInput: { cell: string; values: number[] },
+  columnInput: { cell: string; values: number[] } | undefined,
+  userId: string
+): Promise<ScalarValue[][]> {
+  await getUserPermission(sheetId, userId);
+
+  if (columnInput && targetCells.length !== 1) {
+    throw new AppError('A two-variable data table has exactly one target cell', 400);
+  }
+  const columnCount = columnInput ? columnInput.values.length : targetCells.length;
+  if (rowInput.values.length * columnCount > MAX_DATA_TABLE_RESULTS) {
+    throw new AppError(`A data table can compute at most ${MAX_DATA_TABLE_RESULTS} results`, 400);
+  }
 
-      // Use Function constructor instead of eval for safety
-      const result = new Function('return ' + expr)();
-      return typeof result === 'number' && !isNaN(result) ? result : null;
-    } catch {
-      return null;
-    }
+  const grid = await SheetGrid.load(sheetId);
+  const targets = targetCells.map((address) => whatIfTarget(grid, address));
+  const rowPosition = whatIfInput(grid, rowInput.cell);
+  const columnPosition = columnInput && whatIfInput(grid, columnInput.cell);
+  if (
+    columnPosition &&
+    columnPosition.columnIndex === rowPosition.columnIndex &&
+    columnPosition.rowIndex === rowPosition.rowIndex
+  ) {
+    throw new AppError('The row and column input cells have to be different cells', 400);
   }
+
+  return dataTable(
+    grid,
+    targets,
+    { ...rowPosition, values: rowInput.values },
+    columnInput && columnPosition ? { ...columnPosition, values: columnInput.values } : undefined
+  );
 }
 
 // Update cell value with formula evaluation
@@ -308,11 +401,12 @@ export async function updateCellWithFormula(
   sheetId: string,
   cellId: string,
   value: string
-): Promise<{ value: string; computedValue?: number | string | null }> {
+): Promise<{ value: string; computedValue?: FormulaResult }> {
   const isFormula = value.trim().startsWith('=');
 
   if (isFormula) {
-    const computedValue = await FormulaEngine.evaluate(sheetId, value);
+    const grid = await SheetGrid.load(sheetId);
+    const computedValue = await FormulaEngine.evaluate(grid, value, cellId);
     return {
       value, // Store the formula
       computedValue,
@@ -0,0 +1,79 @@
+import axios from 'axios';
+import { readFile } from 'fs/promises';
+import type { StockQuote } from '../../../shared/formula-engine';
+
+/**
+ * Where stock formulas get their quotes from. Resolves to null for symbols the
+ * provider doesn't know, and rejects when it can't be reached.
+ */
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<StockQuote | null>;
+}
+
+// Alpha Vantage's GLOBAL_QUOTE endpoint (free tier: 25 requests/day)
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl = 'https://www.alphavantage.co/query'
+  ) {}
+
+  async getQuote(symbol: string): Promise<StockQuote | null> {
+    const response = await axios.get(this.baseUrl, {
+      params: {
+        function: 'GLOBAL_QUOTE',
+        symbol,
+        apikey: this.apiKey,
+      },
+      timeout: 5000,
+    });
+
+    // Rate limits come back as a 200 with a note instead of a quote
+    const limited = response.data['Note'] || response.data['Information'];
+    if (limited) {
+      throw new Error(`Alpha Vantage: ${limited}`);
+    }
+
+    const quote = response.data['Global Quote'];
+    if (!quote || !quote['05. price']) {
+      return null;
+    }
+
+    return {
+      symbol,
+      price: parseFloat(quote['05. price']),
+      change: parseFloat(quote['09. change'] || '0'),
+      changePercent: parseFloat(quote['10. change percent']?.replace('%', '') || '0'),
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Quotes read from a local JSON file, for development and tests:
+ * { "AAPL": { "price": 189.5, "change": 1.2, "changePercent": 0.64, "timestamp": "..." } }
+ * The file is read on every lookup, so edits show up at the next refresh.
+ */
+export class FileMarketDataProvider implements MarketDataProvider {
+  readonly name = 'file';
+
+  constructor(private readonly path: string) {}
+
+  async getQuote(symbol: string): Promise<StockQuote | null> {
+    const quotes = JSON.parse(await readFile(this.path, 'utf8'));
+    const quote = quotes[symbol];
+    if (!quote || typeof quote.price !== 'number') {
+      return null;
+    }
+
+    return {
+      symbol,
+      price: quote.price,
+      change: quote.change ?? 0,
+      changePercent: quote.changePercent ?? 0,
+      timestamp: quote.timestamp ?? new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { getUserPermission } from './permission.service';
+import { SheetGrid, recalculateCellsWithDependents, recalculateLinkedSheets } from './formula.service';
+import { invalidNameReason, parseRangeText, renameInFormula, usesName } from '../../../shared/formula-engine';
+
+export interface NamedRangeInput {
+  name?: string;
+  range?: string;
+}
+
+async function requireEditPermission(sheetId: string, userId: string) {
+  const permission = await getUserPermission(sheetId, userId);
+  if (permission === 'VIEWER') {
+    throw new AppError('Access denied. Edit permission required.', 403);
+  }
+}
+
+async function findNamedRange(id: string) {
+  const namedRange = await prisma.namedRange.findUnique({ where: { id } });
+  if (!namedRange) {
+    throw new AppError('Named range not found', 404);
+  }
+  return namedRange;
+}
+
+// Check a name is valid and not taken in the sheet (names are case-insensitive in formulas)
+async function validateName(sheetId: string, name: string, excludeId?: string) {
+  const reason = invalidNameReason(name);
+  if (reason) {
+    throw new AppError(reason, 400);
+  }
+
+  const existing = await prisma.namedRange.findFirst({
+    where: { sheetId, name: { equals: name, mode: 'insensitive' }, id: excludeId ? { not: excludeId } : undefined },
+  });
+  if (existing) {
+    throw new AppError(`The name "${existing.name}" is already used in this sheet`, 409);
+  }
+}
+
+// Ranges are stored upper-cased ("b2:b10" becomes "B2:B10")
+function normalizeRange(range: string): string {
+  if (!parseRangeText(range)) {
+    throw new AppError('Range must be a cell or range such as B2 or C2:C20', 400);
+  }
+  return range.replace(/\s+/g, '').toUpperCase();
+}
+
+// Formulas that use a name are recalculated whenever it's defined, changed or
+// removed, along with the formulas that depend on them
+async function recalculateFormulas(sheetId: string, names: string[]) {
+  const grid = await SheetGrid.load(sheetId);
+  const usingNames = grid.cells.filter((cell) => cell.formula && names.some((name) => usesName(cell.formula!, name)));
+  await recalculateCellsWithDependents(grid, usingNames.map((cell) => cell.id));
+  await recalculateLinkedSheets(sheetId);
+}
+
+export async function getNamedRanges(sheetId: string, userId: string) {
+  await getUserPermission(sheetId, userId);
+
+  return prisma.namedRange.findMany({
+    where: { sheetId },
+    orderBy: { name: 'asc' },
+  });
+}
+
+// Range text a name stands for in the sheet, or null if it isn't defined there
+export async function lookupNamedRange(sheetId: string, name: string): Promise<string | null> {
+  const namedRange = await prisma.namedRange.findFirst({
+    where: { sheetId, name: { equals: name.trim(), mode: 'insensitive' } },
+  });
+  return namedRange?.range ?? null;
+}
+
+export async function createNamedRange(sheetId: string, input: Required<NamedRangeInput>, userId: string) {
+  await requireEditPermission(sheetId, userId);
+  await validateName(sheetId, input.name);
+
+  const namedRange = await prisma.namedRange.create({
+    data: {
+      sheetId,
+      name: input.name,
+      range: normalizeRange(input.range),
+    },
+  });
+
+  await recalculateFormulas(sheetId, [namedRange.name]);
+  return namedRange;
+}
+
+export async function updateNamedRange(id: string, input: NamedRangeInput, userId: string) {
+  const namedRange = await findNamedRange(id);
+  await requireEditPermission(namedRange.sheetId, userId);
+
+  const renamed = input.name !== undefined && input.name !== namedRange.name;
+  if (renamed) {
+    await validateName(namedRange.sheetId, input.name!, id);
+  }
+
+  const updated = await prisma.namedRange.update({
+    where: { id },
+    data: {
+      name: input.name,
+      range: input.range !== undefined ? normalizeRange(input.range) : undefined,
+    },
+  });
+
+  // Formulas keep working under the new name
+  if (renamed) {
+    const formulaCells = await prisma.cell.findMany({
+      where: { sheetId: namedRange.sheetId, formula: { contains: namedRange.name, mode: 'insensitive' } },
+      select: { id: true, formula: true },
+    });
+    const updates = formulaCells
+      .map((cell) => ({ id: cell.id, formula: renameInFormula(cell.formula!, namedRange.name, updated.name) }))
+      .filter((cell, index) => cell.formula !== formulaCells[index].formula)
+      .map((cell) => prisma.cell.update({ where: { id: cell.id }, data: { formula: cell.formula } }));
+    if (updates.length > 0) {
+      await prisma.$transaction(updates);
+    }
+  }
+
+  // Formulas already typed with the new name stop showing #NAME? too
+  await recalculateFormulas(namedRange.sheetId, [namedRange.name, updated.name]);
+  return updated;
+}
+
+export async function deleteNamedRange(id: string, userId: string) {
+  const namedRange = await findNamedRange(id);
+  await requireEditPermission(namedRange.sheetId, userId);
+
+  await prisma.namedRange.delete({ where: { id } });
+
+  // Formulas using the name now show #NAME?
+  await recalculateFormulas(namedRange.sheetId, [namedRange.name]);
+  return namedRange;
+}
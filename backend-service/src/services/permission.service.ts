@@ -0,0 +1,40 @@
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+export type SheetPermission = 'OWNER' | 'EDIT' | 'EDIT_CAN_SHARE' | 'VIEWER';
+
+// Get a user's permission for a sheet: 404 if the sheet doesn't exist, 403 if the user can't see it
+export async function getUserPermission(sheetId: string, userId: string): Promise<SheetPermission> {
+  const sheet = await prisma.sheet.findUnique({
+    where: { id: sheetId },
+    include: {
+      shares: true,
+    },
+  });
+
+  if (!sheet) {
+    throw new AppError('Sheet not found', 404);
+  }
+
+  // Get user's email to check shares
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  // Check if user is owner or has access via share
+  const isOwner = sheet.userId === userId;
+  if (isOwner) {
+    return 'OWNER';
+  }
+
+  const sharedAccess = sheet.shares.find((share) => share.sharedWithEmail === user.email);
+  if (!sharedAccess) {
+    throw new AppError('Access denied', 403);
+  }
+
+  return sharedAccess.permission;
+}
@@ -1,5 +1,6 @@
 import prisma from '../config/database';
 import type { Column, Row, Cell } from '@prisma/client';
+import { lookupNamedRange } from './namedRange.service';
 
 interface PivotTableInput {
   sheetId: string;
@@ -122,7 +123,9 @@ export async function computePivotTableData(pivotTableId: string) {
     throw new Error('Pivot table not found');
   }
 
-  const range = parseRange(pivotTable.sourceRange);
+  // The source is an A1 range or the name of one defined in the sheet
+  const namedRange = await lookupNamedRange(pivotTable.sheetId, pivotTable.sourceRange);
+  const range = parseRange((namedRange ?? pivotTable.sourceRange).replace(/\$/g, ''));
   if (!range) {
     throw new Error('Invalid source range');
   }
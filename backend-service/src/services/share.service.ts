@@ -1,5 +1,6 @@
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { recalculateLinkedSheets } from './formula.service';
 
 interface ShareSheetInput {
   sheetId: string;
@@ -79,6 +80,9 @@ export async function shareSheet(input: ShareSheetInput) {
     },
   });
 
+  // Formulas by the new collaborator that read this sheet no longer show #NOACCESS
+  await recalculateLinkedSheets(sheetId);
+
   return share;
 }
 
@@ -141,5 +145,8 @@ export async function removeShare(shareId: string, userId: string) {
     where: { id: shareId },
   });
 
+  // Formulas by the removed collaborator that read this sheet now show #NOACCESS
+  await recalculateLinkedSheets(share.sheetId);
+
   return { success: true };
 }
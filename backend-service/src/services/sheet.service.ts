@@ -1,6 +1,31 @@
 import prisma from '../config/database';
+import type { CalculationMode, DataValidation, Prisma } from '@prisma/client';
 import { AppError } from '../middleware/errorHandler';
-import { FormulaEngine } from './formula.service';
+import { logger } from '../config/logger';
+import {
+  FormulaEngine,
+  SheetGrid,
+  recalculateCellsWithDependents,
+  recalculateDependents,
+  recalculateLinkedSheets,
+  recalculateSheet,
+  RecalculatedCell,
+} from './formula.service';
+import { getUserPermission } from './permission.service';
+import {
+  dependentsInOrder,
+  displayColumnReferences,
+  displaySheetReferences,
+  NamedItem,
+  parseRangeText,
+  referencedSheetIds,
+  referenceNames,
+  rewriteFormulaReferences,
+  rewriteRangeText,
+  storeColumnReferences,
+  storeSheetReferences,
+  StructuralEdit,
+} from '../../../shared/formula-engine';
 import crypto from 'crypto';
 
 interface CreateSheetInput {
@@ -15,6 +40,7 @@ interface CreateSheetInput {
 interface UpdateSheetInput {
   name?: string;
   description?: string;
+  calculationMode?: CalculationMode;
 }
 
 interface CreateColumnInput {
@@ -154,6 +180,7 @@ export async function getSheetById(id: string, userId: string) {
         },
       },
       shares: true,
+      namedRanges: true,
     },
   });
 
@@ -178,28 +205,34 @@ export async function getSheetById(id: string, userId: string) {
     throw new AppError('Access denied', 403);
   }
 
-  // Evaluate formulas for all cells
-  const rowsWithComputedValues = await Promise.all(
-    sheet.rows.map(async (row) => {
-      const cellsWithComputed = await Promise.all(
-        row.cells.map(async (cell) => {
-          if (cell.value) {
-            try {
-              const parsedValue = JSON.parse(cell.value);
-              if (typeof parsedValue === 'string' && parsedValue.trim().startsWith('=')) {
-                const computedValue = await FormulaEngine.evaluate(id, parsedValue);
-                return { ...cell, computedValue };
-              }
-            } catch (error) {
-              // If parsing fails, just return the cell as is
-            }
-          }
-          return cell;
-        })
-      );
-      return { ...row, cells: cellsWithComputed };
-    })
+  // Formula results are kept current by incremental recalculation on every
+  // edit, so the stored computed values are returned as-is. Formulas are shown
+  // with current column and sheet names in place of the stored ids.
+  const cells = sheet.rows.flatMap((row) => row.cells);
+  const referencedSheets = await getReferencedSheets(cells.map((cell) => cell.formula));
+  const unreadable = referencedSheets.filter(
+    (linked) => linked.userId !== userId && !linked.shares.some((share) => share.sharedWithEmail === user.email)
   );
+  const hidden = cellsReadingSheets(
+    () => new SheetGrid(sheet.id, sheet.columns, sheet.rows, cells, sheet.namedRanges),
+    unreadable
+  );
+  const rowsWithComputedValues = sheet.rows.map((row) => ({
+    ...row,
+    cells: row.cells.map((cell) => {
+      if (!cell.formula) return cell;
+      const formula = displayFormula(cell.formula, sheet.columns, referencedSheets);
+      if (hidden.has(cell.id)) return { ...cell, formula, computedValue: '#NOACCESS' };
+      if (cell.computedValue) {
+        try {
+          return { ...cell, formula, computedValue: JSON.parse(cell.computedValue) };
+        } catch (error) {
+          // If parsing fails, just return the cell as is
+        }
+      }
+      return { ...cell, formula };
+    }),
+  }));
 
   // Check if this sheet is favorited by the user
   const userFavorite = await prisma.userFavorite.findUnique({
@@ -322,10 +355,18 @@ export async function updateSheet(id: string, data: UpdateSheetInput, userId: st
     throw new AppError('Access denied', 403);
   }
 
-  return await prisma.sheet.update({
+  const updatedSheet = await prisma.sheet.update({
     where: { id },
     data,
   });
+
+  // Back in automatic mode, catch up on whatever changed while it was manual
+  if (sheet.calculationMode === 'MANUAL' && updatedSheet.calculationMode === 'AUTOMATIC') {
+    await recalculateSheet(await SheetGrid.load(id));
+    await recalculateLinkedSheets(id);
+  }
+
+  return updatedSheet;
 }
 
 export async function toggleFavorite(id: string, userId: string) {
@@ -394,9 +435,14 @@ export async function deleteSheet(id: string, userId: string) {
     throw new AppError('Access denied', 403);
   }
 
-  return await prisma.sheet.delete({
+  const deletedSheet = await prisma.sheet.delete({
     where: { id },
   });
+
+  // Formulas in other sheets that read this one now show #REF!
+  await recalculateLinkedSheets(id);
+
+  return deletedSheet;
 }
 
 export async function createColumn(sheetId: string, data: CreateColumnInput, userId: string) {
@@ -427,6 +473,11 @@ export async function createColumn(sheetId: string, data: CreateColumnInput, use
     throw new AppError('Access denied. Edit permission required.', 403);
   }
 
+  // Grid index the new column takes; references at or after it move right
+  const columnIndex = sheet.columns.filter((column) => column.position < data.position).length;
+  const edit: StructuralEdit = { axis: 'column', kind: 'insert', index: columnIndex, count: 1 };
+  const before = await SheetGrid.load(sheetId);
+
   // Shift positions of existing columns at or after the insertion position
   // Must update in reverse order (highest position first) to avoid unique constraint violations
   const columnsToShift = await prisma.column.findMany({
@@ -441,40 +492,34 @@ export async function createColumn(sheetId: string, data: CreateColumnInput, use
     },
   });
 
-  // Update each column's position one at a time in reverse order
-  for (const columnToShift of columnsToShift) {
-    await prisma.column.update({
-      where: { id: columnToShift.id },
-      data: { position: columnToShift.position + 1 },
-    });
-  }
-
-  // Create the column at the specified position
-  const column = await prisma.column.create({
-    data: {
-      sheetId,
-      name: data.name,
-      type: data.type as any,
-      position: data.position,
-      width: data.width,
-    },
-  });
-
-  // Create cells for all existing rows
-  const cellsData = sheet.rows.map((row) => ({
-    sheetId,
-    rowId: row.id,
-    columnId: column.id,
-    value: null,
-  }));
+  // The column goes in, and references move right, together or not at all
+  await prisma.$transaction([
+    // Update each column's position one at a time in reverse order
+    ...columnsToShift.map((columnToShift) =>
+      prisma.column.update({
+        where: { id: columnToShift.id },
+        data: { position: columnToShift.position + 1 },
+      })
+    ),
+    // Create the column at the specified position, with cells for all existing rows
+    prisma.column.create({
+      data: {
+        sheetId,
+        name: data.name,
+        type: data.type as any,
+        position: data.position,
+        width: data.width,
+        cells: { create: sheet.rows.map((row) => ({ sheetId, rowId: row.id, value: null })) },
+      },
+    }),
+    ...(await referenceUpdates(sheetId, edit)),
+  ]);
 
-  if (cellsData.length > 0) {
-    await prisma.cell.createMany({
-      data: cellsData,
-    });
-  }
+  await recalculateAfterEdit(before, edit);
 
-  return column;
+  return await prisma.column.findUniqueOrThrow({
+    where: { sheetId_position: { sheetId, position: data.position } },
+  });
 }
 
 export async function createRow(sheetId: string, data: CreateRowInput, userId: string) {
@@ -505,6 +550,11 @@ export async function createRow(sheetId: string, data: CreateRowInput, userId: s
     throw new AppError('Access denied. Edit permission required.', 403);
   }
 
+  // Grid index the new row takes; references at or after it move down
+  const rowIndex = sheet.rows.filter((row) => row.position < data.position).length;
+  const edit: StructuralEdit = { axis: 'row', kind: 'insert', index: rowIndex, count: 1 };
+  const before = await SheetGrid.load(sheetId);
+
   // Shift positions of existing rows at or after the insertion position
   // Must update in reverse order (highest position first) to avoid unique constraint violations
   const rowsToShift = await prisma.row.findMany({
@@ -519,39 +569,31 @@ export async function createRow(sheetId: string, data: CreateRowInput, userId: s
     },
   });
 
-  // Update each row's position one at a time in reverse order
-  for (const rowToShift of rowsToShift) {
-    await prisma.row.update({
-      where: { id: rowToShift.id },
-      data: { position: rowToShift.position + 1 },
-    });
-  }
-
-  // Create row at the specified position
-  const row = await prisma.row.create({
-    data: {
-      sheetId,
-      position: data.position,
-      height: data.height,
-    },
-  });
-
-  // Create empty cells for all columns
-  const cellsData = sheet.columns.map((column) => ({
-    sheetId,
-    rowId: row.id,
-    columnId: column.id,
-    value: null,
-  }));
+  // The row goes in, and references move down, together or not at all
+  await prisma.$transaction([
+    // Update each row's position one at a time in reverse order
+    ...rowsToShift.map((rowToShift) =>
+      prisma.row.update({
+        where: { id: rowToShift.id },
+        data: { position: rowToShift.position + 1 },
+      })
+    ),
+    // Create row at the specified position, with empty cells for all columns
+    prisma.row.create({
+      data: {
+        sheetId,
+        position: data.position,
+        height: data.height,
+        cells: { create: sheet.columns.map((column) => ({ sheetId, columnId: column.id, value: null })) },
+      },
+    }),
+    ...(await referenceUpdates(sheetId, edit)),
+  ]);
 
-  if (cellsData.length > 0) {
-    await prisma.cell.createMany({
-      data: cellsData,
-    });
-  }
+  await recalculateAfterEdit(before, edit);
 
   return await prisma.row.findUnique({
-    where: { id: row.id },
+    where: { sheetId_position: { sheetId, position: data.position } },
     include: { cells: true },
   });
 }
@@ -640,7 +682,7 @@ export async function deleteColumn(sheetId: string, columnId: string, userId: st
   // Check if sheet exists and user has access
   const sheet = await prisma.sheet.findUnique({
     where: { id: sheetId },
-    include: { shares: true },
+    include: { shares: true, columns: { orderBy: { position: 'asc' } } },
   });
 
   if (!sheet) {
@@ -664,22 +706,32 @@ export async function deleteColumn(sheetId: string, columnId: string, userId: st
     throw new AppError('Access denied. Edit permission required.', 403);
   }
 
-  // Delete all cells in this column first (cascade should handle this, but being explicit)
-  await prisma.cell.deleteMany({
-    where: { columnId },
-  });
+  const columnIndex = sheet.columns.findIndex((column) => column.id === columnId);
+  const edit: StructuralEdit = { axis: 'column', kind: 'delete', index: columnIndex, count: 1, columnIds: [columnId] };
+  const before = await SheetGrid.load(sheetId);
 
-  // Delete the column
-  return await prisma.column.delete({
-    where: { id: columnId },
-  });
+  const [, deletedColumn] = await prisma.$transaction([
+    // Delete all cells in this column first (cascade should handle this, but being explicit)
+    prisma.cell.deleteMany({
+      where: { columnId },
+    }),
+    prisma.column.delete({
+      where: { id: columnId },
+    }),
+    // References to the deleted column become #REF!, references past it move left
+    ...(columnIndex >= 0 ? await referenceUpdates(sheetId, edit) : []),
+  ]);
+
+  await recalculateAfterEdit(before, edit);
+
+  return deletedColumn;
 }
 
 export async function deleteRow(sheetId: string, rowId: string, userId: string) {
   // Check if sheet exists and user has access
   const sheet = await prisma.sheet.findUnique({
     where: { id: sheetId },
-    include: { shares: true },
+    include: { shares: true, rows: { orderBy: { position: 'asc' } } },
   });
 
   if (!sheet) {
@@ -703,15 +755,152 @@ export async function deleteRow(sheetId: string, rowId: string, userId: string)
     throw new AppError('Access denied. Edit permission required.', 403);
   }
 
-  // Delete all cells in this row first (cascade should handle this, but being explicit)
-  await prisma.cell.deleteMany({
-    where: { rowId },
-  });
+  const rowIndex = sheet.rows.findIndex((row) => row.id === rowId);
+  const edit: StructuralEdit = { axis: 'row', kind: 'delete', index: rowIndex, count: 1 };
+  const before = await SheetGrid.load(sheetId);
 
-  // Delete the row
-  return await prisma.row.delete({
-    where: { id: rowId },
-  });
+  const [, deletedRow] = await prisma.$transaction([
+    // Delete all cells in this row first (cascade should handle this, but being explicit)
+    prisma.cell.deleteMany({
+      where: { rowId },
+    }),
+    prisma.row.delete({
+      where: { id: rowId },
+    }),
+    // References to the deleted row become #REF!, references below it move up
+    ...(rowIndex >= 0 ? await referenceUpdates(sheetId, edit) : []),
+  ]);
+
+  await recalculateAfterEdit(before, edit);
+
+  return deletedRow;
+}
+
+/**
+ * Recalculate what a structural edit can change, given the grid from before it:
+ * formulas reading cells that moved or were removed (worked out before the
+ * edit, while those cells are still there), formulas that moved themselves or
+ * had their references rewritten, and everything that depends on them. Then
+ * the formulas in other sheets that read this one.
+ */
+async function recalculateAfterEdit(before: SheetGrid, edit: StructuralEdit) {
+  const after = await SheetGrid.load(before.sheetId);
+
+  // Cells at or past the edit, which it moves (or removes, or adds)
+  const shiftedIds = (grid: SheetGrid) =>
+    grid.cells
+      .filter((cell) => {
+        const position = grid.positionOf(cell);
+        return position && (edit.axis === 'row' ? position.rowIndex : position.columnIndex) >= edit.index;
+      })
+      .map((cell) => cell.id);
+
+  const shiftedBefore = shiftedIds(before);
+  const staleIds = new Set([
+    ...shiftedBefore,
+    ...dependentsInOrder(before, shiftedBefore).map((cell) => cell.id),
+    ...shiftedIds(after),
+    ...after.cells.filter((cell) => cell.formula !== before.getCellById(cell.id)?.formula).map((cell) => cell.id),
+  ]);
+
+  await recalculateCellsWithDependents(after, [...staleIds].filter((cellId) => after.getCellById(cellId)));
+  await recalculateLinkedSheets(before.sheetId);
+}
+
+/**
+ * The writes that rewrite stored references after rows or columns are inserted
+ * into or deleted from a sheet, so they keep pointing at the same data: the
+ * sheet's formulas, formulas in other sheets that read it, and the ranges of
+ * its conditional formats, data validations, charts and pivot tables. They're
+ * returned unsent, to go in the same transaction as the edit. Rows and columns
+ * can't be moved, only inserted and deleted, so those are the edits handled.
+ */
+async function referenceUpdates(sheetId: string, edit: StructuralEdit): Promise<Prisma.PrismaPromise<unknown>[]> {
+  const [formulaCells, conditionalFormats, dataValidations, charts, pivotTables, namedRanges] = await Promise.all([
+    prisma.cell.findMany({
+      where: {
+        OR: [
+          { sheetId, formula: { not: null } },
+          { sheetId: { not: sheetId }, formula: { contains: `{#${sheetId}}` } },
+        ],
+      },
+      select: { id: true, sheetId: true, formula: true },
+    }),
+    prisma.conditionalFormat.findMany({ where: { sheetId } }),
+    prisma.dataValidation.findMany({ where: { sheetId } }),
+    prisma.chart.findMany({ where: { sheetId } }),
+    prisma.pivotTable.findMany({ where: { sheetId } }),
+    prisma.namedRange.findMany({ where: { sheetId } }),
+  ]);
+
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
+
+  for (const cell of formulaCells) {
+    // Plain references only point into the edited sheet from its own formulas
+    const formula = rewriteFormulaReferences(
+      cell.formula!,
+      edit,
+      (sheet) => sheet === `#${sheetId}` || (sheet === null && cell.sheetId === sheetId)
+    );
+    if (formula !== cell.formula) {
+      updates.push(prisma.cell.update({ where: { id: cell.id }, data: { formula } }));
+    }
+  }
+
+  for (const format of conditionalFormats) {
+    const range = rewriteRangeText(format.range, edit);
+    if (range !== format.range) {
+      updates.push(prisma.conditionalFormat.update({ where: { id: format.id }, data: { range } }));
+    }
+  }
+
+  for (const validation of dataValidations) {
+    const range = rewriteRangeText(validation.range, edit);
+    const criteria = rewriteListSource(validation, edit);
+    if (range !== validation.range || criteria !== validation.criteria) {
+      updates.push(prisma.dataValidation.update({ where: { id: validation.id }, data: { range, criteria } }));
+    }
+  }
+
+  for (const chart of charts) {
+    const dataRange = rewriteRangeText(chart.dataRange, edit);
+    const labelRange = chart.labelRange ? rewriteRangeText(chart.labelRange, edit) : chart.labelRange;
+    if (dataRange !== chart.dataRange || labelRange !== chart.labelRange) {
+      updates.push(prisma.chart.update({ where: { id: chart.id }, data: { dataRange, labelRange } }));
+    }
+  }
+
+  for (const pivotTable of pivotTables) {
+    const sourceRange = rewriteRangeText(pivotTable.sourceRange, edit);
+    if (sourceRange !== pivotTable.sourceRange) {
+      updates.push(prisma.pivotTable.update({ where: { id: pivotTable.id }, data: { sourceRange } }));
+    }
+  }
+
+  for (const namedRange of namedRanges) {
+    const range = rewriteRangeText(namedRange.range, edit);
+    if (range !== namedRange.range) {
+      updates.push(prisma.namedRange.update({ where: { id: namedRange.id }, data: { range } }));
+    }
+  }
+
+  return updates;
+}
+
+// List validations can take their options from a range in the sheet ("source": "A2:A10"),
+// which moves with the edit like the validated range does. Named sources are left alone.
+function rewriteListSource(validation: Pick<DataValidation, 'type' | 'criteria'>, edit: StructuralEdit): string {
+  if (validation.type !== 'LIST') return validation.criteria;
+  let criteria;
+  try {
+    criteria = JSON.parse(validation.criteria);
+  } catch {
+    return validation.criteria;
+  }
+  if (typeof criteria.source !== 'string' || !parseRangeText(criteria.source)) return validation.criteria;
+
+  const source = rewriteRangeText(criteria.source, edit);
+  return source === criteria.source ? validation.criteria : JSON.stringify({ ...criteria, source });
 }
 
 export async function updateCell(
@@ -776,16 +965,25 @@ export async function updateCell(
   // Store the value (formula or plain value)
   const stringValue = data.value !== null && data.value !== undefined ? data.value.toString() : null;
 
+  // Load the grid once; it serves both this cell's formula and the dependents recalculated below
+  const grid = data.value !== undefined ? await SheetGrid.load(cell.sheetId) : null;
+
   // Check if it's a formula and evaluate it
   let computedValue = null;
   let formula = null;
-  if (stringValue && stringValue.trim().startsWith('=')) {
-    formula = stringValue;
+  if (grid && stringValue && stringValue.trim().startsWith('=')) {
+    // [Column] and {Sheet} references are stored by id so they survive renames
+    formula = storeColumnReferences(stringValue, grid.columns);
+    if (referenceNames(formula, 'sheet').length > 0) {
+      formula = storeSheetReferences(formula, await getReadableSheets(userId, user.email));
+    }
+    // Evaluate as the new formula's author: other sheets are read with their permissions
+    grid.setCell({ ...cell, formula, formulaAuthorId: userId });
     try {
-      const result = await FormulaEngine.evaluate(cell.sheetId, stringValue);
+      const result = await FormulaEngine.evaluate(grid, formula, cellId);
       computedValue = result !== null ? JSON.stringify(result) : null;
     } catch (error) {
-      console.error('Formula evaluation error:', error);
+      logger.error(`Formula evaluation error in "${formula}":`, error);
       // Store the formula anyway, but set computed value to error
       computedValue = JSON.stringify('#ERROR!');
     }
@@ -796,6 +994,7 @@ export async function updateCell(
     data: {
       value: stringValue !== null && !formula ? JSON.stringify(stringValue) : null,
       formula: formula,
+      formulaAuthorId: formula ? userId : null,
       computedValue: computedValue,
       // Cell formatting fields
       textColor: data.textColor,
@@ -820,10 +1019,26 @@ export async function updateCell(
     },
   });
 
+  // Recalculate only the formulas that read this cell, so the client can patch them in place
+  let changedCells: RecalculatedCell[] = [];
+  if (grid) {
+    grid.setCell(updatedCell);
+    changedCells = await recalculateDependents(grid, [cellId]);
+    // Formulas in other sheets may read this one
+    await recalculateLinkedSheets(cell.sheetId);
+  }
+
   // Return the cell with computed value if it's a formula
   return {
-    ...updatedCell,
-    computedValue: computedValue !== null ? JSON.parse(computedValue) : undefined,
+    cell: {
+      ...updatedCell,
+      formula:
+        updatedCell.formula && grid
+          ? displayFormula(updatedCell.formula, grid.columns, await getReferencedSheets([updatedCell.formula]))
+          : updatedCell.formula,
+      computedValue: computedValue !== null ? JSON.parse(computedValue) : undefined,
+    },
+    changedCells,
   };
 }
 
@@ -859,40 +1074,48 @@ export async function exportSheetToCSV(sheetId: string, userId: string): Promise
   return csv;
 }
 
-// Helper function to get user's permission for a sheet
-async function getUserPermission(sheetId: string, userId: string): Promise<'OWNER' | 'EDIT' | 'EDIT_CAN_SHARE' | 'VIEWER'> {
-  const sheet = await prisma.sheet.findUnique({
-    where: { id: sheetId },
-    include: {
-      shares: true,
-    },
+// Sheets a user can read, for resolving {Sheet}!A1 references in formulas they write
+async function getReadableSheets(userId: string, email: string): Promise<NamedItem[]> {
+  return prisma.sheet.findMany({
+    where: { OR: [{ userId }, { shares: { some: { sharedWithEmail: email } } }] },
+    select: { id: true, name: true },
   });
+}
 
-  if (!sheet) {
-    throw new AppError('Sheet not found', 404);
-  }
+interface ReferencedSheet extends NamedItem {
+  userId: string;
+  shareToken: string | null;
+  shares: { sharedWithEmail: string }[];
+}
 
-  // Get user's email to check shares
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
+// Sheets named by {Sheet}!A1 references in these formulas, so their current names
+// can be shown, along with who may read them
+async function getReferencedSheets(formulas: (string | null)[]): Promise<ReferencedSheet[]> {
+  const sheetIds = new Set(formulas.flatMap((formula) => (formula ? referencedSheetIds(formula) : [])));
+  if (sheetIds.size === 0) return [];
+  return prisma.sheet.findMany({
+    where: { id: { in: Array.from(sheetIds) } },
+    select: { id: true, name: true, userId: true, shareToken: true, shares: { select: { sharedWithEmail: true } } },
   });
+}
 
-  if (!user) {
-    throw new AppError('User not found', 404);
-  }
-
-  // Check if user is owner or has access via share
-  const isOwner = sheet.userId === userId;
-  if (isOwner) {
-    return 'OWNER';
-  }
-
-  const sharedAccess = sheet.shares.find((share) => share.sharedWithEmail === user.email);
-  if (!sharedAccess) {
-    throw new AppError('Access denied', 403);
-  }
+// Formula cells whose results come from the given sheets: the ones reading them
+// and every formula that depends on those. Linked values are computed with the
+// formula author's access, so they're hidden from viewers who can't open those
+// sheets themselves. The grid is only built when there's something to hide.
+function cellsReadingSheets(loadGrid: () => SheetGrid, sheets: NamedItem[]): Set<string> {
+  if (sheets.length === 0) return new Set();
+  const sheetIds = new Set(sheets.map((linked) => linked.id));
+  const grid = loadGrid();
+  const reading = grid.cells
+    .filter((cell) => cell.formula && referencedSheetIds(cell.formula).some((id) => sheetIds.has(id)))
+    .map((cell) => cell.id);
+  return new Set([...reading, ...dependentsInOrder(grid, reading).map((cell) => cell.id)]);
+}
 
-  return sharedAccess.permission;
+// Formula text as shown to users: current column and sheet names in place of the stored ids
+function displayFormula(formula: string, columns: NamedItem[], sheets: NamedItem[]): string {
+  return displaySheetReferences(displayColumnReferences(formula, columns), sheets);
 }
 
 export async function getRowComments(rowId: string, sheetId: string, userId: string) {
@@ -1033,6 +1256,7 @@ export async function getSheetByToken(token: string) {
         orderBy: { position: 'asc' },
       },
       cells: true,
+      namedRanges: true,
       shares: {
         include: {
           sharedWith: {
@@ -1051,7 +1275,21 @@ export async function getSheetByToken(token: string) {
     throw new AppError('Sheet not found or link is invalid', 404);
   }
 
-  return sheet;
+  // Anyone with the link sees this sheet, but only the linked sheets that are public too
+  const referencedSheets = await getReferencedSheets(sheet.cells.map((cell) => cell.formula));
+  const hidden = cellsReadingSheets(
+    () => new SheetGrid(sheet.id, sheet.columns, sheet.rows, sheet.cells, sheet.namedRanges),
+    referencedSheets.filter((linked) => !linked.shareToken)
+  );
+  return {
+    ...sheet,
+    cells: sheet.cells.map((cell) => {
+      if (!cell.formula) return cell;
+      const formula = displayFormula(cell.formula, sheet.columns, referencedSheets);
+      if (hidden.has(cell.id)) return { ...cell, formula, computedValue: JSON.stringify('#NOACCESS') };
+      return { ...cell, formula };
+    }),
+  };
 }
 
 // Cell Merge functionality
@@ -1288,6 +1526,10 @@ export async function indentRow(sheetId: string, rowId: string, userId: string)
   // They should maintain their relative hierarchy
   await updateChildrenLevels(sheetId, rowId, row.level, newLevel);
 
+  // CHILDREN(), PARENT() and friends now cover different rows
+  await recalculateSheet(await SheetGrid.load(sheetId));
+  await recalculateLinkedSheets(sheetId);
+
   return updatedRow;
 }
 
@@ -1334,6 +1576,10 @@ export async function outdentRow(sheetId: string, rowId: string, userId: string)
   // Update all child rows to maintain relative hierarchy
   await updateChildrenLevels(sheetId, rowId, row.level, newLevel);
 
+  // CHILDREN(), PARENT() and friends now cover different rows
+  await recalculateSheet(await SheetGrid.load(sheetId));
+  await recalculateLinkedSheets(sheetId);
+
   return updatedRow;
 }
 
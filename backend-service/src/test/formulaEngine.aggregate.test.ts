@@ -0,0 +1,43 @@
+import { MAX_AREA_CELLS } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A = 1..8 with -5 in the middle, B = "x" on even rows
+const columns = [
+  testColumn({ id: 'col-a', name: 'Value', type: 'NUMBER' }),
+  testColumn({ id: 'col-b', name: 'Flag' }),
+];
+const contents = {
+  'col-a': [1, 2, 3, -5, 5, 6, 7, 8],
+  'col-b': ['', 'x', '', 'x', '', 'x', '', 'x'],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('MIN, MAX, MINIFS and MAXIFS', () => {
+  it.each([
+    ['=MIN(A1:A8)', -5],
+    ['=MAX(A1:A8)', 8],
+    ['=MINIFS(A1:A8, B1:B8, "x")', -5],
+    ['=MAXIFS(A1:A8, B1:B8, "x")', 8],
+    ['=MINIFS(A1:A8, B1:B8, "<>x")', 1],
+    ['=MIN(A1:A3, -10)', -10],
+    ['=MAX(B1:B8)', 0],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  // A range as large as formulas may read; adding 1 turns each of its empty
+  // cells into a number, more numbers than a function call can take as arguments
+  it(`handles ranges of ${MAX_AREA_CELLS} cells`, async () => {
+    const lastRow = MAX_AREA_CELLS;
+    expect(await evaluate(`=MAX(A1:A${lastRow}+1)`)).toBe(9);
+    expect(await evaluate(`=MINIFS(A1:A${lastRow}-1, B1:B${lastRow}, "<>x")`)).toBe(-1);
+    expect(await evaluate(`=MAX(A1:A${lastRow + 1})`)).toBe('#REF!');
+  }, 60000);
+});
@@ -0,0 +1,95 @@
+import type { Cell, Column, NamedRange, Prisma, Row } from '@prisma/client';
+import { FormulaEngine, SheetGrid, recalculateDependents } from '../services/formula.service';
+import { testCell, testColumn, testRow } from './formulaEngine.fixtures';
+
+// In-memory stand-in for the Prisma client that counts every query it receives
+const mockDb = {
+  columns: [] as Column[],
+  rows: [] as Row[],
+  cells: [] as Cell[],
+  namedRanges: [] as NamedRange[],
+  queries: 0,
+};
+
+jest.mock('../config/database', () => {
+  const query = <T>(result: () => T) => {
+    mockDb.queries++;
+    return Promise.resolve(result());
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      sheet: { findUnique: jest.fn(() => query(() => ({ calculationMode: 'AUTOMATIC' }))) },
+      column: { findMany: jest.fn(() => query(() => mockDb.columns)) },
+      row: { findMany: jest.fn(() => query(() => mockDb.rows)) },
+      cell: {
+        findMany: jest.fn(() => query(() => mockDb.cells)),
+        findFirst: jest.fn(() => query(() => null)),
+        // Not a round trip on its own - executed by $transaction below
+        update: jest.fn((args: Prisma.CellUpdateArgs) => args),
+      },
+      namedRange: { findMany: jest.fn(() => query(() => mockDb.namedRanges)) },
+      $transaction: jest.fn((operations: unknown[]) => query(() => operations)),
+    },
+  };
+});
+
+jest.mock('../services/stock.service', () => ({
+  getStockQuote: jest.fn(),
+}));
+
+// Sheet with column A holding 1..N and column B holding N chained running totals:
+// B1 = A1, B2 = B1 + A2, ..., so every formula depends on A1
+function seedSheet(size: number) {
+  mockDb.columns = [testColumn({ id: 'col-a', position: 0 }), testColumn({ id: 'col-b', position: 1 })];
+  mockDb.rows = [];
+  mockDb.cells = [];
+
+  for (let i = 1; i <= size; i++) {
+    const rowId = `row-${i}`;
+    mockDb.rows.push(testRow({ id: rowId, position: i - 1 }));
+    mockDb.cells.push(testCell({ id: `a${i}`, rowId, columnId: 'col-a', value: JSON.stringify(String(i)) }));
+    const formula = i === 1 ? '=A1' : `=B${i - 1}+A${i}`;
+    mockDb.cells.push(testCell({ id: `b${i}`, rowId, columnId: 'col-b', formula }));
+  }
+  mockDb.queries = 0;
+}
+
+async function recalculateAfterEditingA1(size: number) {
+  seedSheet(size);
+  const grid = await SheetGrid.load('sheet');
+  const edited = { ...mockDb.cells[0], value: JSON.stringify('100') };
+  grid.setCell(edited);
+  return recalculateDependents(grid, [edited.id]);
+}
+
+describe('Formula evaluation query count', () => {
+  it('recalculates a 1,000-formula sheet with a constant number of queries', async () => {
+    const changedCells = await recalculateAfterEditingA1(1000);
+
+    expect(changedCells).toHaveLength(1000);
+    // Running total of 100 + 2 + 3 + ... + 1000
+    expect(changedCells[changedCells.length - 1].computedValue).toBe(100 + (1000 * 1001) / 2 - 1);
+    // sheet settings + columns + rows + cells + named ranges, then one batched write
+    expect(mockDb.queries).toBe(6);
+  });
+
+  it('issues the same number of queries regardless of sheet size', async () => {
+    await recalculateAfterEditingA1(10);
+    const smallSheetQueries = mockDb.queries;
+
+    await recalculateAfterEditingA1(1000);
+    expect(mockDb.queries).toBe(smallSheetQueries);
+  });
+
+  it('evaluates a range over the whole grid without per-cell queries', async () => {
+    seedSheet(1000);
+    const grid = await SheetGrid.load('sheet');
+
+    await expect(FormulaEngine.evaluate(grid, '=SUM(A1:A1000)')).resolves.toBe(500500);
+    await expect(FormulaEngine.evaluate(grid, '=B1000')).resolves.toBe(500500);
+    // Just the ones loading the grid
+    expect(mockDb.queries).toBe(5);
+  });
+});
@@ -0,0 +1,33 @@
+import { FUNCTION_CATALOG, findFunctionInfo, formulaFunctionNames } from '../../../shared/formula-engine';
+
+// Resolved into cell references before evaluation, so never registered
+const HIERARCHY_FUNCTIONS = ['CHILDREN', 'PARENT', 'ANCESTORS', 'DESCENDANTS'];
+
+describe('Function catalog', () => {
+  it('describes every registered function and alias', () => {
+    const described = new Set(FUNCTION_CATALOG.map((info) => info.name));
+    expect(formulaFunctionNames().filter((name) => !described.has(name))).toEqual([]);
+  });
+
+  it('only describes functions formulas can call', () => {
+    const callable = new Set([...formulaFunctionNames(), ...HIERARCHY_FUNCTIONS]);
+    expect(FUNCTION_CATALOG.map((info) => info.name).filter((name) => !callable.has(name))).toEqual([]);
+  });
+
+  it('splits signatures into their arguments', () => {
+    expect(findFunctionInfo('pmt')).toMatchObject({
+      category: 'Financial',
+      signature: 'PMT(rate, nper, pv, [fv], [type])',
+      args: ['rate', 'nper', 'pv', '[fv]', '[type]'],
+    });
+    expect(findFunctionInfo('TODAY')?.args).toEqual([]);
+    expect(findFunctionInfo('STDEV')?.signature).toBe('STDEV(value1, ...)');
+  });
+
+  it('gives every function a description and an example that calls it', () => {
+    for (const info of FUNCTION_CATALOG) {
+      expect(info.description).not.toBe('');
+      expect(info.examples.some((example) => example.includes(`${info.name}(`))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { evaluateCells } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 reads itself, B1 and C1 read each other, D1 -> E1 -> F1 -> D1, G1 reads
+// the D-E-F cycle from outside it, and H1 = 5 reads nothing
+const columns = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map((letter) =>
+  testColumn({ id: `col-${letter}`, name: letter.toUpperCase(), type: 'NUMBER' })
+);
+const contents = {
+  'col-a': ['=A1+1'],
+  'col-b': ['=C1+1'],
+  'col-c': ['=B1*2'],
+  'col-d': ['=E1'],
+  'col-e': ['=F1+1'],
+  'col-f': ['=D1*2'],
+  'col-g': ['=D1+1'],
+  'col-h': ['=5'],
+};
+
+// Each formula cell's result after evaluating them all in one pass, in `order`
+async function evaluateAll(order: string[]): Promise<Record<string, unknown>> {
+  const grid = buildGrid(columns, contents);
+  const cells = order.map((letter) => grid.getCellById(`col-${letter}-1`)!);
+  const changed = await evaluateCells(grid, cells);
+  return Object.fromEntries(changed.map((cell) => [cell.id, JSON.parse(JSON.stringify(cell.computedValue))]));
+}
+
+describe('Circular references', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it('gives #CIRC! for a formula reading its own cell', async () => {
+    const grid = buildGrid(columns, contents);
+    expect(await evaluateFormula(grid, '=A1+1', 'col-a-1')).toBe('#CIRC!');
+    expect(await evaluateFormula(grid, '=SUM(A1:B1)', 'col-a-1')).toBe('#CIRC!');
+  });
+
+  it('gives #CIRC! for both cells of a two-cell cycle', async () => {
+    const results = await evaluateAll(['b', 'c']);
+    expect(results).toEqual({ 'col-b-1': '#CIRC!', 'col-c-1': '#CIRC!' });
+  });
+
+  it('gives #CIRC! for every cell of a three-cell cycle, whichever is evaluated first', async () => {
+    for (const order of [
+      ['d', 'e', 'f'],
+      ['f', 'e', 'd'],
+      ['e', 'd', 'f'],
+    ]) {
+      const results = await evaluateAll(order);
+      expect(results).toEqual({ 'col-d-1': '#CIRC!', 'col-e-1': '#CIRC!', 'col-f-1': '#CIRC!' });
+    }
+  });
+
+  it('gives #CIRC! for a cell outside a cycle that reads from it', async () => {
+    expect(await evaluateAll(['g'])).toEqual({ 'col-g-1': '#CIRC!' });
+    expect(await evaluateAll(['d', 'e', 'f', 'g'])).toMatchObject({ 'col-g-1': '#CIRC!' });
+    expect(await evaluateAll(['g', 'd', 'e', 'f'])).toMatchObject({ 'col-d-1': '#CIRC!', 'col-g-1': '#CIRC!' });
+  });
+
+  it('leaves formulas that do not touch a cycle alone', async () => {
+    const results = await evaluateAll(['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']);
+    expect(results).toEqual({
+      'col-a-1': '#CIRC!',
+      'col-b-1': '#CIRC!',
+      'col-c-1': '#CIRC!',
+      'col-d-1': '#CIRC!',
+      'col-e-1': '#CIRC!',
+      'col-f-1': '#CIRC!',
+      'col-g-1': '#CIRC!',
+      'col-h-1': 5,
+    });
+  });
+});
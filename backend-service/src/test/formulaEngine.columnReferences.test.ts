@@ -0,0 +1,91 @@
+import { displayColumnReferences, storeColumnReferences } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// Item names and amounts in rows 1-3; formulas are written in the Unit Total column
+const columns = [
+  testColumn({ id: 'col-item', name: 'Item' }),
+  testColumn({ id: 'col-amount', name: 'Amount', type: 'NUMBER' }),
+  testColumn({ id: 'col-total', name: 'Unit Total' }),
+];
+const contents = {
+  'col-item': ['Apples', 'Pears', 'Plums'],
+  'col-amount': [3, 5, 8],
+  'col-total': ['', '', ''],
+};
+
+// Saves the formula the way the sheet does, then evaluates it in the Unit Total cell of `row`
+function evaluate(formula: string, row = 2, sheetColumns = columns): Promise<unknown> {
+  const grid = buildGrid(sheetColumns, contents);
+  return evaluateFormula(grid, storeColumnReferences(formula, sheetColumns), `col-total-${row}`);
+}
+
+describe('Column references', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('storing and displaying', () => {
+    it.each([
+      ['=[Amount]@row*2', '=[#col-amount]@row*2'],
+      ['=[amount]3', '=[#col-amount]3'],
+      ['=SUM([Amount]:[Amount])', '=SUM([#col-amount]:[#col-amount])'],
+      ['=[Item]1:[Amount]2', '=[#col-item]1:[#col-amount]2'],
+      ['=[Unit Total]@row', '=[#col-total]@row'],
+    ])('stores %s as %s', (formula, stored) => {
+      expect(storeColumnReferences(formula, columns)).toBe(stored);
+    });
+
+    it('shows stored column ids as the current column names', () => {
+      expect(displayColumnReferences('=[#col-amount]@row*2', columns)).toBe('=[Amount]@row*2');
+      expect(displayColumnReferences('=SUM([#col-item]1:[#col-amount]2)', columns)).toBe('=SUM([Item]1:[Amount]2)');
+    });
+
+    it('leaves unknown columns, stored ids and text in strings alone', () => {
+      expect(storeColumnReferences('=[Missing]@row', columns)).toBe('=[Missing]@row');
+      expect(storeColumnReferences('=[#col-amount]@row', columns)).toBe('=[#col-amount]@row');
+      expect(storeColumnReferences('="[Amount]"&[Amount]1', columns)).toBe('="[Amount]"&[#col-amount]1');
+      expect(storeColumnReferences('=SUM([Amount]', columns)).toBe('=SUM([#col-amount]');
+      expect(displayColumnReferences('=[#col-gone]@row', columns)).toBe('=[#col-gone]@row');
+    });
+  });
+
+  describe('evaluating', () => {
+    it.each([
+      ['=[Amount]@row', 5],
+      ['=[Item]@row', 'Pears'],
+      ['=[Amount]3', 8],
+      ['=[Amount]@row*[Amount]1', 15],
+      ['=SUM([Amount]:[Amount])', 16],
+      ['=COUNT([Item]:[Amount])', 3],
+      ['=SUM([Amount]1:[Amount]2)', 8],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it('reads @row from the row holding the formula', async () => {
+      expect(await evaluate('=[Amount]@row', 1)).toBe(3);
+      expect(await evaluate('=[Amount]@row', 3)).toBe(8);
+    });
+
+    it('gives #REF! for a missing column or @row outside a cell', async () => {
+      expect(await evaluate('=[Missing]@row')).toBe('#REF!');
+      expect(await evaluate('=SUM([Item]:[Missing])')).toBe('#REF!');
+      expect(await evaluateFormula(buildGrid(columns, contents), '=[Amount]@row')).toBe('#REF!');
+    });
+  });
+
+  it('keeps stored formulas working after a column is renamed', async () => {
+    const stored = storeColumnReferences('=[Amount]@row*2', columns);
+    const renamed = columns.map((column) => (column.id === 'col-amount' ? { ...column, name: 'Cost' } : column));
+
+    expect(await evaluateFormula(buildGrid(renamed, contents), stored, 'col-total-2')).toBe(10);
+    expect(displayColumnReferences(stored, renamed)).toBe('=[Cost]@row*2');
+    // The old name no longer refers to anything
+    expect(await evaluate('=[Amount]@row', 2, renamed)).toBe('#REF!');
+  });
+});
@@ -0,0 +1,65 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A = mixed criteria targets (numbers, numeric text, text with wildcard
+// characters, a stored empty string and a missing cell), B = 1..8 to sum
+const columns = [
+  testColumn({ id: 'col-a', name: 'Item' }),
+  testColumn({ id: 'col-b', name: 'Amount', type: 'NUMBER' }),
+];
+const contents = {
+  'col-a': [3, 7, 'x', '', null, '5', 'a*b', 'ab'],
+  'col-b': [1, 2, 3, 4, 5, 6, 7, 8],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('SUMIF/COUNTIF criteria', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    // Comparisons match numbers (typed "5" reads as one), never other text
+    ['=COUNTIF(A1:A8, ">5")', 1],
+    ['=COUNTIF(A1:A8, ">=5")', 2],
+    ['=COUNTIF(A1:A8, "<5")', 1],
+    ['=SUMIF(A1:A8, ">2", B1:B8)', 1 + 2 + 6],
+    // Numeric criteria match the number however the criteria is written
+    ['=COUNTIF(A1:A8, 5)', 1],
+    ['=COUNTIF(A1:A8, "5")', 1],
+    ['=SUMIF(A1:A8, 3, B1:B8)', 1],
+    // Text criteria compare as text, case-insensitively
+    ['=COUNTIF(A1:A8, "X")', 1],
+    ['=COUNTIF(A1:A8, "<>x")', 7],
+    ['=COUNTIF(A1:A8, ">a")', 3],
+    // Wildcards: * any run, ? one character, ~ escapes them
+    ['=COUNTIF(A1:A8, "*")', 3],
+    ['=COUNTIF(A1:A8, "?")', 1],
+    ['=COUNTIF(A1:A8, "a*")', 2],
+    ['=COUNTIF(A1:A8, "a~*b")', 1],
+    ['=COUNTIF(A1:A8, "a?b")', 1],
+    ['=SUMIF(A1:A8, "<>a*", B1:B8)', 36 - 7 - 8],
+    // "=" and a blank criteria match empty and missing cells, "<>" the rest
+    ['=COUNTIF(A1:A8, "=")', 2],
+    ['=COUNTIF(A1:A8, "")', 2],
+    ['=COUNTIF(A1:A8, "<>")', 6],
+    ['=SUMIF(A1:A8, "", B1:B8)', 4 + 5],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  it.each([
+    ['=COUNTIFS(A1:A8, ">0", B1:B8, "<7")', 3],
+    ['=COUNTIFS(A1:A8, "*", B1:B8, ">3")', 2],
+    ['=COUNTIFS(A1:A8, "<>", B1:B8, "<=2")', 2],
+    ['=SUMIFS(B1:B8, A1:A8, "<>x", B1:B8, ">6")', 15],
+    ['=COUNTIFS(A1:A8, ">0", B1:B3, ">0")', '#VALUE!'],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+});
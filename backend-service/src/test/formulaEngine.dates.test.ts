@@ -0,0 +1,117 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// Column A is a DATE column: A1 in ISO form, A2 the same day in US form, A3 a
+// day that doesn't exist, A4 a date with a time. Column B holds holidays for
+// the workday functions, with a blank in B4.
+const columns = [
+  testColumn({ id: 'col-a', name: 'Date', type: 'DATE' }),
+  testColumn({ id: 'col-b', name: 'Holiday', type: 'DATE' }),
+];
+const contents = {
+  'col-a': ['2024-01-15', '1/15/2024', '2024-02-30', '2024-03-15T09:30'],
+  'col-b': ['2024-01-01', '2024-07-04', '2024-12-25', null],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Date functions', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('serials and round-trips', () => {
+    it.each([
+      ['=DATE(2024, 1, 15)', '2024-01-15'],
+      ['=DATE(2024, 1, 15)*1', 45306],
+      ['=DATE(1900, 3, 1)*1', 61],
+      ['=YEAR(45306)', 2024],
+      ['=MONTH(45306)', 1],
+      ['=DAY(45306)', 15],
+      ['=DATE(YEAR(A1), MONTH(A1), DAY(A1))', '2024-01-15'],
+      ['=DATE(YEAR(45306), MONTH(45306), DAY(45306))*1', 45306],
+      ['=DATE(2024, 13, 1)', '2025-01-01'],
+      ['=DATE(2024, 3, 0)', '2024-02-29'],
+      ['=DATE(24, 1, 1)', '1924-01-01'],
+      ['=WEEKDAY(A1)', 2],
+      ['=DATEDIF(A1, "2025-01-14", "Y")', 0],
+      ['=DATEDIF(A1, "2025-01-15", "Y")', 1],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it('keeps the time of day', async () => {
+      expect(await evaluate('=A4')).toBe('2024-03-15T09:30:00');
+      expect(await evaluate('=DAY(A4)')).toBe(15);
+      expect(await evaluate('=A4-DATE(2024, 3, 15)')).toBeCloseTo(9.5 / 24, 9);
+    });
+  });
+
+  describe('parsing date text', () => {
+    it('reads ISO and US dates in DATE columns as the same day', async () => {
+      expect(await evaluate('=A1')).toBe('2024-01-15');
+      expect(await evaluate('=A2')).toBe('2024-01-15');
+      expect(await evaluate('=A1=A2')).toBe(true);
+      expect(await evaluate('=A1-A2')).toBe(0);
+    });
+
+    it('reads date text passed to date functions', async () => {
+      expect(await evaluate('=YEAR("2024-01-15")')).toBe(2024);
+      expect(await evaluate('=MONTH("1/15/2024")')).toBe(1);
+      expect(await evaluate('=DAY("2024-02-29")')).toBe(29);
+    });
+
+    it('leaves days that do not exist as text', async () => {
+      expect(await evaluate('=A3')).toBe('2024-02-30');
+      expect(await evaluate('=YEAR(A3)')).toBe('#VALUE!');
+      expect(await evaluate('=DAY("2/29/2023")')).toBe('#VALUE!');
+      expect(await evaluate('=MONTH("13/1/2024")')).toBe('#VALUE!');
+    });
+  });
+
+  describe('EDATE and EOMONTH', () => {
+    it.each([
+      ['=EDATE(A1, 1)', '2024-02-15'],
+      ['=EDATE(A1, -13)', '2022-12-15'],
+      ['=EDATE("2024-01-31", 1)', '2024-02-29'],
+      ['=EDATE("2023-01-31", 1)', '2023-02-28'],
+      ['=EDATE("2024-03-31", -1)', '2024-02-29'],
+      ['=EDATE("2024-08-31", 1)', '2024-09-30'],
+      ['=EDATE("2024-02-29", 12)', '2025-02-28'],
+      ['=EOMONTH(A1, 0)', '2024-01-31'],
+      ['=EOMONTH(A1, 1)', '2024-02-29'],
+      ['=EOMONTH("2023-02-10", 0)', '2023-02-28'],
+      ['=EOMONTH("2024-01-31", -1)', '2023-12-31'],
+      ['=EOMONTH("2024-12-15", 2)', '2025-02-28'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('NETWORKDAYS and WORKDAY', () => {
+    it('counts working days, skipping holidays from a range', async () => {
+      expect(await evaluate('=NETWORKDAYS("2024-01-01", "2024-01-31")')).toBe(23);
+      expect(await evaluate('=NETWORKDAYS("2024-01-01", "2024-01-31", B1:B4)')).toBe(22);
+      expect(await evaluate('=NETWORKDAYS("2024-01-31", "2024-01-01", B1:B4)')).toBe(-22);
+      expect(await evaluate('=NETWORKDAYS("2024-12-23", "2024-12-27", B1:B4)')).toBe(4);
+      expect(await evaluate('=NETWORKDAYS("2024-12-23", "2024-12-27", B3)')).toBe(4);
+    });
+
+    it('steps over weekends and holidays from a range', async () => {
+      expect(await evaluate('=WORKDAY("2024-12-20", 1)')).toBe('2024-12-23');
+      expect(await evaluate('=WORKDAY("2024-12-24", 1)')).toBe('2024-12-25');
+      expect(await evaluate('=WORKDAY("2024-12-24", 1, B1:B4)')).toBe('2024-12-26');
+      expect(await evaluate('=WORKDAY("2024-07-03", 1, B1:B4)')).toBe('2024-07-05');
+      expect(await evaluate('=WORKDAY("2024-01-02", -1, B1:B4)')).toBe('2023-12-29');
+      expect(await evaluate('=WORKDAY(A1, 0, B1:B4)')).toBe('2024-01-15');
+    });
+
+    it('rejects holidays that are not dates', async () => {
+      expect(await evaluate('=NETWORKDAYS(A1, A1, "soon")')).toBe('#VALUE!');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { formatFixed } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A = invoice line amounts, B1:B3 = thirds (=1/3)
+const columns = [
+  testColumn({ id: 'col-a', name: 'Amount', type: 'NUMBER' }),
+  testColumn({ id: 'col-b', name: 'Share', type: 'NUMBER' }),
+];
+const contents = {
+  'col-a': ['0.1', '0.2', '19.99', '5.01', '0.7'],
+  'col-b': ['=1/3', '=1/3', '=1/3'],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Decimal arithmetic', () => {
+  // Keep the console quiet for the formulas that are expected to fail
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    ['=0.1+0.2', 0.3],
+    ['=0.3-0.1', 0.2],
+    ['=1.1*1.1', 1.21],
+    ['=0.3/0.1', 3],
+    ['=19.99*3', 59.97],
+    ['=4.35*100', 435],
+    ['=1-0.9', 0.1],
+    ['=7%', 0.07],
+    ['=1/3', 1 / 3],
+    ['=2^0.5', Math.SQRT2],
+    ['=1e308*10', '#NUM!'],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  it('totals currency amounts exactly', async () => {
+    expect(await evaluate('=SUM(A1:A5)')).toBe(26);
+    expect(await evaluate('=A1+A2+A3+A4+A5')).toBe(26);
+    expect(await evaluate('=AVERAGE(A1:A2)')).toBe(0.15);
+    expect(await evaluate('=PRODUCT(A1, A2, 3)')).toBe(0.06);
+    expect(await evaluate('=SUMIF(A1:A5, "<1")')).toBe(1);
+    expect(await evaluate('=SUMIFS(A1:A5, A1:A5, ">0.15", A1:A5, "<10")')).toBe(5.91);
+  });
+
+  it.each([
+    ['=1/3*3', 1],
+    ['=2/3*3', 2],
+    ['=1/3+1/3+1/3', 1],
+    ['=100/3*3', 100],
+    ['=10/3*3/10', 1],
+    ['=1/7*7-1', 0],
+    ['=B1*3', 1],
+    ['=B1+B2+B3', 1],
+  ])('chained division and multiplication: %s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  it('works out variances and standard deviations from exact sums', async () => {
+    expect(await evaluate('=VAR.P(1.1, 2.2)')).toBe(0.3025);
+    expect(await evaluate('=VAR.S(1.1, 2.2)')).toBe(0.605);
+    expect(await evaluate('=VAR(0.1, 0.2, 0.3)')).toBe(0.01);
+    expect(await evaluate('=VAR.S(10.2, 13.3, 16.4)')).toBe(9.61);
+    expect(await evaluate('=STDEV.S(10.2, 13.3, 16.4)')).toBe(3.1);
+    expect(await evaluate('=STDEV.P(A1:A2)')).toBe(0.05);
+  });
+
+  it('sums repeating decimals', async () => {
+    expect(await evaluate('=SUM(B1:B3)')).toBe(1);
+    expect(await evaluate('=SUM(1/3, 1/3, 1/3)')).toBe(1);
+    expect(await evaluate('=AVERAGE(B1:B3)*3')).toBe(1);
+  });
+
+  it('keeps results that need all their digits', async () => {
+    expect(await evaluate('=B1')).toBe(1 / 3);
+    expect(await evaluate('=2/3')).toBe(2 / 3);
+    expect(await evaluate('=1/3+0.1')).toBe(0.4333333333333333);
+  });
+
+  it('keeps large and tiny numbers', async () => {
+    expect(await evaluate('=1E+21+1E+21')).toBe(2e21);
+    expect(await evaluate('=0.0000001*3')).toBe(3e-7);
+  });
+});
+
+describe('formatFixed', () => {
+  it('rounds halves away from zero as written, unlike toFixed', () => {
+    expect(formatFixed(1.005, 2)).toBe('1.01');
+    expect(formatFixed(-1.005, 2)).toBe('-1.01');
+    expect(formatFixed(2.675, 2)).toBe('2.68');
+    expect(formatFixed(0.3, 2)).toBe('0.30');
+    expect(formatFixed(1234.5, 0)).toBe('1235');
+    expect(formatFixed(-0.004, 2)).toBe('0.00');
+    expect(formatFixed(1e-7, 3)).toBe('0.000');
+    expect(formatFixed(1.5e21, 1)).toBe('1500000000000000000000.0');
+  });
+});
@@ -0,0 +1,63 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// Reference values are the worked examples from Excel's documentation for each function.
+// A/B = dated cash flows (XNPV, XIRR), C = periodic cash flows (IRR), D = NPV values
+const columns = [
+  testColumn({ id: 'col-a', name: 'Flow', type: 'NUMBER' }),
+  testColumn({ id: 'col-b', name: 'Date', type: 'DATE' }),
+  testColumn({ id: 'col-c', name: 'Project', type: 'NUMBER' }),
+  testColumn({ id: 'col-d', name: 'Investment', type: 'NUMBER' }),
+];
+const contents = {
+  'col-a': ['-10000', '2750', '4250', '3250', '2750'],
+  'col-b': ['2008-01-01', '2008-03-01', '2008-10-30', '2009-02-15', '2009-04-01'],
+  'col-c': ['-70000', '12000', '15000', '18000', '21000', '26000'],
+  'col-d': ['-10000', '3000', '4200', '6800'],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Financial functions', () => {
+  // Keep the console quiet for the formulas that are expected to fail
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    ['=PMT(8%/12, 10, 10000)', -1037.032089],
+    ['=PMT(8%/12, 10, 10000, 0, 1)', -1030.164327],
+    ['=PMT(0, 10, 10000)', -1000],
+    ['=PV(8%/12, 12*20, 500, , 0)', -59777.14585],
+    ['=FV(6%/12, 10, -200, -500, 1)', 2581.403374],
+    ['=FV(12%/12, 12, -1000)', 12682.50301],
+    ['=NPER(12%/12, -100, -1000, 10000, 1)', 59.67386567],
+    ['=NPER(12%/12, -100, -1000, 10000)', 60.08212285],
+    ['=NPER(12%/12, -100, -1000)', -9.57859404],
+    ['=RATE(4*12, -200, 8000)', 0.00770147248],
+    ['=RATE(4*12, -200, 8000)*12', 0.09241767],
+    ['=NPV(10%, D1:D4)', 1188.443412],
+    ['=IRR(C1:C5)', -0.021244848],
+    ['=IRR(C1:C6)', 0.086630948],
+    ['=IRR(C1:C3, -10%)', -0.443506941],
+    ['=XNPV(9%, A1:A5, B1:B5)', 2086.647602],
+    ['=XIRR(A1:A5, B1:B5, 0.1)', 0.373362535],
+  ])('%s matches the reference value', async (formula, expected) => {
+    expect(await evaluate(formula)).toBeCloseTo(expected, 5);
+  });
+
+  it('gives #NUM! when IRR, XIRR or RATE have no rate to find', async () => {
+    expect(await evaluate('=IRR(C2:C6)')).toBe('#NUM!');
+    expect(await evaluate('=XIRR(A2:A5, B2:B5)')).toBe('#NUM!');
+    expect(await evaluate('=RATE(10, 100, 100, 100)')).toBe('#NUM!');
+  });
+
+  it('gives #NUM! for cash flows and dates that do not line up', async () => {
+    expect(await evaluate('=XNPV(9%, A1:A5, B1:B4)')).toBe('#NUM!');
+    expect(await evaluate('=XIRR(A1:A2, B2:B1)')).toBe('#NUM!');
+  });
+});
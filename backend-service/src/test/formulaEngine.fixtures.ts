@@ -0,0 +1,149 @@
+import type { Cell, Column, NamedRange, Row, Sheet, SheetShare, User } from '@prisma/client';
+import { FormulaEngine, SheetGrid } from '../services/formula.service';
+
+// Complete Prisma records for tests: the fields a test sets, and the schema's
+// defaults for the rest
+
+const timestamp = new Date('2024-01-01T00:00:00.000Z');
+
+export function testUser(fields: Pick<User, 'id' | 'email' | 'name'> & Partial<User>): User {
+  return { password: 'hashed-password', createdAt: timestamp, updatedAt: timestamp, ...fields };
+}
+
+export function testSheet(fields: Pick<Sheet, 'id' | 'name' | 'userId'> & Partial<Sheet>): Sheet {
+  return {
+    description: null,
+    isFavorite: false,
+    shareToken: null,
+    calculationMode: 'AUTOMATIC',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+}
+
+export function testShare(
+  fields: Pick<SheetShare, 'id' | 'sheetId' | 'sharedById' | 'sharedWithEmail'> & Partial<SheetShare>
+): SheetShare {
+  return { sharedWithId: null, permission: 'VIEWER', createdAt: timestamp, updatedAt: timestamp, ...fields };
+}
+
+export function testColumn(fields: Pick<Column, 'id'> & Partial<Column>): Column {
+  return {
+    sheetId: 'sheet',
+    name: fields.id,
+    type: 'TEXT',
+    position: 0,
+    width: 150,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+}
+
+export function testRow(fields: Pick<Row, 'id'> & Partial<Row>): Row {
+  return {
+    sheetId: 'sheet',
+    name: null,
+    position: 0,
+    height: 35,
+    parentRowId: null,
+    level: 0,
+    isExpanded: true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+}
+
+export function testCell(fields: Pick<Cell, 'id' | 'rowId' | 'columnId'> & Partial<Cell>): Cell {
+  return {
+    sheetId: 'sheet',
+    value: null,
+    formula: null,
+    formulaAuthorId: null,
+    computedValue: null,
+    textColor: null,
+    backgroundColor: null,
+    fontSize: 14,
+    fontFamily: null,
+    bold: false,
+    italic: false,
+    underline: false,
+    strikethrough: false,
+    textAlign: 'left',
+    verticalAlign: 'middle',
+    wrapText: false,
+    hasBorder: false,
+    borderTop: false,
+    borderBottom: false,
+    borderLeft: false,
+    borderRight: false,
+    textRotation: 0,
+    numberFormat: 'general',
+    decimalPlaces: 2,
+    mergeRowSpan: 1,
+    mergeColSpan: 1,
+    mergedIntoId: null,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+}
+
+export function testNamedRange(fields: Pick<NamedRange, 'name' | 'range'> & Partial<NamedRange>): NamedRange {
+  return { id: `name-${fields.name}`, sheetId: 'sheet', createdAt: timestamp, updatedAt: timestamp, ...fields };
+}
+
+/**
+ * What a test sheet holds, by column id: one entry per row, from the first.
+ * null leaves the cell out; anything else is stored as the cell's JSON value,
+ * and text starting with "=" as a formula too, the way the sheet saves one.
+ */
+export type SheetContents = Record<string, unknown[]>;
+
+// Cells for `contents`, with ids like "col-a-1"
+export function testCells(contents: SheetContents, rows: Row[]): Cell[] {
+  return Object.entries(contents).flatMap(([columnId, values]) =>
+    values.flatMap((value, index) =>
+      value === null || !rows[index]
+        ? []
+        : [
+            testCell({
+              id: `${columnId}-${index + 1}`,
+              rowId: rows[index].id,
+              columnId,
+              value: JSON.stringify(value),
+              formula: typeof value === 'string' && value.startsWith('=') ? value : null,
+            }),
+          ]
+    )
+  );
+}
+
+export interface GridOptions {
+  // The sheet's rows, if not "row-1", "row-2", ... for as many rows as `contents` fills
+  rows?: Row[];
+  namedRanges?: NamedRange[];
+}
+
+// A grid holding `contents`; entries in `contents` line up with its rows
+export function buildGrid(columns: Column[], contents: SheetContents, options: GridOptions = {}): SheetGrid {
+  const rowCount = Math.max(0, ...Object.values(contents).map((values) => values.length));
+  const defaultRows = () =>
+    Array.from({ length: rowCount }, (_, index) => testRow({ id: `row-${index + 1}`, position: index }));
+  const rows = options.rows ?? defaultRows();
+  return new SheetGrid(
+    'sheet',
+    columns.map((column, position) => ({ ...column, position })),
+    rows,
+    testCells(contents, rows),
+    options.namedRanges
+  );
+}
+
+// The result as it would be stored: dates serialize as ISO text, errors as their code
+export async function evaluateFormula(grid: SheetGrid, formula: string, cellId?: string): Promise<unknown> {
+  const result = await FormulaEngine.evaluate(grid, formula, cellId);
+  return JSON.parse(JSON.stringify(result));
+}
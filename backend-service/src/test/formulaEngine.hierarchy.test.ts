@@ -0,0 +1,139 @@
+import { buildGrid, evaluateFormula, testColumn, testRow } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// Rows 1-7, indented like this, with a name in column A and hours in column B:
+//
+//   1 Project
+//   2   Phase A
+//   3     Task A1   3
+//   4     Task A2   5
+//   5   Phase B
+//   6     Task B1   8
+//   7 Other         2
+//
+// Column C is empty; formulas are evaluated as if they were in it.
+const columns = ['a', 'b', 'c'].map((letter) => testColumn({ id: `col-${letter}`, name: letter.toUpperCase() }));
+const contents = {
+  'col-a': ['Project', 'Phase A', 'Task A1', 'Task A2', 'Phase B', 'Task B1', 'Other'],
+  'col-b': ['', '', 3, 5, '', 8, 2],
+  'col-c': ['', '', '', '', '', '', ''],
+};
+
+// Parent row numbers by row number (1-based, as in A1 references); null for top-level rows
+type Parents = (number | null)[];
+
+const INITIAL_PARENTS: Parents = [null, 1, 2, 2, 1, 5, null];
+
+function gridWithParents(parents: Parents = INITIAL_PARENTS) {
+  const rows = parents.map((parent, index) =>
+    testRow({ id: `row-${index + 1}`, position: index, parentRowId: parent === null ? null : `row-${parent}` })
+  );
+  return buildGrid(columns, contents, { rows });
+}
+
+// What indenting and outdenting a row does to the hierarchy: an indented row
+// becomes a child of the row above, an outdented one a child of its grandparent.
+// Its own children move with it.
+function indent(parents: Parents, row: number): Parents {
+  return parents.map((parent, index) => (index + 1 === row ? row - 1 : parent));
+}
+
+function outdent(parents: Parents, row: number): Parents {
+  const parent = parents[row - 1];
+  return parents.map((current, index) => (index + 1 === row && parent !== null ? parents[parent - 1] : current));
+}
+
+// The result as it would be stored, with the formula in column C of `row`
+function evaluate(formula: string, row = 1, parents?: Parents): Promise<unknown> {
+  return evaluateFormula(gridWithParents(parents), formula, `col-c-${row}`);
+}
+
+const names = (list: string) => `=TEXTJOIN(",", TRUE, ${list})`;
+
+describe('Row hierarchy functions', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('on the root row', () => {
+    it('has its direct children and every row below it', async () => {
+      expect(await evaluate(names('CHILDREN(A1)'))).toBe('Phase A,Phase B');
+      expect(await evaluate(names('DESCENDANTS(A1)'))).toBe('Phase A,Task A1,Task A2,Phase B,Task B1');
+      expect(await evaluate('=SUM(DESCENDANTS(B1))')).toBe(16);
+    });
+
+    it('has no parent or ancestors', async () => {
+      expect(await evaluate('=ISBLANK(PARENT(A1))')).toBe(true);
+      expect(await evaluate(names('ANCESTORS(A1)'))).toBe('');
+    });
+  });
+
+  describe('on a leaf row', () => {
+    it('has a parent and ancestors, nearest first', async () => {
+      expect(await evaluate('=PARENT(A3)')).toBe('Phase A');
+      expect(await evaluate(names('ANCESTORS(A3)'))).toBe('Phase A,Project');
+    });
+
+    it('has no children or descendants', async () => {
+      expect(await evaluate(names('CHILDREN(A3)'))).toBe('');
+      expect(await evaluate('=SUM(DESCENDANTS(B3))')).toBe(0);
+      expect(await evaluate(names('CHILDREN(A7)'))).toBe('');
+      expect(await evaluate('=ISBLANK(PARENT(A7))')).toBe(true);
+    });
+  });
+
+  describe('on a row between levels', () => {
+    it('covers only its own branch', async () => {
+      expect(await evaluate(names('CHILDREN(A2)'))).toBe('Task A1,Task A2');
+      expect(await evaluate('=SUM(CHILDREN(B2))')).toBe(8);
+      expect(await evaluate('=SUM(DESCENDANTS(B5))')).toBe(8);
+      expect(await evaluate('=PARENT(A5)')).toBe('Project');
+    });
+
+    it("reads the formula's own row and column without a reference", async () => {
+      const grid = gridWithParents();
+      expect(await evaluateFormula(grid, '=SUM(CHILDREN())', 'col-b-2')).toBe(8);
+      expect(await evaluateFormula(grid, names('ANCESTORS()'), 'col-a-3')).toBe('Phase A,Project');
+      expect(await evaluate(names('CHILDREN()'), 2)).toBe('');
+      expect(await evaluate(names('CHILDREN(PARENT(A3))'))).toBe('Task A1,Task A2');
+    });
+  });
+
+  it('gives #REF! without a reference or a cell to start from', async () => {
+    expect(await evaluateFormula(gridWithParents(), '=SUM(CHILDREN())')).toBe('#REF!');
+  });
+
+  describe('after indenting and outdenting', () => {
+    it('follows a row indented under the row above', async () => {
+      // Other becomes a child of Task B1, three levels down
+      const parents = indent(INITIAL_PARENTS, 7);
+
+      expect(await evaluate(names('ANCESTORS(A7)'), 1, parents)).toBe('Task B1,Phase B,Project');
+      expect(await evaluate('=SUM(CHILDREN(B6))', 1, parents)).toBe(2);
+      expect(await evaluate('=SUM(DESCENDANTS(B5))', 1, parents)).toBe(10);
+      expect(await evaluate('=SUM(DESCENDANTS(B1))', 1, parents)).toBe(18);
+    });
+
+    it('follows a row outdented along with its children', async () => {
+      // Task B1 (with Other under it) moves up to be a sibling of Phase B
+      const parents = outdent(indent(INITIAL_PARENTS, 7), 6);
+
+      expect(await evaluate(names('CHILDREN(A1)'), 1, parents)).toBe('Phase A,Phase B,Task B1');
+      expect(await evaluate(names('CHILDREN(A5)'), 1, parents)).toBe('');
+      expect(await evaluate('=PARENT(A6)', 1, parents)).toBe('Project');
+      expect(await evaluate(names('ANCESTORS(A7)'), 1, parents)).toBe('Task B1,Project');
+    });
+
+    it('treats a row outdented to the top level as a root', async () => {
+      const parents = outdent(outdent(INITIAL_PARENTS, 6), 6);
+
+      expect(await evaluate('=ISBLANK(PARENT(A6))', 1, parents)).toBe(true);
+      expect(await evaluate('=SUM(DESCENDANTS(B1))', 1, parents)).toBe(8);
+      expect(await evaluate(names('ANCESTORS(A6)'), 1, parents)).toBe('');
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import type { Cell, Column, Prisma, Row, Sheet, SheetShare, User } from '@prisma/client';
+import { FormulaEngine, SheetGrid, recalculateLinkedSheets } from '../services/formula.service';
+import { removeShare, shareSheet } from '../services/share.service';
+import { deleteSheet, getSheetById, getSheetByToken } from '../services/sheet.service';
+import { testCell, testColumn, testRow, testSheet, testShare, testUser } from './formulaEngine.fixtures';
+
+// An in-memory stand-in for the tables linked sheet formulas touch: Budget
+// (owned by Alice) has 100 in A1, and Report (owned by Bob) reads it:
+//   A1 = {Budget}!A1*2, written by Bob, who needs Budget shared with him
+//   B1 = A1+1, which only reads Report
+//   C1 = {Budget}!A1, written by Alice, who owns Budget
+//   D1 = {Budget}!A1, a formula with no recorded author
+// Report is shared with Carol, and public through a link
+const mockDb = {
+  users: [] as User[],
+  sheets: [] as Sheet[],
+  shares: [] as SheetShare[],
+  columns: [] as Column[],
+  rows: [] as Row[],
+  cells: [] as Cell[],
+};
+
+function resetDatabase() {
+  mockDb.users = [
+    testUser({ id: 'alice', email: 'alice@example.com', name: 'Alice' }),
+    testUser({ id: 'bob', email: 'bob@example.com', name: 'Bob' }),
+    testUser({ id: 'carol', email: 'carol@example.com', name: 'Carol' }),
+  ];
+  mockDb.sheets = [
+    testSheet({ id: 'budget', name: 'Budget', userId: 'alice' }),
+    testSheet({ id: 'report', name: 'Report', userId: 'bob', shareToken: 'report-link' }),
+  ];
+  mockDb.shares = [
+    testShare({ id: 'report-carol', sheetId: 'report', sharedById: 'bob', sharedWithEmail: 'carol@example.com' }),
+  ];
+  mockDb.columns = mockDb.sheets.flatMap((sheet) =>
+    ['a', 'b', 'c', 'd'].map((letter, position) =>
+      testColumn({
+        id: `${sheet.id}-col-${letter}`,
+        sheetId: sheet.id,
+        position,
+        name: letter.toUpperCase(),
+        type: 'NUMBER',
+      })
+    )
+  );
+  mockDb.rows = mockDb.sheets.map((sheet) => testRow({ id: `${sheet.id}-row-1`, sheetId: sheet.id }));
+
+  const cell = (
+    sheetId: string,
+    letter: string,
+    value: unknown,
+    formula: string | null = null,
+    authorId: string | null = null
+  ) =>
+    testCell({
+      id: `${sheetId}-${letter}1`,
+      sheetId,
+      rowId: `${sheetId}-row-1`,
+      columnId: `${sheetId}-col-${letter}`,
+      value: JSON.stringify(value),
+      formula,
+      formulaAuthorId: authorId,
+    });
+  mockDb.cells = [
+    cell('budget', 'a', 100),
+    cell('report', 'a', null, '={#budget}!A1*2', 'bob'),
+    cell('report', 'b', null, '=A1+1', 'bob'),
+    cell('report', 'c', null, '={#budget}!A1', 'alice'),
+    cell('report', 'd', null, '={#budget}!A1'),
+  ];
+}
+
+jest.mock('../config/database', () => {
+  // The subset of Prisma's where clauses these services use: equality, { not } and { contains }
+  const matches = (record: object, where: object = {}) =>
+    Object.entries(where).every(([key, condition]) => {
+      const value: unknown = record[key as keyof typeof record];
+      if (condition && typeof condition === 'object') {
+        if ('not' in condition) return value !== condition.not;
+        if ('contains' in condition) return typeof value === 'string' && value.includes(condition.contains);
+      }
+      return value === condition;
+    });
+  const withShare = (share: SheetShare) => ({
+    ...share,
+    sheet: mockDb.sheets.find((sheet) => sheet.id === share.sheetId),
+    sharedWith: mockDb.users.find((user) => user.id === share.sharedWithId) ?? null,
+  });
+
+  return {
+    __esModule: true,
+    default: {
+      $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+      user: {
+        findUnique: async ({ where }: Prisma.UserFindUniqueArgs) =>
+          mockDb.users.find((user) => matches(user, where)) ?? null,
+      },
+      sheet: {
+        // Includes everything getSheetById and getSheetByToken ask for
+        findUnique: async ({ where, include }: Prisma.SheetFindUniqueArgs) => {
+          const sheet = mockDb.sheets.find((candidate) => matches(candidate, where));
+          if (!sheet) return null;
+          if (!include) return sheet;
+          const cells = mockDb.cells.filter((cell) => cell.sheetId === sheet.id);
+          const rows = mockDb.rows.filter((row) => row.sheetId === sheet.id);
+          return {
+            ...sheet,
+            shares: mockDb.shares.filter((share) => share.sheetId === sheet.id).map(withShare),
+            columns: mockDb.columns.filter((column) => column.sheetId === sheet.id),
+            rows: rows.map((row) => ({
+              ...row,
+              cells: cells.filter((cell) => cell.rowId === row.id),
+              _count: { comments: 0 },
+            })),
+            cells,
+            namedRanges: [],
+          };
+        },
+        findMany: async ({ where }: Prisma.SheetFindManyArgs) => {
+          const sheetIds = (where?.id as Prisma.StringFilter).in as string[];
+          return mockDb.sheets
+            .filter((sheet) => sheetIds.includes(sheet.id))
+            .map((sheet) => ({ ...sheet, shares: mockDb.shares.filter((share) => share.sheetId === sheet.id) }));
+        },
+        delete: async ({ where }: Prisma.SheetDeleteArgs) => {
+          const sheet = mockDb.sheets.find((candidate) => candidate.id === where.id);
+          mockDb.sheets = mockDb.sheets.filter((candidate) => candidate !== sheet);
+          mockDb.cells = mockDb.cells.filter((cell) => cell.sheetId !== where.id);
+          return sheet;
+        },
+      },
+      sheetShare: {
+        findFirst: async ({ where }: Prisma.SheetShareFindFirstArgs) =>
+          mockDb.shares.find((share) => matches(share, where)) ?? null,
+        findUnique: async ({ where }: Prisma.SheetShareFindUniqueArgs) => {
+          const share = mockDb.shares.find((candidate) => candidate.id === where.id);
+          return share ? withShare(share) : null;
+        },
+        upsert: async ({ where, update, create }: Prisma.SheetShareUpsertArgs) => {
+          let share = mockDb.shares.find((candidate) => matches(candidate, where.sheetId_sharedWithEmail ?? {}));
+          if (share) {
+            Object.assign(share, update);
+          } else {
+            const { sheetId, sharedById, sharedWithId, sharedWithEmail, permission } =
+              create as Prisma.SheetShareUncheckedCreateInput;
+            share = testShare({
+              id: `share-${mockDb.shares.length + 1}`,
+              sheetId,
+              sharedById,
+              sharedWithId,
+              sharedWithEmail,
+              permission,
+            });
+            mockDb.shares.push(share);
+          }
+          return withShare(share);
+        },
+        delete: async ({ where }: Prisma.SheetShareDeleteArgs) => {
+          mockDb.shares = mockDb.shares.filter((share) => share.id !== where.id);
+        },
+      },
+      column: {
+        findMany: async ({ where }: Prisma.ColumnFindManyArgs) =>
+          mockDb.columns.filter((column) => matches(column, where)),
+      },
+      row: { findMany: async ({ where }: Prisma.RowFindManyArgs) => mockDb.rows.filter((row) => matches(row, where)) },
+      namedRange: { findMany: async () => [] },
+      userFavorite: { findUnique: async () => null },
+      cell: {
+        findMany: async ({ where, distinct }: Prisma.CellFindManyArgs) => {
+          const cells = mockDb.cells.filter((cell) => matches(cell, where));
+          if (!distinct) return cells;
+          const sheetIds = [...new Set(cells.map((cell) => cell.sheetId))];
+          return sheetIds.map((sheetId) => ({ sheetId }));
+        },
+        update: async ({ where, data }: Prisma.CellUpdateArgs) => {
+          const cell = mockDb.cells.find((candidate) => candidate.id === where.id);
+          Object.assign(cell!, data);
+          return cell;
+        },
+      },
+    },
+  };
+});
+
+// What's stored as a Report cell's result
+function storedResult(letter: string): unknown {
+  const cell = mockDb.cells.find((candidate) => candidate.id === `report-${letter}1`)!;
+  return cell.computedValue === null ? null : JSON.parse(cell.computedValue);
+}
+
+// Evaluates a Report cell's formula against a freshly loaded grid
+async function evaluateReportCell(letter: string): Promise<unknown> {
+  const grid = await SheetGrid.load('report');
+  const cell = grid.getCellById(`report-${letter}1`)!;
+  return JSON.parse(JSON.stringify(await FormulaEngine.evaluate(grid, cell.formula!, cell.id)));
+}
+
+async function shareBudgetWithBob() {
+  return shareSheet({ sheetId: 'budget', sharedWithEmail: 'bob@example.com', permission: 'VIEWER', sharedById: 'alice' });
+}
+
+describe('Formulas reading other sheets', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+  beforeEach(resetDatabase);
+
+  describe("checks the formula author's access, not the viewer's", () => {
+    it('is #NOACCESS when the author cannot open the sheet', async () => {
+      expect(await evaluateReportCell('a')).toBe('#NOACCESS');
+    });
+
+    it('reads the sheet once it is shared with the author', async () => {
+      await shareBudgetWithBob();
+      expect(await evaluateReportCell('a')).toBe(200);
+    });
+
+    it("reads the sheet for formulas written by someone with access, whoever's sheet they're in", async () => {
+      expect(await evaluateReportCell('c')).toBe(100);
+    });
+
+    it('is #NOACCESS for formulas with no recorded author', async () => {
+      await shareBudgetWithBob();
+      expect(await evaluateReportCell('d')).toBe('#NOACCESS');
+    });
+  });
+
+  describe('recalculates the sheets reading it', () => {
+    it('when it is shared with a formula author', async () => {
+      await recalculateLinkedSheets('budget');
+      expect(storedResult('a')).toBe('#NOACCESS');
+
+      await shareBudgetWithBob();
+
+      expect(storedResult('a')).toBe(200);
+      expect(storedResult('b')).toBe(201);
+      expect(storedResult('c')).toBe(100);
+    });
+
+    it('when a formula author loses access', async () => {
+      const share = await shareBudgetWithBob();
+      expect(storedResult('a')).toBe(200);
+
+      await removeShare(share.id, 'alice');
+
+      expect(storedResult('a')).toBe('#NOACCESS');
+      expect(storedResult('b')).toBe('#NOACCESS');
+      expect(storedResult('c')).toBe(100);
+    });
+
+    it('when it is deleted', async () => {
+      await shareBudgetWithBob();
+
+      await deleteSheet('budget', 'alice');
+
+      expect(storedResult('a')).toBe('#REF!');
+      expect(storedResult('b')).toBe('#REF!');
+      expect(storedResult('c')).toBe('#REF!');
+      expect(await evaluateReportCell('c')).toBe('#REF!');
+    });
+  });
+
+  describe("hides linked values from viewers who can't read the linked sheet", () => {
+    // Report's results as `userId` sees them
+    async function resultsFor(userId: string) {
+      const sheet = (await getSheetById('report', userId))!;
+      return Object.fromEntries(sheet.rows[0].cells.map((cell) => [cell.id, cell.computedValue]));
+    }
+
+    // Report's results as anyone with its link sees them
+    async function publicResults() {
+      const sheet = await getSheetByToken('report-link');
+      return Object.fromEntries(sheet.cells.map((cell) => [cell.id, JSON.parse(cell.computedValue!)]));
+    }
+
+    beforeEach(shareBudgetWithBob);
+
+    it('shows the results to viewers who can read it', async () => {
+      expect(await resultsFor('bob')).toEqual({
+        'report-a1': 200,
+        'report-b1': 201,
+        'report-c1': 100,
+        'report-d1': '#NOACCESS',
+      });
+    });
+
+    it('is #NOACCESS for formulas reading it, and formulas depending on those, for other viewers', async () => {
+      expect(await resultsFor('carol')).toEqual({
+        'report-a1': '#NOACCESS',
+        'report-b1': '#NOACCESS',
+        'report-c1': '#NOACCESS',
+        'report-d1': '#NOACCESS',
+      });
+
+      mockDb.shares.push(
+        testShare({ id: 'budget-carol', sheetId: 'budget', sharedById: 'alice', sharedWithEmail: 'carol@example.com' })
+      );
+      expect(await resultsFor('carol')).toEqual(await resultsFor('bob'));
+    });
+
+    it('is #NOACCESS through a public link unless the linked sheet is public too', async () => {
+      expect(await publicResults()).toEqual({
+        'report-a1': '#NOACCESS',
+        'report-b1': '#NOACCESS',
+        'report-c1': '#NOACCESS',
+        'report-d1': '#NOACCESS',
+      });
+
+      mockDb.sheets.find((sheet) => sheet.id === 'budget')!.shareToken = 'budget-link';
+      expect(await publicResults()).toMatchObject({ 'report-a1': 200, 'report-b1': 201, 'report-c1': 100 });
+    });
+  });
+});
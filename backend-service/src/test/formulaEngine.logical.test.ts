@@ -0,0 +1,133 @@
+import { FormulaEvaluationError } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = 10, A2 = 0, A3 = an #N/A typed into the cell, A4 = TRUE, A5 = text
+const columns = [testColumn({ id: 'col-a', name: 'Values' })];
+const contents = { 'col-a': [10, 0, '#N/A', true, 'x'] };
+
+const evaluate = (formula: string, grid = buildGrid(columns, contents)) => evaluateFormula(grid, formula);
+
+describe('Logical functions and error propagation', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('powers', () => {
+    it.each([
+      ['=0^-1', '#DIV/0!'],
+      ['=POWER(0, -2)', '#DIV/0!'],
+      ['=0^2', 0],
+      ['=2^-1', 0.5],
+      ['=POWER(A1, 2)', 100],
+      ['=(-8)^(1/3)', '#NUM!'],
+      ['=10^400', '#NUM!'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('numbers too large for a cell', () => {
+    it.each([
+      ['=1E400', '#NUM!'],
+      ['=-1E400', '#NUM!'],
+      ['=IFERROR(1E400, "too large")', 'too large'],
+      ['=SUM(1E308, 1E308)', '#NUM!'],
+      ['=PRODUCT(1E200, 1E200)', '#NUM!'],
+      ['=1E308', 1e308],
+      // Only the element that overflowed is an error
+      ['=INDEX(SEQUENCE(2, 1, 1E308, 1E308), 1)', 1e308],
+      ['=INDEX(SEQUENCE(2, 1, 1E308, 1E308), 2)', '#NUM!'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('short-circuiting', () => {
+    // Evaluates the formula, reporting whether it asked for a stock quote
+    async function evaluateWatchingQuotes(formula: string) {
+      const grid = buildGrid(columns, contents);
+      const getStockQuote = jest.spyOn(grid, 'getStockQuote').mockResolvedValue({
+        symbol: 'AAPL',
+        price: 190,
+        change: 1.5,
+        changePercent: 0.79,
+        timestamp: '2024-01-15T16:00:00Z',
+      });
+      const result = await evaluate(formula, grid);
+      return { result, readQuote: getStockQuote.mock.calls.length > 0 };
+    }
+
+    it('IF evaluates only the chosen branch', async () => {
+      expect(await evaluateWatchingQuotes('=IF(A1>5, "big", STOCK("AAPL"))')).toEqual({ result: 'big', readQuote: false });
+      expect(await evaluateWatchingQuotes('=IF(A1<5, "small", STOCK("AAPL"))')).toEqual({ result: 190, readQuote: true });
+      expect(await evaluate('=IF(A2, 1/A2, "zero")')).toBe('zero');
+      expect(await evaluate('=IF(A1>100, 1)')).toBe(false);
+    });
+
+    it('IFERROR and IFNA evaluate the fallback only when needed', async () => {
+      expect(await evaluateWatchingQuotes('=IFERROR(A1, STOCK("AAPL"))')).toEqual({ result: 10, readQuote: false });
+      expect(await evaluateWatchingQuotes('=IFNA(A1, STOCK("AAPL"))')).toEqual({ result: 10, readQuote: false });
+      expect(await evaluate('=IFERROR(1/A2, "none")')).toBe('none');
+      expect(await evaluate('=IFERROR(A3, 0)')).toBe(0);
+      expect(await evaluate('=IFNA(A3, "missing")')).toBe('missing');
+      expect(await evaluate('=IFNA(VLOOKUP(99, A1:A2, 1, FALSE), "none")')).toBe('none');
+    });
+  });
+
+  describe('error propagation', () => {
+    it.each([
+      // An error in the condition or the chosen branch comes through
+      ['=IF(A3, 1, 2)', '#N/A'],
+      ['=IF(A1, 1/A2)', '#DIV/0!'],
+      ['=IF(A5, 1, 2)', '#VALUE!'],
+      // A fallback that fails too, and IFNA only catching #N/A
+      ['=IFERROR(1/A2, 1/A2)', '#DIV/0!'],
+      ['=IFNA(1/A2, "missing")', '#DIV/0!'],
+      // AND/OR evaluate every argument, so an error after the deciding value still shows, as in Excel
+      ['=AND(FALSE, 1/A2)', '#DIV/0!'],
+      ['=OR(TRUE, A3)', '#N/A'],
+      ['=OR(A1:A5)', '#N/A'],
+      ['=AND(A5:A5)', '#VALUE!'],
+      // Operators and aggregates pass errors on
+      ['=A3+1', '#N/A'],
+      ['=A3=1', '#N/A'],
+      ['=(1/A2)&"x"', '#DIV/0!'],
+      ['=SUM(A1, A3)', '#N/A'],
+    ])('%s is %s', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['=AND(A1>5, A4)', true],
+      ['=AND(A1:A2)', false],
+      ['=OR(A2, FALSE)', false],
+      ['=OR(A1:A2)', true],
+      ['=XOR(A4, A1)', false],
+      ['=NOT(A2)', true],
+      ['=ISERROR(A3)', true],
+      ['=ISNA(1/A2)', false],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('error reporting', () => {
+    it('reports errors to the grid instead of the console', async () => {
+      const grid = buildGrid(columns, contents);
+      const reportError = jest.spyOn(grid, 'reportError');
+      jest.mocked(console.error).mockClear();
+
+      expect(await evaluate('=A1/A2', grid)).toBe('#DIV/0!');
+      expect(await evaluate('=SUM(', grid)).toBe('#ERROR!');
+
+      expect(reportError).toHaveBeenCalledTimes(2);
+      expect(reportError).toHaveBeenCalledWith('=A1/A2', expect.any(FormulaEvaluationError));
+      expect(console.error).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1:B3 = product codes and prices, C1:D3 = sorted score thresholds and grades,
+// A5:C6 = the same kind of table laid out horizontally
+const columns = ['a', 'b', 'c', 'd'].map((letter) => testColumn({ id: `col-${letter}`, name: letter.toUpperCase() }));
+const contents = {
+  'col-a': ['A-100', 'B-200', 'C-300', null, 0, 'low'],
+  'col-b': [10, 20, 30, null, 10, 'mid'],
+  'col-c': [0, 50, 100, null, 20, 'high'],
+  'col-d': ['F', 'C', 'A'],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Lookup functions', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('VLOOKUP and HLOOKUP', () => {
+    it.each([
+      // Exact match, case-insensitive
+      ['=VLOOKUP("B-200", A1:B3, 2, FALSE)', 20],
+      ['=VLOOKUP("c-300", A1:B3, 2, FALSE)', 30],
+      // Approximate match (the default) takes the largest value not above the lookup value
+      ['=VLOOKUP(75, C1:D3, 2)', 'C'],
+      ['=VLOOKUP(100, C1:D3, 2, TRUE)', 'A'],
+      ['=VLOOKUP(1000, C1:D3, 2)', 'A'],
+      // Wildcards in an exact match
+      ['=VLOOKUP("B*", A1:B3, 2, FALSE)', 20],
+      ['=VLOOKUP("?-300", A1:B3, 2, FALSE)', 30],
+      ['=HLOOKUP(10, A1:D3, 3, FALSE)', 30],
+      ['=HLOOKUP(15, A5:C6, 2)', 'mid'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['=VLOOKUP("Z-999", A1:B3, 2, FALSE)', '#N/A'],
+      ['=VLOOKUP(-1, C1:D3, 2)', '#N/A'],
+      ['=VLOOKUP("10", A1:B3, 2, FALSE)', '#N/A'],
+      ['=HLOOKUP(-5, A5:C6, 2)', '#N/A'],
+      // col_index past the table is #REF!, below 1 is #VALUE!
+      ['=VLOOKUP("A-100", A1:B3, 3, FALSE)', '#REF!'],
+      ['=VLOOKUP("A-100", A1:B3, 0, FALSE)', '#VALUE!'],
+      ['=HLOOKUP(15, A5:C6, 3)', '#REF!'],
+    ])('%s is %s', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('INDEX and MATCH', () => {
+    it.each([
+      ['=INDEX(B1:B3, 2)', 20],
+      ['=INDEX(A1:B3, 3, 2)', 30],
+      ['=INDEX(A5:C5, 3)', 20],
+      ['=MATCH("C-300", A1:A3, 0)', 3],
+      ['=MATCH("*200", A1:A3, 0)', 2],
+      ['=MATCH(75, C1:C3)', 2],
+      ['=MATCH(75, C1:C3, 1)', 2],
+      ['=INDEX(B1:B3, MATCH("C-300", A1:A3, 0))', 30],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['=INDEX(A1:B3, 4, 1)', '#REF!'],
+      ['=INDEX(A1:B3, 1, 3)', '#REF!'],
+      ['=INDEX(A1:B3, -1, 1)', '#VALUE!'],
+      ['=MATCH("x", A1:A3, 0)', '#N/A'],
+      ['=MATCH(-1, C1:C3)', '#N/A'],
+      ['=MATCH(1, A1:B3, 0)', '#VALUE!'],
+    ])('%s is %s', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it('returns a whole row or column for a 0 index', async () => {
+      expect(await evaluate('=SUM(INDEX(A1:B3, 0, 2))')).toBe(60);
+      expect(await evaluate('=SUM(INDEX(A1:B3, 2, 0))')).toBe(20);
+    });
+  });
+
+  describe('XLOOKUP', () => {
+    it.each([
+      ['=XLOOKUP("B-200", A1:A3, B1:B3)', 20],
+      ['=XLOOKUP("Z-999", A1:A3, B1:B3, "none")', 'none'],
+      // Exact or next smaller / next larger
+      ['=XLOOKUP(75, C1:C3, D1:D3, , -1)', 'C'],
+      ['=XLOOKUP(75, C1:C3, D1:D3, , 1)', 'A'],
+      ['=XLOOKUP(50, C1:C3, D1:D3, , 1)', 'C'],
+      // Wildcards only in match mode 2
+      ['=XLOOKUP("c*", A1:A3, B1:B3, , 2)', 30],
+      ['=XLOOKUP(10, A5:C5, A6:C6)', 'mid'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it.each([
+      ['=XLOOKUP("Z-999", A1:A3, B1:B3)', '#N/A'],
+      ['=XLOOKUP("c*", A1:A3, B1:B3)', '#N/A'],
+      ['=XLOOKUP(1000, C1:C3, D1:D3, , 1)', '#N/A'],
+      ['=XLOOKUP("A-100", A1:A3, B1:B2)', '#VALUE!'],
+      ['=XLOOKUP("A-100", A1:A3, B1:B3, , 5)', '#VALUE!'],
+    ])('%s is %s', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+});
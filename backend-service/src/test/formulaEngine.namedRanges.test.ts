@@ -0,0 +1,153 @@
+import {
+  invalidNameReason,
+  renameInFormula,
+  rewriteRangeText,
+  StructuralEdit,
+  usesName,
+} from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn, testNamedRange, testRow } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1:A3 = sales of 100, 200 and 300, B1 = a tax rate, B2 = 5. SUM names a cell,
+// though it's also a function, and Gone's cells were deleted.
+const DEFAULT_NAMES = [
+  { name: 'TaxRate', range: 'B1' },
+  { name: 'Sales', range: 'A1:A3' },
+  { name: 'Total.Q1', range: '$A$1:$A$2' },
+  { name: 'SUM', range: 'B2' },
+  { name: 'Gone', range: '#REF!' },
+];
+const columns = [
+  testColumn({ id: 'col-a', name: 'Sales', type: 'NUMBER' }),
+  testColumn({ id: 'col-b', name: 'Settings', type: 'NUMBER' }),
+];
+const contents = { 'col-a': [100, 200, 300], 'col-b': [0.2, 5, null] };
+
+function gridWithNames(names = DEFAULT_NAMES) {
+  return buildGrid(columns, contents, { namedRanges: names.map(testNamedRange) });
+}
+
+const evaluate = (formula: string, grid = gridWithNames()) => evaluateFormula(grid, formula);
+
+describe('Named ranges', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('invalidNameReason', () => {
+    it.each(['TaxRate', '_total', 'Q1.Sales', 'R1C1', 'SUM', 'vlookup'])('accepts %s', (name) => {
+      expect(invalidNameReason(name)).toBeNull();
+    });
+
+    it.each(['A1', 'a1', 'XFD100', 'LOG10', 'TRUE', 'false'])('rejects %s, which reads as a value or cell', (name) => {
+      expect(invalidNameReason(name)).toMatch(/reads as a value or cell reference/);
+    });
+
+    it.each(['1st', 'Tax Rate', 'Tax-Rate', '$A$1', 'A1:B2'])('rejects %s, which is not a bare name', (name) => {
+      expect(invalidNameReason(name)).toMatch(/must start with a letter or underscore/);
+    });
+
+    it('rejects empty and overly long names', () => {
+      expect(invalidNameReason('')).toMatch(/1 to 255 characters/);
+      expect(invalidNameReason('x'.repeat(256))).toMatch(/1 to 255 characters/);
+      expect(invalidNameReason('x'.repeat(255))).toBeNull();
+    });
+  });
+
+  describe('resolving names in formulas', () => {
+    it.each([
+      ['=TaxRate*A1', 20],
+      ['=SUM(Sales)', 600],
+      ['=AVERAGE(Total.Q1)', 150],
+      ['=MAX(Sales)-MIN(Sales)', 200],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+
+    it('looks names up case-insensitively', async () => {
+      expect(await evaluate('=taxrate*A1')).toBe(20);
+      expect(await evaluate('=SUM(sales)')).toBe(600);
+      expect(await evaluate('=SUM(SALES)*TAXRATE')).toBe(120);
+    });
+
+    it('tells a name that collides with a function from a call to it', async () => {
+      expect(await evaluate('=SUM*2')).toBe(10);
+      expect(await evaluate('=SUM(SUM, 1)')).toBe(6);
+      expect(await evaluate('=sum(Sales)')).toBe(600);
+    });
+
+    it('is #NAME? for undefined names and #REF! for deleted ranges', async () => {
+      expect(await evaluate('=Unknown*2')).toBe('#NAME?');
+      expect(await evaluate('=Gone+1')).toBe('#REF!');
+    });
+  });
+
+  describe('renameInFormula', () => {
+    it.each([
+      ['=TaxRate*A1', '=VAT*A1'],
+      ['=taxrate*2 + TAXRATE', '=VAT*2 + VAT'],
+      ['=TaxRate2+TaxRate', '=TaxRate2+VAT'],
+      ['="TaxRate: "&TaxRate', '="TaxRate: "&VAT'],
+      ['=[TaxRate]@row*TaxRate', '=[TaxRate]@row*VAT'],
+      ['=A1*2', '=A1*2'],
+      ['=TaxRate + "unterminated', '=TaxRate + "unterminated'],
+    ])('renames TaxRate in %s', (formula, expected) => {
+      expect(renameInFormula(formula, 'TaxRate', 'VAT')).toBe(expected);
+    });
+
+    it('leaves calls to a function with the same name alone', () => {
+      expect(renameInFormula('=SUM(SUM, sum)', 'Sum', 'Extra')).toBe('=SUM(Extra, Extra)');
+    });
+  });
+
+  // Which formulas are recalculated when TaxRate is defined, changed or removed
+  describe('usesName', () => {
+    it.each([
+      ['=TaxRate*A1', true],
+      ['=SUM(A1:A3)*taxrate', true],
+      ['=TaxRate2+A1', false],
+      ['="TaxRate"&A1', false],
+      ['=[TaxRate]@row', false],
+      ['=TAXRATE(A1)', false],
+      ['=TaxRate + "unterminated', false],
+    ])('%s uses TaxRate: %p', (formula, expected) => {
+      expect(usesName(formula, 'TaxRate')).toBe(expected);
+    });
+  });
+
+  describe('after rows are deleted', () => {
+    const deleteFirstRow: StructuralEdit = { axis: 'row', kind: 'delete', index: 0, count: 1 };
+
+    // The names as stored once the first row is gone, and the sheet without it
+    const namesAfterDelete = DEFAULT_NAMES.map((named) => ({
+      ...named,
+      range: rewriteRangeText(named.range, deleteFirstRow),
+    }));
+    const gridAfterDelete = () =>
+      buildGrid(
+        columns,
+        { 'col-a': [200, 300], 'col-b': [5, null] },
+        {
+          rows: [2, 3].map((number, index) => testRow({ id: `row-${number}`, position: index })),
+          namedRanges: namesAfterDelete.map(testNamedRange),
+        }
+      );
+
+    it('keeps names pointing at the same cells', async () => {
+      const ranges = Object.fromEntries(namesAfterDelete.map(({ name, range }) => [name, range]));
+      expect(ranges).toEqual({ TaxRate: '#REF!', Sales: 'A1:A2', 'Total.Q1': '$A$1:$A$1', SUM: 'B1', Gone: '#REF!' });
+
+      expect(await evaluate('=SUM(Sales)', gridAfterDelete())).toBe(500);
+      expect(await evaluate('=AVERAGE(Total.Q1)', gridAfterDelete())).toBe(200);
+      expect(await evaluate('=SUM*2', gridAfterDelete())).toBe(10);
+    });
+
+    it('is #REF! for a name whose cells were deleted', async () => {
+      expect(await evaluate('=TaxRate*A1', gridAfterDelete())).toBe('#REF!');
+    });
+  });
+});
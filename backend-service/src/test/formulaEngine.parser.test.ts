@@ -0,0 +1,130 @@
+import { AstNode, columnIndexToLetters, FormulaSyntaxError, parseFormula } from '../../../shared/formula-engine';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = 2, A2 = 3
+const columns = [testColumn({ id: 'col-a', name: 'Value', type: 'NUMBER' })];
+const contents = { 'col-a': [2, 3] };
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+// The parsed formula written out with every operation in parentheses
+function grouping(node: AstNode): string {
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return JSON.stringify(node.value);
+    case 'boolean':
+      return node.value ? 'TRUE' : 'FALSE';
+    case 'cell':
+      return `${columnIndexToLetters(node.ref.columnIndex)}${node.ref.rowIndex + 1}`;
+    case 'function':
+      return `${node.name}(${node.args.map(grouping).join(', ')})`;
+    case 'unary':
+      return node.operator === '%' ? `(${grouping(node.operand)}%)` : `(${node.operator}${grouping(node.operand)})`;
+    case 'binary':
+      return `(${grouping(node.left)} ${node.operator} ${grouping(node.right)})`;
+    default:
+      return node.type;
+  }
+}
+
+describe('Formula parser', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  describe('precedence and associativity', () => {
+    it.each([
+      ['=1+2*3', '(1 + (2 * 3))'],
+      ['=10-4-3', '((10 - 4) - 3)'],
+      ['=8/4/2', '((8 / 4) / 2)'],
+      // "^" binds tightest of the binary operators, and groups left to right as in Excel
+      ['=2*3^2', '(2 * (3 ^ 2))'],
+      ['=2^3^2', '((2 ^ 3) ^ 2)'],
+      // Unary minus binds tighter than "^", and "%" tighter still
+      ['=-2^2', '((-2) ^ 2)'],
+      ['=2^-1', '(2 ^ (-1))'],
+      ['=-A1%', '(-(A1%))'],
+      ['=50%^2', '((50%) ^ 2)'],
+      ['=A1*10%%', '(A1 * ((10%)%))'],
+      // "&" sits between arithmetic and comparisons
+      ['=1&2+3', '(1 & (2 + 3))'],
+      ['="a"&"b"="ab"', '(("a" & "b") = "ab")'],
+      // Comparisons bind loosest and group left to right
+      ['=1+2>2*1', '((1 + 2) > (2 * 1))'],
+      ['=1<2=TRUE', '((1 < 2) = TRUE)'],
+      ['=A1<>A2>=FALSE', '((A1 <> A2) >= FALSE)'],
+      ['=(1+2)*3', '((1 + 2) * 3)'],
+      ['=-(1+2)^2', '((-(1 + 2)) ^ 2)'],
+    ])('groups %s as %s', (formula, expected) => {
+      expect(grouping(parseFormula(formula))).toBe(expected);
+    });
+
+    it.each([
+      ['=1+2*3', 7],
+      ['=2^3^2', 64],
+      ['=-2^2', 4],
+      ['=-A1^2', 4],
+      ['=2^-1', 0.5],
+      ['=50%^2', 0.25],
+      ['=1&2+3', '15'],
+      ['=A1+A2&"x"', '5x'],
+      ['=1+1=2', true],
+      ['=1<2=TRUE', true],
+      ['=10-4-3', 3],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('strings', () => {
+    it('keeps commas and parentheses inside strings as text', () => {
+      expect(grouping(parseFormula('=CONCAT("a,b", "(c)", ")")'))).toBe('CONCAT("a,b", "(c)", ")")');
+      expect(grouping(parseFormula('=IF(A1>0, "yes, (really)", "no")'))).toBe('IF((A1 > 0), "yes, (really)", "no")');
+    });
+
+    it('reads a doubled quote as one quote', () => {
+      expect(grouping(parseFormula('="say ""hi"", (twice)"'))).toBe('"say \\"hi\\", (twice)"');
+      expect(grouping(parseFormula("='it''s, (fine)'"))).toBe('"it\'s, (fine)"');
+    });
+
+    it.each([
+      ['=LEN("f(x, y)")', 7],
+      ['=CONCAT("a,", "(b")', 'a,(b'],
+      ['=SUBSTITUTE("1,2,3", ",", ")")', '1)2)3'],
+      ['="(" & A1 & ", " & A2 & ")"', '(2, 3)'],
+    ])('%s = %p', async (formula, expected) => {
+      expect(await evaluate(formula)).toBe(expected);
+    });
+  });
+
+  describe('syntax errors', () => {
+    it.each([
+      ['=SUM(1, 2', /Expected "," or "\)" to close SUM\( but found end of formula at position 10/],
+      ['=(1+2', /Expected "\)" but found end of formula at position 6/],
+      ['=((A1)', /Expected "\)" but found end of formula at position 7/],
+      ['=1+', /Unexpected end of formula at position 4/],
+      ['=A1*', /Unexpected end of formula at position 5/],
+      ['=2^', /Unexpected end of formula at position 4/],
+      ['=1&', /Unexpected end of formula at position 4/],
+      ['=A1>=', /Unexpected end of formula at position 6/],
+      ['=1+2)', /Unexpected "\)" at position 5/],
+      ['=SUM("a, b"', /to close SUM\( but found end of formula/],
+      ['="unclosed, (', /Unterminated string literal at position 2/],
+    ])('rejects %s', (formula, message) => {
+      expect(() => parseFormula(formula)).toThrow(FormulaSyntaxError);
+      expect(() => parseFormula(formula)).toThrow(message);
+    });
+
+    it('shows as #ERROR! in the cell', async () => {
+      expect(await evaluate('=SUM(A1, A2')).toBe('#ERROR!');
+      expect(await evaluate('=A1+')).toBe('#ERROR!');
+    });
+  });
+});
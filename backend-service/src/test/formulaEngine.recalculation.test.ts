@@ -0,0 +1,120 @@
+import type { Cell, Prisma } from '@prisma/client';
+import { dependentsInOrder } from '../../../shared/formula-engine';
+import { SheetGrid } from '../services/formula.service';
+import { updateCell } from '../services/sheet.service';
+import { buildGrid, testCell, testColumn, testRow, testSheet, testUser } from './formulaEngine.fixtures';
+
+// The sheet's cells as stored, and the computed values written by recalculation
+const mockDb = {
+  cells: [] as Cell[],
+  writes: [] as Prisma.CellUpdateArgs[],
+};
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    cell: {
+      findUnique: async ({ where }: Prisma.CellFindUniqueArgs) => {
+        const cell = mockDb.cells.find((candidate) => candidate.id === where.id);
+        const sheet = testSheet({ id: 'sheet', name: 'Sheet', userId: 'owner' });
+        return cell && { ...cell, sheet: { ...sheet, shares: [] } };
+      },
+      // Formulas in other sheets reading this one
+      findMany: async () => [],
+      update: (args: Prisma.CellUpdateArgs) => {
+        const cell = mockDb.cells.find((candidate) => candidate.id === args.where.id)!;
+        Object.assign(cell, args.data);
+        mockDb.writes.push(args);
+        return cell;
+      },
+    },
+    user: { findUnique: async () => testUser({ id: 'owner', email: 'owner@example.com', name: 'Owner' }) },
+    $transaction: async (operations: unknown[]) => operations,
+  },
+}));
+
+describe('Recalculation order', () => {
+  // Each formula reads cells further down the column, so position order is the wrong order
+  const columns = [testColumn({ id: 'col-a', name: 'Value', type: 'NUMBER' }), testColumn({ id: 'col-b' })];
+  const contents = {
+    'col-a': ['=A2+A4', '=A3*2', '=A5+1', '=A3+A2', 1],
+    'col-b': ['=10', '=A1'],
+  };
+
+  it('orders the dependents of a cell so each comes after the formulas it reads', () => {
+    const grid = buildGrid(columns, contents);
+    const order = dependentsInOrder(grid, ['col-a-5']).map((cell) => cell.id);
+
+    expect(order).toEqual(['col-a-3', 'col-a-2', 'col-a-4', 'col-a-1', 'col-b-2']);
+  });
+
+  it('leaves out cells that do not depend on the change', () => {
+    const grid = buildGrid(columns, contents);
+
+    expect(dependentsInOrder(grid, ['col-a-2']).map((cell) => cell.id)).toEqual(['col-a-4', 'col-a-1', 'col-b-2']);
+    expect(dependentsInOrder(grid, ['col-b-1'])).toEqual([]);
+  });
+});
+
+describe('updateCell', () => {
+  // A1 = 1, and formulas reading it with their stored results: B1 = A1*2 (2),
+  // C1 = B1+1 (3), D1 = IF(A1>0, "positive", "other") ("positive"), E1 = 5 (5)
+  const columns = ['a', 'b', 'c', 'd', 'e'].map((letter, position) =>
+    testColumn({ id: `col-${letter}`, position, name: letter.toUpperCase(), type: 'NUMBER' })
+  );
+  const rows = [testRow({ id: 'row-1' })];
+
+  const cell = (letter: string, formula: string | null, stored: unknown) =>
+    testCell({
+      id: `${letter}1`,
+      rowId: 'row-1',
+      columnId: `col-${letter}`,
+      value: formula ? null : JSON.stringify(stored),
+      formula,
+      formulaAuthorId: formula ? 'owner' : null,
+      computedValue: formula ? JSON.stringify(stored) : null,
+    });
+
+  beforeEach(() => {
+    mockDb.cells = [
+      cell('a', null, 1),
+      cell('b', '=A1*2', 2),
+      cell('c', '=B1+1', 3),
+      cell('d', '=IF(A1>0, "positive", "other")', 'positive'),
+      cell('e', '=5', 5),
+    ];
+    mockDb.writes = [];
+    // Loaded from what's stored, like the real grid
+    jest.spyOn(SheetGrid, 'load').mockImplementation(async () => {
+      const cells = mockDb.cells.map((stored) => ({ ...stored }));
+      return new SheetGrid('sheet', columns, rows, cells);
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('returns only the dependents whose results changed', async () => {
+    const { changedCells } = await updateCell('a1', { value: 5 }, 'owner');
+
+    expect(changedCells).toEqual([
+      { id: 'b1', rowId: 'row-1', columnId: 'col-b', computedValue: 10 },
+      { id: 'c1', rowId: 'row-1', columnId: 'col-c', computedValue: 11 },
+    ]);
+  });
+
+  it('writes only the results that changed', async () => {
+    await updateCell('a1', { value: 5 }, 'owner');
+
+    expect(mockDb.writes.map((write) => [write.where.id, write.data.computedValue])).toEqual([
+      ['a1', null],
+      ['b1', '10'],
+      ['c1', '11'],
+    ]);
+  });
+
+  it('returns nothing when no result changes', async () => {
+    const { changedCells } = await updateCell('a1', { value: 1 }, 'owner');
+
+    expect(changedCells).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+jest.mock('../services/stock.service', () => ({
+  getStockQuote: jest.fn((symbol: string) =>
+    Promise.resolve({ symbol, price: 100, change: 0, changePercent: 0, timestamp: '2024-01-01T00:00:00.000Z' })
+  ),
+}));
+
+// A1 = 1, B1 = 2, C1 = text that looks like JavaScript
+const columns = ['col-a', 'col-b', 'col-c'].map((id) => testColumn({ id }));
+const contents = { 'col-a': ['1'], 'col-b': ['2'], 'col-c': ['process.exit(1)'] };
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+// Where an injected assignment would land
+const globals = globalThis as typeof globalThis & { canary?: string };
+
+// Formula text a collaborator could type to try to run code on the server
+const ADVERSARIAL_FORMULAS = [
+  '=process.exit(1)',
+  '=require("child_process").execSync("id")',
+  '=constructor.constructor("return process")()',
+  '=CONSTRUCTOR("return process")',
+  '=__proto__',
+  '=__PROTO__(1)',
+  '=toString()',
+  '=valueOf()',
+  '=hasOwnProperty("SUM")',
+  '=this',
+  '=globalThis.canary',
+  '=1+1;globalThis.canary="pwned"',
+  '=1); globalThis.canary = "pwned"; (1',
+  '=`${globalThis.canary = "pwned"}`',
+  '=${globalThis}',
+  '=1/*comment*/+1',
+  '=[].constructor',
+  '=({}).constructor',
+  '=eval("1+1")',
+  '=Function("return 1")()',
+  '=IF(1, globalThis.canary = "pwned", 0)',
+  '=IF("1; globalThis.canary = \'pwned\'", 1, 0)',
+  '=IF(A1>0 || (globalThis.canary = "pwned"), 1, 0)',
+  '=SUM(1, 2)) + (globalThis.canary = "pwned"',
+  '=A1 + \\u0061lert(1)',
+  '=１+１',
+  '=1\u0000+1',
+  '=' + '('.repeat(5000) + '1' + ')'.repeat(5000),
+  '=' + '-'.repeat(5000) + '1',
+  '=' + 'ABS('.repeat(2000) + '1' + ')'.repeat(2000),
+  '=' + '1+'.repeat(10000) + '1',
+  '=SUM(A1:XFD1048576)',
+];
+
+describe('Formula evaluation with adversarial input', () => {
+  const OriginalFunction = global.Function;
+  let functionConstructions = 0;
+
+  // Every rejected formula is logged; keep the test output readable
+  beforeAll(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    globals.canary = 'untouched';
+    functionConstructions = 0;
+    // Count any attempt to compile code from a string during evaluation
+    global.Function = new Proxy(OriginalFunction, {
+      construct(target, args) {
+        functionConstructions++;
+        return Reflect.construct(target, args);
+      },
+      apply(target, thisArg, args) {
+        functionConstructions++;
+        return Reflect.apply(target, thisArg, args);
+      },
+    });
+  });
+
+  afterEach(() => {
+    global.Function = OriginalFunction;
+    delete globals.canary;
+  });
+
+  it.each(ADVERSARIAL_FORMULAS)('evaluates %s to a value or an error without running code', async (formula) => {
+    const evalSpy = jest.spyOn(global, 'eval');
+    const prototypeKeys = Object.getOwnPropertyNames(Object.prototype);
+
+    const result = await evaluate(formula);
+
+    expect(['number', 'string', 'boolean'].includes(typeof result) || result === null).toBe(true);
+    expect(globals.canary).toBe('untouched');
+    expect(functionConstructions).toBe(0);
+    expect(evalSpy).not.toHaveBeenCalled();
+    expect(Object.getOwnPropertyNames(Object.prototype)).toEqual(prototypeKeys);
+    evalSpy.mockRestore();
+  });
+
+  it('reports unknown names, including JavaScript built-ins, as #NAME?', async () => {
+    await expect(evaluate('=CONSTRUCTOR("x")')).resolves.toBe('#NAME?');
+    await expect(evaluate('=toString()')).resolves.toBe('#NAME?');
+    await expect(evaluate('=__proto__')).resolves.toBe('#NAME?');
+    await expect(evaluate('=require("fs")')).resolves.toBe('#NAME?');
+  });
+
+  it('rejects text outside the formula grammar as a syntax error', async () => {
+    await expect(evaluate('=1+1;globalThis.canary="pwned"')).resolves.toBe('#ERROR!');
+    await expect(evaluate('=`1`')).resolves.toBe('#ERROR!');
+    await expect(evaluate('=1/*comment*/+1')).resolves.toBe('#ERROR!');
+    await expect(evaluate('=SUM(1, 2)) + 1')).resolves.toBe('#ERROR!');
+  });
+
+  it('treats code inside strings and cells as plain text', async () => {
+    await expect(evaluate('="); process.exit(1); ("')).resolves.toBe('); process.exit(1); (');
+    await expect(evaluate('=C1')).resolves.toBe('process.exit(1)');
+    await expect(evaluate('=C1&"; 1"')).resolves.toBe('process.exit(1); 1');
+    await expect(evaluate('=IF("1; process.exit(1)", 1, 0)')).resolves.toBe('#VALUE!');
+  });
+
+  it('limits formula length, nesting depth and range size', async () => {
+    await expect(evaluate('=' + '1+'.repeat(5000) + '1')).resolves.toBe('#ERROR!');
+    await expect(evaluate('=' + '('.repeat(101) + '1' + ')'.repeat(101))).resolves.toBe('#ERROR!');
+    await expect(evaluate('=' + '('.repeat(50) + '1' + ')'.repeat(50))).resolves.toBe(1);
+    await expect(evaluate('=SUM(A1:XFD1048576)')).resolves.toBe('#REF!');
+  });
+
+  it('still evaluates ordinary arithmetic and comparisons', async () => {
+    await expect(evaluate('=A1+B1*3')).resolves.toBe(7);
+    await expect(evaluate('=(A1+B1)^2/9')).resolves.toBe(1);
+    await expect(evaluate('=IF(A1<B1, "less", "more")')).resolves.toBe('less');
+    await expect(evaluate('=A1&B1="12"')).resolves.toBe(true);
+  });
+});
+
+describe('Formula engine source', () => {
+  const servicesDir = path.join(__dirname, '..', 'services');
+  // The engine itself is shared with the frontend
+  const engineDir = path.join(__dirname, '..', '..', '..', 'shared', 'formula-engine');
+
+  function sourceFiles(dir: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return sourceFiles(fullPath);
+      return entry.name.endsWith('.ts') ? [fullPath] : [];
+    });
+  }
+
+  it('never generates code at runtime', () => {
+    const files = [path.join(servicesDir, 'formula.service.ts'), ...sourceFiles(engineDir)];
+    for (const file of files) {
+      const source = fs.readFileSync(file, 'utf8');
+      expect({ file, match: source.match(/new Function|\bFunction\(|\beval\(|require\('vm'\)|from 'vm'/) }).toEqual({
+        file,
+        match: null,
+      });
+    }
+  });
+});
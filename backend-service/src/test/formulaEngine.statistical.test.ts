@@ -0,0 +1,101 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A = scores with a repeat, B = paired values for CORREL, C = a column with
+// text and blanks mixed in (a stored empty string reads as blank)
+const columns = [
+  testColumn({ id: 'col-a', name: 'Score', type: 'NUMBER' }),
+  testColumn({ id: 'col-b', name: 'Paired', type: 'NUMBER' }),
+  testColumn({ id: 'col-c', name: 'Mixed' }),
+];
+const contents = {
+  'col-a': ['2', '4', '4', '4', '5', '5', '7', '9'],
+  'col-b': ['1', '3', '2', '5', '4', '6', '8', '9'],
+  'col-c': ['3', 'text', null, '', '1', null, null, null],
+};
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Statistical functions', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    ['=MEDIAN(A1:A8)', 4.5],
+    ['=MEDIAN(1, 3, 2)', 2],
+    ['=MODE(A1:A8)', 4],
+    ['=STDEV.P(A1:A8)', 2],
+    ['=STDEV.S(A1:A8)', 2.138089935],
+    ['=STDEV(A1:A8)', 2.138089935],
+    ['=VAR(A1:A8)', 4.571428571],
+    ['=VAR.P(A1:A8)', 4],
+    ['=PERCENTILE(A1:A8, 0.3)', 4],
+    ['=PERCENTILE(A1:A8, 0.9)', 7.6],
+    ['=QUARTILE(A1:A8, 1)', 4],
+    ['=QUARTILE(A1:A8, 3)', 5.5],
+    ['=QUARTILE(A1:A8, 4)', 9],
+    ['=RANK(5, A1:A8)', 3],
+    ['=RANK(4, A1:A8)', 5],
+    ['=RANK(4, A1:A8, 1)', 2],
+    ['=LARGE(A1:A8, 2)', 7],
+    ['=SMALL(A1:A8, 3)', 4],
+    ['=CORREL(A1:A8, B1:B8)', 0.925429046],
+    ['=MEDIAN(C1:C8)', 2],
+  ])('%s gives %s', async (formula, expected) => {
+    expect(await evaluate(formula)).toBeCloseTo(expected, 6);
+  });
+
+  it('counts values and blanks', async () => {
+    expect(await evaluate('=COUNTA(C1:C8)')).toBe(3);
+    expect(await evaluate('=COUNTA(A1:A8, "x", 1/0)')).toBe(10);
+    expect(await evaluate('=COUNTBLANK(C1:C8)')).toBe(5);
+  });
+
+  it('gives errors for out-of-range arguments', async () => {
+    expect(await evaluate('=MODE(1, 2, 3)')).toBe('#N/A');
+    expect(await evaluate('=RANK(3, A1:A8)')).toBe('#N/A');
+    expect(await evaluate('=STDEV.S(1)')).toBe('#DIV/0!');
+    expect(await evaluate('=PERCENTILE(A1:A8, 1.5)')).toBe('#NUM!');
+    expect(await evaluate('=QUARTILE(A1:A8, 5)')).toBe('#NUM!');
+    expect(await evaluate('=LARGE(A1:A8, 9)')).toBe('#NUM!');
+    expect(await evaluate('=MEDIAN(C2:C4)')).toBe('#NUM!');
+  });
+});
+
+describe('Math functions', () => {
+  it.each([
+    ['=ROUND(2.15, 1)', 2.2],
+    ['=ROUND(1.005, 2)', 1.01],
+    ['=ROUND(-1.5, 0)', -2],
+    ['=ROUND(1234.567, -2)', 1200],
+    ['=ROUNDUP(3.14159, 3)', 3.142],
+    ['=ROUNDUP(-3.14159, 1)', -3.2],
+    ['=ROUNDDOWN(3.14159, 3)', 3.141],
+    ['=ROUNDDOWN(-3.14159, 1)', -3.1],
+    ['=ABS(-4)', 4],
+    ['=MOD(3, 2)', 1],
+    ['=MOD(-3, 2)', 1],
+    ['=MOD(3, -2)', -1],
+    ['=POWER(5, 2)', 25],
+    ['=POWER(4, 0.5)', 2],
+    ['=SQRT(16)', 4],
+  ])('%s gives %s', async (formula, expected) => {
+    expect(await evaluate(formula)).toBeCloseTo(expected, 10);
+  });
+
+  it('works element by element on ranges', async () => {
+    expect(await evaluate('=SUM(ROUND(SEQUENCE(3, 1, 0.25, 0.5), 0))')).toBe(2);
+    expect(await evaluate('=SUM(ABS(B1:B3 - 4))')).toBe(6);
+  });
+
+  it('gives errors for invalid input', async () => {
+    expect(await evaluate('=MOD(1, 0)')).toBe('#DIV/0!');
+    expect(await evaluate('=SQRT(-1)')).toBe('#NUM!');
+    expect(await evaluate('=POWER(0, -1)')).toBe('#DIV/0!');
+  });
+});
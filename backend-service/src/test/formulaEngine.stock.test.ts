@@ -0,0 +1,96 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { refreshStockQuotes } from '../services/stock.service';
+import { getMarketDataProvider } from '../config/marketData';
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Quotes come from a copy of the development market data file, so the test can
+// move prices and check the refresh picks them up
+const mockQuotesFile = path.join(os.tmpdir(), `market-data-${process.pid}.json`);
+fs.copyFileSync(path.join(__dirname, '../../data/market-data.json'), mockQuotesFile);
+
+jest.mock('../config/marketData', () => {
+  const { FileMarketDataProvider } = jest.requireActual('../services/marketData.service');
+  // Same path as mockQuotesFile, which isn't initialized yet when this runs
+  const quotesFile = jest.requireActual('path').join(
+    jest.requireActual('os').tmpdir(),
+    `market-data-${process.pid}.json`
+  );
+  const provider = new FileMarketDataProvider(quotesFile);
+  return {
+    getMarketDataProvider: () => provider,
+    stockRefreshIntervalMs: () => 60000,
+  };
+});
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = a ticker symbol typed into a cell
+const columns = [testColumn({ id: 'col-a', name: 'Ticker' })];
+const contents = { 'col-a': ['googl'] };
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+function setPrice(symbol: string, price: number) {
+  const quotes = JSON.parse(fs.readFileSync(mockQuotesFile, 'utf8'));
+  quotes[symbol].price = price;
+  fs.writeFileSync(mockQuotesFile, JSON.stringify(quotes));
+}
+
+describe('Stock formulas', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(mockQuotesFile, { force: true });
+  });
+
+  it('reads quote attributes with $SYMBOL and STOCK()', async () => {
+    expect(await evaluate('=$AAPL')).toBe(189.84);
+    expect(await evaluate('=STOCK("AAPL")')).toBe(189.84);
+    expect(await evaluate('=STOCK("msft", "change")')).toBe(4.62);
+    expect(await evaluate('=STOCK(A1, "changePercent")')).toBe(-0.2539);
+    expect(await evaluate('=STOCK("TSLA", "timestamp")')).toBe('2024-06-14T20:00:00');
+  });
+
+  it('gives #N/A for unknown symbols and #VALUE! for unknown attributes', async () => {
+    expect(await evaluate('=$NOPE')).toBe('#N/A');
+    expect(await evaluate('=STOCK("NOPE", "price")')).toBe('#N/A');
+    expect(await evaluate('=STOCK("AAPL", "volume")')).toBe('#VALUE!');
+    expect(await evaluate('=STOCK(42)')).toBe('#VALUE!');
+  });
+
+  it('keeps serving the last quote until the next refresh', async () => {
+    expect(await evaluate('=$AMZN')).toBe(183.66);
+    setPrice('AMZN', 190);
+    expect(await evaluate('=$AMZN')).toBe(183.66);
+
+    await refreshStockQuotes();
+    expect(await evaluate('=$AMZN')).toBe(190);
+  });
+
+  it('gives #N/A while the provider is failing and there is no earlier quote', async () => {
+    const quotes = JSON.parse(fs.readFileSync(mockQuotesFile, 'utf8'));
+    fs.writeFileSync(mockQuotesFile, JSON.stringify({ ...quotes, NVDA: { ...quotes.AAPL, price: 120 } }));
+
+    const getQuote = jest.spyOn(getMarketDataProvider(), 'getQuote').mockRejectedValue(new Error('Rate limited'));
+    expect(await evaluate('=$NVDA')).toBe('#N/A');
+    expect(await evaluate('=STOCK("NVDA", "change")')).toBe('#N/A');
+
+    getQuote.mockRestore();
+    expect(await evaluate('=$NVDA')).toBe(120);
+  });
+
+  it('keeps the last quote when a refresh fails', async () => {
+    expect(await evaluate('=$MSFT')).toBe(442.57);
+    const getQuote = jest.spyOn(getMarketDataProvider(), 'getQuote').mockRejectedValue(new Error('Rate limited'));
+
+    await refreshStockQuotes();
+    expect(await evaluate('=$MSFT')).toBe(442.57);
+    getQuote.mockRestore();
+  });
+});
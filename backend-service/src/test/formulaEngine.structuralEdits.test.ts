@@ -0,0 +1,253 @@
+import type { Cell, Chart, ConditionalFormat, DataValidation, NamedRange, PivotTable } from '@prisma/client';
+import { rewriteFormulaReferences, rewriteRangeText, StructuralEdit } from '../../../shared/formula-engine';
+import { SheetGrid } from '../services/formula.service';
+import { deleteRow } from '../services/sheet.service';
+import { buildGrid, testColumn, testRow } from './formulaEngine.fixtures';
+
+// What deleteRow reads and writes, kept in memory: the sheet's rows, stored
+// formulas, and the ranges of its other features. Writes are recorded, not
+// applied, along with the transaction they were sent in.
+const mockStore = {
+  formulaCells: [] as Pick<Cell, 'id' | 'sheetId' | 'formula'>[],
+  conditionalFormats: [] as Pick<ConditionalFormat, 'id' | 'range'>[],
+  dataValidations: [] as Pick<DataValidation, 'id' | 'range' | 'type' | 'criteria'>[],
+  charts: [] as Pick<Chart, 'id' | 'dataRange' | 'labelRange'>[],
+  pivotTables: [] as Pick<PivotTable, 'id' | 'sourceRange'>[],
+  namedRanges: [] as Pick<NamedRange, 'id' | 'range'>[],
+  saved: [] as { model: string; id: string; data?: object }[],
+  transactions: 0,
+};
+
+jest.mock('../config/database', () => {
+  const table = (model: string, rows: () => object[]) => ({
+    findMany: async () => rows(),
+    update: ({ where, data }: { where: { id: string }; data: object }) => ({ model, id: where.id, data }),
+  });
+  return {
+    __esModule: true,
+    default: {
+      sheet: {
+        findUnique: async () => ({
+          id: 'sheet',
+          userId: 'owner',
+          shares: [],
+          rows: [1, 2, 3, 4, 5].map((number) => testRow({ id: `row-${number}`, position: number - 1 })),
+        }),
+      },
+      user: { findUnique: async () => ({ id: 'owner', email: 'owner@example.com' }) },
+      row: { delete: ({ where }: { where: { id: string } }) => ({ model: 'row', id: where.id }) },
+      cell: {
+        ...table('cell', () => mockStore.formulaCells),
+        deleteMany: ({ where }: { where: { rowId: string } }) => ({ model: 'cells', id: where.rowId }),
+      },
+      conditionalFormat: table('conditionalFormat', () => mockStore.conditionalFormats),
+      dataValidation: table('dataValidation', () => mockStore.dataValidations),
+      chart: table('chart', () => mockStore.charts),
+      pivotTable: table('pivotTable', () => mockStore.pivotTables),
+      namedRange: table('namedRange', () => mockStore.namedRanges),
+      $transaction: async (updates: typeof mockStore.saved) => {
+        mockStore.saved.push(...updates);
+        mockStore.transactions++;
+        return updates;
+      },
+    },
+  };
+});
+
+// Recalculating other sheets isn't what's tested here
+jest.mock('../services/formula.service', () => ({
+  ...jest.requireActual('../services/formula.service'),
+  recalculateLinkedSheets: jest.fn(),
+}));
+
+const insertRow: StructuralEdit = { axis: 'row', kind: 'insert', index: 1, count: 1 };
+const deleteSecondRow: StructuralEdit = { axis: 'row', kind: 'delete', index: 1, count: 1 };
+const insertColumn: StructuralEdit = { axis: 'column', kind: 'insert', index: 0, count: 1 };
+const deleteColumnB: StructuralEdit = { axis: 'column', kind: 'delete', index: 1, count: 1, columnIds: ['col-b'] };
+
+// Formulas in the edited sheet: plain references and its own {#sheet}! references move
+const rewrite = (formula: string, edit: StructuralEdit) =>
+  rewriteFormulaReferences(formula, edit, (sheet) => sheet === null || sheet === '#sheet');
+
+describe('rewriteFormulaReferences', () => {
+  it.each([
+    ['=A1+A2', '=A1+A3'],
+    ['=SUM(A3:B4)', '=SUM(A4:B5)'],
+    // A range the new row lands inside grows to take it in
+    ['=SUM(A1:A5)', '=SUM(A1:A6)'],
+    ['=$A$2*B$3', '=$A$3*B$4'],
+    ['=[Amount]2', '=[Amount]3'],
+    ['=SUM([Amount]1:[Amount]4)', '=SUM([Amount]1:[Amount]5)'],
+    ['={#sheet}!A2', '={#sheet}!A3'],
+    ['=LOG10(A3)', '=LOG10(A4)'],
+  ])('shifts %s down when a row is inserted above', (formula, expected) => {
+    expect(rewrite(formula, insertRow)).toBe(expected);
+  });
+
+  it.each([
+    ['=A1+B1', '=B1+C1'],
+    ['=SUM(A1:C1)', '=SUM(B1:D1)'],
+    ['=$A1*A$1', '=$B1*B$1'],
+  ])('shifts %s right when a column is inserted before it', (formula, expected) => {
+    expect(rewrite(formula, insertColumn)).toBe(expected);
+  });
+
+  it.each([
+    ['=A3', '=A2'],
+    ['=SUM(A1:A5)', '=SUM(A1:A4)'],
+    ['=SUM(A2:A3)', '=SUM(A2:A2)'],
+    ['=SUM(B3:A1)', '=SUM(A1:B2)'],
+    ['=$A$3', '=$A$2'],
+    ['=[Amount]5', '=[Amount]4'],
+  ])('moves %s up and shrinks ranges when a row is deleted', (formula, expected) => {
+    expect(rewrite(formula, deleteSecondRow)).toBe(expected);
+  });
+
+  it.each([
+    ['=A2*2', '=#REF!*2'],
+    ['=$A$2', '=#REF!'],
+    ['=SUM(A2:B2)', '=SUM(#REF!)'],
+    ['={#sheet}!A2+1', '=#REF!+1'],
+    ['=[Amount]2', '=#REF!'],
+    ['="A2"&A2', '="A2"&#REF!'],
+  ])('makes %s #REF! when the cells it references are deleted', (formula, expected) => {
+    expect(rewrite(formula, deleteSecondRow)).toBe(expected);
+  });
+
+  it('handles deleted columns, including [Column] references to them', () => {
+    expect(rewrite('=A1+B1+C1', deleteColumnB)).toBe('=A1+#REF!+B1');
+    expect(rewrite('=SUM(A1:C1)', deleteColumnB)).toBe('=SUM(A1:B1)');
+    expect(rewrite('=$C$1', deleteColumnB)).toBe('=$B$1');
+    expect(rewrite('=[#col-b]@row', deleteColumnB)).toBe('=#REF!');
+    expect(rewrite('=[#col-c]@row*2', deleteColumnB)).toBe('=[#col-c]@row*2');
+  });
+
+  it('leaves references that do not move alone', () => {
+    expect(rewrite('=A1*2', insertRow)).toBe('=A1*2');
+    expect(rewrite('=[Amount]@row', insertRow)).toBe('=[Amount]@row');
+    expect(rewrite('=SUM([Amount]:[Amount])', deleteSecondRow)).toBe('=SUM([Amount]:[Amount])');
+    expect(rewrite('={#other}!A2', deleteSecondRow)).toBe('={#other}!A2');
+    expect(rewrite('=A1 + "unterminated', insertRow)).toBe('=A1 + "unterminated');
+  });
+
+  it('only rewrites plain references in formulas in the edited sheet', () => {
+    const inOtherSheet = (formula: string) =>
+      rewriteFormulaReferences(formula, deleteSecondRow, (sheet) => sheet === '#sheet');
+    expect(inOtherSheet('=A3+{#sheet}!A3')).toBe('=A3+{#sheet}!A2');
+  });
+});
+
+describe('rewriteRangeText', () => {
+  it.each([
+    ['A1:B10', insertRow, 'A1:B11'],
+    ['A2:B10', insertRow, 'A3:B11'],
+    ['A1:B10', deleteSecondRow, 'A1:B9'],
+    ['$A$1:$A$3', deleteSecondRow, '$A$1:$A$2'],
+    ['A1:C3', deleteColumnB, 'A1:B3'],
+    ['B1:D1', insertColumn, 'C1:E1'],
+  ])('%s becomes %s', (range, edit, expected) => {
+    expect(rewriteRangeText(range, edit)).toBe(expected);
+  });
+
+  it('drops deleted parts of a list and is #REF! when nothing is left', () => {
+    expect(rewriteRangeText('A1,B2,C3:C5', deleteSecondRow)).toBe('A1,C2:C4');
+    expect(rewriteRangeText('A2,B2:C2', deleteSecondRow)).toBe('#REF!');
+    expect(rewriteRangeText('B2', deleteSecondRow)).toBe('#REF!');
+  });
+
+  it('keeps parts that are not A1 references', () => {
+    expect(rewriteRangeText('Totals, A3', deleteSecondRow)).toBe('Totals,A2');
+  });
+});
+
+describe('Deleting a row', () => {
+  // The grid before and after the edit, for recalculation; an empty one unless a test sets them
+  let grids: SheetGrid[];
+
+  beforeEach(() => {
+    grids = [];
+    jest.spyOn(SheetGrid, 'load').mockImplementation(async () => grids.shift() ?? buildGrid([], {}));
+    mockStore.formulaCells = [
+      { id: 'sum', sheetId: 'sheet', formula: '=SUM(A1:A5)' },
+      { id: 'deleted', sheetId: 'sheet', formula: '=A2*2' },
+      { id: 'unchanged', sheetId: 'sheet', formula: '=A1' },
+      { id: 'linked', sheetId: 'other', formula: '={#sheet}!A3+A3' },
+    ];
+    mockStore.conditionalFormats = [
+      { id: 'format', range: 'A1:C5' },
+      { id: 'format-above', range: 'A1' },
+    ];
+    mockStore.dataValidations = [
+      { id: 'validation', range: 'B2', type: 'NUMBER', criteria: '{"min":0}' },
+      // Options from a range move with it; named ones stay
+      { id: 'list', range: 'C1', type: 'LIST', criteria: '{"source":"A3:A5"}' },
+      { id: 'named-list', range: 'C1', type: 'LIST', criteria: '{"source":"Options"}' },
+    ];
+    mockStore.charts = [{ id: 'chart', dataRange: 'A1:B5', labelRange: 'A3:A5' }];
+    mockStore.pivotTables = [{ id: 'pivot', sourceRange: 'A2,C1:C5' }];
+    mockStore.namedRanges = [{ id: 'name', range: 'A4' }];
+    mockStore.saved = [];
+    mockStore.transactions = 0;
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('rewrites formulas and every stored range that points into the sheet, with the row deletion', async () => {
+    await deleteRow('sheet', 'row-2', 'owner');
+
+    expect(mockStore.transactions).toBe(1);
+    expect(mockStore.saved).toEqual([
+      { model: 'cells', id: 'row-2' },
+      { model: 'row', id: 'row-2' },
+      { model: 'cell', id: 'sum', data: { formula: '=SUM(A1:A4)' } },
+      { model: 'cell', id: 'deleted', data: { formula: '=#REF!*2' } },
+      { model: 'cell', id: 'linked', data: { formula: '={#sheet}!A2+A3' } },
+      { model: 'conditionalFormat', id: 'format', data: { range: 'A1:C4' } },
+      { model: 'dataValidation', id: 'validation', data: { range: '#REF!', criteria: '{"min":0}' } },
+      { model: 'dataValidation', id: 'list', data: { range: 'C1', criteria: '{"source":"A2:A4"}' } },
+      { model: 'chart', id: 'chart', data: { dataRange: 'A1:B4', labelRange: 'A2:A4' } },
+      { model: 'pivotTable', id: 'pivot', data: { sourceRange: 'C1:C4' } },
+      { model: 'namedRange', id: 'name', data: { range: 'A3' } },
+    ]);
+  });
+
+  it('recalculates only formulas reading moved or deleted cells, and their dependents', async () => {
+    mockStore.formulaCells = [];
+    mockStore.conditionalFormats = [];
+    mockStore.dataValidations = [];
+    mockStore.charts = [];
+    mockStore.pivotTables = [];
+    mockStore.namedRanges = [];
+
+    // B1 and E1 only read row 1; B3 moves up, C1 reads the whole column and D1 reads C1
+    const columns = ['a', 'b', 'c', 'd', 'e'].map((letter) =>
+      testColumn({ id: `col-${letter}`, name: letter === 'a' ? 'Value' : letter.toUpperCase(), type: 'NUMBER' })
+    );
+    const before = buildGrid(columns, {
+      'col-a': [1, 2, 3, 4],
+      'col-b': ['=A1*2', '=A2*2', '=A3*2'],
+      'col-c': ['=SUM([Value]:[Value])', '=B1+1'],
+      'col-d': ['=C1*10'],
+      'col-e': ['=B1+1'],
+    });
+    // Without row 2, and with B3's reference rewritten the way deleteRow stores it
+    const after = new SheetGrid(
+      'sheet',
+      columns.map((column, position) => ({ ...column, position })),
+      [1, 3, 4].map((number) => testRow({ id: `row-${number}`, position: number - 1 })),
+      before.cells
+        .filter((cell) => cell.rowId !== 'row-2')
+        .map((cell) => (cell.id === 'col-b-3' ? { ...cell, formula: '=A2*2' } : { ...cell }))
+    );
+    grids = [before, after];
+
+    await deleteRow('sheet', 'row-2', 'owner');
+
+    const recalculated = mockStore.saved.filter((write) => write.model === 'cell');
+    expect(Object.fromEntries(recalculated.map((write) => [write.id, write.data]))).toEqual({
+      'col-b-3': { computedValue: '6' },
+      'col-c-1': { computedValue: '8' },
+      'col-d-1': { computedValue: '80' },
+    });
+  });
+});
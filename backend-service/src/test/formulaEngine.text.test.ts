@@ -0,0 +1,108 @@
+import { buildGrid, evaluateFormula, testColumn } from './formulaEngine.fixtures';
+
+// Formulas are evaluated against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = text with extra spaces, A2 = a product code, A3:A5 = text that Number()
+// would read as a number but a spreadsheet doesn't, A6 = a number
+const columns = [testColumn({ id: 'col-a', name: 'Text' })];
+const contents = { 'col-a': ['  Hello   World  ', 'ABC-123', '0x10', 'Infinity', '1e3', 1234.5] };
+
+const evaluate = (formula: string) => evaluateFormula(buildGrid(columns, contents), formula);
+
+describe('Text functions', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    ['=LEFT(A2, 3)', 'ABC'],
+    ['=LEFT(A2)', 'A'],
+    ['=LEFT(A2, 20)', 'ABC-123'],
+    ['=RIGHT(A2, 3)', '123'],
+    ['=RIGHT(A2, 0)', ''],
+    ['=MID(A2, 5, 2)', '12'],
+    ['=MID(A2, 10, 2)', ''],
+    ['=TRIM(A1)', 'Hello World'],
+    ['=LEN(TRIM(A1))', 11],
+    ['=SUBSTITUTE("a-b-c", "-", "+")', 'a+b+c'],
+    ['=SUBSTITUTE("a-b-c", "-", "+", 2)', 'a-b+c'],
+    ['=SUBSTITUTE("a-b-c", "-", "+", 3)', 'a-b-c'],
+    ['=REPLACE("abcdef", 2, 3, "X")', 'aXef'],
+    ['=UPPER("mixed Case")', 'MIXED CASE'],
+    ['=PROPER("hello wORLD")', 'Hello World'],
+    ['=CONCAT(LEFT(A2, 3), "/", 7)', 'ABC/7'],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  it('FIND is case-sensitive, SEARCH is not and takes wildcards', async () => {
+    expect(await evaluate('=FIND("C", A2)')).toBe(3);
+    expect(await evaluate('=FIND("c", A2)')).toBe('#VALUE!');
+    expect(await evaluate('=SEARCH("c", A2)')).toBe(3);
+    expect(await evaluate('=SEARCH("-?2", A2)')).toBe(4);
+    expect(await evaluate('=SEARCH("B*3", A2)')).toBe(2);
+    expect(await evaluate('=FIND("l", "hello", 4)')).toBe(4);
+    expect(await evaluate('=SEARCH("l", "hello", 9)')).toBe('#VALUE!');
+  });
+
+  it('formats numbers and dates with TEXT', async () => {
+    expect(await evaluate('=TEXT(A6, "#,##0.00")')).toBe('1,234.50');
+    expect(await evaluate('=TEXT(0.256, "0.0%")')).toBe('25.6%');
+    expect(await evaluate('=TEXT("2024-01-15", "mmm d, yyyy")')).toBe('Jan 15, 2024');
+    expect(await evaluate('=TEXT("abc", "0.00")')).toBe('abc');
+  });
+
+  it.each([
+    ['=LEFT(A2, -1)', '#VALUE!'],
+    ['=RIGHT(A2, -1)', '#VALUE!'],
+    ['=MID(A2, 0, 2)', '#VALUE!'],
+    ['=MID(A2, 1, -1)', '#VALUE!'],
+    ['=MID(A2, "x", 1)', '#VALUE!'],
+    ['=SUBSTITUTE("abc", "b", "x", 0)', '#VALUE!'],
+    ['=REPLACE("abc", 0, 1, "x")', '#VALUE!'],
+    ['=FIND("a", "abc", 5)', '#VALUE!'],
+  ])('%s is %s', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+});
+
+describe('Numbers written as text', () => {
+  beforeAll(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+  afterAll(() => jest.restoreAllMocks());
+
+  it.each([
+    ['="12"+1', 13],
+    ['=" 12 "+1', 13],
+    ['="-0.5"*2', -1],
+    ['="1e3"+1', 1001],
+    ['=".5"+1', 1.5],
+    ['=A5+1', 1001],
+    ['=VALUE("$1,200")', 1200],
+    ['=VALUE("15%")', 0.15],
+  ])('%s = %p', async (formula, expected) => {
+    expect(await evaluate(formula)).toBe(expected);
+  });
+
+  it.each([
+    ['="0x10"+1'],
+    ['="Infinity"*1'],
+    ['="0b1"+1'],
+    ['="  "+1'],
+    ['=""+1'],
+    ['="1e999"+1'],
+    ['=A3+1'],
+    ['=A4+1'],
+    ['=VALUE("0x10")'],
+  ])('%s is #VALUE!', async (formula) => {
+    expect(await evaluate(formula)).toBe('#VALUE!');
+  });
+
+  it('keeps text that only Number() reads as a number as text in cells', async () => {
+    expect(await evaluate('=COUNT(A3:A6)')).toBe(2);
+    expect(await evaluate('=A3')).toBe('0x10');
+    expect(await evaluate('=A4')).toBe('Infinity');
+  });
+});
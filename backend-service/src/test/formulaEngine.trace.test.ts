@@ -0,0 +1,75 @@
+import { traceCell } from '../../../shared/formula-engine';
+import { SheetGrid } from '../services/formula.service';
+import { testCell, testColumn, testRow } from './formulaEngine.fixtures';
+
+// Formulas are traced in an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = 1, A2 = 2, B1 = A1+A2, B2 = B1*2, C1 = SUM(B1:B2), C2 = SUM(A1:A3);
+// row 3 has no cells yet
+function buildGrid(): SheetGrid {
+  const columns = ['a', 'b', 'c'].map((letter, position) =>
+    testColumn({ id: `col-${letter}`, position, name: letter.toUpperCase(), type: 'NUMBER' })
+  );
+  const rows = [1, 2, 3].map((number) => testRow({ id: `row-${number}`, position: number - 1 }));
+  const cell = (letter: string, row: number, value: unknown, formula: string | null = null) =>
+    testCell({
+      id: `${letter}${row}`,
+      rowId: `row-${row}`,
+      columnId: `col-${letter}`,
+      value: JSON.stringify(value),
+      formula,
+    });
+  const cells = [
+    cell('a', 1, 1),
+    cell('a', 2, 2),
+    cell('b', 1, '=A1+A2', '=A1+A2'),
+    cell('b', 2, '=B1*2', '=B1*2'),
+    cell('c', 1, '=SUM(B1:B2)', '=SUM(B1:B2)'),
+    cell('c', 2, '=SUM(A1:A3)', '=SUM(A1:A3)'),
+  ];
+  return new SheetGrid('sheet', columns, rows, cells);
+}
+
+const ids = (traced: { cellId: string | null }[]) => traced.map((cell) => cell.cellId);
+
+describe('Tracing precedents and dependents', () => {
+  it('finds the cells a formula reads directly', () => {
+    expect(traceCell(buildGrid(), 'b2', 'precedents', false)).toEqual([
+      { cellId: 'b1', rowId: 'row-1', columnId: 'col-b', columnIndex: 1, rowIndex: 0, depth: 1 },
+    ]);
+  });
+
+  it('follows precedents recursively, nearest first', () => {
+    const traced = traceCell(buildGrid(), 'c1', 'precedents', true);
+    expect(traced.map(({ cellId, depth }) => [cellId, depth])).toEqual([
+      ['b1', 1],
+      ['b2', 1],
+      ['a1', 2],
+      ['a2', 2],
+    ]);
+  });
+
+  it('includes positions without a cell read by a range', () => {
+    expect(traceCell(buildGrid(), 'c2', 'precedents', false)).toContainEqual({
+      cellId: null,
+      rowId: 'row-3',
+      columnId: 'col-a',
+      columnIndex: 0,
+      rowIndex: 2,
+      depth: 1,
+    });
+  });
+
+  it('finds the formulas reading a cell', () => {
+    expect(ids(traceCell(buildGrid(), 'a1', 'dependents', false))).toEqual(['b1', 'c2']);
+    expect(ids(traceCell(buildGrid(), 'a1', 'dependents', true))).toEqual(['b1', 'c2', 'c1', 'b2']);
+  });
+
+  it('finds nothing for a cell without formulas around it', () => {
+    expect(traceCell(buildGrid(), 'c1', 'dependents', true)).toEqual([]);
+  });
+});
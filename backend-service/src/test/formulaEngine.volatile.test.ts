@@ -0,0 +1,94 @@
+import { FormulaEngine, SheetGrid, recalculateVolatileFormulas } from '../services/formula.service';
+import { scheduleVolatileRecalc } from '../jobs/volatileRecalc.job';
+import { usesVolatileFunctions } from '../../../shared/formula-engine';
+import type { CalculationMode, Prisma } from '@prisma/client';
+import { testCell, testColumn, testRow } from './formulaEngine.fixtures';
+
+// Results are "persisted" into this list instead of the database
+const mockWrites: { id: string; computedValue: string | null }[] = [];
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    cell: {
+      update: jest.fn(({ where, data }: Prisma.CellUpdateArgs) => ({
+        id: where.id,
+        computedValue: data.computedValue,
+      })),
+    },
+    $transaction: jest.fn(async (operations: typeof mockWrites) => {
+      mockWrites.push(...operations);
+      return operations;
+    }),
+  },
+}));
+
+jest.mock('../services/stock.service', () => ({
+  getStockQuote: jest.fn(),
+}));
+
+// A1 = RAND(), B1 = A1 * 10, C1 = 42 + 1 (not volatile)
+function buildGrid(calculationMode: CalculationMode): SheetGrid {
+  const columns = ['a', 'b', 'c'].map((letter, position) => testColumn({ id: `col-${letter}`, position }));
+  const rows = [testRow({ id: 'row-1' })];
+  const cell = (letter: string, formula: string) =>
+    testCell({
+      id: `${letter}1`,
+      rowId: 'row-1',
+      columnId: `col-${letter}`,
+      formula,
+      computedValue: JSON.stringify(0.5),
+    });
+  const cells = [cell('a', '=RAND()'), cell('b', '=A1*10'), cell('c', '=42+1')];
+  return new SheetGrid('sheet', columns, rows, cells, [], calculationMode);
+}
+
+describe('Volatile formulas', () => {
+  beforeEach(() => {
+    mockWrites.length = 0;
+  });
+
+  it('recognizes formulas calling NOW, TODAY, RAND or RANDBETWEEN', () => {
+    expect(usesVolatileFunctions('=NOW()')).toBe(true);
+    expect(usesVolatileFunctions('=DATEDIF(A1, today(), "Y")')).toBe(true);
+    expect(usesVolatileFunctions('=-RANDBETWEEN(1, 6) + 1')).toBe(true);
+    expect(usesVolatileFunctions('=SUM(A1:A3)')).toBe(false);
+    expect(usesVolatileFunctions('="NOW()"')).toBe(false);
+    expect(usesVolatileFunctions('=NOW(')).toBe(false);
+  });
+
+  it('draws RANDBETWEEN results from the whole range', async () => {
+    const grid = buildGrid('AUTOMATIC');
+    const results = new Set();
+    for (let i = 0; i < 200; i++) {
+      results.add(await FormulaEngine.evaluate(grid, '=RANDBETWEEN(1, 3)'));
+    }
+    expect(results).toEqual(new Set([1, 2, 3]));
+    expect(JSON.parse(JSON.stringify(await FormulaEngine.evaluate(grid, '=RANDBETWEEN(3, 1)')))).toBe('#NUM!');
+  });
+
+  it('recalculates volatile formulas and their dependents and persists them', async () => {
+    const changed = await recalculateVolatileFormulas(buildGrid('AUTOMATIC'));
+
+    expect(changed.map((cell) => cell.id)).toEqual(['a1', 'b1']);
+    const [rand, dependent] = changed.map((cell) => cell.computedValue as number);
+    expect(dependent).toBeCloseTo(rand * 10);
+    expect(mockWrites.map((write) => write.id)).toEqual(['a1', 'b1']);
+  });
+
+  it('leaves sheets in manual calculation mode alone', async () => {
+    expect(await recalculateVolatileFormulas(buildGrid('MANUAL'))).toEqual([]);
+    expect(mockWrites).toEqual([]);
+  });
+
+  it('reads the recalculation interval when the job starts, after .env is loaded', () => {
+    const setInterval = jest.spyOn(global, 'setInterval').mockReturnValue({} as NodeJS.Timeout);
+    process.env.VOLATILE_RECALC_INTERVAL_MS = '1000';
+
+    scheduleVolatileRecalc();
+
+    expect(setInterval).toHaveBeenCalledWith(expect.any(Function), 1000);
+    delete process.env.VOLATILE_RECALC_INTERVAL_MS;
+    setInterval.mockRestore();
+  });
+});
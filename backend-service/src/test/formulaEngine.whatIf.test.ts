@@ -0,0 +1,149 @@
+import { FormulaEngine, dataTable, evaluateWithValues, goalSeek } from '../../../shared/formula-engine';
+import { SheetGrid } from '../services/formula.service';
+import { testCell, testColumn, testRow } from './formulaEngine.fixtures';
+
+// What-if analysis runs against an in-memory grid; nothing here should reach the database
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+// A1 = price 100, A2 = discount 10%, A3 = cost 60, B1 = discounted price,
+// B2 = margin, B3 = a formula ignoring the discount, C1 = A1*A4 (A4 is empty)
+function buildGrid(): SheetGrid {
+  const columns = ['a', 'b', 'c'].map((letter, position) =>
+    testColumn({ id: `col-${letter}`, position, name: letter.toUpperCase(), type: 'NUMBER' })
+  );
+  const rows = [1, 2, 3, 4].map((number) => testRow({ id: `row-${number}`, position: number - 1 }));
+  const cell = (letter: string, row: number, value: unknown, formula: string | null = null) =>
+    testCell({
+      id: `${letter}${row}`,
+      rowId: `row-${row}`,
+      columnId: `col-${letter}`,
+      value: JSON.stringify(value),
+      formula,
+    });
+  const cells = [
+    cell('a', 1, 100),
+    cell('a', 2, 0.1),
+    cell('a', 3, 60),
+    cell('b', 1, '=A1*(1-A2)', '=A1*(1-A2)'),
+    cell('b', 2, '=(B1-A3)/B1', '=(B1-A3)/B1'),
+    cell('b', 3, '=A2*0+5', '=A2*0+5'),
+    cell('c', 1, '=A1*A4', '=A1*A4'),
+  ];
+  return new SheetGrid('sheet', columns, rows, cells);
+}
+
+const A2 = { columnIndex: 0, rowIndex: 1 };
+const A3 = { columnIndex: 0, rowIndex: 2 };
+const A4 = { columnIndex: 0, rowIndex: 3 };
+
+describe('Goal seek', () => {
+  it('finds the input value that makes the formula hit the target', async () => {
+    const grid = buildGrid();
+    const result = await goalSeek(grid, grid.getCellById('b2')!, A2, 0.2);
+
+    expect(result.found).toBe(true);
+    expect(result.inputValue).toBe(0.25);
+    expect(result.targetValue).toBeCloseTo(0.2, 9);
+  });
+
+  it('leaves the sheet as it was', async () => {
+    const grid = buildGrid();
+    await goalSeek(grid, grid.getCellById('b2')!, A2, 0.2);
+
+    expect(grid.getStoredValue(0, 1)).toBe(0.1);
+    expect(await FormulaEngine.evaluate(grid, '=B1', 'c2')).toBe(90);
+  });
+
+  it('reports when the formula never reaches the target', async () => {
+    const grid = buildGrid();
+    const result = await goalSeek(grid, grid.getCellById('b3')!, A2, 3);
+
+    expect(result.found).toBe(false);
+    expect(result.targetValue).toBe(5);
+  });
+});
+
+describe('Data tables', () => {
+  it('evaluates the targets for each value of one input', async () => {
+    const grid = buildGrid();
+    const table = await dataTable(grid, [grid.getCellById('b1')!, grid.getCellById('b2')!], {
+      ...A2,
+      values: [0, 0.25],
+    });
+
+    expect(table).toEqual([
+      [100, 0.4],
+      [75, 0.2],
+    ]);
+  });
+
+  it('evaluates one target for every pair of values of two inputs', async () => {
+    const grid = buildGrid();
+    const table = await dataTable(
+      grid,
+      [grid.getCellById('b2')!],
+      { ...A2, values: [0, 0.25] },
+      { ...A3, values: [50, 60] }
+    );
+
+    expect(table[0]).toEqual([0.5, 0.4]);
+    expect(table[1][0]).toBeCloseTo(1 / 3, 12);
+    expect(table[1][1]).toBe(0.2);
+    expect(grid.getStoredValue(0, 2)).toBe(60);
+  });
+
+  it('can substitute values into empty cells', async () => {
+    const grid = buildGrid();
+    const table = await dataTable(grid, [grid.getCellById('c1')!], { ...A4, values: [2, 3] });
+
+    expect(table).toEqual([[200], [300]]);
+    expect(await FormulaEngine.evaluate(grid, '=A1*A4', 'c1')).toBe(0);
+  });
+});
+
+describe('Evaluating with values', () => {
+  it('takes out the cells put in empty positions', async () => {
+    const grid = buildGrid();
+    const cellCount = grid.cells.length;
+
+    expect(await evaluateWithValues(grid, [grid.getCellById('c1')!], [{ ...A4, value: 2 }])).toEqual([200]);
+    expect(grid.getCell(A4.columnIndex, A4.rowIndex)).toBeUndefined();
+    expect(grid.cells).toHaveLength(cellCount);
+  });
+
+  it('puts spills back the way they were', async () => {
+    const grid = buildGrid();
+    // C2 spills 2 rows with the discount at 10%, and 3 at 15%
+    grid.setCell(
+      testCell({
+        id: 'c2',
+        rowId: 'row-2',
+        columnId: 'col-c',
+        formula: '=SEQUENCE(A2*20)',
+        computedValue: JSON.stringify({ spill: [[1], [2]] }),
+      })
+    );
+    const spills = grid.knownSpillAreas();
+    grid.takeResizedSpills();
+
+    expect(await evaluateWithValues(grid, [grid.getCellById('c2')!], [{ ...A2, value: 0.15 }])).toEqual([1]);
+    expect(grid.knownSpillAreas()).toEqual(spills);
+    expect(grid.takeResizedSpills()).toEqual([]);
+  });
+
+  it('puts the cells back when evaluating fails', async () => {
+    const grid = buildGrid();
+    const evaluate = jest.spyOn(FormulaEngine, 'evaluate').mockRejectedValue(new Error('Evaluation failed'));
+
+    await expect(
+      evaluateWithValues(grid, [grid.getCellById('c1')!], [{ ...A2, value: 0.5 }, { ...A4, value: 2 }])
+    ).rejects.toThrow('Evaluation failed');
+    evaluate.mockRestore();
+
+    expect(grid.getStoredValue(0, 1)).toBe(0.1);
+    expect(grid.getCell(A4.columnIndex, A4.rowIndex)).toBeUndefined();
+  });
+});
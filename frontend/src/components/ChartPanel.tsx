@@ -33,8 +33,9 @@ import {
   X,
   Check,
 } from 'lucide-react';
-import { chartApi } from '../services/api';
-import type { Chart, ChartType, ChartConfig, ChartPosition, Sheet } from '../types';
+import { chartApi, namedRangeApi } from '../services/api';
+import { cellResult, findSpillEchoes, spillEchoKey } from '../lib/spills';
+import type { Cell as SheetCell, Chart, ChartType, ChartConfig, ChartPosition, Sheet } from '../types';
 
 interface ChartPanelProps {
   sheet: Sheet;
@@ -74,6 +75,12 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
     queryFn: () => chartApi.getAll(sheet.id),
   });
 
+  // Named ranges, so a chart's ranges can be given by name
+  const { data: namedRanges = [] } = useQuery({
+    queryKey: ['named-ranges', sheet.id],
+    queryFn: () => namedRangeApi.getAll(sheet.id),
+  });
+
   // Create chart mutation
   const createMutation = useMutation({
     mutationFn: (input: { name: string; type: ChartType; dataRange: string; labelRange?: string; config: ChartConfig; position: ChartPosition }) =>
@@ -168,9 +175,10 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
     setIsCreating(true);
   };
 
-  // Parse range string like "A1:C5" into cell references
+  // Parse range string like "A1:C5" (or the name of one) into cell references
   const parseRange = (range: string): { startCol: number; startRow: number; endCol: number; endRow: number } | null => {
-    const match = range.match(/^([A-Z]+)(\d+):([A-Z]+)(\d+)$/i);
+    const namedRange = namedRanges.find((n) => n.name.toUpperCase() === range.trim().toUpperCase());
+    const match = (namedRange?.range ?? range).replace(/\$/g, '').match(/^([A-Z]+)(\d+):([A-Z]+)(\d+)$/i);
     if (!match) return null;
 
     const colToNum = (col: string) => {
@@ -198,6 +206,10 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
 
     const sortedRows = [...(sheet.rows || [])].sort((a, b) => a.position - b.position);
     const sortedCols = [...(sheet.columns || [])].sort((a, b) => a.position - b.position);
+    // Cells a formula spilled into are charted with the spilled values
+    const spillEchoes = findSpillEchoes(sortedCols, sortedRows);
+    const resultAt = (rowId: string, cell: SheetCell | undefined, columnId: string) =>
+      spillEchoes.get(spillEchoKey(rowId, columnId))?.value ?? cellResult(cell?.computedValue);
 
     const data: { name: string; [key: string]: string | number }[] = [];
 
@@ -212,7 +224,7 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
         const labelCol = sortedCols[labelRangeParsed.startCol];
         if (labelCol && row.cells) {
           const labelCell = row.cells.find(c => c.columnId === labelCol.id);
-          entry.name = labelCell?.computedValue?.toString() || labelCell?.value || `Row ${r + 1}`;
+          entry.name = resultAt(row.id, labelCell, labelCol.id)?.toString() || labelCell?.value || `Row ${r + 1}`;
         }
       } else {
         entry.name = `Row ${r + 1}`;
@@ -224,8 +236,8 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
         if (!col || !row.cells) continue;
 
         const cell = row.cells.find(cell => cell.columnId === col.id);
-        const value = cell?.computedValue ?? cell?.value;
-        entry[col.name] = typeof value === 'number' ? value : parseFloat(value || '0') || 0;
+        const value = resultAt(row.id, cell, col.id) ?? cell?.value;
+        entry[col.name] = typeof value === 'number' ? value : parseFloat(String(value || '0')) || 0;
       }
 
       data.push(entry);
@@ -414,7 +426,7 @@ export function ChartPanel({ sheet, onClose }: ChartPanelProps) {
 
             <div>
               <label className="block text-xs font-medium text-slate-600 mb-1">
-                Data Range (e.g., B1:C5)
+                Data Range (e.g., B1:C5 or a named range)
               </label>
               <input
                 type="text"
@@ -121,6 +121,10 @@ export function DataValidationPanel({ sheetId, onClose }: DataValidationPanelPro
   const buildCriteria = (): ListValidationCriteria | NumberValidationCriteria | TextLengthValidationCriteria | DateValidationCriteria => {
     switch (validationType) {
       case 'LIST':
+        // "=Regions" or "=C2:C20" takes the options from a named range or range of cells
+        if (listValues.trim().startsWith('=')) {
+          return { values: [], source: listValues.trim().slice(1).trim() };
+        }
         return { values: listValues.split(',').map(v => v.trim()).filter(v => v) };
       case 'NUMBER':
         return {
@@ -197,7 +201,7 @@ export function DataValidationPanel({ sheetId, onClose }: DataValidationPanelPro
 
     switch (validation.type) {
       case 'LIST':
-        setListValues((criteria.values || []).join(', '));
+        setListValues(criteria.source ? `=${criteria.source}` : (criteria.values || []).join(', '));
         break;
       case 'NUMBER':
         setMinNumber(criteria.min?.toString() || '');
@@ -227,6 +231,9 @@ export function DataValidationPanel({ sheetId, onClose }: DataValidationPanelPro
 
     switch (validation.type) {
       case 'LIST':
+        if (criteria.source) {
+          return `Values from ${criteria.source}`;
+        }
         const values = criteria.values || [];
         return `${values.length} option${values.length !== 1 ? 's' : ''}`;
       case 'NUMBER':
@@ -279,6 +286,9 @@ export function DataValidationPanel({ sheetId, onClose }: DataValidationPanelPro
                 className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white resize-none"
                 rows={3}
               />
+              <p className="text-xs text-slate-500 mt-1">
+                Or =Name / =C2:C20 to use the values in a named range or range of cells
+              </p>
             </div>
             <label className="flex items-center gap-2 text-sm text-slate-600">
               <input
@@ -0,0 +1,67 @@
+import { X } from 'lucide-react';
+import type { CellTrace, TracedCell } from '../types';
+import { traceKey, tracedAddress } from '../lib/cellTrace';
+
+interface FormulaTraceBarProps {
+  trace: CellTrace;
+  allLevels: boolean;
+  onToggleAllLevels: () => void;
+  // Null when the cell's row is hidden by the current filter
+  visiblePositionOf: (cell: TracedCell) => { rowIndex: number; colIndex: number } | null;
+  onNavigateToCell: (rowIndex: number, colIndex: number) => void;
+  onClose: () => void;
+}
+
+// Precedents and dependents of the traced cell; clicking one selects it
+export default function FormulaTraceBar({
+  trace,
+  allLevels,
+  onToggleAllLevels,
+  visiblePositionOf,
+  onNavigateToCell,
+  onClose,
+}: FormulaTraceBarProps) {
+  const renderCells = (label: string, cells: TracedCell[], colorClasses: string) => (
+    <div className="flex items-center gap-1 flex-wrap">
+      <span className="text-neutral-600">{label}:</span>
+      {cells.length === 0 && <span className="text-neutral-400">none</span>}
+      {cells.map((cell) => {
+        const position = visiblePositionOf(cell);
+        return (
+          <button
+            key={traceKey(cell.rowId, cell.columnId)}
+            onClick={() => position && onNavigateToCell(position.rowIndex, position.colIndex)}
+            disabled={!position}
+            title={position ? `Go to ${tracedAddress(cell)}` : 'Hidden by the current filter'}
+            className={`rounded border px-1.5 py-0.5 font-mono transition-colors disabled:opacity-50 ${colorClasses}`}
+          >
+            {tracedAddress(cell)}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="bg-violet-50 border-b border-violet-200 px-4 py-2 flex items-start justify-between gap-4 text-xs">
+      <div className="flex flex-col gap-1">
+        <span className="font-medium text-violet-800">Tracing {tracedAddress(trace.cell)}</span>
+        {renderCells('Precedents', trace.precedents, 'border-sky-300 bg-sky-50 text-sky-800 hover:bg-sky-100')}
+        {renderCells('Dependents', trace.dependents, 'border-amber-300 bg-amber-50 text-amber-800 hover:bg-amber-100')}
+      </div>
+      <div className="flex items-center space-x-2">
+        <label className="inline-flex items-center gap-1 text-violet-700">
+          <input type="checkbox" checked={allLevels} onChange={onToggleAllLevels} />
+          All levels
+        </label>
+        <button
+          onClick={onClose}
+          className="inline-flex items-center px-2 py-1 font-medium text-violet-600 hover:text-violet-700 hover:bg-violet-100 rounded transition-colors"
+        >
+          <X className="h-3 w-3 mr-1" />
+          Clear trace
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -33,7 +33,13 @@ import {
   ShieldCheck,
   Table2,
   Check,
+  Tag,
+  Network,
+  Calculator,
+  Target,
+  RefreshCw,
 } from 'lucide-react';
+import type { CalculationMode } from '../types';
 
 interface MenuBarProps {
   onUndo?: () => void;
@@ -61,6 +67,13 @@ interface MenuBarProps {
   onConditionalFormat?: () => void;
   onChart?: () => void;
   onDataValidation?: () => void;
+  onNamedRanges?: () => void;
+  onTraceCell?: () => void;
+  onWhatIf?: () => void;
+  // Calculation
+  calculationMode?: CalculationMode;
+  onToggleCalculationMode?: () => void;
+  onRecalculate?: () => void;
   onPivotTable?: () => void;
   onSortAsc?: () => void;
   onSortDesc?: () => void;
@@ -123,6 +136,12 @@ export default function MenuBar({
   onConditionalFormat,
   onChart,
   onDataValidation,
+  onNamedRanges,
+  onTraceCell,
+  onWhatIf,
+  calculationMode = 'AUTOMATIC',
+  onToggleCalculationMode,
+  onRecalculate,
   onPivotTable,
   onSortAsc,
   onSortDesc,
@@ -251,6 +270,17 @@ export default function MenuBar({
         { label: 'Filter', icon: <Filter className="h-4 w-4" />, onClick: onFilter },
         { label: 'divider', divider: true },
         { label: 'Data validation', icon: <ShieldCheck className="h-4 w-4" />, onClick: onDataValidation },
+        { label: 'Named ranges', icon: <Tag className="h-4 w-4" />, onClick: onNamedRanges },
+        { label: 'Trace precedents & dependents', icon: <Network className="h-4 w-4" />, onClick: onTraceCell, disabled: selectedRow === null || selectedRow === undefined },
+        { label: 'What-if analysis', icon: <Target className="h-4 w-4" />, onClick: onWhatIf },
+        { label: 'divider', divider: true },
+        {
+          label: 'Manual calculation',
+          icon: calculationMode === 'MANUAL' ? <Check className="h-4 w-4" /> : <Calculator className="h-4 w-4" />,
+          onClick: onToggleCalculationMode,
+          disabled: isViewOnly,
+        },
+        { label: 'Recalculate now', icon: <RefreshCw className="h-4 w-4" />, onClick: onRecalculate, disabled: isViewOnly },
       ],
     },
   ];
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2, Edit2, X, Check, Tag, AlertCircle } from 'lucide-react';
+import { namedRangeApi } from '../services/api';
+import type { NamedRange, NamedRangeInput } from '../types';
+
+interface NameManagerPanelProps {
+  sheetId: string;
+  onClose: () => void;
+}
+
+export function NameManagerPanel({ sheetId, onClose }: NameManagerPanelProps) {
+  const queryClient = useQueryClient();
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [range, setRange] = useState('');
+
+  // Fetch named ranges
+  const { data: namedRanges = [], isLoading } = useQuery({
+    queryKey: ['named-ranges', sheetId],
+    queryFn: () => namedRangeApi.getAll(sheetId),
+  });
+
+  // Formulas using a name are recalculated whenever it changes
+  const onSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ['named-ranges', sheetId] });
+    queryClient.invalidateQueries({ queryKey: ['sheets', sheetId] });
+  };
+
+  const onError = (err: any) => {
+    setError(err.response?.data?.message || 'Failed to save named range');
+  };
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: (input: NamedRangeInput) => namedRangeApi.create(sheetId, input),
+    onSuccess: () => {
+      onSaved();
+      resetForm();
+      setIsCreating(false);
+    },
+    onError,
+  });
+
+  // Update mutation
+  const updateMutation = useMutation({
+    mutationFn: ({ namedRangeId, input }: { namedRangeId: string; input: NamedRangeInput }) =>
+      namedRangeApi.update(namedRangeId, input),
+    onSuccess: () => {
+      onSaved();
+      setEditingId(null);
+      setIsCreating(false);
+      resetForm();
+    },
+    onError,
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: (namedRangeId: string) => namedRangeApi.delete(namedRangeId),
+    onSuccess: onSaved,
+  });
+
+  const resetForm = () => {
+    setName('');
+    setRange('');
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!name || !range) return;
+
+    const input = { name: name.trim(), range: range.trim() };
+    if (editingId) {
+      updateMutation.mutate({ namedRangeId: editingId, input });
+    } else {
+      createMutation.mutate(input);
+    }
+  };
+
+  const startEditing = (namedRange: NamedRange) => {
+    setEditingId(namedRange.id);
+    setName(namedRange.name);
+    setRange(namedRange.range);
+    setError(null);
+    setIsCreating(true);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="p-4 border-b border-slate-200 flex items-center justify-between">
+        <h3 className="font-semibold text-slate-900">Named Ranges</h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Create/Edit Form */}
+        {isCreating ? (
+          <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+            <h4 className="font-medium text-sm text-slate-700">
+              {editingId ? 'Edit Name' : 'New Name'}
+            </h4>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="TaxRate"
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white"
+              />
+            </div>
+
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">
+                Refers to (e.g., B2 or C2:C20)
+              </label>
+              <input
+                type="text"
+                value={range}
+                onChange={(e) => setRange(e.target.value.toUpperCase())}
+                placeholder="C2:C20"
+                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white font-mono"
+              />
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Use the name in formulas (=SUM(Sales)), chart and pivot table ranges, and dropdown lists (=Sales).
+            </p>
+
+            {error && (
+              <div className="flex items-start gap-2 text-xs text-red-600">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={handleSave}
+                disabled={!name || !range || createMutation.isPending || updateMutation.isPending}
+                className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Check className="w-4 h-4" />
+                {editingId ? 'Update' : 'Create'}
+              </button>
+              <button
+                onClick={() => {
+                  setIsCreating(false);
+                  setEditingId(null);
+                  resetForm();
+                }}
+                className="px-3 py-2 text-slate-600 text-sm rounded-md hover:bg-slate-100 border border-slate-300"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 border-2 border-dashed border-slate-300 rounded-lg text-slate-600 hover:border-indigo-400 hover:text-indigo-600 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Add Named Range
+          </button>
+        )}
+
+        {/* Named Ranges List */}
+        {isLoading ? (
+          <div className="text-center text-slate-500 py-4">Loading named ranges...</div>
+        ) : namedRanges.length === 0 ? (
+          <div className="text-center text-slate-400 py-8">
+            No named ranges yet. Name a cell or range to use it in formulas.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {namedRanges.map((namedRange) => (
+              <div
+                key={namedRange.id}
+                className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border border-slate-200"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="p-2 bg-white rounded-md border border-slate-200">
+                    <Tag className="w-4 h-4" />
+                  </div>
+                  <div>
+                    <div className="text-sm font-medium text-slate-700">{namedRange.name}</div>
+                    <p
+                      className={`font-mono text-xs mt-0.5 ${
+                        namedRange.range === '#REF!' ? 'text-red-600' : 'text-slate-500'
+                      }`}
+                    >
+                      {namedRange.range}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => startEditing(namedRange)}
+                    className="p-1.5 hover:bg-slate-200 rounded"
+                  >
+                    <Edit2 className="w-4 h-4 text-slate-500" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete the name "${namedRange.name}"? Formulas using it will show #NAME?`)) {
+                        deleteMutation.mutate(namedRange.id);
+                      }
+                    }}
+                    className="p-1.5 hover:bg-red-100 rounded"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default NameManagerPanel;
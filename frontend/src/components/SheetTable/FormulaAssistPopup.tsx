@@ -0,0 +1,66 @@
+import type { FormulaAssist } from './useFormulaAssist';
+import type { FormulaFunctionInfo } from '../../types';
+
+interface FormulaAssistPopupProps {
+  assist: FormulaAssist;
+  showSuggestions: boolean;
+  highlightedIndex: number;
+  onAccept: (info: FormulaFunctionInfo) => void;
+}
+
+// Function suggestions while a name is being typed, otherwise the signature of
+// the function the cursor is in with the current argument highlighted
+export default function FormulaAssistPopup({
+  assist,
+  showSuggestions,
+  highlightedIndex,
+  onAccept,
+}: FormulaAssistPopupProps) {
+  if (showSuggestions) {
+    return (
+      <ul
+        role="listbox"
+        className="w-80 max-h-64 overflow-y-auto rounded border border-slate-200 bg-white py-1 text-xs shadow-lg"
+      >
+        {assist.suggestions.map((info, index) => (
+          <li
+            key={info.name}
+            role="option"
+            aria-selected={index === highlightedIndex}
+            // Keep focus in the input so choosing doesn't save the cell
+            onMouseDown={(e) => {
+              e.preventDefault();
+              onAccept(info);
+            }}
+            className={`cursor-pointer px-2 py-1 ${index === highlightedIndex ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+          >
+            <div className="font-mono text-slate-800">{info.signature}</div>
+            <div className="truncate text-slate-500">{info.description}</div>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (!assist.signature) return null;
+
+  const { info, argumentIndex } = assist.signature;
+  return (
+    <div className="w-80 rounded border border-slate-200 bg-white px-2 py-1 text-xs shadow-lg">
+      <div className="font-mono text-slate-600">
+        {info.name}(
+        {info.args.map((arg, index) => (
+          <span key={index}>
+            {index > 0 && ', '}
+            <span className={index === argumentIndex ? 'font-semibold text-slate-900 underline' : undefined}>
+              {arg}
+            </span>
+          </span>
+        ))}
+        )
+      </div>
+      <div className="mt-0.5 text-slate-500">{info.description}</div>
+      {info.examples.length > 0 && <div className="mt-0.5 font-mono text-slate-400">{info.examples[0]}</div>}
+    </div>
+  );
+}
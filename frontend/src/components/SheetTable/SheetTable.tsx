@@ -4,6 +4,8 @@ import ColumnHeader from './ColumnHeader';
 import RowHeader from './RowHeader';
 import type { SheetTableProps, CellPosition } from './types';
 import type { Cell } from '../../types';
+import { spillEchoKey } from '../../lib/spills';
+import { traceKey } from '../../lib/cellTrace';
 
 // Row header width constant
 const ROW_HEADER_WIDTH = 56; // w-14 = 3.5rem = 56px
@@ -38,11 +40,19 @@ export default function SheetTable({
   onToggleRowExpand,
   sortRules,
   onSort,
+  spillEchoes,
+  selectedCell: selectedCellProp,
+  traceRoles,
 }: SheetTableProps) {
   const [selectedCell, setSelectedCell] = useState<CellPosition | null>(null);
   const [editingCell, setEditingCell] = useState<string | null>(null);
   const [editingCellValue, setEditingCellValue] = useState<string>('');
   const [fillStart, setFillStart] = useState<CellPosition | null>(null);
+
+  // Follow cells selected from outside, e.g. a search result or a traced precedent
+  useEffect(() => {
+    if (selectedCellProp) setSelectedCell(selectedCellProp);
+  }, [selectedCellProp]);
   const [fillEnd, setFillEnd] = useState<CellPosition | null>(null);
 
   // Refs to track latest fill state for use in callbacks
@@ -313,8 +323,14 @@ export default function SheetTable({
 
       // Helper to adjust cell references in formula (e.g., A1 -> A2 when moving down)
       const adjustFormulaReferences = (formula: string, rowOffset: number, _colOffset: number): string => {
-        // Match cell references like A1, B2, AA100, etc.
-        return formula.replace(/([A-Z]+)(\d+)/g, (match, col, row) => {
+        // Match column-name references like [Amount]5 (names are left alone; [Amount]@row needs no change),
+        // sheet names like {Q1 Budget}! (left alone) and cell references like A1, B2, AA100, etc.
+        return formula.replace(/(\{[^{}]+\}!)|(\[[^[\]]+\])(\d+)?|([A-Z]+)(\d+)/g, (match, sheetName, columnName, columnRow, col, row) => {
+          if (sheetName) return match;
+          if (columnName) {
+            const newColumnRow = columnRow ? parseInt(columnRow) + rowOffset : 0;
+            return newColumnRow > 0 ? `${columnName}${newColumnRow}` : match;
+          }
           const newRow = parseInt(row) + rowOffset;
           // For now, we don't adjust column references (would need more complex logic)
           // const newCol = colOffset !== 0 ? ... : col;
@@ -536,6 +552,8 @@ export default function SheetTable({
                             onFormulaSelect={isFormulaMode ? handleFormulaCellSelect : undefined}
                             editingCellValue={isEditing ? editingCellValue : undefined}
                             onValueChange={isEditing ? handleCellValueChange : undefined}
+                            spillEcho={spillEchoes?.get(spillEchoKey(row.id, column.id))}
+                            traceRole={traceRoles?.get(traceKey(row.id, column.id))}
                           />
                         </td>
                       );
@@ -1,5 +1,20 @@
 import { useState, useRef, useEffect } from 'react';
 import type { TableCellProps } from './types';
+import { getFormulaError } from '../../lib/formulaErrors';
+import { useFormulaPreview } from './useFormulaPreview';
+import { useFormulaAssist } from './useFormulaAssist';
+import FormulaAssistPopup from './FormulaAssistPopup';
+import type { FormulaFunctionInfo } from '../../types';
+import { cellResult, spillSize } from '../../lib/spills';
+import type { TraceRole } from '../../lib/cellTrace';
+import { formatDecimalNumber, isDecimalNumberFormat } from '../../lib/numberFormat';
+
+// Precedents in blue, dependents in amber, around the traced cell in violet
+const TRACE_ROLE_CLASSES: Record<TraceRole, string> = {
+  traced: 'ring-2 ring-inset ring-violet-500 bg-violet-50/60',
+  precedent: 'ring-2 ring-inset ring-sky-500 bg-sky-50/60',
+  dependent: 'ring-2 ring-inset ring-amber-500 bg-amber-50/60',
+};
 
 export default function TableCell({
   cell,
@@ -20,12 +35,23 @@ export default function TableCell({
   onDragSelect,
   editingCellValue,
   onValueChange,
+  spillEcho,
+  traceRole,
 }: TableCellProps) {
   const [value, setValue] = useState('');
   const [isDragging, setIsDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const cellRef = useRef<HTMLDivElement>(null);
   const fillHandleRef = useRef<HTMLDivElement>(null);
+  // Result of the formula being typed, shown under the input before it's saved
+  const formulaPreview = useFormulaPreview(cell, value, isEditing);
+  // Function autocomplete, argument hints and syntax errors while typing a formula
+  const [cursor, setCursor] = useState(0);
+  const [highlightedSuggestion, setHighlightedSuggestion] = useState(0);
+  const [suggestionsDismissed, setSuggestionsDismissed] = useState(false);
+  const pendingCursorRef = useRef<number | null>(null);
+  const formulaAssist = useFormulaAssist(value, cursor, isEditing);
+  const showSuggestions = formulaAssist.suggestions.length > 0 && !suggestionsDismissed;
 
   useEffect(() => {
     if (isEditing && inputRef.current) {
@@ -44,10 +70,14 @@ export default function TableCell({
   const displayValue = hasFormula
     ? cell?.formula
     : (cell?.value ? JSON.parse(cell.value) : '');
-  const computedValue = cell?.computedValue;
+  // A result that spilled shows its top-left value here and the rest in the cells below and to the right
+  const computedValue = cellResult(cell?.computedValue);
+  // Cells another formula spilled into echo its values and can't be edited
+  const echo = !hasFormula && !displayValue ? spillEcho : undefined;
+  const isReadOnly = isViewOnly || echo !== undefined;
 
   const handleDoubleClick = () => {
-    if (!isViewOnly && cell) {
+    if (!isReadOnly && cell) {
       // When editing, show the formula or raw value
       const editValue = hasFormula ? cell.formula : displayValue;
       onEdit(cell.id, editValue, { rowIndex, colIndex });
@@ -61,14 +91,53 @@ export default function TableCell({
     }
   };
 
+  // Replace the name being typed with the chosen function and an opening parenthesis
+  const acceptSuggestion = (info: FormulaFunctionInfo) => {
+    const before = value.slice(0, formulaAssist.partialNameStart);
+    const after = value.slice(cursor);
+    const inserted = after.startsWith('(') ? info.name : `${info.name}(`;
+    const newValue = before + inserted + after;
+    const newCursor = before.length + inserted.length + (after.startsWith('(') ? 1 : 0);
+
+    pendingCursorRef.current = newCursor;
+    setCursor(newCursor);
+    setValue(newValue);
+    if (onValueChange) {
+      onValueChange(newValue);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     const input = e.currentTarget;
     const cursorAtStart = input.selectionStart === 0;
     const cursorAtEnd = input.selectionStart === input.value.length;
 
+    // While suggestions are open the arrows move through them and Enter/Tab picks one
+    if (showSuggestions) {
+      const count = formulaAssist.suggestions.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlightedSuggestion((index) => (index + (e.key === 'ArrowDown' ? 1 : count - 1)) % count);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptSuggestion(formulaAssist.suggestions[Math.min(highlightedSuggestion, count - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestionsDismissed(true);
+        return;
+      }
+    }
+
     if (e.key === 'Enter') {
       e.preventDefault();
-      handleSave();
+      // A formula that doesn't parse stays open with its error shown (Escape still saves it)
+      if (!formulaAssist.syntaxError) {
+        handleSave();
+      }
     } else if (e.key === 'Escape') {
       e.preventDefault();
       handleSave();
@@ -107,14 +176,14 @@ export default function TableCell({
       onNavigate('right');
     }
     // Start editing on alphanumeric keys, clearing old content
-    else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey && !isViewOnly && cell) {
+    else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey && !isReadOnly && cell) {
       e.preventDefault();
       // Pass the typed key as the initial value so it becomes the starting text
       onEdit(cell.id, e.key, { rowIndex, colIndex });
       setValue(e.key); // Start with the typed character
     }
     // Enter key starts editing with existing content
-    else if (e.key === 'Enter' && !isViewOnly && cell) {
+    else if (e.key === 'Enter' && !isReadOnly && cell) {
       e.preventDefault();
       onEdit(cell.id, displayValue, { rowIndex, colIndex });
       setValue(displayValue);
@@ -124,7 +193,7 @@ export default function TableCell({
   const handleFillHandleMouseDown = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault(); // Prevent browser text selection
-    if (!isViewOnly && onFillDrag) {
+    if (!isReadOnly && onFillDrag) {
       setIsDragging(true);
       onFillDrag({ rowIndex, colIndex }, 'start');
     }
@@ -206,9 +275,20 @@ export default function TableCell({
     }
   }, [isEditing, editingCellValue]);
 
+  // Put the cursor after an accepted suggestion once the input shows it
+  useEffect(() => {
+    if (pendingCursorRef.current !== null && inputRef.current) {
+      inputRef.current.setSelectionRange(pendingCursorRef.current, pendingCursorRef.current);
+      pendingCursorRef.current = null;
+    }
+  }, [value]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const newValue = e.target.value;
     setValue(newValue);
+    setCursor(e.target.selectionStart ?? newValue.length);
+    setHighlightedSuggestion(0);
+    setSuggestionsDismissed(false);
     if (onValueChange) {
       onValueChange(newValue);
     }
@@ -222,28 +302,64 @@ export default function TableCell({
   };
 
   if (isEditing) {
+    const previewValue = cellResult(formulaPreview);
+    const previewSpill = spillSize(formulaPreview);
+    const previewError = getFormulaError(previewValue);
     return (
-      <input
-        ref={inputRef}
-        type="text"
-        value={value}
-        onChange={handleInputChange}
-        onBlur={handleBlur}
-        onKeyDown={handleKeyDown}
-        className={`w-full h-full px-3 py-2 border-2 focus:outline-none ${
-          isFormulaMode
-            ? 'border-green-500 bg-green-50/30'
-            : 'border-blue-500 bg-white'
-        }`}
-      />
+      <div className="relative w-full h-full">
+        <input
+          ref={inputRef}
+          type="text"
+          value={value}
+          onChange={handleInputChange}
+          onBlur={handleBlur}
+          onKeyDown={handleKeyDown}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? 0)}
+          className={`w-full h-full px-3 py-2 border-2 focus:outline-none ${
+            isFormulaMode
+              ? 'border-green-500 bg-green-50/30'
+              : 'border-blue-500 bg-white'
+          }`}
+        />
+        <div className="absolute left-0 top-full z-30 mt-0.5 flex flex-col items-start gap-0.5">
+          {formulaAssist.syntaxError ? (
+            <div className="max-w-xs rounded border border-rose-200 bg-rose-50 px-2 py-0.5 text-xs text-rose-700 shadow-sm">
+              {formulaAssist.syntaxError}
+            </div>
+          ) : formulaPreview !== undefined && (
+            <div
+              className={`max-w-xs truncate rounded border border-slate-200 px-2 py-0.5 text-xs shadow-sm ${
+                previewError ? previewError.className : 'bg-white text-slate-600'
+              }`}
+              title={previewError ? `${previewError.code} ${previewError.description}` : undefined}
+            >
+              = {previewValue === null ? '' : typeof previewValue === 'boolean' ? (previewValue ? 'TRUE' : 'FALSE') : String(previewValue)}
+              {previewSpill && ` (spills ${previewSpill.height} × ${previewSpill.width})`}
+            </div>
+          )}
+          <FormulaAssistPopup
+            assist={formulaAssist}
+            showSuggestions={showSuggestions}
+            highlightedIndex={highlightedSuggestion}
+            onAccept={acceptSuggestion}
+          />
+        </div>
+      </div>
     );
   }
 
-  // For display: show computed value if it's a formula, otherwise show the regular value
-  const cellDisplayValue = hasFormula
-    ? (computedValue !== undefined && computedValue !== null ? String(computedValue) : '')
+  // For display: show computed value if it's a formula (or the value spilled here), otherwise
+  // show the regular value (formula booleans display as TRUE/FALSE, like spreadsheets do)
+  const result = hasFormula ? computedValue : echo?.value;
+  const cellDisplayValue = hasFormula || echo
+    ? (result !== undefined && result !== null
+      ? (typeof result === 'boolean' ? (result ? 'TRUE' : 'FALSE') : String(result))
+      : '')
     : (displayValue || '');
 
+  // Formula errors (#DIV/0!, #REF!, ...) get their own look and explain themselves on hover
+  const formulaError = hasFormula || echo ? getFormulaError(result) : undefined;
+
   // Track if mouse has moved since mousedown (to differentiate click from drag)
   const mouseDownPosRef = useRef<{ x: number; y: number } | null>(null);
   const hasDraggedRef = useRef(false);
@@ -377,18 +493,7 @@ export default function TableCell({
     const numVal = typeof val === 'string' ? parseFloat(val) : val;
     if (isNaN(numVal)) return String(val);
 
-    const decimals = cell?.decimalPlaces ?? 2;
-
-    switch (format) {
-      case 'currency':
-        return `$${numVal.toFixed(decimals)}`;
-      case 'percentage':
-        return `${(numVal * 100).toFixed(decimals)}%`;
-      case 'number':
-        return numVal.toFixed(decimals);
-      default:
-        return String(val);
-    }
+    return isDecimalNumberFormat(format) ? formatDecimalNumber(numVal, format, cell?.decimalPlaces ?? 2) : String(val);
   };
 
   const formattedDisplayValue = cell?.numberFormat && cell.numberFormat !== 'general'
@@ -410,13 +515,16 @@ export default function TableCell({
       tabIndex={isSelected ? 0 : -1}
       data-cell-pos={`${rowIndex},${colIndex}`}
       className={`w-full h-full px-3 py-2 transition-colors focus:outline-none relative select-none ${
-        !isViewOnly && !showFormulaHoverEffect ? 'cursor-pointer hover:bg-blue-50/50' : ''
+        !isReadOnly && !showFormulaHoverEffect ? 'cursor-pointer hover:bg-blue-50/50' : ''
       } ${showFormulaHoverEffect ? 'cursor-crosshair hover:bg-green-100 hover:ring-1 hover:ring-inset hover:ring-green-400' : ''} ${
         isSelected ? 'ring-2 ring-inset ring-blue-500 bg-blue-50/60' : ''
       } ${isInSelectionRange && !isSelected ? 'bg-blue-100/70 ring-1 ring-inset ring-blue-300' : ''} ${
-        hasFormula && !cell?.bold && !cell?.italic ? 'italic text-indigo-700 font-medium' : ''
-      } ${borderClasses}`}
+        traceRole && !isSelected ? TRACE_ROLE_CLASSES[traceRole] : ''
+      } ${
+        hasFormula && !formulaError && !cell?.bold && !cell?.italic ? 'italic text-indigo-700 font-medium' : ''
+      } ${echo && !formulaError ? 'italic text-indigo-400 bg-indigo-50/40' : ''} ${borderClasses}`}
       style={cellStyles}
+      title={echo ? `Spilled from ${echo.anchorAddress} - edit the formula there` : undefined}
       onClick={handleCellClick}
       onDoubleClick={handleDoubleClick}
       onKeyDown={handleCellKeyDown}
@@ -424,12 +532,15 @@ export default function TableCell({
       onMouseEnter={handleMouseEnter}
     >
       <div
-        className={`${cell?.wrapText ? 'whitespace-normal break-words' : 'truncate'} ${textFormatClasses}`}
+        className={`${cell?.wrapText ? 'whitespace-normal break-words' : 'truncate'} ${textFormatClasses} ${
+          formulaError ? `${formulaError.className} font-semibold rounded px-1` : ''
+        }`}
         style={{ ...textContentStyles, ...textRotationStyle }}
+        title={formulaError ? `${formulaError.code} ${formulaError.description}` : undefined}
       >
         {formattedDisplayValue}
       </div>
-      {isSelected && !isEditing && !isViewOnly && (
+      {isSelected && !isEditing && !isReadOnly && (
         <div
           ref={fillHandleRef}
           onMouseDown={handleFillHandleMouseDown}
@@ -1,4 +1,6 @@
 import type { Column, Row, Cell } from '../../types';
+import type { SpillEcho } from '../../lib/spills';
+import type { TraceRole } from '../../lib/cellTrace';
 
 export interface CellPosition {
   rowIndex: number;
@@ -47,6 +49,12 @@ export interface SheetTableProps {
   // Sorting
   sortRules?: SortRule[];
   onSort?: (columnId: string) => void;
+  // Values formulas spilled into other cells, from findSpillEchoes over the whole sheet
+  spillEchoes?: Map<string, SpillEcho>;
+  // Selection made outside the table (search results, traced cells), which it follows
+  selectedCell?: CellPosition | null;
+  // Cells in the current precedents/dependents trace, keyed by traceKey(rowId, columnId)
+  traceRoles?: Map<string, TraceRole>;
 }
 
 export interface TableCellProps {
@@ -68,6 +76,10 @@ export interface TableCellProps {
   onDragSelect?: (position: CellPosition, action: 'start' | 'drag' | 'end') => void;
   editingCellValue?: string;
   onValueChange?: (value: string) => void;
+  // Set when a formula elsewhere spilled into this cell; it then shows that value, read-only
+  spillEcho?: SpillEcho;
+  // Outlined while its precedents and dependents are being traced
+  traceRole?: TraceRole;
 }
 
 export interface SortRule {
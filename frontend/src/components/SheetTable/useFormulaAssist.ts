@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { formulaApi } from '../../services/api';
+import {
+  formulaCursorContext,
+  formulaSyntaxError,
+  signatureArgumentIndex,
+  suggestFunctions,
+} from '../../lib/formulaHints';
+import type { FormulaFunctionInfo } from '../../types';
+
+export interface FormulaAssist {
+  // Functions matching the name being typed, and where that name starts
+  suggestions: FormulaFunctionInfo[];
+  partialNameStart: number;
+  // The function the cursor is in, and which signature argument to highlight
+  signature: { info: FormulaFunctionInfo; argumentIndex: number } | null;
+  syntaxError: string | null;
+}
+
+const NO_ASSIST: FormulaAssist = { suggestions: [], partialNameStart: 0, signature: null, syntaxError: null };
+
+/**
+ * Autocomplete, argument hints and syntax errors for the formula being typed
+ * into a cell. The function catalog is fetched once, the first time a cell is
+ * edited, and shared by every cell through the query cache.
+ */
+export function useFormulaAssist(text: string, cursor: number, enabled: boolean): FormulaAssist {
+  const queryClient = useQueryClient();
+  const [catalog, setCatalog] = useState<FormulaFunctionInfo[]>([]);
+  const isFormula = enabled && text.trim().startsWith('=');
+
+  useEffect(() => {
+    if (!isFormula || catalog.length > 0) return;
+
+    let cancelled = false;
+    queryClient
+      .ensureQueryData({ queryKey: ['formula-functions'], queryFn: formulaApi.getFunctions, staleTime: Infinity })
+      .then(
+        (functions) => !cancelled && setCatalog(functions),
+        () => {} // Without the catalog there's just no autocomplete
+      );
+    return () => {
+      cancelled = true;
+    };
+  }, [isFormula, catalog.length, queryClient]);
+
+  return useMemo(() => {
+    if (!isFormula) return NO_ASSIST;
+
+    const { partialName, call } = formulaCursorContext(text, cursor);
+    const info = call ? catalog.find((candidate) => candidate.name === call.name) : undefined;
+    return {
+      suggestions: partialName ? suggestFunctions(catalog, partialName.text) : [],
+      partialNameStart: partialName?.start ?? 0,
+      signature: info && call ? { info, argumentIndex: signatureArgumentIndex(info.args, call.argIndex) } : null,
+      syntaxError: formulaSyntaxError(text),
+    };
+  }, [isFormula, text, cursor, catalog]);
+}
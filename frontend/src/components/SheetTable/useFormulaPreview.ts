@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { previewFormula, type ComputedValue } from '../../lib/formulaEngine';
+import type { Cell, NamedRange, Sheet } from '../../types';
+
+// Wait for a pause in typing before evaluating
+const PREVIEW_DELAY_MS = 150;
+
+/**
+ * Result of the formula being typed into a cell, evaluated in the browser
+ * against the cached sheet - undefined while there's nothing to show.
+ */
+export function useFormulaPreview(cell: Cell | undefined, text: string, enabled: boolean): ComputedValue | undefined {
+  const queryClient = useQueryClient();
+  const [preview, setPreview] = useState<ComputedValue | undefined>(undefined);
+
+  useEffect(() => {
+    if (!enabled || !cell || !text.trim().startsWith('=')) {
+      setPreview(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const sheet = queryClient.getQueryData<Sheet>(['sheets', cell.sheetId]);
+      const namedRanges = queryClient.getQueryData<NamedRange[]>(['named-ranges', cell.sheetId]) ?? [];
+      if (!sheet) return;
+
+      previewFormula(sheet, namedRanges, cell.id, text).then(
+        (value) => !cancelled && setPreview(value),
+        () => !cancelled && setPreview(undefined)
+      );
+    }, PREVIEW_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, cell, text, queryClient]);
+
+  return preview;
+}
@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { AlertCircle, Check, Target, Table2 } from 'lucide-react';
+import { sheetApi } from '../services/api';
+import { parseValueList } from '../lib/whatIf';
+import type { DataTableInput, GoalSeekInput } from '../types';
+
+interface WhatIfPanelProps {
+  sheetId: string;
+  // Address of the selected cell, the default goal seek target
+  selectedAddress: string | null;
+  canApply: boolean;
+  onApplyValue: (address: string, value: number) => void;
+}
+
+type TableValue = string | number | boolean | null;
+
+const inputClasses =
+  'w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 bg-white';
+
+const formatValue = (value: TableValue) => (typeof value === 'number' ? String(Number(value.toPrecision(12))) : String(value ?? ''));
+
+const errorMessage = (err: any, fallback: string) => err.response?.data?.message || fallback;
+
+// Goal seek and data tables; results are computed by the server without changing the sheet
+export default function WhatIfPanel({ sheetId, selectedAddress, canApply, onApplyValue }: WhatIfPanelProps) {
+  // Goal seek form
+  const [targetCell, setTargetCell] = useState(selectedAddress ?? '');
+  const [targetValue, setTargetValue] = useState('');
+  const [inputCell, setInputCell] = useState('');
+
+  // Data table form
+  const [tableTargets, setTableTargets] = useState('');
+  const [rowInputCell, setRowInputCell] = useState('');
+  const [rowValues, setRowValues] = useState('');
+  const [columnInputCell, setColumnInputCell] = useState('');
+  const [columnValues, setColumnValues] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const goalSeekMutation = useMutation({
+    mutationFn: (input: GoalSeekInput) => sheetApi.goalSeek(sheetId, input),
+  });
+
+  const dataTableMutation = useMutation({
+    mutationFn: (input: DataTableInput) => sheetApi.dataTable(sheetId, input),
+  });
+
+  const handleGoalSeek = () => {
+    const [value] = parseValueList(targetValue) ?? [];
+    if (value === undefined) return;
+    goalSeekMutation.mutate({ targetCell: targetCell.trim(), targetValue: value, inputCell: inputCell.trim() });
+  };
+
+  const handleDataTable = () => {
+    const targetCells = tableTargets.split(/[,;\s]+/).filter((cell) => cell !== '');
+    const rows = parseValueList(rowValues);
+    const twoVariable = columnInputCell.trim() !== '';
+    const columns = twoVariable ? parseValueList(columnValues) : null;
+
+    if (targetCells.length === 0 || !rows || (twoVariable && !columns)) {
+      setFormError('Enter the target cells and comma-separated numbers for each input');
+      return;
+    }
+    if (twoVariable && targetCells.length !== 1) {
+      setFormError('A two-variable table has exactly one target cell');
+      return;
+    }
+    setFormError(null);
+    dataTableMutation.mutate({
+      targetCells,
+      rowInput: { cell: rowInputCell.trim(), values: rows },
+      columnInput: twoVariable && columns ? { cell: columnInputCell.trim(), values: columns } : undefined,
+    });
+  };
+
+  const goalSeekResult = goalSeekMutation.data;
+  const table = dataTableMutation.data;
+  const tableInput = dataTableMutation.variables;
+  const tableHeadings = tableInput?.columnInput ? tableInput.columnInput.values.map(String) : tableInput?.targetCells ?? [];
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Goal seek */}
+        <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+          <h4 className="flex items-center gap-2 font-medium text-sm text-slate-700">
+            <Target className="w-4 h-4" />
+            Goal seek
+          </h4>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Set cell</label>
+              <input
+                type="text"
+                value={targetCell}
+                onChange={(e) => setTargetCell(e.target.value.toUpperCase())}
+                placeholder="B5"
+                className={`${inputClasses} font-mono`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">To value</label>
+              <input
+                type="text"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                placeholder="20%"
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">By changing</label>
+              <input
+                type="text"
+                value={inputCell}
+                onChange={(e) => setInputCell(e.target.value.toUpperCase())}
+                placeholder="B2"
+                className={`${inputClasses} font-mono`}
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleGoalSeek}
+            disabled={!targetCell || !parseValueList(targetValue) || !inputCell || goalSeekMutation.isPending}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {goalSeekMutation.isPending ? 'Solving...' : 'Solve'}
+          </button>
+
+          {goalSeekMutation.isError && (
+            <div className="flex items-start gap-2 text-xs text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {errorMessage(goalSeekMutation.error, 'Goal seek failed')}
+            </div>
+          )}
+
+          {goalSeekResult && goalSeekMutation.variables && (
+            <div className="text-xs text-slate-700 space-y-2">
+              <p>
+                {goalSeekResult.found
+                  ? `${goalSeekMutation.variables.targetCell} reaches ${formatValue(goalSeekResult.targetValue)} when ${goalSeekMutation.variables.inputCell} is `
+                  : `No value found. Closest: ${goalSeekMutation.variables.targetCell} is ${formatValue(goalSeekResult.targetValue)} when ${goalSeekMutation.variables.inputCell} is `}
+                <span className="font-mono font-semibold">{formatValue(goalSeekResult.inputValue)}</span>
+              </p>
+              {goalSeekResult.found && canApply && (
+                <button
+                  onClick={() => onApplyValue(goalSeekMutation.variables!.inputCell, goalSeekResult.inputValue)}
+                  className="flex items-center gap-1 px-2 py-1 text-indigo-600 hover:bg-indigo-50 rounded border border-indigo-200"
+                >
+                  <Check className="w-3 h-3" />
+                  Enter {formatValue(goalSeekResult.inputValue)} in {goalSeekMutation.variables.inputCell}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Data table */}
+        <div className="bg-slate-50 rounded-lg p-4 space-y-3">
+          <h4 className="flex items-center gap-2 font-medium text-sm text-slate-700">
+            <Table2 className="w-4 h-4" />
+            Data table
+          </h4>
+
+          <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">Formula cells (e.g., B5, B6)</label>
+            <input
+              type="text"
+              value={tableTargets}
+              onChange={(e) => setTableTargets(e.target.value.toUpperCase())}
+              placeholder="B5"
+              className={`${inputClasses} font-mono`}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Row input</label>
+              <input
+                type="text"
+                value={rowInputCell}
+                onChange={(e) => setRowInputCell(e.target.value.toUpperCase())}
+                placeholder="B2"
+                className={`${inputClasses} font-mono`}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-600 mb-1">Values</label>
+              <input
+                type="text"
+                value={rowValues}
+                onChange={(e) => setRowValues(e.target.value)}
+                placeholder="5%, 10%, 15%"
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-600 mb-1">Column input</label>
+              <input
+                type="text"
+                value={columnInputCell}
+                onChange={(e) => setColumnInputCell(e.target.value.toUpperCase())}
+                placeholder="Optional"
+                className={`${inputClasses} font-mono`}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-slate-600 mb-1">Values</label>
+              <input
+                type="text"
+                value={columnValues}
+                onChange={(e) => setColumnValues(e.target.value)}
+                disabled={!columnInputCell}
+                placeholder="100, 200"
+                className={`${inputClasses} disabled:bg-slate-100`}
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Each row tries one row input value. With a column input, the single formula cell is evaluated for
+            every pair of values.
+          </p>
+
+          {(formError || dataTableMutation.isError) && (
+            <div className="flex items-start gap-2 text-xs text-red-600">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {formError ?? errorMessage(dataTableMutation.error, 'Failed to compute the data table')}
+            </div>
+          )}
+
+          <button
+            onClick={handleDataTable}
+            disabled={!tableTargets || !rowInputCell || !rowValues || dataTableMutation.isPending}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-indigo-600 text-white text-sm rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {dataTableMutation.isPending ? 'Computing...' : 'Compute'}
+          </button>
+
+          {table && tableInput && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-xs border border-slate-200 bg-white">
+                <thead className="bg-slate-100">
+                  <tr>
+                    <th className="px-2 py-1 text-left font-mono text-slate-600">
+                      {tableInput.rowInput.cell}
+                      {tableInput.columnInput && ` \\ ${tableInput.columnInput.cell}`}
+                    </th>
+                    {tableHeadings.map((heading, index) => (
+                      <th key={index} className="px-2 py-1 text-right font-mono text-slate-600">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-t border-slate-200">
+                      <td className="px-2 py-1 font-mono text-slate-600">{tableInput.rowInput.values[rowIndex]}</td>
+                      {row.map((value, columnIndex) => (
+                        <td key={columnIndex} className="px-2 py-1 text-right font-mono">
+                          {formatValue(value)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+// Formula auditing: which cells a traced cell reads and which formulas read it
+
+import { columnIndexToLetters } from '../../../shared/formula-engine';
+import type { CellTrace, TracedCell } from '../types';
+
+export type TraceRole = 'traced' | 'precedent' | 'dependent';
+
+// "B3" - traced cells are positioned in sheet order, the way formulas address them
+export function tracedAddress(cell: TracedCell): string {
+  return `${columnIndexToLetters(cell.columnIndex)}${cell.rowIndex + 1}`;
+}
+
+export function traceKey(rowId: string, columnId: string): string {
+  return `${rowId}:${columnId}`;
+}
+
+/**
+ * How each cell takes part in a trace, keyed by traceKey(rowId, columnId). A
+ * cell that's both (the formulas form a cycle) is shown as a precedent.
+ */
+export function traceRoles(trace: CellTrace): Map<string, TraceRole> {
+  const roles = new Map<string, TraceRole>();
+  for (const cell of trace.dependents) roles.set(traceKey(cell.rowId, cell.columnId), 'dependent');
+  for (const cell of trace.precedents) roles.set(traceKey(cell.rowId, cell.columnId), 'precedent');
+  roles.set(traceKey(trace.cell.rowId, trace.cell.columnId), 'traced');
+  return roles;
+}
@@ -0,0 +1,144 @@
+// Formula evaluation in the browser, with the engine the backend uses - for
+// previewing results while typing and recalculating optimistically on save.
+// The server stays authoritative: its results replace these once it answers.
+
+import {
+  FormulaEngine,
+  FormulaEvaluationError,
+  FormulaGrid,
+  FormulaSyntaxError,
+  FormulaUnavailableError,
+  dependentsInOrder,
+  evaluateCells,
+  parseFormula,
+} from '../../../shared/formula-engine';
+import type { FormulaResult, GridCell, GridNamedRange } from '../../../shared/formula-engine';
+import type { Cell, ChangedCell, NamedRange, Sheet } from '../types';
+
+export type ComputedValue = ChangedCell['computedValue'];
+
+/**
+ * Report a failure evaluating formulas in the browser. Formula errors show in
+ * their cells and results that need the server wait for it, so only failures
+ * pointing at a bug in the engine are reported, to the console like the app's
+ * other errors.
+ */
+export function reportFormulaFailure(error: unknown, formula?: string) {
+  if (
+    error instanceof FormulaEvaluationError ||
+    error instanceof FormulaSyntaxError ||
+    error instanceof FormulaUnavailableError
+  ) {
+    return;
+  }
+  console.error(formula ? `Formula evaluation error in "${formula}":` : 'Formula evaluation error:', error);
+}
+
+class BrowserGrid extends FormulaGrid {
+  reportError(formula: string, error: Error) {
+    reportFormulaFailure(error, formula);
+  }
+}
+
+// Cells as the engine reads them: values and results JSON-encoded, the way they're stored
+function toGridCell(cell: Cell): GridCell {
+  return {
+    id: cell.id,
+    rowId: cell.rowId,
+    columnId: cell.columnId,
+    value: cell.value ?? null,
+    formula: cell.formula ?? null,
+    computedValue:
+      cell.computedValue !== undefined && cell.computedValue !== null ? JSON.stringify(cell.computedValue) : null,
+  };
+}
+
+// Grid over the whole sheet in position order, the way the server loads it
+function buildGrid(sheet: Sheet, namedRanges: GridNamedRange[]): BrowserGrid {
+  const columns = [...(sheet.columns ?? [])].sort((a, b) => a.position - b.position);
+  const rows = [...(sheet.rows ?? [])].sort((a, b) => a.position - b.position);
+  const cells = rows.flatMap((row) => (row.cells ?? []).map(toGridCell));
+  return new BrowserGrid(sheet.id, columns, rows, cells, namedRanges);
+}
+
+// A result as the server would send it: errors and dates serialize to their text,
+// spilled results to {spill: [[...]]}
+function toComputedValue(result: FormulaResult): ComputedValue {
+  return result !== null ? JSON.parse(JSON.stringify(result)) : null;
+}
+
+/**
+ * What a formula being typed into a cell would show, or undefined if there's
+ * nothing to show yet: the text doesn't parse, or the result needs the server
+ * (other sheets, stock prices).
+ */
+export async function previewFormula(
+  sheet: Sheet,
+  namedRanges: NamedRange[],
+  cellId: string,
+  formula: string
+): Promise<ComputedValue | undefined> {
+  try {
+    parseFormula(formula);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return undefined;
+    throw error;
+  }
+
+  const grid = buildGrid(sheet, namedRanges);
+  const cell = grid.getCellById(cellId);
+  if (!cell) return undefined;
+  grid.setCell({ ...cell, value: null, formula, computedValue: null });
+
+  try {
+    return toComputedValue(await FormulaEngine.evaluate(grid, formula, cellId));
+  } catch (error) {
+    if (error instanceof FormulaUnavailableError) return undefined;
+    throw error;
+  }
+}
+
+export interface LocalCellUpdate {
+  // The edited cell as the server will store it (its result is left out if only the server can compute it)
+  cell: Pick<Cell, 'id' | 'value' | 'formula' | 'computedValue'>;
+  changedCells: ChangedCell[];
+}
+
+/**
+ * The edited cell and the formulas depending on it, recalculated as if the
+ * server had saved `value` - a formula when it starts with "=".
+ */
+export async function recalculateLocally(
+  sheet: Sheet,
+  namedRanges: NamedRange[],
+  cellId: string,
+  value: unknown
+): Promise<LocalCellUpdate | undefined> {
+  const grid = buildGrid(sheet, namedRanges);
+  const existing = grid.getCellById(cellId);
+  if (!existing) return undefined;
+
+  const text = value !== null && value !== undefined ? String(value) : null;
+  const formula = text !== null && text.trim().startsWith('=') ? text : null;
+  const edited: GridCell = {
+    ...existing,
+    value: text !== null && !formula ? JSON.stringify(text) : null,
+    formula,
+    computedValue: null,
+  };
+  grid.setCell(edited);
+
+  const [result] = formula ? await evaluateCells(grid, [edited]) : [];
+  // In manual calculation mode only the edited cell is calculated
+  const changedCells =
+    sheet.calculationMode === 'MANUAL' ? [] : await evaluateCells(grid, dependentsInOrder(grid, [cellId]));
+  return {
+    cell: {
+      id: cellId,
+      value: edited.value ?? undefined,
+      formula: formula ?? undefined,
+      computedValue: result ? toComputedValue(result.computedValue) : undefined,
+    },
+    changedCells: changedCells.map((changed) => ({ ...changed, computedValue: toComputedValue(changed.computedValue) })),
+  };
+}
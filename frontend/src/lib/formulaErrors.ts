@@ -0,0 +1,33 @@
+// Error values a formula can produce (they arrive as the cell's computedValue).
+// What each one means comes from the formula engine; how it looks is decided here.
+
+import { ERROR_DESCRIPTIONS, isErrorCode } from '../../../shared/formula-engine';
+import type { ErrorCode } from '../../../shared/formula-engine';
+
+export interface FormulaErrorInfo {
+  code: string;
+  description: string;
+  className: string;
+}
+
+const ERROR_CLASS_NAMES: Record<ErrorCode, string> = {
+  '#DIV/0!': 'text-red-600 bg-red-50',
+  '#VALUE!': 'text-orange-600 bg-orange-50',
+  '#REF!': 'text-rose-700 bg-rose-50 line-through',
+  '#NAME?': 'text-purple-600 bg-purple-50',
+  '#N/A': 'text-slate-500 bg-slate-100',
+  '#NUM!': 'text-amber-700 bg-amber-50',
+  '#NULL!': 'text-pink-600 bg-pink-50',
+  '#CIRC!': 'text-fuchsia-700 bg-fuchsia-50',
+  '#SPILL!': 'text-sky-700 bg-sky-50',
+  '#NOACCESS': 'text-gray-600 bg-gray-100',
+  '#ERROR!': 'text-red-700 bg-red-100',
+};
+
+// Details for a computed value that is an error code, or undefined for ordinary values
+export function getFormulaError(value: unknown): FormulaErrorInfo | undefined {
+  if (typeof value !== 'string' || !isErrorCode(value)) {
+    return undefined;
+  }
+  return { code: value, description: ERROR_DESCRIPTIONS[value], className: ERROR_CLASS_NAMES[value] };
+}
@@ -0,0 +1,109 @@
+// Where the cursor is in a formula being typed, for function autocomplete,
+// argument hints and syntax errors
+
+import { FormulaSyntaxError, parseFormula } from '../../../shared/formula-engine';
+import type { FormulaFunctionInfo } from '../types';
+
+export interface FormulaCursorContext {
+  // The function name being typed at the cursor ("SU" in "=SU"), and where it starts
+  partialName: { text: string; start: number } | null;
+  // The innermost function call the cursor is inside, and which of its arguments
+  call: { name: string; argIndex: number } | null;
+}
+
+// What can't come right before a function name: $AAPL, A1:B2, {Sheet}!A1, 1E5, [Col]@row
+const NOT_BEFORE_NAME = /[$:!0-9.@\]]/;
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.]/;
+
+/**
+ * Scan the formula up to the cursor the way the tokenizer would, skipping
+ * strings, [Column] and {Sheet} references, and tracking open parentheses.
+ */
+export function formulaCursorContext(text: string, cursor: number): FormulaCursorContext {
+  const empty = { partialName: null, call: null };
+  if (!text.startsWith('=')) return empty;
+
+  // Open parentheses: function calls have a name, grouping ones don't
+  const calls: { name: string | null; argIndex: number }[] = [];
+  let partialName: FormulaCursorContext['partialName'] = null;
+  let pos = 1;
+
+  while (pos < cursor) {
+    const char = text[pos];
+
+    if (char === '"') {
+      const close = text.indexOf('"', pos + 1);
+      // The cursor is inside the string
+      if (close === -1 || close >= cursor) return { partialName: null, call: innermostCall(calls) };
+      // "" is an escaped quote; the scan simply continues past it
+      pos = close + 1;
+    } else if (char === '[' || char === '{') {
+      const close = text.indexOf(char === '[' ? ']' : '}', pos + 1);
+      if (close === -1 || close >= cursor) return { partialName: null, call: innermostCall(calls) };
+      pos = close + 1;
+    } else if (IDENTIFIER_START.test(char)) {
+      const start = pos;
+      while (pos < text.length && IDENTIFIER_PART.test(text[pos])) pos++;
+      const canBeName = start === 1 || !NOT_BEFORE_NAME.test(text[start - 1]);
+      if (pos >= cursor) {
+        partialName = canBeName ? { text: text.slice(start, cursor), start } : null;
+        break;
+      }
+      if (text[pos] === '(') {
+        calls.push({ name: text.slice(start, pos).toUpperCase(), argIndex: 0 });
+        pos++;
+      }
+    } else {
+      if (char === '(') calls.push({ name: null, argIndex: 0 });
+      if (char === ')') calls.pop();
+      if (char === ',' && calls.length > 0) calls[calls.length - 1].argIndex++;
+      pos++;
+    }
+  }
+
+  return { partialName, call: innermostCall(calls) };
+}
+
+function innermostCall(calls: { name: string | null; argIndex: number }[]): FormulaCursorContext['call'] {
+  for (let index = calls.length - 1; index >= 0; index--) {
+    const { name, argIndex } = calls[index];
+    if (name) return { name, argIndex };
+  }
+  return null;
+}
+
+// Functions whose names start with what's been typed, best match first
+export function suggestFunctions(
+  catalog: FormulaFunctionInfo[],
+  partialName: string,
+  limit = 8
+): FormulaFunctionInfo[] {
+  const prefix = partialName.toUpperCase();
+  if (!prefix) return [];
+  return catalog
+    .filter((info) => info.name.startsWith(prefix) && info.name !== prefix)
+    .sort((a, b) => a.name.length - b.name.length || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
+
+// Which of a function's signature arguments the argument at `argIndex` is -
+// past the named ones it's the repeating "..." (or the optional one after it)
+export function signatureArgumentIndex(args: string[], argIndex: number): number {
+  const repeat = args.indexOf('...');
+  if (repeat === -1 || argIndex < repeat) return Math.min(argIndex, args.length - 1);
+  // SWITCH(expression, case1, value1, ..., [default]): keep pointing at the repeat
+  return repeat;
+}
+
+// Why a formula doesn't parse, or null if it does (or isn't a formula)
+export function formulaSyntaxError(text: string): string | null {
+  if (!text.trim().startsWith('=')) return null;
+  try {
+    parseFormula(text);
+    return null;
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return error.message;
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+// Numbers shown with a cell's numberFormat, rounded to its decimal places
+
+import { decimalMultiply, formatFixed } from '../../../shared/formula-engine';
+
+export type DecimalNumberFormat = 'currency' | 'percentage' | 'number';
+
+export function isDecimalNumberFormat(format: string | undefined): format is DecimalNumberFormat {
+  return format === 'currency' || format === 'percentage' || format === 'number';
+}
+
+// Rounded as decimals, so 1.005 with 2 places shows as 1.01 (toFixed gives 1.00)
+export function formatDecimalNumber(value: number, format: DecimalNumberFormat, decimalPlaces: number): string {
+  switch (format) {
+    case 'currency':
+      return `$${formatFixed(value, decimalPlaces)}`;
+    case 'percentage':
+      return `${formatFixed(decimalMultiply(value, 100), decimalPlaces)}%`;
+    case 'number':
+      return formatFixed(value, decimalPlaces);
+  }
+}
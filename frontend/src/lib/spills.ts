@@ -0,0 +1,70 @@
+// Formula results that spill (=UNIQUE(A2:A50), =SEQUENCE(5)) arrive as the
+// formula cell's computedValue; the cells they spill into stay empty and echo
+// the values from here.
+
+import { columnIndexToLetters, spillRowsOf } from '../../../shared/formula-engine';
+import type { Cell, Column, Row, SpilledResult } from '../types';
+
+export type CellResult = string | number | boolean | null;
+
+export interface SpillEcho {
+  value: CellResult;
+  anchorCellId: string;
+  // Where the formula that spilled is, e.g. "B2"
+  anchorAddress: string;
+}
+
+function isSpilled(computedValue: Cell['computedValue']): computedValue is SpilledResult {
+  return spillRowsOf(computedValue) !== null;
+}
+
+// What a formula cell shows: a spilled result shows its top-left value
+export function cellResult(computedValue: Cell['computedValue']): CellResult | undefined {
+  return isSpilled(computedValue) ? computedValue.spill[0]?.[0] ?? null : computedValue;
+}
+
+export function spillEchoKey(rowId: string, columnId: string): string {
+  return `${rowId}:${columnId}`;
+}
+
+/**
+ * Values spilled into other cells, keyed by spillEchoKey(rowId, columnId).
+ * Spills are laid out by sheet position, so pass every row and column of the
+ * sheet - not just the ones on screen.
+ */
+export function findSpillEchoes(columns: Column[], rows: Row[]): Map<string, SpillEcho> {
+  const sortedColumns = [...columns].sort((a, b) => a.position - b.position);
+  const sortedRows = [...rows].sort((a, b) => a.position - b.position);
+  const echoes = new Map<string, SpillEcho>();
+
+  sortedRows.forEach((row, rowIndex) => {
+    for (const cell of row.cells ?? []) {
+      if (!cell.formula || !isSpilled(cell.computedValue)) continue;
+
+      const columnIndex = sortedColumns.findIndex((column) => column.id === cell.columnId);
+      if (columnIndex === -1) continue;
+      const anchorAddress = `${columnIndexToLetters(columnIndex)}${rowIndex + 1}`;
+      cell.computedValue.spill.forEach((line, rowOffset) => {
+        line.forEach((value, columnOffset) => {
+          if (rowOffset === 0 && columnOffset === 0) return;
+          const echoRow = sortedRows[rowIndex + rowOffset];
+          const echoColumn = sortedColumns[columnIndex + columnOffset];
+          if (!echoRow || !echoColumn) return;
+          echoes.set(spillEchoKey(echoRow.id, echoColumn.id), {
+            value,
+            anchorCellId: cell.id,
+            anchorAddress,
+          });
+        });
+      });
+    }
+  });
+
+  return echoes;
+}
+
+// Rows and columns a result spilled over, or null if it didn't spill
+export function spillSize(computedValue: Cell['computedValue']): { height: number; width: number } | null {
+  if (!isSpilled(computedValue)) return null;
+  return { height: computedValue.spill.length, width: computedValue.spill[0]?.length ?? 0 };
+}
@@ -0,0 +1,37 @@
+// What-if analysis: the cell addresses and value lists typed into the goal seek and data table forms
+
+import { columnIndexToLetters, decimalDivide, parseCellReference } from '../../../shared/formula-engine';
+import type { Cell, Sheet } from '../types';
+
+// "0.1, 0.2; 25%" -> [0.1, 0.2, 0.25], or null if any entry isn't a number
+export function parseValueList(text: string): number[] | null {
+  const entries = text.split(/[,;\s]+/).filter((entry) => entry !== '');
+  if (entries.length === 0) return null;
+
+  const values: number[] = [];
+  for (const entry of entries) {
+    const percentage = entry.endsWith('%');
+    const number = Number(percentage ? entry.slice(0, -1) : entry);
+    if (entry === '%' || !isFinite(number)) return null;
+    values.push(percentage ? decimalDivide(number, 100) : number);
+  }
+  return values;
+}
+
+// The cell at a formula address ("B2"), counting rows in sheet order as formulas do
+export function cellAtAddress(sheet: Sheet, address: string): Cell | null {
+  const reference = parseCellReference(address.trim());
+  if (!reference) return null;
+  const row = sheet.rows?.[reference.rowIndex];
+  const column = sheet.columns?.[reference.columnIndex];
+  if (!row || !column) return null;
+  return row.cells?.find((cell) => cell.columnId === column.id) ?? null;
+}
+
+// The formula address of a cell ("B2"), or null if it isn't in the sheet
+export function addressOf(sheet: Sheet, cell: Cell): string | null {
+  const rowIndex = sheet.rows?.findIndex((row) => row.id === cell.rowId) ?? -1;
+  const columnIndex = sheet.columns?.findIndex((column) => column.id === cell.columnId) ?? -1;
+  if (rowIndex === -1 || columnIndex === -1) return null;
+  return `${columnIndexToLetters(columnIndex)}${rowIndex + 1}`;
+}
@@ -1,8 +1,8 @@
 import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useParams } from 'react-router-dom';
-import { X, Star } from 'lucide-react';
-import { sheetApi } from '../services/api';
+import { X, Star, RefreshCw } from 'lucide-react';
+import { sheetApi, namedRangeApi } from '../services/api';
 import ShareModal from '../components/ShareModal';
 import RightSidebar from '../components/RightSidebar';
 import CommentsPanel from '../components/CommentsPanel';
@@ -10,12 +10,18 @@ import ConditionalFormatPanel from '../components/ConditionalFormatPanel';
 import ChartPanel from '../components/ChartPanel';
 import DataValidationPanel from '../components/DataValidationPanel';
 import PivotTablePanel from '../components/PivotTablePanel';
+import NameManagerPanel from '../components/NameManagerPanel';
+import WhatIfPanel from '../components/WhatIfPanel';
 import SheetTable from '../components/SheetTable/SheetTable';
 import MenuBar from '../components/MenuBar';
 import Toolbar from '../components/Toolbar';
 import FilterPanel from '../components/FilterPanel';
 import SearchPanel from '../components/SearchPanel';
-import type { Cell } from '../types';
+import FormulaTraceBar from '../components/FormulaTraceBar';
+import type { CalculationMode, Cell, TracedCell } from '../types';
+import { findSpillEchoes } from '../lib/spills';
+import { traceRoles } from '../lib/cellTrace';
+import { addressOf, cellAtAddress } from '../lib/whatIf';
 import { useUndoRedoStore } from '../store/undoRedoStore';
 import { UpdateCellCommand, AddRowCommand, AddColumnCommand, DeleteRowCommand, DeleteColumnCommand, UpdateCellFormatCommand } from '../store/commands';
 
@@ -37,6 +43,11 @@ export default function SheetPage() {
   const [isChartPanelOpen, setIsChartPanelOpen] = useState(false);
   const [isDataValidationPanelOpen, setIsDataValidationPanelOpen] = useState(false);
   const [isPivotTablePanelOpen, setIsPivotTablePanelOpen] = useState(false);
+  const [isNameManagerPanelOpen, setIsNameManagerPanelOpen] = useState(false);
+  const [isWhatIfPanelOpen, setIsWhatIfPanelOpen] = useState(false);
+  // Formula auditing: the cell whose precedents and dependents are outlined
+  const [tracedCellId, setTracedCellId] = useState<string | null>(null);
+  const [traceAllLevels, setTraceAllLevels] = useState(false);
   const [zoomLevel, setZoomLevel] = useState(100); // Zoom percentage (50-200%)
   const [showGridlines, setShowGridlines] = useState(true); // Toggle gridlines visibility
 
@@ -95,6 +106,20 @@ export default function SheetPage() {
     enabled: !!id,
   });
 
+  // Named ranges, so formulas using them can be evaluated in the browser too
+  useQuery({
+    queryKey: ['named-ranges', id],
+    queryFn: () => namedRangeApi.getAll(id!),
+    enabled: !!id,
+  });
+
+  // Under the sheet's key, so it's traced again whenever the sheet changes
+  const { data: cellTrace } = useQuery({
+    queryKey: ['sheets', id, 'trace', tracedCellId, traceAllLevels],
+    queryFn: () => sheetApi.traceCell(id!, tracedCellId!, traceAllLevels),
+    enabled: !!id && !!tracedCellId,
+  });
+
   // Copy/Cut/Paste handlers
   const handleCopy = useCallback(() => {
     if (!selectedCell || !sheet?.rows || !sheet?.columns) return;
@@ -551,6 +576,20 @@ export default function SheetPage() {
     },
   });
 
+  const calculationModeMutation = useMutation({
+    mutationFn: (calculationMode: CalculationMode) => sheetApi.update(id!, { calculationMode }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sheets', id] });
+    },
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: () => sheetApi.recalculate(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sheets', id] });
+    },
+  });
+
   const handleSaveName = () => {
     if (sheetName.trim() && sheetName !== sheet?.name) {
       updateSheetMutation.mutate({ name: sheetName });
@@ -600,6 +639,20 @@ export default function SheetPage() {
     }
   }, [id, isViewOnly, queryClient]);
 
+  // Enter a goal seek result in its input cell
+  const handleApplyWhatIfValue = useCallback(async (address: string, value: number) => {
+    if (!id || !sheet || isViewOnly) return;
+    const cell = cellAtAddress(sheet, address);
+    if (!cell) return;
+
+    try {
+      await sheetApi.updateCell(id, cell.id, { value: String(value) });
+      queryClient.invalidateQueries({ queryKey: ['sheets', id] });
+    } catch (error) {
+      console.error('Entering the goal seek result failed:', error);
+    }
+  }, [id, sheet, isViewOnly, queryClient]);
+
   const handleZoomIn = () => {
     setZoomLevel(prev => Math.min(200, prev + 10));
   };
@@ -1023,6 +1076,24 @@ export default function SheetPage() {
     return sorted;
   }, [sheet?.rows, sortRules, filterConfig]);
 
+  // Spilled formula results, laid out over the whole sheet before filtering and sorting
+  const spillEchoes = useMemo(
+    () => findSpillEchoes(sheet?.columns ?? [], sheet?.rows ?? []),
+    [sheet?.columns, sheet?.rows]
+  );
+
+  const cellTraceRoles = useMemo(
+    () => (tracedCellId && cellTrace ? traceRoles(cellTrace) : undefined),
+    [tracedCellId, cellTrace]
+  );
+
+  // Where a traced cell is on screen, or null if the filter hides its row
+  const visiblePositionOf = useCallback((cell: TracedCell) => {
+    const rowIndex = filteredAndSortedRows.findIndex((row) => row.id === cell.rowId);
+    const colIndex = sheet?.columns?.findIndex((column) => column.id === cell.columnId) ?? -1;
+    return rowIndex === -1 || colIndex === -1 ? null : { rowIndex, colIndex };
+  }, [filteredAndSortedRows, sheet?.columns]);
+
 
   if (isLoading) {
     return (
@@ -1041,6 +1112,8 @@ export default function SheetPage() {
     );
   }
 
+  const currentCell = getCurrentCell();
+
   return (
     <div className="h-full flex flex-col overflow-hidden bg-gradient-to-br from-neutral-50 via-white to-neutral-50">
       {/* Fixed Header Section - stays at top, never scrolls */}
@@ -1127,6 +1200,14 @@ export default function SheetPage() {
         onChart={() => setIsChartPanelOpen(true)}
         onDataValidation={() => setIsDataValidationPanelOpen(true)}
         onPivotTable={() => setIsPivotTablePanelOpen(true)}
+        onNamedRanges={() => setIsNameManagerPanelOpen(true)}
+        onWhatIf={() => setIsWhatIfPanelOpen(true)}
+        onTraceCell={() => setTracedCellId(getCurrentCell()?.id ?? null)}
+        calculationMode={sheet.calculationMode}
+        onToggleCalculationMode={() =>
+          calculationModeMutation.mutate(sheet.calculationMode === 'MANUAL' ? 'AUTOMATIC' : 'MANUAL')
+        }
+        onRecalculate={() => recalculateMutation.mutate()}
         isViewOnly={isViewOnly}
         frozenRows={frozenRows}
         frozenColumns={frozenColumns}
@@ -1352,12 +1433,46 @@ export default function SheetPage() {
         </div>
       )}
 
+      {/* Manual calculation */}
+      {sheet.calculationMode === 'MANUAL' && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 flex items-center justify-between">
+          <span className="text-xs text-amber-800">
+            Manual calculation - formulas update when the sheet is recalculated
+          </span>
+          {!isViewOnly && (
+            <button
+              onClick={() => recalculateMutation.mutate()}
+              disabled={recalculateMutation.isPending}
+              className="inline-flex items-center px-2 py-1 text-xs font-medium text-amber-700 hover:text-amber-800 hover:bg-amber-100 rounded transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`h-3 w-3 mr-1 ${recalculateMutation.isPending ? 'animate-spin' : ''}`} />
+              Recalculate now
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Formula auditing */}
+      {tracedCellId && cellTrace && (
+        <FormulaTraceBar
+          trace={cellTrace}
+          allLevels={traceAllLevels}
+          onToggleAllLevels={() => setTraceAllLevels((all) => !all)}
+          visiblePositionOf={visiblePositionOf}
+          onNavigateToCell={handleNavigateToCell}
+          onClose={() => setTracedCellId(null)}
+        />
+      )}
+
       {/* Modern Sheet Grid with Zoom */}
       <div className="flex-1 min-h-0 overflow-hidden">
         <SheetTable
           zoomLevel={zoomLevel}
           columns={sheet.columns || []}
           rows={filteredAndSortedRows}
+          spillEchoes={spillEchoes}
+          traceRoles={cellTraceRoles}
+          selectedCell={selectedCell}
           isViewOnly={isViewOnly}
           frozenRows={frozenRows}
           frozenColumns={frozenColumns}
@@ -1516,6 +1631,34 @@ export default function SheetPage() {
           onClose={() => setIsPivotTablePanelOpen(false)}
         />
       </RightSidebar>
+
+      <RightSidebar
+        isOpen={isNameManagerPanelOpen}
+        onClose={() => setIsNameManagerPanelOpen(false)}
+        title="Named Ranges"
+      >
+        <NameManagerPanel
+          sheetId={id!}
+          onClose={() => setIsNameManagerPanelOpen(false)}
+        />
+      </RightSidebar>
+
+      <RightSidebar
+        isOpen={isWhatIfPanelOpen}
+        onClose={() => setIsWhatIfPanelOpen(false)}
+        title="What-if Analysis"
+        width="lg"
+      >
+        {/* Mounted when opened, so goal seek starts from the selected cell */}
+        {isWhatIfPanelOpen && (
+          <WhatIfPanel
+            sheetId={id!}
+            selectedAddress={currentCell && addressOf(sheet, currentCell)}
+            canApply={!isViewOnly}
+            onApplyValue={handleApplyWhatIfValue}
+          />
+        )}
+      </RightSidebar>
     </div>
   );
 }
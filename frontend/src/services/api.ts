@@ -6,6 +6,8 @@ import type {
   CreateColumnInput,
   CreateRowInput,
   UpdateCellInput,
+  UpdateCellResult,
+  ChangedCell,
   RowComment,
   CreateCommentInput,
   ConditionalFormat,
@@ -21,6 +23,13 @@ import type {
   CreatePivotTableInput,
   UpdatePivotTableInput,
   PivotTableComputedData,
+  NamedRange,
+  NamedRangeInput,
+  FormulaFunctionInfo,
+  CellTrace,
+  GoalSeekInput,
+  GoalSeekResult,
+  DataTableInput,
 } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
@@ -77,6 +86,12 @@ export const sheetApi = {
     return data.data.sheet;
   },
 
+  // "Recalculate now": every formula in the sheet, also in manual calculation mode
+  recalculate: async (id: string): Promise<ChangedCell[]> => {
+    const { data } = await api.post(`/api/v1/sheets/${id}/recalculate`);
+    return data.data.changedCells;
+  },
+
   delete: async (id: string): Promise<void> => {
     await api.delete(`/api/v1/sheets/${id}`);
   },
@@ -114,9 +129,25 @@ export const sheetApi = {
     await api.delete(`/api/v1/sheets/${sheetId}/rows/${rowId}`);
   },
 
-  updateCell: async (sheetId: string, cellId: string, input: UpdateCellInput) => {
+  updateCell: async (sheetId: string, cellId: string, input: UpdateCellInput): Promise<UpdateCellResult> => {
     const { data } = await api.put(`/api/v1/sheets/${sheetId}/cells/${cellId}`, input);
-    return data.data.cell;
+    return data.data;
+  },
+
+  traceCell: async (sheetId: string, cellId: string, recursive = false): Promise<CellTrace> => {
+    const { data } = await api.get(`/api/v1/sheets/${sheetId}/cells/${cellId}/trace`, { params: { recursive } });
+    return data.data;
+  },
+
+  // What-if analysis - neither changes the sheet
+  goalSeek: async (sheetId: string, input: GoalSeekInput): Promise<GoalSeekResult> => {
+    const { data } = await api.post(`/api/v1/sheets/${sheetId}/goal-seek`, input);
+    return data.data;
+  },
+
+  dataTable: async (sheetId: string, input: DataTableInput): Promise<(string | number | boolean | null)[][]> => {
+    const { data } = await api.post(`/api/v1/sheets/${sheetId}/data-table`, input);
+    return data.data.values;
   },
 
   // Share operations
@@ -407,4 +438,34 @@ export const pivotTableApi = {
   },
 };
 
+// Named Range API
+export const namedRangeApi = {
+  getAll: async (sheetId: string): Promise<NamedRange[]> => {
+    const { data } = await api.get(`/api/v1/sheets/${sheetId}/named-ranges`);
+    return data.data.namedRanges;
+  },
+
+  create: async (sheetId: string, input: NamedRangeInput): Promise<NamedRange> => {
+    const { data } = await api.post(`/api/v1/sheets/${sheetId}/named-ranges`, input);
+    return data.data.namedRange;
+  },
+
+  update: async (namedRangeId: string, input: Partial<NamedRangeInput>): Promise<NamedRange> => {
+    const { data } = await api.put(`/api/v1/named-ranges/${namedRangeId}`, input);
+    return data.data.namedRange;
+  },
+
+  delete: async (namedRangeId: string): Promise<void> => {
+    await api.delete(`/api/v1/named-ranges/${namedRangeId}`);
+  },
+};
+
+// Formula API
+export const formulaApi = {
+  getFunctions: async (): Promise<FormulaFunctionInfo[]> => {
+    const { data } = await api.get('/api/v1/formulas/functions');
+    return data.data.functions;
+  },
+};
+
 export default api;
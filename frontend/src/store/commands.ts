@@ -1,7 +1,107 @@
 import { Command } from './undoRedoStore';
 import { sheetApi } from '../services/api';
 import { QueryClient } from '@tanstack/react-query';
-import type { UpdateCellInput, Row, Column, ColumnType } from '../types';
+import type { UpdateCellInput, UpdateCellResult, Row, Column, ColumnType, Sheet, NamedRange, Cell } from '../types';
+import { recalculateLocally, reportFormulaFailure } from '../lib/formulaEngine';
+
+// Formula results as they were before an optimistic update, by cell id
+type PreviousResults = Map<string, Cell['computedValue']>;
+
+/**
+ * Patch the cached sheet with an updated cell and the formula cells the
+ * backend recalculated because of it, instead of refetching the whole sheet.
+ * Cells an optimistic update changed but the backend didn't get their
+ * previous results back.
+ */
+export function applyCellUpdate(
+  queryClient: QueryClient,
+  sheetId: string,
+  result: UpdateCellResult,
+  previousResults: PreviousResults = new Map()
+) {
+  const recalculated = new Map(result.changedCells.map((changed) => [changed.id, changed]));
+
+  queryClient.setQueryData<Sheet>(['sheets', sheetId], (sheet) => {
+    if (!sheet?.rows) return sheet;
+    return {
+      ...sheet,
+      rows: sheet.rows.map((row) => ({
+        ...row,
+        cells: row.cells?.map((cell) => {
+          if (cell.id === result.cell.id) {
+            return { ...cell, ...result.cell };
+          }
+          const changed = recalculated.get(cell.id);
+          if (changed) {
+            return { ...cell, computedValue: changed.computedValue };
+          }
+          return previousResults.has(cell.id) ? { ...cell, computedValue: previousResults.get(cell.id) } : cell;
+        }),
+      })),
+    };
+  });
+}
+
+/**
+ * Show a cell edit and the results of the formulas depending on it straight
+ * away, computed in the browser, while the backend saves it. Returns the
+ * results it replaced so applyCellUpdate can reconcile with the backend's.
+ */
+export async function applyOptimisticCellUpdate(
+  queryClient: QueryClient,
+  sheetId: string,
+  cellId: string,
+  value: unknown
+): Promise<PreviousResults> {
+  const sheet = queryClient.getQueryData<Sheet>(['sheets', sheetId]);
+  const namedRanges = queryClient.getQueryData<NamedRange[]>(['named-ranges', sheetId]) ?? [];
+  const previousResults: PreviousResults = new Map();
+  if (!sheet?.rows) return previousResults;
+
+  let update;
+  try {
+    update = await recalculateLocally(sheet, namedRanges, cellId, value);
+  } catch (error) {
+    // The backend's answer is what counts; showing it a moment later is fine
+    reportFormulaFailure(error);
+  }
+  if (!update) return previousResults;
+
+  const recalculated = new Map(update.changedCells.map((changed) => [changed.id, changed]));
+  queryClient.setQueryData<Sheet>(['sheets', sheetId], (current) => {
+    if (!current?.rows) return current;
+    return {
+      ...current,
+      rows: current.rows.map((row) => ({
+        ...row,
+        cells: row.cells?.map((cell) => {
+          if (cell.id === cellId) {
+            return { ...cell, ...update.cell };
+          }
+          const changed = recalculated.get(cell.id);
+          if (!changed) return cell;
+          previousResults.set(cell.id, cell.computedValue);
+          return { ...cell, computedValue: changed.computedValue };
+        }),
+      })),
+    };
+  });
+  return previousResults;
+}
+
+// Edit a cell: show the change optimistically, then reconcile with the backend's
+// result - or refetch the sheet if the backend rejected it
+async function saveCell(queryClient: QueryClient, sheetId: string, cellId: string, input: UpdateCellInput) {
+  const previousResults =
+    input.value !== undefined ? await applyOptimisticCellUpdate(queryClient, sheetId, cellId, input.value) : new Map();
+  try {
+    const result = await sheetApi.updateCell(sheetId, cellId, input);
+    applyCellUpdate(queryClient, sheetId, result, previousResults);
+  } catch (error) {
+    queryClient.invalidateQueries({ queryKey: ['sheets', sheetId] });
+    throw error;
+  }
+}
 
 /**
  * Update Cell Command
@@ -22,18 +122,26 @@ export class UpdateCellCommand implements Command {
   }
 
   async execute(): Promise<void> {
-    await sheetApi.updateCell(this.sheetId, this.cellId, {
+    // Patch the edited cell and its recalculated dependents in place
+    await saveCell(this.queryClient, this.sheetId, this.cellId, {
       value: this.newValue,
       ...this.formatting
     });
-    // Invalidate queries to refresh the UI
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
   }
 
   async undo(): Promise<void> {
-    await sheetApi.updateCell(this.sheetId, this.cellId, { value: this.oldValue });
-    // Invalidate queries to refresh the UI
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    await saveCell(this.queryClient, this.sheetId, this.cellId, { value: this.oldValue });
+  }
+}
+
+/**
+ * Refetch everything that holds cell references after rows or columns were
+ * added or removed - the backend rewrites formulas and the ranges of
+ * conditional formats, validations, charts and pivot tables to follow the data
+ */
+export function invalidateAfterStructureChange(queryClient: QueryClient, sheetId: string) {
+  for (const key of ['sheets', 'conditionalFormats', 'validations', 'charts', 'pivot-tables', 'named-ranges']) {
+    queryClient.invalidateQueries({ queryKey: [key, sheetId] });
   }
 }
 
@@ -56,13 +164,13 @@ export class AddRowCommand implements Command {
   async execute(): Promise<void> {
     const row = await sheetApi.createRow(this.sheetId, { position: this.position });
     this.createdRowId = row.id;
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 
   async undo(): Promise<void> {
     if (this.createdRowId) {
       await sheetApi.deleteRow(this.sheetId, this.createdRowId);
-      this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+      invalidateAfterStructureChange(this.queryClient, this.sheetId);
     }
   }
 }
@@ -88,7 +196,7 @@ export class DeleteRowCommand implements Command {
 
   async execute(): Promise<void> {
     await sheetApi.deleteRow(this.sheetId, this.rowId);
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 
   async undo(): Promise<void> {
@@ -100,7 +208,7 @@ export class DeleteRowCommand implements Command {
 
     // Note: Cell values cannot be restored with original cell IDs since new cells are created
     // The backend would need to support restoring cells with specific IDs for full restoration
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 }
 
@@ -129,13 +237,13 @@ export class AddColumnCommand implements Command {
       type: this.type,
     });
     this.createdColumnId = column.id;
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 
   async undo(): Promise<void> {
     if (this.createdColumnId) {
       await sheetApi.deleteColumn(this.sheetId, this.createdColumnId);
-      this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+      invalidateAfterStructureChange(this.queryClient, this.sheetId);
     }
   }
 }
@@ -162,7 +270,7 @@ export class DeleteColumnCommand implements Command {
 
   async execute(): Promise<void> {
     await sheetApi.deleteColumn(this.sheetId, this.columnId);
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 
   async undo(): Promise<void> {
@@ -175,7 +283,7 @@ export class DeleteColumnCommand implements Command {
     });
 
     // Note: Cell values cannot be restored since new cells are created with new IDs
-    this.queryClient.invalidateQueries({ queryKey: ['sheets', this.sheetId] });
+    invalidateAfterStructureChange(this.queryClient, this.sheetId);
   }
 }
 
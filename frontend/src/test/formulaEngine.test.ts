@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FormulaEvaluationError, FormulaSyntaxError } from '../../../shared/formula-engine';
+import { previewFormula, recalculateLocally, reportFormulaFailure } from '../lib/formulaEngine';
+import { ColumnType, type Cell, type Sheet } from '../types';
+
+const cell = (id: string, rowId: string, columnId: string, contents: Partial<Cell>): Cell => ({
+  id, sheetId: 'sheet', rowId, columnId, createdAt: '', updatedAt: '', ...contents,
+});
+const column = (id: string, name: string, position: number) => ({
+  id, sheetId: 'sheet', name, type: ColumnType.TEXT, position, createdAt: '', updatedAt: '',
+});
+const row = (id: string, position: number, cells: Cell[]) => ({
+  id, sheetId: 'sheet', position, cells, level: 0, isExpanded: true, createdAt: '', updatedAt: '',
+});
+
+// A = 10, 20; B = running totals as formulas; C = empty
+function buildSheet(): Sheet {
+  return {
+    id: 'sheet',
+    name: 'Budget',
+    createdAt: '',
+    updatedAt: '',
+    columns: [column('col-a', 'Amount', 0), column('col-b', 'Total', 1), column('col-c', 'Notes', 2)],
+    rows: [
+      row('row-1', 0, [
+        cell('a1', 'row-1', 'col-a', { value: JSON.stringify('10') }),
+        cell('b1', 'row-1', 'col-b', { formula: '=A1', computedValue: 10 }),
+        cell('c1', 'row-1', 'col-c', {}),
+      ]),
+      row('row-2', 1, [
+        cell('a2', 'row-2', 'col-a', { value: JSON.stringify('20') }),
+        cell('b2', 'row-2', 'col-b', { formula: '=B1+A2', computedValue: 30 }),
+        cell('c2', 'row-2', 'col-c', {}),
+      ]),
+    ],
+  };
+}
+
+// A = 10, 20, 30; B1 spills a sequence over B1:B2; C reads the spilled cells
+function buildSpillSheet(): Sheet {
+  return {
+    ...buildSheet(),
+    rows: [
+      row('row-1', 0, [
+        cell('a1', 'row-1', 'col-a', { value: JSON.stringify('10') }),
+        cell('b1', 'row-1', 'col-b', { formula: '=SEQUENCE(A1/5)', computedValue: { spill: [[1], [2]] } }),
+        cell('c1', 'row-1', 'col-c', { formula: '=SUM(B1:B3)', computedValue: 3 }),
+      ]),
+      row('row-2', 1, [
+        cell('a2', 'row-2', 'col-a', { value: JSON.stringify('20') }),
+        cell('b2', 'row-2', 'col-b', {}),
+        cell('c2', 'row-2', 'col-c', { formula: '=B3', computedValue: null }),
+      ]),
+      row('row-3', 2, [
+        cell('a3', 'row-3', 'col-a', { value: JSON.stringify('30') }),
+        cell('b3', 'row-3', 'col-b', {}),
+        cell('c3', 'row-3', 'col-c', {}),
+      ]),
+    ],
+  };
+}
+
+describe('previewFormula', () => {
+  it('evaluates the formula being typed against the cached sheet', async () => {
+    await expect(previewFormula(buildSheet(), [], 'c1', '=SUM(A1:A2)*2')).resolves.toBe(60);
+    await expect(previewFormula(buildSheet(), [], 'c2', '=[Amount]@row / 4')).resolves.toBe(5);
+    await expect(previewFormula(buildSheet(), [{ id: 'n', sheetId: 'sheet', name: 'Totals', range: 'B1:B2', createdAt: '', updatedAt: '' }], 'c1', '=MAX(Totals)')).resolves.toBe(30);
+  });
+
+  it('shows errors the way the server stores them', async () => {
+    await expect(previewFormula(buildSheet(), [], 'c1', '=A1/0')).resolves.toBe('#DIV/0!');
+    await expect(previewFormula(buildSheet(), [], 'c1', '=C1')).resolves.toBe('#CIRC!');
+  });
+
+  it('shows nothing for unfinished formulas or results only the server has', async () => {
+    await expect(previewFormula(buildSheet(), [], 'c1', '=SUM(A1:')).resolves.toBeUndefined();
+    await expect(previewFormula(buildSheet(), [], 'c1', '={Other}!A1')).resolves.toBeUndefined();
+    await expect(previewFormula(buildSheet(), [], 'c1', '=$AAPL')).resolves.toBeUndefined();
+  });
+});
+
+describe('recalculateLocally', () => {
+  it('recalculates the formulas that depend on an edited value', async () => {
+    const update = await recalculateLocally(buildSheet(), [], 'a1', '15');
+
+    expect(update?.cell).toEqual({ id: 'a1', value: JSON.stringify('15'), formula: undefined, computedValue: undefined });
+    expect(update?.changedCells).toEqual([
+      { id: 'b1', rowId: 'row-1', columnId: 'col-b', computedValue: 15 },
+      { id: 'b2', rowId: 'row-2', columnId: 'col-b', computedValue: 35 },
+    ]);
+  });
+
+  it('evaluates a new formula and the formulas reading it', async () => {
+    const update = await recalculateLocally(buildSheet(), [], 'b1', '=A1*3');
+
+    expect(update?.cell.computedValue).toBe(30);
+    expect(update?.changedCells).toEqual([{ id: 'b2', rowId: 'row-2', columnId: 'col-b', computedValue: 50 }]);
+  });
+});
+
+describe('spilled results', () => {
+  it('spills ranges into the empty cells next to the formula', async () => {
+    await expect(previewFormula(buildSpillSheet(), [], 'c3', '=B2')).resolves.toBe(2);
+    await expect(previewFormula(buildSheet(), [], 'c1', '=A1:A2*2')).resolves.toEqual({ spill: [[20], [40]] });
+    await expect(previewFormula(buildSheet(), [], 'c1', '=FILTER(A1:A2, A1:A2>15)')).resolves.toBe(20);
+  });
+
+  it('is #SPILL! when the cells are in use or off the sheet', async () => {
+    await expect(previewFormula(buildSheet(), [], 'b1', '=SEQUENCE(2)')).resolves.toBe('#SPILL!');
+    await expect(previewFormula(buildSheet(), [], 'c1', '=SEQUENCE(1, 2)')).resolves.toBe('#SPILL!');
+  });
+
+  it('evaluates the array functions', async () => {
+    const sheet = buildSpillSheet();
+    await expect(previewFormula(sheet, [], 'c3', '=INDEX(SORT(A1:A3, 1, -1), 1)')).resolves.toBe(30);
+    await expect(previewFormula(sheet, [], 'c3', '=COUNT(UNIQUE(TRANSPOSE(SEQUENCE(1, 4, 1, 0))))')).resolves.toBe(1);
+    await expect(previewFormula(sheet, [], 'c3', '=SUM(FILTER(A1:A3, A1:A3<>20))')).resolves.toBe(40);
+    await expect(previewFormula(sheet, [], 'c3', '=FILTER(A1:A3, A1:A3>99, "none")')).resolves.toBe('none');
+  });
+
+  it('recalculates formulas reading cells a spill grows into', async () => {
+    const update = await recalculateLocally(buildSpillSheet(), [], 'a1', '15');
+
+    expect(update?.changedCells).toEqual([
+      { id: 'b1', rowId: 'row-1', columnId: 'col-b', computedValue: { spill: [[1], [2], [3]] } },
+      { id: 'c1', rowId: 'row-1', columnId: 'col-c', computedValue: 6 },
+      { id: 'c2', rowId: 'row-2', columnId: 'col-c', computedValue: 3 },
+    ]);
+  });
+
+  it('blocks the spill when a value is typed into it', async () => {
+    const update = await recalculateLocally(buildSpillSheet(), [], 'b2', 'x');
+
+    expect(update?.changedCells).toEqual([
+      { id: 'b1', rowId: 'row-1', columnId: 'col-b', computedValue: '#SPILL!' },
+      { id: 'c1', rowId: 'row-1', columnId: 'col-c', computedValue: '#SPILL!' },
+    ]);
+  });
+});
+
+describe('reportFormulaFailure', () => {
+  it('reports failures that point at a bug in the engine, not formula errors', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    reportFormulaFailure(new FormulaEvaluationError('Division by zero', '#DIV/0!'), '=1/0');
+    reportFormulaFailure(new FormulaSyntaxError('Unexpected end of formula', 3), '=1+');
+    expect(consoleError).not.toHaveBeenCalled();
+
+    const bug = new TypeError("Cannot read properties of undefined (reading 'rows')");
+    reportFormulaFailure(bug, '=SUM(A1:A2)');
+    expect(consoleError).toHaveBeenCalledWith('Formula evaluation error in "=SUM(A1:A2)":', bug);
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formulaCursorContext,
+  formulaSyntaxError,
+  signatureArgumentIndex,
+  suggestFunctions,
+} from '../lib/formulaHints';
+import type { FormulaFunctionInfo } from '../types';
+
+const info = (signature: string): FormulaFunctionInfo => {
+  const name = signature.slice(0, signature.indexOf('('));
+  const args = signature.slice(name.length + 1, -1);
+  return { name, category: 'Math', signature, args: args ? args.split(', ') : [], description: '', examples: [] };
+};
+
+const CATALOG = ['SUM(value1, ...)', 'SUMIF(range, criteria, [sum_range])', 'SUMIFS(sum_range, criteria_range1, criteria1, ...)', 'SQRT(number)'].map(info);
+
+// The context with the cursor at the end of the text
+const contextAtEnd = (text: string) => formulaCursorContext(text, text.length);
+
+describe('formulaCursorContext', () => {
+  it('finds the function name being typed', () => {
+    expect(contextAtEnd('=SU').partialName).toEqual({ text: 'SU', start: 1 });
+    expect(contextAtEnd('=A1+ro').partialName).toEqual({ text: 'ro', start: 4 });
+  });
+
+  it('does not treat stock symbols, ranges or numbers as names', () => {
+    expect(contextAtEnd('=$AA').partialName).toBeNull();
+    expect(contextAtEnd('=A1:B').partialName).toBeNull();
+    expect(contextAtEnd('=1E').partialName).toBeNull();
+    expect(contextAtEnd('="SU').partialName).toBeNull();
+  });
+
+  it('finds the call and argument the cursor is in', () => {
+    expect(contextAtEnd('=SUM(').call).toEqual({ name: 'SUM', argIndex: 0 });
+    expect(contextAtEnd('=IF(A1>0, SUM(B1, B2), ').call).toEqual({ name: 'IF', argIndex: 2 });
+    expect(contextAtEnd('=ROUND((A1+B1), ').call).toEqual({ name: 'ROUND', argIndex: 1 });
+  });
+
+  it('skips commas and parentheses in strings and column references', () => {
+    expect(contextAtEnd('=TEXTJOIN(", (", ').call).toEqual({ name: 'TEXTJOIN', argIndex: 1 });
+    expect(contextAtEnd('=SUM([Cost, (net)]:[Cost, (net)], ').call).toEqual({ name: 'SUM', argIndex: 1 });
+  });
+
+  it('finds nothing outside a formula', () => {
+    expect(contextAtEnd('SUM(')).toEqual({ partialName: null, call: null });
+  });
+});
+
+describe('suggestFunctions', () => {
+  it('suggests functions starting with the typed name, shortest first', () => {
+    expect(suggestFunctions(CATALOG, 'su').map((fn) => fn.name)).toEqual(['SUM', 'SUMIF', 'SUMIFS']);
+    expect(suggestFunctions(CATALOG, 'SUM').map((fn) => fn.name)).toEqual(['SUMIF', 'SUMIFS']);
+    expect(suggestFunctions(CATALOG, '')).toEqual([]);
+  });
+});
+
+describe('signatureArgumentIndex', () => {
+  it('points past the named arguments at the repeating ones', () => {
+    const args = ['sum_range', 'criteria_range1', 'criteria1', '...'];
+    expect(signatureArgumentIndex(args, 1)).toBe(1);
+    expect(signatureArgumentIndex(args, 5)).toBe(3);
+    expect(signatureArgumentIndex(['number'], 3)).toBe(0);
+  });
+});
+
+describe('formulaSyntaxError', () => {
+  it('explains formulas that do not parse', () => {
+    expect(formulaSyntaxError('=SUM(1, 2')).toMatch(/position/);
+    expect(formulaSyntaxError('=SUM(1, 2)')).toBeNull();
+    expect(formulaSyntaxError('plain text (')).toBeNull();
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { formatDecimalNumber, isDecimalNumberFormat } from '../lib/numberFormat';
+
+describe('formatDecimalNumber', () => {
+  it('rounds to the decimal places as the number is written', () => {
+    expect(formatDecimalNumber(1.005, 'currency', 2)).toBe('$1.01');
+    expect(formatDecimalNumber(0.1 + 0.2, 'number', 2)).toBe('0.30');
+    expect(formatDecimalNumber(0.07, 'percentage', 0)).toBe('7%');
+    expect(formatDecimalNumber(0.12345, 'percentage', 2)).toBe('12.35%');
+  });
+
+  it('only handles the numeric formats', () => {
+    expect(isDecimalNumberFormat('currency')).toBe(true);
+    expect(isDecimalNumberFormat('date_short')).toBe(false);
+    expect(isDecimalNumberFormat(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { addressOf, cellAtAddress, parseValueList } from '../lib/whatIf';
+import type { Sheet } from '../types';
+
+const sheet = {
+  id: 'sheet',
+  columns: [{ id: 'col-a' }, { id: 'col-b' }],
+  rows: [
+    { id: 'row-1', cells: [{ id: 'a1', rowId: 'row-1', columnId: 'col-a' }, { id: 'b1', rowId: 'row-1', columnId: 'col-b' }] },
+    { id: 'row-2', cells: [{ id: 'a2', rowId: 'row-2', columnId: 'col-a' }, { id: 'b2', rowId: 'row-2', columnId: 'col-b' }] },
+  ],
+} as unknown as Sheet;
+
+describe('parseValueList', () => {
+  it('reads numbers and percentages', () => {
+    expect(parseValueList('0.1, 0.2; 25%')).toEqual([0.1, 0.2, 0.25]);
+    expect(parseValueList('7% 100')).toEqual([0.07, 100]);
+  });
+
+  it('rejects lists with anything else', () => {
+    expect(parseValueList('')).toBeNull();
+    expect(parseValueList('1, two')).toBeNull();
+    expect(parseValueList('%')).toBeNull();
+  });
+});
+
+describe('cell addresses', () => {
+  it('finds cells by their formula address and back', () => {
+    const cell = cellAtAddress(sheet, 'b2');
+    expect(cell?.id).toBe('b2');
+    expect(addressOf(sheet, cell!)).toBe('B2');
+    expect(cellAtAddress(sheet, 'C1')).toBeNull();
+  });
+});
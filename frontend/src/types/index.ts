@@ -1,8 +1,12 @@
+// MANUAL sheets only recalculate formulas when asked to ("Recalculate now")
+export type CalculationMode = 'AUTOMATIC' | 'MANUAL';
+
 export interface Sheet {
   id: string;
   name: string;
   description?: string;
   isFavorite?: boolean;
+  calculationMode?: CalculationMode;
   createdAt: string;
   updatedAt: string;
   columns?: Column[];
@@ -50,6 +54,12 @@ export interface Row {
   isVisible?: boolean;
 }
 
+// A formula result that spilled into the cells below and to the right of the
+// formula: its values row by row, starting with the formula's own cell
+export interface SpilledResult {
+  spill: (string | number | boolean | null)[][];
+}
+
 export interface Cell {
   id: string;
   sheetId: string;
@@ -57,7 +67,7 @@ export interface Cell {
   columnId: string;
   value?: string;
   formula?: string;
-  computedValue?: string | number;
+  computedValue?: string | number | boolean | null | SpilledResult;
   // Cell formatting
   textColor?: string;
   backgroundColor?: string;
@@ -108,6 +118,7 @@ export interface CreateSheetInput {
 export interface UpdateSheetInput {
   name?: string;
   description?: string;
+  calculationMode?: CalculationMode;
 }
 
 export interface CreateColumnInput {
@@ -145,6 +156,19 @@ export interface UpdateCellInput {
   decimalPlaces?: number;
 }
 
+// A formula cell whose result changed because one of its precedents was edited
+export interface ChangedCell {
+  id: string;
+  rowId: string;
+  columnId: string;
+  computedValue: string | number | boolean | null | SpilledResult;
+}
+
+export interface UpdateCellResult {
+  cell: Cell;
+  changedCells: ChangedCell[];
+}
+
 export interface RowComment {
   id: string;
   rowId: string;
@@ -319,6 +343,8 @@ export interface DataValidation {
 
 export interface ListValidationCriteria {
   values: string[];
+  // Named range or A1 range whose cells give the options, instead of `values`
+  source?: string;
 }
 
 export interface NumberValidationCriteria {
@@ -418,3 +444,75 @@ export interface PivotTableComputedData {
   columnFields: string[];
   valueFields: ValueField[];
 }
+
+// Named Range Types
+export interface NamedRange {
+  id: string;
+  sheetId: string;
+  name: string;
+  range: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NamedRangeInput {
+  name: string;
+  range: string;
+}
+
+// A cell found by tracing precedents or dependents, positioned in sheet order
+export interface TracedCell {
+  cellId: string | null;
+  rowId: string;
+  columnId: string;
+  rowIndex: number;
+  columnIndex: number;
+  // 1 for direct precedents/dependents, 2 for theirs, ... (0 for the traced cell)
+  depth: number;
+}
+
+export interface CellTrace {
+  cell: TracedCell;
+  precedents: TracedCell[];
+  dependents: TracedCell[];
+}
+
+// What-if analysis; cells are addressed as in formulas ("B2")
+export interface GoalSeekInput {
+  targetCell: string;
+  targetValue: number;
+  inputCell: string;
+}
+
+export interface GoalSeekResult {
+  // If not found, the input value that came closest
+  found: boolean;
+  inputValue: number;
+  targetValue: string | number | boolean | null;
+  iterations: number;
+}
+
+export interface DataTableVariable {
+  cell: string;
+  values: number[];
+}
+
+// One row per rowInput value; a column per target, or per columnInput value
+// when there's a columnInput (and a single target)
+export interface DataTableInput {
+  targetCells: string[];
+  rowInput: DataTableVariable;
+  columnInput?: DataTableVariable;
+}
+
+// Formula function catalog, for autocomplete and signature help
+export interface FormulaFunctionInfo {
+  name: string;
+  category: string;
+  // e.g. "PMT(rate, nper, pv, [fv], [type])"
+  signature: string;
+  // [optional] arguments are bracketed; "..." means the numbered ones before it repeat
+  args: string[];
+  description: string;
+  examples: string[];
+}
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { defineConfig, searchForWorkspaceRoot } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
 
@@ -11,6 +11,10 @@ export default defineConfig({
   },
   server: {
     port: 5173,
+    fs: {
+      // The formula engine is shared with the backend and lives outside this app
+      allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, '../shared')],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3000',
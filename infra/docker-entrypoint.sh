@@ -5,4 +5,4 @@ echo "Syncing database schema..."
 npx prisma db push --skip-generate
 
 echo "Starting application..."
-exec node dist/index.js
+exec node dist/backend-service/src/index.js
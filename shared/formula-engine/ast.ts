@@ -0,0 +1,95 @@
+// AST node definitions produced by the formula parser
+
+import type { ErrorCode } from './errors';
+
+export interface CellReference {
+  columnIndex: number; // 0-based
+  rowIndex: number; // 0-based
+  absoluteColumn: boolean; // $A1
+  absoluteRow: boolean; // A$1
+}
+
+// Column-name reference: [Amount]@row, [Amount]5, or [Amount] (whole column, only in ranges).
+// Stored formulas name columns by id ("#<columnId>") so they survive renames.
+export interface ColumnReference {
+  column: string; // column name, or "#<columnId>"
+  row: number | 'current' | null; // 0-based row, @row (the formula's own row), or the whole column
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type UnaryOperator = '-' | '+' | '%';
+
+export type AstNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: ErrorCode }
+  | { type: 'cell'; ref: CellReference }
+  | { type: 'range'; start: CellReference; end: CellReference }
+  | { type: 'columnCell'; ref: ColumnReference }
+  | { type: 'columnRange'; start: ColumnReference; end: ColumnReference }
+  // A cell or range in another sheet: {Budget}!A1, stored as {#<sheetId>}!A1
+  | { type: 'sheetCell'; sheet: string; ref: CellReference }
+  | { type: 'sheetRange'; sheet: string; start: CellReference; end: CellReference }
+  // Cells that don't form a rectangle, e.g. a row's children from CHILDREN(); read as a single column
+  | { type: 'cellList'; refs: CellReference[] }
+  | { type: 'function'; name: string; args: AstNode[] }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: UnaryOperator; operand: AstNode }
+  | { type: 'binary'; operator: BinaryOperator; left: AstNode; right: AstNode }
+  | { type: 'stock'; symbol: string }
+  | { type: 'empty' };
+
+// Convert column letters to a 0-based index (A=0, B=1, ..., Z=25, AA=26, etc.)
+export function columnLettersToIndex(letters: string): number {
+  let index = 0;
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.toUpperCase().charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+// Convert a 0-based column index to letters (0 -> A, 25 -> Z, 26 -> AA)
+export function columnIndexToLetters(index: number): string {
+  let letters = '';
+  let idx = index;
+  while (idx >= 0) {
+    letters = String.fromCharCode(65 + (idx % 26)) + letters;
+    idx = Math.floor(idx / 26) - 1;
+  }
+  return letters;
+}
+
+// Parse cell reference text (e.g., "A1", "$B$2") into a CellReference
+export function parseCellReference(text: string): CellReference | null {
+  const match = text.toUpperCase().match(/^(\$?)([A-Z]+)(\$?)(\d+)$/);
+  if (!match) return null;
+
+  const row = parseInt(match[4], 10);
+  if (row < 1) return null;
+
+  return {
+    columnIndex: columnLettersToIndex(match[2]),
+    rowIndex: row - 1,
+    absoluteColumn: match[1] === '$',
+    absoluteRow: match[3] === '$',
+  };
+}
+
+const COLUMN_REFERENCE_PATTERN = /^\[([^[\]]+)\](?:(@row)|(\d+))?$/i;
+
+// Parse column-name reference text ("[Amount]@row", "[Amount]5", "[Amount]") into a ColumnReference
+export function parseColumnReference(text: string): ColumnReference | null {
+  const match = text.match(COLUMN_REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const column = match[1].trim();
+  if (!column) return null;
+  if (match[2]) return { column, row: 'current' };
+  if (match[3]) {
+    const row = parseInt(match[3], 10);
+    return row < 1 ? null : { column, row: row - 1 };
+  }
+  return { column, row: null };
+}
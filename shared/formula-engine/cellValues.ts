@@ -0,0 +1,42 @@
+import { parseNumberText, ScalarValue } from './values';
+import { DateValue, parseDateText } from './dates';
+import { ErrorValue, isErrorCode } from './errors';
+import { spillRowsOf } from './spill';
+
+/**
+ * Turn a stored (JSON-encoded) cell value into the value formulas see:
+ * numeric text becomes a number, TRUE/FALSE become booleans, blank text
+ * becomes blank, error codes typed as text ("#N/A") become errors, and anything
+ * else stays text. In DATE columns, date text ("2024-01-15", "1/15/2024") becomes a date.
+ * A formula result that spilled is read as its top-left value.
+ */
+export function parseCellValue(stored: string | null, columnType?: string): ScalarValue {
+  if (!stored) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(stored);
+  } catch {
+    return null;
+  }
+
+  const spillRows = spillRowsOf(value);
+  if (spillRows) value = spillRows[0]?.[0] ?? null;
+
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+
+  if (columnType === 'DATE') {
+    const serial = parseDateText(trimmed);
+    if (serial !== null) return new DateValue(serial);
+  }
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  if (isErrorCode(upper)) return new ErrorValue(upper);
+
+  return parseNumberText(trimmed) ?? value;
+}
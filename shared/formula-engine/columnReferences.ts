@@ -0,0 +1,89 @@
+import { AstNode, CellReference, ColumnReference } from './ast';
+import { findByName, NamedItem, rewriteReferenceNames } from './formulaText';
+
+// What resolving [Column] references needs to know about the sheet and the formula's cell
+export interface ColumnResolver {
+  // Grid index of the column with this "#<columnId>" or name, or null if there is none
+  resolveColumn(column: string): number | null;
+  // Row of the cell holding the formula (for @row), if it has one
+  currentRowIndex: number | null;
+  rowCount: number;
+}
+
+const REF_ERROR: AstNode = { type: 'error', code: '#REF!' };
+
+function toCellReference(ref: ColumnReference, columnIndex: number, resolver: ColumnResolver): CellReference | null {
+  const rowIndex = ref.row === 'current' ? resolver.currentRowIndex : ref.row;
+  if (rowIndex === null) return null;
+  // Named columns and explicit row numbers stay put when the formula is copied; @row follows it
+  return { columnIndex, rowIndex, absoluteColumn: true, absoluteRow: ref.row !== 'current' };
+}
+
+/**
+ * Replace column-name references with the plain cell and range nodes they point
+ * at, so evaluation and dependency tracking only deal with grid positions.
+ * References to columns that don't exist (or @row without a row) become #REF!.
+ */
+export function resolveColumnReferences(node: AstNode, resolver: ColumnResolver): AstNode {
+  switch (node.type) {
+    case 'columnCell': {
+      const columnIndex = resolver.resolveColumn(node.ref.column);
+      const ref = columnIndex === null ? null : toCellReference(node.ref, columnIndex, resolver);
+      return ref ? { type: 'cell', ref } : REF_ERROR;
+    }
+
+    case 'columnRange': {
+      const startColumn = resolver.resolveColumn(node.start.column);
+      const endColumn = resolver.resolveColumn(node.end.column);
+      if (startColumn === null || endColumn === null) return REF_ERROR;
+
+      // [Col]:[Col] covers every row of the sheet
+      if (node.start.row === null || node.end.row === null) {
+        const lastRow = Math.max(resolver.rowCount - 1, 0);
+        return {
+          type: 'range',
+          start: { columnIndex: startColumn, rowIndex: 0, absoluteColumn: true, absoluteRow: true },
+          end: { columnIndex: endColumn, rowIndex: lastRow, absoluteColumn: true, absoluteRow: true },
+        };
+      }
+
+      const start = toCellReference(node.start, startColumn, resolver);
+      const end = toCellReference(node.end, endColumn, resolver);
+      return start && end ? { type: 'range', start, end } : REF_ERROR;
+    }
+
+    case 'unary':
+      return { ...node, operand: resolveColumnReferences(node.operand, resolver) };
+
+    case 'binary':
+      return {
+        ...node,
+        left: resolveColumnReferences(node.left, resolver),
+        right: resolveColumnReferences(node.right, resolver),
+      };
+
+    case 'function':
+      return { ...node, args: node.args.map((arg) => resolveColumnReferences(arg, resolver)) };
+
+    default:
+      return node;
+  }
+}
+
+// Formula text as stored: [Amount]@row becomes [#<columnId>]@row, so renaming the column keeps it working
+export function storeColumnReferences(formula: string, columns: NamedItem[]): string {
+  return rewriteReferenceNames(formula, 'column', (column) => {
+    if (column.startsWith('#')) return null;
+    const match = findByName(columns, column);
+    return match ? `#${match.id}` : null;
+  });
+}
+
+// Formula text as shown to users: stored column ids become the columns' current names
+export function displayColumnReferences(formula: string, columns: NamedItem[]): string {
+  return rewriteReferenceNames(formula, 'column', (column) => {
+    if (!column.startsWith('#')) return null;
+    const match = columns.find((candidate) => candidate.id === column.slice(1));
+    return match ? match.name : null;
+  });
+}
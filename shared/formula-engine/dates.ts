@@ -0,0 +1,119 @@
+// Dates are day serial numbers like in Excel: 1 = 1899-12-31, 45292 = 2024-01-01,
+// with the time of day as the fractional part. Calendar math is done in UTC so
+// results don't shift with the server's timezone.
+
+const MS_PER_DAY = 86400000;
+const EPOCH = Date.UTC(1899, 11, 30);
+
+export function serialFromParts(year: number, month: number, day: number): number {
+  // setUTCFullYear rolls out-of-range months/days over (month 13 -> January of the
+  // next year) and, unlike Date.UTC, doesn't treat years below 100 as 19xx
+  const date = new Date(EPOCH);
+  date.setUTCFullYear(year, month - 1, day);
+  return Math.round((date.getTime() - EPOCH) / MS_PER_DAY);
+}
+
+export function serialToDate(serial: number): Date {
+  return new Date(EPOCH + Math.round(serial * MS_PER_DAY));
+}
+
+export function dateToSerial(date: Date): number {
+  return (date.getTime() - EPOCH) / MS_PER_DAY;
+}
+
+export interface DateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+}
+
+export function serialToParts(serial: number): DateParts {
+  const date = serialToDate(Math.floor(serial));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+  };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// Today's date in the server's local calendar, as a whole serial
+export function todaySerial(now: Date = new Date()): number {
+  return Math.round((Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()) - EPOCH) / MS_PER_DAY);
+}
+
+// The current local date and time, as a serial with a fractional time of day
+export function nowSerial(now: Date = new Date()): number {
+  const seconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds();
+  return todaySerial(now) + seconds / 86400;
+}
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * Parse date text as typed into a DATE column: ISO ("2024-01-15", optionally
+ * with a time) or US style ("1/15/2024"). Returns null for anything else.
+ */
+export function parseDateText(text: string): number | null {
+  const trimmed = text.trim();
+
+  const iso = ISO_DATE.exec(trimmed);
+  if (iso) {
+    const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = iso;
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > daysInMonth(Number(year), Number(month))) {
+      return null;
+    }
+    const time = (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) / 86400;
+    return serialFromParts(Number(year), Number(month), Number(day)) + time;
+  }
+
+  const us = US_DATE.exec(trimmed);
+  if (us) {
+    const [, month, day, year] = us;
+    if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > daysInMonth(Number(year), Number(month))) {
+      return null;
+    }
+    return serialFromParts(Number(year), Number(month), Number(day));
+  }
+
+  return null;
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+// ISO text for a serial: "2024-01-15", or "2024-01-15T09:30:00" when it has a time
+export function formatSerialISO(serial: number): string {
+  const date = serialToDate(serial);
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (Number.isInteger(serial)) return day;
+  return `${day}T${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * A date (and optional time) flowing through formulas. It behaves as its serial
+ * number in arithmetic and comparisons, and serializes as ISO text so stored
+ * results and API responses show a readable date.
+ */
+export class DateValue {
+  constructor(public readonly serial: number) {}
+
+  valueOf(): number {
+    return this.serial;
+  }
+
+  toString(): string {
+    return formatSerialISO(this.serial);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
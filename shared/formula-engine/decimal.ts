@@ -0,0 +1,137 @@
+// Exact decimal arithmetic. Formula values stay JS numbers, but + - * / and
+// the aggregates work on the decimal each number is written as (0.1 is 0.1,
+// not 0.1000000000000000055...), so =0.1+0.2 is 0.3 and currency totals come
+// out to the cent. Each result is turned back into a number once (see toNumber).
+
+// coefficient × 10^exponent
+interface Decimal {
+  coefficient: bigint;
+  exponent: number;
+}
+
+// Significant digits kept when a quotient doesn't terminate - well past the 17 a number holds
+const DIVISION_DIGITS = 40;
+
+function toDecimal(value: number): Decimal {
+  // The shortest text that reads back as the same number: "0.1", "1e-7", "1.5e+21"
+  const [mantissa, exponent = '0'] = String(value).split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  return { coefficient: BigInt(whole + fraction), exponent: Number(exponent) - fraction.length };
+}
+
+// The nearest number - or, like Excel, the result rounded to 15 significant
+// digits when all that drops is float noise: a repeating decimal multiplied
+// back (1/3*3, 100/3*3) or summed (=1/3 three times) comes out as
+// 0.9999999999999999 or 100.00000000000001, which are 1 and 100. Results that need all their
+// digits, like 1/3 itself, are kept as they are.
+function toNumber({ coefficient, exponent }: Decimal): number {
+  const number = Number(`${coefficient}e${exponent}`);
+  if (number === 0 || !isFinite(number)) return number;
+  const rounded = Number(number.toPrecision(15));
+  return significantDigits(rounded) < 15 ? rounded : number;
+}
+
+function significantDigits(value: number): number {
+  const { coefficient } = toDecimal(value);
+  return (coefficient < 0n ? -coefficient : coefficient).toString().replace(/0+$/, '').length;
+}
+
+function powerOfTen(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+function digitCount(value: bigint): number {
+  return (value < 0n ? -value : value).toString().length;
+}
+
+function add(a: Decimal, b: Decimal): Decimal {
+  const exponent = Math.min(a.exponent, b.exponent);
+  return {
+    coefficient: a.coefficient * powerOfTen(a.exponent - exponent) + b.coefficient * powerOfTen(b.exponent - exponent),
+    exponent,
+  };
+}
+
+function negate(value: Decimal): Decimal {
+  return { coefficient: -value.coefficient, exponent: value.exponent };
+}
+
+function multiply(a: Decimal, b: Decimal): Decimal {
+  return { coefficient: a.coefficient * b.coefficient, exponent: a.exponent + b.exponent };
+}
+
+// Truncated after DIVISION_DIGITS significant digits; the divisor isn't zero
+function divide(a: Decimal, b: Decimal): Decimal {
+  const shift = Math.max(0, DIVISION_DIGITS + digitCount(b.coefficient) - digitCount(a.coefficient));
+  return {
+    coefficient: (a.coefficient * powerOfTen(shift)) / b.coefficient,
+    exponent: a.exponent - b.exponent - shift,
+  };
+}
+
+// Infinities and NaN have no decimal form; they go through float math and the
+// caller reports them
+function exactly(a: number, b: number, exact: (a: Decimal, b: Decimal) => Decimal, float: number): number {
+  if (!isFinite(a) || !isFinite(b)) return float;
+  return toNumber(exact(toDecimal(a), toDecimal(b)));
+}
+
+// Whole-number math is already exact while it stays within 2^53
+function safeInteger(a: number, b: number, result: number): boolean {
+  return Number.isSafeInteger(a) && Number.isSafeInteger(b) && Number.isSafeInteger(result);
+}
+
+export function decimalAdd(a: number, b: number): number {
+  return safeInteger(a, b, a + b) ? a + b : exactly(a, b, add, a + b);
+}
+
+export function decimalSubtract(a: number, b: number): number {
+  return safeInteger(a, b, a - b) ? a - b : exactly(a, b, (x, y) => add(x, negate(y)), a - b);
+}
+
+export function decimalMultiply(a: number, b: number): number {
+  return safeInteger(a, b, a * b) ? a * b : exactly(a, b, multiply, a * b);
+}
+
+// Callers check for division by zero first
+export function decimalDivide(a: number, b: number): number {
+  return b === 0 ? a / b : exactly(a, b, divide, a / b);
+}
+
+// The exact total, rounded once - not once per addition
+export function decimalSum(numbers: number[]): number {
+  let total: Decimal = { coefficient: 0n, exponent: 0 };
+  for (const value of numbers) {
+    if (!isFinite(value)) return numbers.reduce((sum, number) => sum + number, 0);
+    total = add(total, toDecimal(value));
+  }
+  return toNumber(total);
+}
+
+/**
+ * `value` rounded to `places` decimals (halves away from zero) and written
+ * with exactly that many - toFixed without the binary artefacts:
+ * formatFixed(1.005, 2) is "1.01" where (1.005).toFixed(2) is "1.00".
+ */
+export function formatFixed(value: number, places: number): string {
+  if (!isFinite(value)) return String(value);
+  const decimals = Math.max(0, Math.min(20, Math.trunc(places)));
+
+  const { coefficient, exponent } = toDecimal(value);
+  const shift = exponent + decimals;
+  let scaled = coefficient;
+  if (shift >= 0) {
+    scaled = coefficient * powerOfTen(shift);
+  } else {
+    const divisor = powerOfTen(-shift);
+    const remainder = coefficient % divisor;
+    scaled = coefficient / divisor;
+    const twiceRemainder = (remainder < 0n ? -remainder : remainder) * 2n;
+    if (twiceRemainder >= divisor) scaled += coefficient < 0n ? -1n : 1n;
+  }
+
+  const negative = scaled < 0n;
+  const digits = (negative ? -scaled : scaled).toString().padStart(decimals + 1, '0');
+  const text = decimals > 0 ? `${digits.slice(0, -decimals)}.${digits.slice(-decimals)}` : digits;
+  return negative ? `-${text}` : text;
+}
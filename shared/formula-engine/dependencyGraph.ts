@@ -0,0 +1,140 @@
+import type { AstNode } from './ast';
+import { parseFormula } from './parser';
+import { areaCellCount, collectReferences, MAX_AREA_CELLS } from './references';
+
+export interface GraphFormulaCell {
+  key: string;
+  formula: string;
+}
+
+// Maps a grid position to the key of the cell there (null if out of bounds)
+export type CellKeyResolver = (columnIndex: number, rowIndex: number) => string | null;
+
+/**
+ * Per-sheet dependency graph between formula cells and the cells they read.
+ * Edges point from a precedent to the formulas that depend on it.
+ */
+export class DependencyGraph {
+  private dependents = new Map<string, Set<string>>();
+  private precedents = new Map<string, Set<string>>();
+
+  // `parse` turns a cell's formula into the AST whose references are tracked
+  // (e.g. with [Column] references resolved); plain parsing by default
+  static build(
+    cells: GraphFormulaCell[],
+    resolveKey: CellKeyResolver,
+    parse: (cell: GraphFormulaCell) => AstNode = (cell) => parseFormula(cell.formula)
+  ): DependencyGraph {
+    const graph = new DependencyGraph();
+
+    for (const cell of cells) {
+      let areas;
+      try {
+        areas = collectReferences(parse(cell));
+      } catch {
+        // A formula that doesn't parse depends on nothing
+        continue;
+      }
+
+      for (const area of areas) {
+        // Oversized ranges evaluate to #REF! and read nothing
+        if (areaCellCount(area.start, area.end) > MAX_AREA_CELLS) continue;
+
+        const top = Math.min(area.start.rowIndex, area.end.rowIndex);
+        const bottom = Math.max(area.start.rowIndex, area.end.rowIndex);
+        const left = Math.min(area.start.columnIndex, area.end.columnIndex);
+        const right = Math.max(area.start.columnIndex, area.end.columnIndex);
+
+        for (let row = top; row <= bottom; row++) {
+          for (let col = left; col <= right; col++) {
+            const precedentKey = resolveKey(col, row);
+            if (precedentKey) {
+              graph.addEdge(precedentKey, cell.key);
+            }
+          }
+        }
+      }
+    }
+
+    return graph;
+  }
+
+  addEdge(precedentKey: string, dependentKey: string) {
+    if (!this.dependents.has(precedentKey)) {
+      this.dependents.set(precedentKey, new Set());
+    }
+    this.dependents.get(precedentKey)!.add(dependentKey);
+
+    if (!this.precedents.has(dependentKey)) {
+      this.precedents.set(dependentKey, new Set());
+    }
+    this.precedents.get(dependentKey)!.add(precedentKey);
+  }
+
+  getDependents(key: string): string[] {
+    return Array.from(this.dependents.get(key) ?? []);
+  }
+
+  getPrecedents(key: string): string[] {
+    return Array.from(this.precedents.get(key) ?? []);
+  }
+
+  // Every formula that directly or indirectly reads one of the changed cells
+  getTransitiveDependents(changedKeys: string[]): Set<string> {
+    const visited = new Set<string>();
+    const queue = [...changedKeys];
+
+    while (queue.length > 0) {
+      const key = queue.shift()!;
+      for (const dependent of this.dependents.get(key) ?? []) {
+        if (!visited.has(dependent)) {
+          visited.add(dependent);
+          queue.push(dependent);
+        }
+      }
+    }
+
+    return visited;
+  }
+
+  /**
+   * Transitive dependents of the changed cells in topological order, so each
+   * formula is recalculated after everything it reads. Cells caught in a cycle
+   * can't be ordered and are appended at the end.
+   */
+  getRecalculationOrder(changedKeys: string[]): string[] {
+    const affected = this.getTransitiveDependents(changedKeys);
+    const changed = new Set(changedKeys);
+
+    // Count unresolved precedents inside the affected set (Kahn's algorithm)
+    const pending = new Map<string, number>();
+    for (const key of affected) {
+      let count = 0;
+      for (const precedent of this.precedents.get(key) ?? []) {
+        if (affected.has(precedent) && !changed.has(precedent)) count++;
+      }
+      pending.set(key, count);
+    }
+
+    const ready = Array.from(affected).filter((key) => pending.get(key) === 0);
+    const order: string[] = [];
+
+    while (ready.length > 0) {
+      const key = ready.shift()!;
+      order.push(key);
+      for (const dependent of this.dependents.get(key) ?? []) {
+        if (!pending.has(dependent) || changed.has(dependent)) continue;
+        const remaining = pending.get(dependent)! - 1;
+        pending.set(dependent, remaining);
+        if (remaining === 0) ready.push(dependent);
+      }
+    }
+
+    const ordered = new Set(order);
+    for (const key of affected) {
+      if (!ordered.has(key) && !changed.has(key)) order.push(key);
+    }
+
+    return order.filter((key) => !changed.has(key));
+  }
+}
@@ -0,0 +1,275 @@
+import { EvaluationContext, evaluateNode } from './evaluator';
+import { FormulaEvaluationError, FormulaValue, isArray, ScalarValue, toScalar } from './values';
+import { CircularReferenceError, EvaluationPass } from './evaluationPass';
+import { ErrorValue } from './errors';
+import { CellKeyResolver, DependencyGraph } from './dependencyGraph';
+import { parseCellValue } from './cellValues';
+import { FormulaSyntaxError } from './tokenizer';
+import { FormulaGrid, FormulaPosition, FormulaUnavailableError, GridCell } from './grid';
+import { FormulaResult, MAX_SPILL_CELLS, spilledPositions, SpillValue } from './spill';
+
+// Formula engine for spreadsheet calculations
+export class FormulaEngine {
+  // Get cell value by reference
+  private static async getCellValue<C extends GridCell>(
+    grid: FormulaGrid<C>,
+    columnIndex: number,
+    rowIndex: number,
+    pass: EvaluationPass
+  ): Promise<ScalarValue> {
+    const cell = grid.getCell(columnIndex, rowIndex);
+
+    // Referenced formulas are evaluated recursively (once per pass); one that
+    // spilled is read as its top-left value
+    if (cell?.formula) {
+      const result = await this.evaluateCellFormula(grid, cell, { columnIndex, rowIndex }, pass);
+      return result instanceof SpillValue ? result.valueAt(0, 0) : result;
+    }
+
+    // Empty cells may hold part of a neighbouring formula's spilled result
+    const anchor = grid.spillAnchorAt(columnIndex, rowIndex);
+    if (anchor) {
+      const position = grid.positionOf(anchor)!;
+      const result = await this.evaluateCellFormula(grid, anchor, position, pass);
+      if (!(result instanceof SpillValue)) return null;
+      return result.valueAt(rowIndex - position.rowIndex, columnIndex - position.columnIndex);
+    }
+
+    return cell ? parseCellValue(cell.value, grid.columns[columnIndex].type) : null;
+  }
+
+  private static evaluateCellFormula<C extends GridCell>(
+    grid: FormulaGrid<C>,
+    cell: C,
+    position: FormulaPosition,
+    pass: EvaluationPass
+  ): Promise<FormulaResult> {
+    const formula = cell.formula!;
+    return pass.evaluateCell(cell.id, () => this.evaluateFormula(grid, formula, position, pass));
+  }
+
+  private static async evaluateFormula<C extends GridCell>(
+    grid: FormulaGrid<C>,
+    formula: string,
+    position: FormulaPosition | null,
+    pass: EvaluationPass
+  ): Promise<FormulaResult> {
+    const cell = position ? grid.getCell(position.columnIndex, position.rowIndex) : undefined;
+    // Other sheets are read with the permissions of whoever wrote the formula
+    const authorId = cell?.formulaAuthorId ?? null;
+    const context: EvaluationContext = {
+      getCellValue: (columnIndex, rowIndex) => this.getCellValue(grid, columnIndex, rowIndex, pass),
+      isInSheet: (columnIndex, rowIndex) => grid.isInSheet(columnIndex, rowIndex),
+      getSheetCellValue: (sheet, columnIndex, rowIndex) =>
+        grid.getLinkedCellValue(sheet, columnIndex, rowIndex, authorId),
+      getStockQuote: (symbol) => grid.getStockQuote(symbol),
+    };
+
+    // Errors become values (#DIV/0!, #REF!, ...) so they show in the cell and
+    // flow on to formulas that reference it
+    let result: FormulaResult;
+    try {
+      const ast = grid.parseCellFormula(formula, position);
+      const value = await evaluateNode(ast, context);
+      result = cell && position ? this.spill(grid, value, cell.id, position) : toScalar(value);
+    } catch (error) {
+      if (error instanceof FormulaUnavailableError) {
+        throw error;
+      }
+      result = this.errorResult(grid, formula, error);
+    }
+
+    if (cell && !(result instanceof SpillValue)) {
+      grid.setSpillArea(cell.id, null);
+    }
+    return result;
+  }
+
+  /**
+   * A range result spills over the cells below and to the right of the
+   * formula's cell - or is #SPILL! when any of them are in use or it runs off
+   * the sheet. Single values (and 1x1 ranges) stay in the cell.
+   */
+  private static spill<C extends GridCell>(
+    grid: FormulaGrid<C>,
+    value: FormulaValue,
+    anchorId: string,
+    position: FormulaPosition
+  ): FormulaResult {
+    if (!isArray(value)) return toScalar(value);
+
+    const area = { ...position, height: value.height, width: value.width };
+    if (value.height * value.width > MAX_SPILL_CELLS) {
+      throw new FormulaEvaluationError(`A result can spill at most ${MAX_SPILL_CELLS} values`, '#SPILL!');
+    }
+    if (!grid.canSpill(anchorId, area)) {
+      throw new FormulaEvaluationError('The result needs empty cells below and to the right of the formula to spill into', '#SPILL!');
+    }
+
+    grid.setSpillArea(anchorId, area);
+    return new SpillValue(value.rows);
+  }
+
+  private static errorResult<C extends GridCell>(grid: FormulaGrid<C>, formula: string, error: unknown): ErrorValue {
+    if (error instanceof CircularReferenceError) {
+      return error.toValue();
+    }
+    if (error instanceof FormulaEvaluationError) {
+      grid.reportError(formula, error);
+      return error.toValue();
+    }
+    if (error instanceof FormulaSyntaxError) {
+      grid.reportError(formula, error);
+      return new ErrorValue('#ERROR!', error.message);
+    }
+    grid.reportError(formula, error instanceof Error ? error : new Error(String(error)));
+    return new ErrorValue('#ERROR!');
+  }
+
+  /**
+   * Evaluate a formula against a loaded grid. Pass the id of the cell that holds
+   * it so references back to that cell are reported as circular, and share a
+   * pass between formulas evaluated together so referenced cells are only
+   * computed once. Raises FormulaUnavailableError if the grid can't compute
+   * something the formula reads. A range result spills (see SpillValue) when
+   * the formula has a cell to spill from.
+   */
+  public static async evaluate<C extends GridCell>(
+    grid: FormulaGrid<C>,
+    formula: string,
+    cellId?: string,
+    pass: EvaluationPass = new EvaluationPass()
+  ): Promise<FormulaResult> {
+    if (!cellId) {
+      return this.evaluateFormula(grid, formula, null, pass);
+    }
+
+    // The cell's row is what [Column]@row refers to, and its position what CHILDREN() starts from
+    const cell = grid.getCellById(cellId);
+    const position = cell ? grid.positionOf(cell) : null;
+
+    try {
+      return await pass.evaluateCell(cellId, () => this.evaluateFormula(grid, formula, position, pass));
+    } catch (error) {
+      if (error instanceof CircularReferenceError) {
+        return error.toValue();
+      }
+      throw error;
+    }
+  }
+}
+
+export interface RecalculatedCell {
+  id: string;
+  rowId: string;
+  columnId: string;
+  computedValue: FormulaResult;
+}
+
+/**
+ * Evaluate formula cells in the given order with one shared pass and return the
+ * ones whose result differs from their stored computedValue. Cells the grid
+ * can't compute (see FormulaUnavailableError) are left out.
+ */
+export async function evaluateCells<C extends GridCell>(grid: FormulaGrid<C>, cells: C[]): Promise<RecalculatedCell[]> {
+  grid.takeResizedSpills();
+  const changedCells = await evaluateInPass(grid, cells);
+
+  // Formulas reading cells a spill grew into or shrank out of may have been
+  // evaluated before it moved (or not known to depend on it), so go again
+  const resized = grid.takeResizedSpills();
+  if (resized.length === 0) return changedCells;
+
+  const evaluatedIds = new Set(cells.map((cell) => cell.id));
+  const readers = dependentsInOrder(grid, resized).filter((cell) => !evaluatedIds.has(cell.id));
+  return evaluateInPass(grid, [...cells, ...readers]);
+}
+
+async function evaluateInPass<C extends GridCell>(grid: FormulaGrid<C>, cells: C[]): Promise<RecalculatedCell[]> {
+  const changedCells: RecalculatedCell[] = [];
+  const pass = new EvaluationPass();
+
+  for (const cell of cells) {
+    let result: FormulaResult;
+    try {
+      result = await FormulaEngine.evaluate(grid, cell.formula!, cell.id, pass);
+    } catch (error) {
+      if (error instanceof FormulaUnavailableError) continue;
+      throw error;
+    }
+    const computedValue = result !== null ? JSON.stringify(result) : null;
+
+    // Only report cells whose result actually changed
+    if (computedValue === cell.computedValue) continue;
+
+    changedCells.push({
+      id: cell.id,
+      rowId: cell.rowId,
+      columnId: cell.columnId,
+      computedValue: result,
+    });
+  }
+
+  return changedCells;
+}
+
+// Every formula cell that depends (directly or transitively) on the changed
+// cells, in the order they have to be recalculated
+export function dependentsInOrder<C extends GridCell>(grid: FormulaGrid<C>, changedCellIds: string[]): C[] {
+  const { graph, keyAt } = sheetDependencyGraph(grid);
+  const formulaCells = grid.cells.filter((cell) => cell.formula);
+  const cellsById = new Map(formulaCells.map((cell) => [cell.id, cell]));
+
+  // A formula depends on the cells it spills into (a value typed into one blocks it)
+  for (const { anchorId, area } of grid.knownSpillAreas()) {
+    for (const { columnIndex, rowIndex } of spilledPositions(area)) {
+      const key = keyAt(columnIndex, rowIndex);
+      if (key) graph.addEdge(key, anchorId);
+    }
+  }
+
+  // A blocked spill may fit once any cell changes
+  const blocked = JSON.stringify(new ErrorValue('#SPILL!'));
+  for (const cell of formulaCells) {
+    if (cell.computedValue !== blocked) continue;
+    for (const changedId of changedCellIds) {
+      if (changedId !== cell.id) graph.addEdge(changedId, cell.id);
+    }
+  }
+
+  return graph
+    .getRecalculationOrder(changedCellIds)
+    .map((cellId) => cellsById.get(cellId))
+    .filter((cell): cell is C => cell !== undefined);
+}
+
+/**
+ * Which formulas read which cells, keyed by cell id - or "column:row" for
+ * positions without a cell, since spills can flow into them. Formulas reading
+ * spilled cells also depend on the formula that spilled.
+ */
+export function sheetDependencyGraph<C extends GridCell>(
+  grid: FormulaGrid<C>
+): { graph: DependencyGraph; keyAt: CellKeyResolver } {
+  const formulaCells = grid.cells.filter((cell) => cell.formula);
+  const cellsById = new Map(formulaCells.map((cell) => [cell.id, cell]));
+  const keyAt = (columnIndex: number, rowIndex: number) =>
+    grid.isInSheet(columnIndex, rowIndex) ? grid.getCell(columnIndex, rowIndex)?.id ?? `${columnIndex}:${rowIndex}` : null;
+  const graph = DependencyGraph.build(
+    formulaCells.map((cell) => ({ key: cell.id, formula: cell.formula! })),
+    keyAt,
+    ({ key, formula }) => grid.parseCellFormula(formula, grid.positionOf(cellsById.get(key)!))
+  );
+
+  for (const { anchorId, area } of grid.knownSpillAreas()) {
+    for (const { columnIndex, rowIndex } of spilledPositions(area)) {
+      const key = keyAt(columnIndex, rowIndex);
+      if (!key) continue;
+      for (const reader of graph.getDependents(key)) {
+        if (reader !== anchorId) graph.addEdge(anchorId, reader);
+      }
+    }
+  }
+
+  return { graph, keyAt };
+}
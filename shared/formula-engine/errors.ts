@@ -0,0 +1,53 @@
+// Spreadsheet error values (#DIV/0!, #REF!, ...) and what each one means
+
+export type ErrorCode =
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#N/A'
+  | '#NUM!'
+  | '#NULL!'
+  | '#CIRC!'
+  | '#SPILL!'
+  | '#NOACCESS'
+  | '#ERROR!';
+
+export const ERROR_DESCRIPTIONS: Record<ErrorCode, string> = {
+  '#DIV/0!': 'The formula divides by zero or by an empty cell',
+  '#VALUE!': 'A value has the wrong type for this operation, e.g. text where a number is expected',
+  '#REF!': 'The formula refers to a cell that does not exist, e.g. one in a deleted row or column',
+  '#NAME?': 'The formula uses a function or name that does not exist',
+  '#N/A': 'A lookup did not find a matching value',
+  '#NUM!': 'A number is out of range or a calculation did not converge',
+  '#NULL!': 'The ranges do not intersect',
+  '#CIRC!': 'The formula refers back to its own cell, directly or through other cells',
+  '#SPILL!': 'The formula returns several values, but the cells they would spill into are not empty',
+  '#NOACCESS': "The formula reads another sheet that its author doesn't have access to",
+  '#ERROR!': 'The formula could not be parsed',
+};
+
+export const ERROR_CODES = Object.keys(ERROR_DESCRIPTIONS) as ErrorCode[];
+
+export function isErrorCode(text: string): text is ErrorCode {
+  return Object.prototype.hasOwnProperty.call(ERROR_DESCRIPTIONS, text);
+}
+
+/**
+ * An error flowing through a formula like any other value, so =A1+1 shows the
+ * same #DIV/0! as A1. Serializes as its code so stored results stay readable.
+ */
+export class ErrorValue {
+  constructor(
+    public readonly code: ErrorCode,
+    public readonly message: string = ERROR_DESCRIPTIONS[code]
+  ) {}
+
+  toString(): string {
+    return this.code;
+  }
+
+  toJSON(): string {
+    return this.code;
+  }
+}
@@ -0,0 +1,63 @@
+import { FormulaEvaluationError } from './values';
+import type { FormulaResult } from './spill';
+import type { ErrorCode } from './errors';
+
+export const CIRCULAR_REFERENCE: ErrorCode = '#CIRC!';
+
+// Raised when a formula (directly or indirectly) reads a cell caught in a reference cycle
+export class CircularReferenceError extends FormulaEvaluationError {
+  constructor(key: string) {
+    super(`Circular reference involving cell ${key}`, CIRCULAR_REFERENCE);
+    this.name = 'CircularReferenceError';
+  }
+}
+
+/**
+ * State shared by every formula evaluated in one pass: results are memoized so
+ * a cell referenced many times is computed once, and the chain of cells being
+ * evaluated is tracked so reference cycles are detected instead of recursing forever.
+ */
+export class EvaluationPass {
+  private results = new Map<string, FormulaResult>();
+  private inProgress: string[] = [];
+  private circular = new Set<string>();
+
+  isCircular(key: string): boolean {
+    return this.circular.has(key);
+  }
+
+  async evaluateCell(key: string, compute: () => Promise<FormulaResult>): Promise<FormulaResult> {
+    if (this.circular.has(key)) {
+      throw new CircularReferenceError(key);
+    }
+    if (this.results.has(key)) {
+      return this.results.get(key)!;
+    }
+
+    // Reaching a cell that is still being evaluated closes a cycle - every cell
+    // from that point down the chain is part of it
+    const cycleStart = this.inProgress.indexOf(key);
+    if (cycleStart !== -1) {
+      this.inProgress.slice(cycleStart).forEach((member) => this.circular.add(member));
+      throw new CircularReferenceError(key);
+    }
+
+    this.inProgress.push(key);
+    let result: FormulaResult;
+    try {
+      // Resume on a fresh stack - otherwise a long chain of references
+      // (B1000 -> B999 -> ... -> B1) recurses synchronously and overflows it
+      await Promise.resolve();
+      result = await compute();
+    } finally {
+      this.inProgress.pop();
+    }
+
+    if (this.circular.has(key)) {
+      throw new CircularReferenceError(key);
+    }
+
+    this.results.set(key, result);
+    return result;
+  }
+}
@@ -0,0 +1,238 @@
+import { AstNode, BinaryOperator, CellReference, UnaryOperator } from './ast';
+import { getFormulaFunction } from './functions';
+import { power } from './functions/math';
+import { areaCellCount, MAX_AREA_CELLS } from './references';
+import {
+  compareScalars,
+  FormulaEvaluationError,
+  FormulaValue,
+  isArray,
+  mapElements,
+  RangeValue,
+  raiseIfError,
+  ScalarValue,
+  toNumber,
+  toScalar,
+  toText,
+} from './values';
+import { DateValue } from './dates';
+import { decimalAdd, decimalDivide, decimalMultiply, decimalSubtract } from './decimal';
+import { ErrorValue } from './errors';
+import type { StockQuote } from './stocks';
+
+// Everything the evaluator needs from the outside world
+export interface EvaluationContext {
+  getCellValue(columnIndex: number, rowIndex: number): Promise<ScalarValue>;
+  // Whether the position exists in the sheet; references outside it are #REF!
+  isInSheet(columnIndex: number, rowIndex: number): boolean;
+  // Value of a cell in another sheet ({Sheet}!A1); raises #REF! or #NOACCESS when it can't be read
+  getSheetCellValue(sheet: string, columnIndex: number, rowIndex: number): Promise<ScalarValue>;
+  // Latest quote for a ticker symbol; raises #N/A for symbols the market data doesn't know
+  getStockQuote(symbol: string): Promise<StockQuote>;
+}
+
+export async function evaluateNode(node: AstNode, context: EvaluationContext): Promise<FormulaValue> {
+  switch (node.type) {
+    case 'number':
+      // Literals past the largest number a cell can hold, like 1E400, parse as Infinity
+      if (!isFinite(node.value)) {
+        throw new FormulaEvaluationError('The number is too large', '#NUM!');
+      }
+      return node.value;
+
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'error':
+      return new ErrorValue(node.code);
+
+    case 'empty':
+      return null;
+
+    case 'name':
+      throw new FormulaEvaluationError(`Unknown name ${node.name}`, '#NAME?');
+
+    case 'cell':
+      if (!context.isInSheet(node.ref.columnIndex, node.ref.rowIndex)) {
+        throw new FormulaEvaluationError('The referenced cell is outside the sheet', '#REF!');
+      }
+      return context.getCellValue(node.ref.columnIndex, node.ref.rowIndex);
+
+    case 'range':
+      return evaluateRange(node.start, node.end, (col, row) => context.getCellValue(col, row));
+
+    case 'sheetCell':
+      return context.getSheetCellValue(node.sheet, node.ref.columnIndex, node.ref.rowIndex);
+
+    case 'sheetRange':
+      return evaluateRange(node.start, node.end, (col, row) => context.getSheetCellValue(node.sheet, col, row));
+
+    case 'cellList': {
+      const rows: ScalarValue[][] = [];
+      for (const ref of node.refs) {
+        rows.push([await context.getCellValue(ref.columnIndex, ref.rowIndex)]);
+      }
+      return new RangeValue(rows);
+    }
+
+    // [Column] references are resolved to cells and ranges before evaluation
+    case 'columnCell':
+    case 'columnRange':
+      throw new FormulaEvaluationError('Column references must be resolved against a sheet', '#REF!');
+
+    // $AAPL is the price; STOCK() reads the other attributes
+    case 'stock':
+      return (await context.getStockQuote(node.symbol)).price;
+
+    // Operators on ranges work element by element and give a range
+    case 'unary': {
+      const operand = await evaluateNode(node.operand, context);
+      if (isArray(operand)) {
+        return mapElements([operand], ([value]) => applyUnaryOperator(node.operator, value));
+      }
+      return applyUnaryOperator(node.operator, operand);
+    }
+
+    case 'binary': {
+      const left = await evaluateNode(node.left, context);
+      const right = await evaluateNode(node.right, context);
+      if (isArray(left) || isArray(right)) {
+        return mapElements([left, right], ([leftValue, rightValue]) =>
+          applyBinaryOperator(node.operator, leftValue, rightValue)
+        );
+      }
+      return applyBinaryOperator(node.operator, toScalar(left), toScalar(right));
+    }
+
+    case 'function': {
+      const fn = getFormulaFunction(node.name);
+      if (!fn) {
+        throw new FormulaEvaluationError(`Unknown function ${node.name}`, '#NAME?');
+      }
+      const result = await fn({
+        args: node.args,
+        evaluate: (arg) => evaluateNode(arg, context),
+        getStockQuote: (symbol) => context.getStockQuote(symbol),
+      });
+      return finiteResult(result);
+    }
+  }
+}
+
+async function evaluateRange(
+  start: CellReference,
+  end: CellReference,
+  getCellValue: (columnIndex: number, rowIndex: number) => Promise<ScalarValue>
+): Promise<RangeValue> {
+  if (areaCellCount(start, end) > MAX_AREA_CELLS) {
+    throw new FormulaEvaluationError(`Ranges can cover at most ${MAX_AREA_CELLS} cells`, '#REF!');
+  }
+
+  // Normalize so ranges written backwards (B3:A1) still work
+  const top = Math.min(start.rowIndex, end.rowIndex);
+  const bottom = Math.max(start.rowIndex, end.rowIndex);
+  const left = Math.min(start.columnIndex, end.columnIndex);
+  const right = Math.max(start.columnIndex, end.columnIndex);
+
+  const rows: ScalarValue[][] = [];
+  for (let row = top; row <= bottom; row++) {
+    const values: ScalarValue[] = [];
+    for (let col = left; col <= right; col++) {
+      values.push(await getCellValue(col, row));
+    }
+    rows.push(values);
+  }
+  return new RangeValue(rows);
+}
+
+function applyUnaryOperator(operator: UnaryOperator, value: ScalarValue): number {
+  const operand = toNumber(value);
+  if (operator === '-') return -operand;
+  if (operator === '%') return decimalDivide(operand, 100);
+  return operand;
+}
+
+function applyBinaryOperator(operator: BinaryOperator, left: ScalarValue, right: ScalarValue): ScalarValue {
+  const result = applyScalarOperator(operator, left, right);
+  if (typeof result === 'number' && !isFinite(result)) {
+    throw new FormulaEvaluationError('The result is not a finite number', '#NUM!');
+  }
+  return result;
+}
+
+// A function result that overflowed (=SUM(1E308, 1E308)) is #NUM!, as it is for
+// operators; in an array, only the elements that overflowed are
+function finiteResult(value: FormulaValue): FormulaValue {
+  const isInfinite = (element: ScalarValue) => typeof element === 'number' && !isFinite(element);
+  if (!(value instanceof RangeValue)) {
+    if (isInfinite(value)) throw new FormulaEvaluationError('The result is not a finite number', '#NUM!');
+    return value;
+  }
+  if (!value.flat().some(isInfinite)) return value;
+  return new RangeValue(
+    value.rows.map((row) =>
+      row.map((element) =>
+        isInfinite(element) ? new ErrorValue('#NUM!', 'The result is not a finite number') : element
+      )
+    )
+  );
+}
+
+function applyScalarOperator(operator: BinaryOperator, left: ScalarValue, right: ScalarValue): ScalarValue {
+  switch (operator) {
+    case '+':
+    case '-':
+      return applyAdditive(operator, left, right);
+    case '*':
+      return decimalMultiply(toNumber(left), toNumber(right));
+    case '/': {
+      const divisor = toNumber(right);
+      if (divisor === 0) {
+        throw new FormulaEvaluationError('Division by zero', '#DIV/0!');
+      }
+      return decimalDivide(toNumber(left), divisor);
+    }
+    case '^':
+      return power(toNumber(left), toNumber(right));
+    case '&':
+      return toText(left) + toText(right);
+    default:
+      raiseIfError(left);
+      raiseIfError(right);
+      return compareValues(operator, left, right);
+  }
+}
+
+// Date arithmetic: date ± days is a date, date - date is a number of days
+function applyAdditive(operator: '+' | '-', left: ScalarValue, right: ScalarValue): ScalarValue {
+  const result =
+    operator === '+' ? decimalAdd(toNumber(left), toNumber(right)) : decimalSubtract(toNumber(left), toNumber(right));
+  const leftIsDate = left instanceof DateValue;
+  const rightIsDate = right instanceof DateValue;
+
+  if (leftIsDate && !rightIsDate) return new DateValue(result);
+  if (rightIsDate && !leftIsDate && operator === '+') return new DateValue(result);
+  return result;
+}
+
+function compareValues(operator: BinaryOperator, left: ScalarValue, right: ScalarValue): boolean {
+  const diff = compareScalars(left, right);
+
+  switch (operator) {
+    case '=':
+      return diff === 0;
+    case '<>':
+      return diff !== 0;
+    case '<':
+      return diff < 0;
+    case '>':
+      return diff > 0;
+    case '<=':
+      return diff <= 0;
+    case '>=':
+      return diff >= 0;
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,62 @@
+import { tokenize } from './tokenizer';
+
+// Something formulas refer to by name but store by id: a column or a sheet
+export interface NamedItem {
+  id: string;
+  name: string;
+}
+
+// Tokens whose name part is rewritten: [Column]... and {Sheet}!
+type NamedReferenceToken = 'column' | 'sheet';
+
+function nameOf(tokenValue: string): { name: string; close: number } {
+  const close = tokenValue.indexOf(tokenValue[0] === '[' ? ']' : '}');
+  return { name: tokenValue.slice(1, close).trim(), close };
+}
+
+/**
+ * Rewrite the name inside every [Column] or {Sheet} reference in formula text.
+ * Text that doesn't tokenize is returned unchanged - it will show #ERROR! when evaluated.
+ */
+export function rewriteReferenceNames(
+  formula: string,
+  type: NamedReferenceToken,
+  rewrite: (name: string) => string | null
+): string {
+  const start = formula.match(/^\s*=?/)![0].length;
+  let tokens;
+  try {
+    tokens = tokenize(formula, start);
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let copiedUpTo = 0;
+  for (const token of tokens) {
+    if (token.type !== type) continue;
+    const { name, close } = nameOf(token.value);
+    const replacement = rewrite(name);
+    if (replacement === null) continue;
+
+    result += formula.slice(copiedUpTo, token.position) + token.value[0] + replacement + token.value.slice(close);
+    copiedUpTo = token.position + token.value.length;
+  }
+  return result + formula.slice(copiedUpTo);
+}
+
+// Names used by the [Column] or {Sheet} references in formula text
+export function referenceNames(formula: string, type: NamedReferenceToken): string[] {
+  const names: string[] = [];
+  rewriteReferenceNames(formula, type, (name) => {
+    names.push(name);
+    return null;
+  });
+  return names;
+}
+
+// Find a column or sheet by exact name, falling back to a case-insensitive match
+export function findByName<T extends NamedItem>(items: T[], name: string): T | undefined {
+  const lower = name.toLowerCase();
+  return items.find((item) => item.name === name) ?? items.find((item) => item.name.toLowerCase() === lower);
+}
@@ -0,0 +1,44 @@
+import { collectNumbers } from '../values';
+import { decimalDivide, decimalMultiply, decimalSum } from '../decimal';
+import { FormulaFunction, withEvaluatedArgs } from './types';
+
+// Smallest and largest of a list - in a loop, since spreading a large range
+// into Math.min() overflows the call stack
+export function minOf(numbers: number[]): number {
+  return numbers.reduce((min, number) => (number < min ? number : min), Infinity);
+}
+
+export function maxOf(numbers: number[]): number {
+  return numbers.reduce((max, number) => (number > max ? number : max), -Infinity);
+}
+
+// Aggregates accept any mix of ranges (A1:A10), single references and literals
+export const aggregateFunctions: Record<string, FormulaFunction> = {
+  SUM: withEvaluatedArgs((values) => {
+    return decimalSum(collectNumbers(values));
+  }),
+
+  AVERAGE: withEvaluatedArgs((values) => {
+    const numbers = collectNumbers(values);
+    return numbers.length > 0 ? decimalDivide(decimalSum(numbers), numbers.length) : 0;
+  }),
+
+  COUNT: withEvaluatedArgs((values) => {
+    return collectNumbers(values).length;
+  }),
+
+  MIN: withEvaluatedArgs((values) => {
+    const numbers = collectNumbers(values);
+    return numbers.length > 0 ? minOf(numbers) : 0;
+  }),
+
+  MAX: withEvaluatedArgs((values) => {
+    const numbers = collectNumbers(values);
+    return numbers.length > 0 ? maxOf(numbers) : 0;
+  }),
+
+  PRODUCT: withEvaluatedArgs((values) => {
+    const numbers = collectNumbers(values);
+    return numbers.length > 0 ? numbers.reduce(decimalMultiply, 1) : 0;
+  }),
+};
@@ -0,0 +1,168 @@
+import {
+  compareScalars,
+  FormulaEvaluationError,
+  FormulaValue,
+  RangeValue,
+  ScalarValue,
+  raiseIfError,
+  toBoolean,
+  toNumber,
+  toRange,
+} from '../values';
+import { DateValue } from '../dates';
+import { ErrorValue } from '../errors';
+import { MAX_SPILL_CELLS } from '../spill';
+import { expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+
+// Array functions return ranges, which spill into the cells next to the formula
+
+// Optional argument that may be left out or empty (=SORT(A1:B9,,-1))
+function optionalNumber(values: FormulaValue[], index: number, fallback: number): number {
+  return values.length > index && values[index] !== null ? toNumber(values[index]) : fallback;
+}
+
+function optionalFlag(values: FormulaValue[], index: number): boolean {
+  return values.length > index && values[index] !== null ? toBoolean(values[index]) : false;
+}
+
+function transpose(range: RangeValue): RangeValue {
+  const columns: ScalarValue[][] = [];
+  for (let col = 0; col < range.width; col++) {
+    columns.push(range.rows.map((row) => row[col]));
+  }
+  return new RangeValue(columns);
+}
+
+// FILTER conditions: an error in one is the result
+function keep(condition: ScalarValue): boolean {
+  raiseIfError(condition);
+  return toBoolean(condition);
+}
+
+// Rows that hold the same values (text compared case-insensitively, dates as
+// their serials) share a key
+function rowKey(row: ScalarValue[]): string {
+  return JSON.stringify(
+    row.map((value) => {
+      if (value instanceof ErrorValue) return `e:${value.code}`;
+      if (value instanceof DateValue) return `n:${value.serial}`;
+      if (typeof value === 'string') return `s:${value.toLowerCase()}`;
+      return `${typeof value}:${value}`;
+    })
+  );
+}
+
+export const arrayFunctions: Record<string, FormulaFunction> = {
+  // FILTER(array, include, [if_empty]) - include is a column of conditions (or
+  // a row, to filter columns), e.g. =FILTER(A2:C100, C2:C100>10)
+  FILTER: async ({ args, evaluate }) => {
+    if (args.length < 2 || args.length > 3) {
+      throw new FormulaEvaluationError('FILTER expects 2 to 3 arguments');
+    }
+
+    const array = toRange(await evaluate(args[0]));
+    const include = toRange(await evaluate(args[1]));
+
+    let filtered: RangeValue;
+    if (include.width === 1 && include.height === array.height) {
+      filtered = new RangeValue(array.rows.filter((_row, index) => keep(include.rows[index][0])));
+    } else if (include.height === 1 && include.width === array.width) {
+      const columns = transpose(array).rows.filter((_column, index) => keep(include.rows[0][index]));
+      filtered = columns.length > 0 ? transpose(new RangeValue(columns)) : new RangeValue([]);
+    } else {
+      throw new FormulaEvaluationError('FILTER include must be a row or column the size of the array', '#VALUE!');
+    }
+
+    if (filtered.height === 0) {
+      // if_empty is only evaluated when it's needed
+      if (args.length > 2 && args[2].type !== 'empty') return evaluate(args[2]);
+      throw new FormulaEvaluationError('FILTER found no matching values', '#N/A');
+    }
+    return filtered;
+  },
+
+  // SORT(array, [sort_index], [sort_order], [by_col]) - sort_order 1 is
+  // ascending, -1 descending; rows that compare equal keep their order
+  SORT: withEvaluatedArgs((values) => {
+    expectArgs('SORT', values, 1, 4);
+    const array = toRange(values[0]);
+    const sortIndex = Math.trunc(optionalNumber(values, 1, 1));
+    const sortOrder = optionalNumber(values, 2, 1);
+    const byColumn = optionalFlag(values, 3);
+
+    if (sortOrder !== 1 && sortOrder !== -1) {
+      throw new FormulaEvaluationError('SORT sort_order must be 1 or -1', '#VALUE!');
+    }
+
+    const lines = byColumn ? transpose(array) : array;
+    if (sortIndex < 1 || sortIndex > lines.width) {
+      throw new FormulaEvaluationError(`SORT sort_index ${sortIndex} is outside the array`, '#VALUE!');
+    }
+
+    const sorted = [...lines.rows].sort(
+      (a, b) => compareScalars(a[sortIndex - 1], b[sortIndex - 1]) * sortOrder
+    );
+    return byColumn ? transpose(new RangeValue(sorted)) : new RangeValue(sorted);
+  }),
+
+  // UNIQUE(array, [by_col], [exactly_once]) - distinct rows (or columns) in the
+  // order they first appear; exactly_once keeps only those that appear once
+  UNIQUE: withEvaluatedArgs((values) => {
+    expectArgs('UNIQUE', values, 1, 3);
+    const array = toRange(values[0]);
+    const byColumn = optionalFlag(values, 1);
+    const exactlyOnce = optionalFlag(values, 2);
+
+    const lines = byColumn ? transpose(array) : array;
+    const counts = new Map<string, number>();
+    for (const line of lines.rows) {
+      const key = rowKey(line);
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    const seen = new Set<string>();
+    const unique = lines.rows.filter((line) => {
+      const key = rowKey(line);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return !exactlyOnce || counts.get(key) === 1;
+    });
+
+    if (unique.length === 0) {
+      throw new FormulaEvaluationError('UNIQUE found no values that appear exactly once', '#N/A');
+    }
+    return byColumn ? transpose(new RangeValue(unique)) : new RangeValue(unique);
+  }),
+
+  // SEQUENCE(rows, [columns], [start], [step]) - numbers filled row by row
+  SEQUENCE: withEvaluatedArgs((values) => {
+    expectArgs('SEQUENCE', values, 1, 4);
+    const rowCount = Math.trunc(toNumber(values[0]));
+    const columnCount = Math.trunc(optionalNumber(values, 1, 1));
+    const start = optionalNumber(values, 2, 1);
+    const step = optionalNumber(values, 3, 1);
+
+    if (rowCount < 1 || columnCount < 1) {
+      throw new FormulaEvaluationError('SEQUENCE needs at least one row and one column', '#VALUE!');
+    }
+    if (rowCount * columnCount > MAX_SPILL_CELLS) {
+      throw new FormulaEvaluationError(`SEQUENCE can produce at most ${MAX_SPILL_CELLS} values`, '#NUM!');
+    }
+
+    const rows: ScalarValue[][] = [];
+    for (let row = 0; row < rowCount; row++) {
+      const line: ScalarValue[] = [];
+      for (let col = 0; col < columnCount; col++) {
+        line.push(start + (row * columnCount + col) * step);
+      }
+      rows.push(line);
+    }
+    return new RangeValue(rows);
+  }),
+
+  // TRANSPOSE(array) - rows become columns
+  TRANSPOSE: withEvaluatedArgs((values) => {
+    expectArgs('TRANSPOSE', values, 1, 1);
+    return transpose(toRange(values[0]));
+  }),
+};
@@ -0,0 +1,200 @@
+// What each formula function does and how it's called, for the function list,
+// autocomplete and signature hints. Every registered function (and alias) has
+// an entry, as do the hierarchy functions resolved before evaluation.
+
+export type FunctionCategory =
+  | 'Math'
+  | 'Statistical'
+  | 'Logical'
+  | 'Lookup'
+  | 'Text'
+  | 'Date'
+  | 'Financial'
+  | 'Array'
+  | 'Hierarchy'
+  | 'Market data';
+
+export interface FunctionInfo {
+  name: string;
+  category: FunctionCategory;
+  // How it's called, e.g. "PMT(rate, nper, pv, [fv], [type])"
+  signature: string;
+  // The signature's arguments in order: [optional] ones are bracketed, and "..."
+  // means the numbered ones before it can repeat
+  args: string[];
+  description: string;
+  examples: string[];
+}
+
+function define(category: FunctionCategory, signature: string, description: string, examples: string[]): FunctionInfo {
+  const open = signature.indexOf('(');
+  const args = signature.slice(open + 1, -1).trim();
+  return {
+    name: signature.slice(0, open),
+    category,
+    signature,
+    args: args ? args.split(', ') : [],
+    description,
+    examples,
+  };
+}
+
+function alias(name: string, of: FunctionInfo): FunctionInfo {
+  return {
+    ...of,
+    name,
+    signature: name + of.signature.slice(of.name.length),
+    description: `Same as ${of.name}. ${of.description}`,
+    examples: of.examples.map((example) => example.replace(`=${of.name}(`, `=${name}(`)),
+  };
+}
+
+const FUNCTIONS: FunctionInfo[] = [
+  // Math
+  define('Math', 'SUM(value1, ...)', 'Adds numbers and the numbers in ranges; text and blanks are skipped.', ['=SUM(A1:A10)', '=SUM([Amount]:[Amount])']),
+  define('Math', 'PRODUCT(value1, ...)', 'Multiplies numbers and the numbers in ranges.', ['=PRODUCT(A1:A3)']),
+  define('Math', 'ROUND(number, [digits])', 'Rounds to the given number of decimal places; halves round away from zero. Negative digits round to tens, hundreds, ...', ['=ROUND(2.345, 2)', '=ROUND(1234, -2)']),
+  define('Math', 'ROUNDUP(number, [digits])', 'Rounds away from zero to the given number of decimal places.', ['=ROUNDUP(3.141, 2)']),
+  define('Math', 'ROUNDDOWN(number, [digits])', 'Rounds toward zero to the given number of decimal places.', ['=ROUNDDOWN(3.149, 2)']),
+  define('Math', 'ABS(number)', 'The number without its sign.', ['=ABS(-4)']),
+  define('Math', 'MOD(number, divisor)', 'The remainder after division; it has the sign of the divisor.', ['=MOD(10, 3)']),
+  define('Math', 'POWER(number, power)', 'A number raised to a power, like number^power.', ['=POWER(2, 10)']),
+  define('Math', 'SQRT(number)', 'The square root of a non-negative number.', ['=SQRT(16)']),
+  define('Math', 'RAND()', 'A random number from 0 up to 1, new on every recalculation.', ['=RAND()']),
+  define('Math', 'RANDBETWEEN(bottom, top)', 'A random whole number between bottom and top, new on every recalculation.', ['=RANDBETWEEN(1, 6)']),
+
+  // Statistical
+  define('Statistical', 'AVERAGE(value1, ...)', 'The mean of the numbers; text and blanks are skipped.', ['=AVERAGE(A1:A10)']),
+  define('Statistical', 'COUNT(value1, ...)', 'How many numbers there are.', ['=COUNT(A1:A10)']),
+  define('Statistical', 'COUNTA(value1, ...)', 'How many values are not blank, including text and errors.', ['=COUNTA(A1:A10)']),
+  define('Statistical', 'COUNTBLANK(range)', 'How many cells in the range are empty.', ['=COUNTBLANK(A1:A10)']),
+  define('Statistical', 'MIN(value1, ...)', 'The smallest number.', ['=MIN(A1:A10)']),
+  define('Statistical', 'MAX(value1, ...)', 'The largest number.', ['=MAX(A1:A10)']),
+  define('Statistical', 'MEDIAN(value1, ...)', 'The middle number, or the mean of the two middle numbers.', ['=MEDIAN(A1:A10)']),
+  define('Statistical', 'MODE(value1, ...)', 'The most frequent number; #N/A if no number repeats.', ['=MODE(A1:A10)']),
+  define('Statistical', 'STDEV.S(value1, ...)', 'Standard deviation of a sample.', ['=STDEV.S(A1:A10)']),
+  define('Statistical', 'STDEV.P(value1, ...)', 'Standard deviation of a whole population.', ['=STDEV.P(A1:A10)']),
+  define('Statistical', 'VAR.S(value1, ...)', 'Variance of a sample.', ['=VAR.S(A1:A10)']),
+  define('Statistical', 'VAR.P(value1, ...)', 'Variance of a whole population.', ['=VAR.P(A1:A10)']),
+  define('Statistical', 'PERCENTILE(array, k)', 'The k-th percentile (k from 0 to 1), interpolating between values.', ['=PERCENTILE(A1:A10, 0.9)']),
+  define('Statistical', 'QUARTILE(array, quart)', 'A quartile: 0 is the minimum, 2 the median and 4 the maximum.', ['=QUARTILE(A1:A10, 1)']),
+  define('Statistical', 'RANK(number, ref, [order])', "A number's position in a list, largest first unless order is 1; ties share a rank.", ['=RANK(A1, A1:A10)']),
+  define('Statistical', 'LARGE(array, k)', 'The k-th largest number.', ['=LARGE(A1:A10, 2)']),
+  define('Statistical', 'SMALL(array, k)', 'The k-th smallest number.', ['=SMALL(A1:A10, 2)']),
+  define('Statistical', 'CORREL(array1, array2)', 'The correlation coefficient of two ranges of the same size.', ['=CORREL(A1:A10, B1:B10)']),
+  define('Statistical', 'SUMIF(range, criteria, [sum_range])', 'Adds the cells that match the criteria, or the matching cells of sum_range.', ['=SUMIF(A1:A10, ">100")', '=SUMIF(B1:B10, "Done", C1:C10)']),
+  define('Statistical', 'SUMIFS(sum_range, criteria_range1, criteria1, ...)', 'Adds the cells of sum_range where every criterion holds.', ['=SUMIFS(C1:C10, A1:A10, "East", B1:B10, ">5")']),
+  define('Statistical', 'AVERAGEIF(range, criteria, [average_range])', 'The mean of the cells that match the criteria.', ['=AVERAGEIF(A1:A10, ">0")']),
+  define('Statistical', 'AVERAGEIFS(average_range, criteria_range1, criteria1, ...)', 'The mean of the cells of average_range where every criterion holds.', ['=AVERAGEIFS(C1:C10, A1:A10, "East")']),
+  define('Statistical', 'COUNTIF(range, criteria)', 'How many cells match the criteria.', ['=COUNTIF(A1:A10, "Done")']),
+  define('Statistical', 'COUNTIFS(criteria_range1, criteria1, ...)', 'How many positions match every criterion.', ['=COUNTIFS(A1:A10, "East", B1:B10, ">5")']),
+  define('Statistical', 'MAXIFS(max_range, criteria_range1, criteria1, ...)', 'The largest number of max_range where every criterion holds.', ['=MAXIFS(C1:C10, A1:A10, "East")']),
+  define('Statistical', 'MINIFS(min_range, criteria_range1, criteria1, ...)', 'The smallest number of min_range where every criterion holds.', ['=MINIFS(C1:C10, A1:A10, "East")']),
+
+  // Logical
+  define('Logical', 'IF(condition, value_if_true, [value_if_false])', 'One value if the condition holds and another if it does not.', ['=IF(A1>100, "High", "Low")']),
+  define('Logical', 'IFS(condition1, value1, ...)', 'The value of the first condition that holds.', ['=IFS(A1>90, "A", A1>80, "B", TRUE, "C")']),
+  define('Logical', 'SWITCH(expression, case1, value1, ..., [default])', 'The value paired with the first case equal to the expression.', ['=SWITCH(A1, 1, "One", 2, "Two", "Other")']),
+  define('Logical', 'AND(logical1, ...)', 'TRUE if every argument is true.', ['=AND(A1>0, B1>0)']),
+  define('Logical', 'OR(logical1, ...)', 'TRUE if any argument is true.', ['=OR(A1="Done", B1="Done")']),
+  define('Logical', 'XOR(logical1, ...)', 'TRUE if an odd number of arguments are true.', ['=XOR(A1, B1)']),
+  define('Logical', 'NOT(logical)', 'Reverses TRUE and FALSE.', ['=NOT(A1)']),
+  define('Logical', 'IFERROR(value, value_if_error)', 'The value, or the fallback if it is an error.', ['=IFERROR(A1/B1, 0)']),
+  define('Logical', 'IFNA(value, value_if_na)', 'The value, or the fallback if it is #N/A.', ['=IFNA(VLOOKUP(A1, C1:D10, 2), "Missing")']),
+  define('Logical', 'ISBLANK(value)', 'TRUE if the value is an empty cell.', ['=ISBLANK(A1)']),
+  define('Logical', 'ISNUMBER(value)', 'TRUE if the value is a number or date.', ['=ISNUMBER(A1)']),
+  define('Logical', 'ISTEXT(value)', 'TRUE if the value is text.', ['=ISTEXT(A1)']),
+  define('Logical', 'ISERROR(value)', 'TRUE if the value is any error.', ['=ISERROR(A1/B1)']),
+  define('Logical', 'ISNA(value)', 'TRUE if the value is #N/A.', ['=ISNA(MATCH(A1, B1:B10, 0))']),
+  define('Logical', 'NA()', 'The #N/A error, to mark missing data.', ['=IF(A1="", NA(), A1)']),
+
+  // Lookup
+  define('Lookup', 'VLOOKUP(lookup_value, table, col_index, [approximate_match])', "Finds a value in the table's first column and returns the value in another column of that row.", ['=VLOOKUP("Apples", A1:C10, 3, FALSE)']),
+  define('Lookup', 'HLOOKUP(lookup_value, table, row_index, [approximate_match])', "Finds a value in the table's first row and returns the value in another row of that column.", ['=HLOOKUP("Q2", A1:E3, 2, FALSE)']),
+  define('Lookup', 'XLOOKUP(lookup_value, lookup_array, return_array, [if_not_found], [match_mode], [search_mode])', 'Finds a value in one range and returns the value at the same position in another.', ['=XLOOKUP(A1, B1:B10, C1:C10, "Not found")']),
+  define('Lookup', 'INDEX(array, row_num, [col_num])', 'The value at a row and column of a range.', ['=INDEX(A1:C10, 2, 3)']),
+  define('Lookup', 'MATCH(lookup_value, lookup_array, [match_type])', 'The position of a value in a range; match_type 0 finds an exact match.', ['=MATCH("Done", A1:A10, 0)']),
+
+  // Text
+  define('Text', 'CONCAT(text1, ...)', 'Joins text together.', ['=CONCAT(A1, " ", B1)']),
+  define('Text', 'JOIN(delimiter, value1, ...)', 'Joins every value, including blanks, with a delimiter between them.', ['=JOIN(", ", A1:A5)']),
+  define('Text', 'TEXTJOIN(delimiter, ignore_empty, text1, ...)', 'Joins text with a delimiter, optionally skipping blanks.', ['=TEXTJOIN(", ", TRUE, A1:A5)']),
+  define('Text', 'LEN(text)', 'The number of characters in the text.', ['=LEN(A1)']),
+  define('Text', 'LEFT(text, [num_chars])', 'Characters from the start of the text.', ['=LEFT(A1, 3)']),
+  define('Text', 'RIGHT(text, [num_chars])', 'Characters from the end of the text.', ['=RIGHT(A1, 4)']),
+  define('Text', 'MID(text, start_num, num_chars)', 'Characters from the middle of the text; start_num is 1-based.', ['=MID(A1, 2, 3)']),
+  define('Text', 'UPPER(text)', 'The text in upper case.', ['=UPPER(A1)']),
+  define('Text', 'LOWER(text)', 'The text in lower case.', ['=LOWER(A1)']),
+  define('Text', 'PROPER(text)', 'The text with the first letter of each word capitalized.', ['=PROPER(A1)']),
+  define('Text', 'TRIM(text)', 'The text without leading, trailing or repeated spaces.', ['=TRIM(A1)']),
+  define('Text', 'SUBSTITUTE(text, old_text, new_text, [instance_num])', 'Replaces occurrences of old_text, or only the given one.', ['=SUBSTITUTE(A1, "-", " ")']),
+  define('Text', 'REPLACE(old_text, start_num, num_chars, new_text)', 'Replaces characters at a position.', ['=REPLACE(A1, 1, 3, "ABC")']),
+  define('Text', 'FIND(find_text, within_text, [start_num])', 'The position of text within other text, case-sensitive.', ['=FIND("@", A1)']),
+  define('Text', 'SEARCH(find_text, within_text, [start_num])', 'The position of text within other text, ignoring case; supports * and ? wildcards.', ['=SEARCH("inv*", A1)']),
+  define('Text', 'SPLIT(text, delimiter, [split_by_each], [remove_empty])', 'Splits text into a row of values.', ['=SPLIT(A1, ",")']),
+  define('Text', 'REPT(text, number_times)', 'The text repeated a number of times.', ['=REPT("*", 5)']),
+  define('Text', 'VALUE(text)', 'Converts text that looks like a number ("1,200", "$5", "15%") to a number.', ['=VALUE("15%")']),
+  define('Text', 'TEXT(value, format_text)', 'Formats a number or date as text.', ['=TEXT(1234.5, "#,##0.00")', '=TEXT(A1, "mmm d, yyyy")']),
+
+  // Date
+  define('Date', 'TODAY()', "Today's date.", ['=TODAY()']),
+  define('Date', 'NOW()', 'The current date and time.', ['=NOW()']),
+  define('Date', 'DATE(year, month, day)', 'A date from its parts; months and days out of range roll over.', ['=DATE(2024, 1, 15)']),
+  define('Date', 'YEAR(date)', 'The year of a date.', ['=YEAR(A1)']),
+  define('Date', 'MONTH(date)', 'The month of a date, 1 to 12.', ['=MONTH(A1)']),
+  define('Date', 'DAY(date)', 'The day of the month of a date.', ['=DAY(A1)']),
+  define('Date', 'WEEKDAY(date, [type])', 'The day of the week; type 1 counts Sunday=1, 2 Monday=1, 3 Monday=0.', ['=WEEKDAY(A1, 2)']),
+  define('Date', 'WEEKNUM(date, [type])', 'The week of the year; type 1 starts weeks on Sunday, 2 on Monday, 21 gives ISO weeks.', ['=WEEKNUM(A1)']),
+  define('Date', 'EDATE(start_date, months)', 'The same day a number of months away.', ['=EDATE(A1, 3)']),
+  define('Date', 'EOMONTH(start_date, months)', 'The last day of the month a number of months away.', ['=EOMONTH(A1, 0)']),
+  define('Date', 'DATEDIF(start_date, end_date, unit)', 'The time between two dates in unit Y, M, D, MD, YM or YD.', ['=DATEDIF(A1, TODAY(), "Y")']),
+  define('Date', 'NETWORKDAYS(start_date, end_date, [holidays])', 'Working days between two dates, counting both ends.', ['=NETWORKDAYS(A1, B1)']),
+  define('Date', 'WORKDAY(start_date, days, [holidays])', 'The date a number of working days away.', ['=WORKDAY(A1, 10)']),
+
+  // Financial
+  define('Financial', 'PMT(rate, nper, pv, [fv], [type])', 'The payment per period of a loan or annuity.', ['=PMT(5%/12, 60, 20000)']),
+  define('Financial', 'PV(rate, nper, pmt, [fv], [type])', 'The present value of a series of payments.', ['=PV(5%/12, 60, -400)']),
+  define('Financial', 'FV(rate, nper, pmt, [pv], [type])', 'The future value of a series of payments.', ['=FV(6%/12, 120, -200)']),
+  define('Financial', 'NPER(rate, pmt, pv, [fv], [type])', 'The number of periods needed to pay off a loan or reach a value.', ['=NPER(1%, -100, 1000)']),
+  define('Financial', 'RATE(nper, pmt, pv, [fv], [type], [guess])', 'The interest rate per period of an annuity.', ['=RATE(48, -200, 8000)']),
+  define('Financial', 'NPV(rate, value1, ...)', 'Net present value of periodic cash flows; the first is discounted one period.', ['=NPV(10%, A1:A5)']),
+  define('Financial', 'IRR(values, [guess])', 'The internal rate of return of periodic cash flows.', ['=IRR(A1:A6)']),
+  define('Financial', 'XNPV(rate, values, dates)', 'Net present value of cash flows on the given dates.', ['=XNPV(9%, A1:A5, B1:B5)']),
+  define('Financial', 'XIRR(values, dates, [guess])', 'The internal rate of return of cash flows on the given dates.', ['=XIRR(A1:A5, B1:B5)']),
+
+  // Array
+  define('Array', 'FILTER(array, include, [if_empty])', 'The rows (or columns) of an array where include is true; spills.', ['=FILTER(A2:C100, C2:C100>10)']),
+  define('Array', 'SORT(array, [sort_index], [sort_order], [by_col])', 'The array sorted by one of its columns; sort_order -1 sorts descending. Spills.', ['=SORT(A2:B20, 2, -1)']),
+  define('Array', 'UNIQUE(array, [by_col], [exactly_once])', 'The distinct rows of an array in the order they first appear; spills.', ['=UNIQUE([Owner]:[Owner])']),
+  define('Array', 'SEQUENCE(rows, [columns], [start], [step])', 'A grid of sequential numbers; spills.', ['=SEQUENCE(10)', '=SEQUENCE(3, 4, 0, 5)']),
+  define('Array', 'TRANSPOSE(array)', 'The array with rows turned into columns; spills.', ['=TRANSPOSE(A1:C2)']),
+
+  // Hierarchy
+  define('Hierarchy', 'CHILDREN([reference])', "The cells in the rows directly below this row (or the reference's row), in the same column.", ['=SUM(CHILDREN())']),
+  define('Hierarchy', 'PARENT([reference])', "The cell in this row's parent row, in the same column.", ['=PARENT([Status]@row)']),
+  define('Hierarchy', 'ANCESTORS([reference])', "The cells in this row's parent, its parent, and so on up, in the same column.", ['=COUNT(ANCESTORS())']),
+  define('Hierarchy', 'DESCENDANTS([reference])', 'The cells in every row nested below this row, in the same column.', ['=COUNTIF(DESCENDANTS([Done]@row), TRUE)']),
+
+  // Market data
+  define('Market data', 'STOCK(symbol, [attribute])', 'Latest market data for a ticker symbol: price (the default), change, changePercent or timestamp. $AAPL is short for the price.', ['=STOCK("AAPL")', '=STOCK(A1, "changePercent")']),
+];
+
+function entry(name: string): FunctionInfo {
+  return FUNCTIONS.find((info) => info.name === name)!;
+}
+
+export const FUNCTION_CATALOG: FunctionInfo[] = [
+  ...FUNCTIONS,
+  alias('AVG', entry('AVERAGE')),
+  alias('STDEV', entry('STDEV.S')),
+  alias('VAR', entry('VAR.S')),
+  alias('MODE.SNGL', entry('MODE')),
+  alias('PERCENTILE.INC', entry('PERCENTILE')),
+  alias('QUARTILE.INC', entry('QUARTILE')),
+  alias('RANK.EQ', entry('RANK')),
+].sort((a, b) => a.name.localeCompare(b.name));
+
+export function findFunctionInfo(name: string): FunctionInfo | undefined {
+  const upper = name.toUpperCase();
+  return FUNCTION_CATALOG.find((info) => info.name === upper);
+}
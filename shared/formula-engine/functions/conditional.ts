@@ -0,0 +1,118 @@
+import { FormulaEvaluationError, FormulaValue, RangeValue, ScalarValue, isNumeric, toRange, toScalar } from '../values';
+import { FormulaFunction, withEvaluatedArgs } from './types';
+import { parseCriteria } from './matching';
+import { maxOf, minOf } from './aggregate';
+import { decimalDivide, decimalSum } from '../decimal';
+
+interface CriteriaPair {
+  range: RangeValue;
+  matches: (value: ScalarValue) => boolean;
+}
+
+function sameShape(a: RangeValue, b: RangeValue): boolean {
+  return a.height === b.height && a.width === b.width;
+}
+
+// Parse the (criteria_range, criteria) pairs of an *IFS function, starting at `offset`
+function criteriaPairs(name: string, values: FormulaValue[], offset: number): CriteriaPair[] {
+  const rest = values.length - offset;
+  if (rest < 2 || rest % 2 !== 0) {
+    throw new FormulaEvaluationError(`${name} expects criteria_range/criteria pairs`);
+  }
+
+  const pairs: CriteriaPair[] = [];
+  for (let i = offset; i < values.length; i += 2) {
+    pairs.push({ range: toRange(values[i]), matches: parseCriteria(toScalar(values[i + 1])) });
+  }
+  return pairs;
+}
+
+// Numbers from `target` at every position where all criteria hold; text and blanks are skipped
+function matchingNumbers(name: string, target: RangeValue, pairs: CriteriaPair[]): number[] {
+  for (const pair of pairs) {
+    if (!sameShape(pair.range, target)) {
+      throw new FormulaEvaluationError(`${name} ranges must all be the same size`, '#VALUE!');
+    }
+  }
+
+  const numbers: number[] = [];
+  target.rows.forEach((row, rowIndex) => {
+    row.forEach((value, columnIndex) => {
+      if (!isNumeric(value)) return;
+      if (pairs.every((pair) => pair.matches(pair.range.rows[rowIndex][columnIndex]))) {
+        numbers.push(Number(value));
+      }
+    });
+  });
+  return numbers;
+}
+
+// SUMIF/AVERAGEIF(range, criteria, [target_range]) - the target defaults to the tested range
+function singleCriteria(name: string, values: FormulaValue[]): number[] {
+  if (values.length < 2 || values.length > 3) {
+    throw new FormulaEvaluationError(`${name} expects 2 or 3 arguments`);
+  }
+  const range = toRange(values[0]);
+  const target = values.length === 3 ? toRange(values[2]) : range;
+  return matchingNumbers(name, target, [{ range, matches: parseCriteria(toScalar(values[1])) }]);
+}
+
+function average(name: string, numbers: number[]): number {
+  if (numbers.length === 0) {
+    throw new FormulaEvaluationError(`${name} found no matching numbers`, '#DIV/0!');
+  }
+  return decimalDivide(decimalSum(numbers), numbers.length);
+}
+
+export const conditionalFunctions: Record<string, FormulaFunction> = {
+  SUMIF: withEvaluatedArgs((values) => decimalSum(singleCriteria('SUMIF', values))),
+
+  AVERAGEIF: withEvaluatedArgs((values) => average('AVERAGEIF', singleCriteria('AVERAGEIF', values))),
+
+  // COUNTIF(range, criteria) counts every matching cell, not just numbers
+  COUNTIF: withEvaluatedArgs((values) => {
+    if (values.length !== 2) {
+      throw new FormulaEvaluationError('COUNTIF expects 2 arguments');
+    }
+    const matches = parseCriteria(toScalar(values[1]));
+    return toRange(values[0]).flat().filter(matches).length;
+  }),
+
+  // SUMIFS(sum_range, criteria_range1, criteria1, ...)
+  SUMIFS: withEvaluatedArgs((values) => {
+    return decimalSum(matchingNumbers('SUMIFS', toRange(values[0]), criteriaPairs('SUMIFS', values, 1)));
+  }),
+
+  AVERAGEIFS: withEvaluatedArgs((values) => {
+    const numbers = matchingNumbers('AVERAGEIFS', toRange(values[0]), criteriaPairs('AVERAGEIFS', values, 1));
+    return average('AVERAGEIFS', numbers);
+  }),
+
+  // MAXIFS/MINIFS return 0 when nothing matches, like Excel
+  MAXIFS: withEvaluatedArgs((values) => {
+    const numbers = matchingNumbers('MAXIFS', toRange(values[0]), criteriaPairs('MAXIFS', values, 1));
+    return numbers.length > 0 ? maxOf(numbers) : 0;
+  }),
+
+  MINIFS: withEvaluatedArgs((values) => {
+    const numbers = matchingNumbers('MINIFS', toRange(values[0]), criteriaPairs('MINIFS', values, 1));
+    return numbers.length > 0 ? minOf(numbers) : 0;
+  }),
+
+  // COUNTIFS(criteria_range1, criteria1, ...) - counts positions where every criterion holds
+  COUNTIFS: withEvaluatedArgs((values) => {
+    const pairs = criteriaPairs('COUNTIFS', values, 0);
+    const first = pairs[0].range;
+    if (pairs.some((pair) => !sameShape(pair.range, first))) {
+      throw new FormulaEvaluationError('COUNTIFS ranges must all be the same size', '#VALUE!');
+    }
+
+    let count = 0;
+    first.rows.forEach((row, rowIndex) => {
+      row.forEach((_, columnIndex) => {
+        if (pairs.every((pair) => pair.matches(pair.range.rows[rowIndex][columnIndex]))) count++;
+      });
+    });
+    return count;
+  }),
+};
@@ -0,0 +1,227 @@
+import { FormulaEvaluationError, FormulaValue, isRange, toNumber, toScalar } from '../values';
+import {
+  DateValue,
+  daysInMonth,
+  nowSerial,
+  parseDateText,
+  serialFromParts,
+  serialToParts,
+  todaySerial,
+} from '../dates';
+import { expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+
+function invalidNumber(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#NUM!');
+}
+
+// Accept dates, serial numbers and date text ("2024-01-15") wherever a date is expected
+export function toSerial(value: FormulaValue): number {
+  const scalar = toScalar(value);
+  if (scalar instanceof DateValue) return scalar.serial;
+  if (typeof scalar === 'string') {
+    const serial = parseDateText(scalar);
+    if (serial !== null) return serial;
+  }
+  return toNumber(scalar);
+}
+
+function toDay(value: FormulaValue): number {
+  return Math.floor(toSerial(value));
+}
+
+// Holiday arguments may be a single date or a range of dates; blanks are ignored
+function holidaySet(value: FormulaValue | undefined): Set<number> {
+  const holidays = new Set<number>();
+  if (value === undefined || value === null) return holidays;
+  const items = isRange(value) ? value.flat() : [value];
+  for (const item of items) {
+    if (item !== null) holidays.add(toDay(item));
+  }
+  return holidays;
+}
+
+// Longest span the day-by-day workday functions will walk (about 2,700 years)
+const MAX_WORKDAY_SPAN = 1000000;
+
+function isWorkday(serial: number, holidays: Set<number>): boolean {
+  const { weekday } = serialToParts(serial);
+  return weekday !== 0 && weekday !== 6 && !holidays.has(serial);
+}
+
+// Same day of the month, `months` later; clamped to the end of shorter months
+function addMonths(serial: number, months: number): number {
+  const { year, month, day } = serialToParts(serial);
+  const total = year * 12 + (month - 1) + months;
+  const targetYear = Math.floor(total / 12);
+  const targetMonth = (total % 12) + 1;
+  return serialFromParts(targetYear, targetMonth, Math.min(day, daysInMonth(targetYear, targetMonth)));
+}
+
+function fullMonthsBetween(start: number, end: number): number {
+  const from = serialToParts(start);
+  const to = serialToParts(end);
+  let months = (to.year - from.year) * 12 + (to.month - from.month);
+  if (to.day < from.day) months--;
+  return months;
+}
+
+export const dateFunctions: Record<string, FormulaFunction> = {
+  TODAY: withEvaluatedArgs((values) => {
+    expectArgs('TODAY', values, 0, 0);
+    return new DateValue(todaySerial());
+  }),
+
+  NOW: withEvaluatedArgs((values) => {
+    expectArgs('NOW', values, 0, 0);
+    return new DateValue(nowSerial());
+  }),
+
+  // DATE(year, month, day) - out-of-range months and days roll over, years below 1900 are offset from 1900
+  DATE: withEvaluatedArgs((values) => {
+    expectArgs('DATE', values, 3, 3);
+    let year = Math.trunc(toNumber(values[0]));
+    if (year >= 0 && year < 1900) year += 1900;
+    if (year < 0 || year > 9999) throw invalidNumber('DATE year must be between 0 and 9999');
+    return new DateValue(serialFromParts(year, Math.trunc(toNumber(values[1])), Math.trunc(toNumber(values[2]))));
+  }),
+
+  YEAR: withEvaluatedArgs((values) => {
+    expectArgs('YEAR', values, 1, 1);
+    return serialToParts(toDay(values[0])).year;
+  }),
+
+  MONTH: withEvaluatedArgs((values) => {
+    expectArgs('MONTH', values, 1, 1);
+    return serialToParts(toDay(values[0])).month;
+  }),
+
+  DAY: withEvaluatedArgs((values) => {
+    expectArgs('DAY', values, 1, 1);
+    return serialToParts(toDay(values[0])).day;
+  }),
+
+  // WEEKDAY(date, [type]) - type 1: Sunday=1..Saturday=7, 2: Monday=1..Sunday=7, 3: Monday=0..Sunday=6
+  WEEKDAY: withEvaluatedArgs((values) => {
+    expectArgs('WEEKDAY', values, 1, 2);
+    const { weekday } = serialToParts(toDay(values[0]));
+    const type = values.length > 1 ? Math.trunc(toNumber(values[1])) : 1;
+    switch (type) {
+      case 1:
+        return weekday + 1;
+      case 2:
+        return ((weekday + 6) % 7) + 1;
+      case 3:
+        return (weekday + 6) % 7;
+      default:
+        throw invalidNumber('WEEKDAY type must be 1, 2 or 3');
+    }
+  }),
+
+  // WEEKNUM(date, [type]) - 1: weeks start Sunday, 2: Monday, 11-17: Monday..Sunday, 21: ISO weeks
+  WEEKNUM: withEvaluatedArgs((values) => {
+    expectArgs('WEEKNUM', values, 1, 2);
+    const serial = toDay(values[0]);
+    const type = values.length > 1 ? Math.trunc(toNumber(values[1])) : 1;
+
+    if (type === 21) {
+      // ISO 8601: the week with the year's first Thursday is week 1
+      const isoWeekday = ((serialToParts(serial).weekday + 6) % 7) + 1;
+      const thursday = serial - isoWeekday + 4;
+      const firstOfYear = serialFromParts(serialToParts(thursday).year, 1, 1);
+      return Math.floor((thursday - firstOfYear) / 7) + 1;
+    }
+
+    const startDays: Record<number, number> = { 1: 0, 2: 1, 11: 1, 12: 2, 13: 3, 14: 4, 15: 5, 16: 6, 17: 0 };
+    const startDay = startDays[type];
+    if (startDay === undefined) throw invalidNumber('WEEKNUM type is not supported');
+
+    const january1 = serialFromParts(serialToParts(serial).year, 1, 1);
+    const offset = (serialToParts(january1).weekday - startDay + 7) % 7;
+    return Math.floor((serial - january1 + offset) / 7) + 1;
+  }),
+
+  // EDATE(start_date, months)
+  EDATE: withEvaluatedArgs((values) => {
+    expectArgs('EDATE', values, 2, 2);
+    return new DateValue(addMonths(toDay(values[0]), Math.trunc(toNumber(values[1]))));
+  }),
+
+  // EOMONTH(start_date, months) - last day of the month `months` away
+  EOMONTH: withEvaluatedArgs((values) => {
+    expectArgs('EOMONTH', values, 2, 2);
+    const { year, month } = serialToParts(addMonths(toDay(values[0]), Math.trunc(toNumber(values[1]))));
+    return new DateValue(serialFromParts(year, month, daysInMonth(year, month)));
+  }),
+
+  // DATEDIF(start_date, end_date, unit) - unit is Y, M, D, MD, YM or YD
+  DATEDIF: withEvaluatedArgs((values) => {
+    expectArgs('DATEDIF', values, 3, 3);
+    const start = toDay(values[0]);
+    const end = toDay(values[1]);
+    const unit = String(toScalar(values[2]) ?? '').toUpperCase();
+    if (start > end) throw invalidNumber('DATEDIF start date must not be after the end date');
+
+    const from = serialToParts(start);
+    const to = serialToParts(end);
+
+    switch (unit) {
+      case 'Y':
+        return Math.floor(fullMonthsBetween(start, end) / 12);
+      case 'M':
+        return fullMonthsBetween(start, end);
+      case 'D':
+        return end - start;
+      case 'MD': {
+        // Days between the day-of-month values, as if in the same month
+        if (to.day >= from.day) return to.day - from.day;
+        const previousMonth = to.month === 1 ? 12 : to.month - 1;
+        const previousYear = to.month === 1 ? to.year - 1 : to.year;
+        return daysInMonth(previousYear, previousMonth) - from.day + to.day;
+      }
+      case 'YM':
+        return fullMonthsBetween(start, end) % 12;
+      case 'YD': {
+        // Days between the dates as if they were in the same year
+        let anniversary = serialFromParts(to.year, from.month, Math.min(from.day, daysInMonth(to.year, from.month)));
+        if (anniversary > end) {
+          anniversary = serialFromParts(to.year - 1, from.month, Math.min(from.day, daysInMonth(to.year - 1, from.month)));
+        }
+        return end - anniversary;
+      }
+      default:
+        throw invalidNumber(`DATEDIF unit "${unit}" is not one of Y, M, D, MD, YM, YD`);
+    }
+  }),
+
+  // NETWORKDAYS(start_date, end_date, [holidays]) - counts both ends; negative when end is before start
+  NETWORKDAYS: withEvaluatedArgs((values) => {
+    expectArgs('NETWORKDAYS', values, 2, 3);
+    const start = toDay(values[0]);
+    const end = toDay(values[1]);
+    const holidays = holidaySet(values[2]);
+    if (Math.abs(end - start) > MAX_WORKDAY_SPAN) throw invalidNumber('NETWORKDAYS date range is too large');
+
+    const step = end >= start ? 1 : -1;
+    let count = 0;
+    for (let day = start; step > 0 ? day <= end : day >= end; day += step) {
+      if (isWorkday(day, holidays)) count++;
+    }
+    return count * step;
+  }),
+
+  // WORKDAY(start_date, days, [holidays]) - the date `days` working days away
+  WORKDAY: withEvaluatedArgs((values) => {
+    expectArgs('WORKDAY', values, 2, 3);
+    let day = toDay(values[0]);
+    let remaining = Math.trunc(toNumber(values[1]));
+    const holidays = holidaySet(values[2]);
+    if (Math.abs(remaining) > MAX_WORKDAY_SPAN) throw invalidNumber('WORKDAY days is too large');
+
+    const step = remaining >= 0 ? 1 : -1;
+    while (remaining !== 0) {
+      day += step;
+      if (isWorkday(day, holidays)) remaining -= step;
+    }
+    return new DateValue(day);
+  }),
+};
@@ -0,0 +1,181 @@
+import { collectNumbers, FormulaEvaluationError, FormulaValue, toNumber, toRange } from '../values';
+import { expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+import { toSerial } from './date';
+
+// Cash flows follow Excel's sign convention: money paid out is negative, money
+// received positive. `type` is 1 for payments at the start of each period, 0
+// (the default) for payments at the end.
+
+function invalidNumber(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#NUM!');
+}
+
+function optionalNumber(values: FormulaValue[], index: number, fallback: number): number {
+  return values.length > index && values[index] !== null ? toNumber(values[index]) : fallback;
+}
+
+function paymentType(values: FormulaValue[], index: number): number {
+  return optionalNumber(values, index, 0) !== 0 ? 1 : 0;
+}
+
+/**
+ * The time value of money equation every annuity function solves:
+ * pv*(1+rate)^nper + pmt*(1+rate*type)*((1+rate)^nper - 1)/rate + fv = 0
+ */
+function annuityBalance(rate: number, nper: number, pmt: number, pv: number, fv: number, type: number): number {
+  if (rate === 0) return pv + pmt * nper + fv;
+  const growth = Math.pow(1 + rate, nper);
+  return pv * growth + (pmt * (1 + rate * type) * (growth - 1)) / rate + fv;
+}
+
+// Iterations root finding may take before giving up with #NUM!
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * Newton's method from `guess`, with the derivative estimated numerically.
+ * Raises #NUM! when it doesn't settle on a root within MAX_ITERATIONS or
+ * steps outside the functions' domain (rates at or below -100%).
+ */
+function findRate(name: string, balance: (rate: number) => number, guess: number): number {
+  let rate = guess;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const value = balance(rate);
+    if (Math.abs(value) < TOLERANCE) return rate;
+
+    const step = Math.max(Math.abs(rate) * 1e-6, 1e-8);
+    const slope = (balance(rate + step) - value) / step;
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+  throw invalidNumber(`${name} did not converge; try a different guess`);
+}
+
+// Cash flows for IRR and friends need money both going out and coming in
+function expectSignChange(name: string, flows: number[]) {
+  if (!flows.some((flow) => flow > 0) || !flows.some((flow) => flow < 0)) {
+    throw invalidNumber(`${name} needs at least one positive and one negative cash flow`);
+  }
+}
+
+// XNPV/XIRR: cash flows paired with the dates they happen on
+function datedFlows(name: string, values: FormulaValue, dates: FormulaValue): { flow: number; years: number }[] {
+  const flows = toRange(values).flat().map((value) => toNumber(value));
+  const serials = toRange(dates).flat().map((date) => Math.floor(toSerial(date)));
+  if (flows.length !== serials.length) {
+    throw invalidNumber(`${name} needs one date for every cash flow`);
+  }
+  if (serials.some((serial) => serial < serials[0])) {
+    throw invalidNumber(`${name} dates cannot come before the first date`);
+  }
+  return flows.map((flow, index) => ({ flow, years: (serials[index] - serials[0]) / 365 }));
+}
+
+function presentValueOfDated(rate: number, flows: { flow: number; years: number }[]): number {
+  return flows.reduce((total, { flow, years }) => total + flow / Math.pow(1 + rate, years), 0);
+}
+
+function presentValueOfPeriodic(rate: number, flows: number[]): number {
+  return flows.reduce((total, flow, period) => total + flow / Math.pow(1 + rate, period), 0);
+}
+
+export const financialFunctions: Record<string, FormulaFunction> = {
+  // PMT(rate, nper, pv, [fv], [type]) - payment per period
+  PMT: withEvaluatedArgs((values) => {
+    expectArgs('PMT', values, 3, 5);
+    const [rate, nper, pv] = values.slice(0, 3).map(toNumber);
+    const fv = optionalNumber(values, 3, 0);
+    const type = paymentType(values, 4);
+    if (nper === 0) throw invalidNumber('PMT needs at least one period');
+
+    if (rate === 0) return -(pv + fv) / nper;
+    const growth = Math.pow(1 + rate, nper);
+    return (-(pv * growth + fv) * rate) / ((1 + rate * type) * (growth - 1));
+  }),
+
+  // PV(rate, nper, pmt, [fv], [type]) - present value
+  PV: withEvaluatedArgs((values) => {
+    expectArgs('PV', values, 3, 5);
+    const [rate, nper, pmt] = values.slice(0, 3).map(toNumber);
+    const fv = optionalNumber(values, 3, 0);
+    const type = paymentType(values, 4);
+
+    if (rate === 0) return -(fv + pmt * nper);
+    const growth = Math.pow(1 + rate, nper);
+    return -(fv + (pmt * (1 + rate * type) * (growth - 1)) / rate) / growth;
+  }),
+
+  // FV(rate, nper, pmt, [pv], [type]) - future value
+  FV: withEvaluatedArgs((values) => {
+    expectArgs('FV', values, 3, 5);
+    const [rate, nper, pmt] = values.slice(0, 3).map(toNumber);
+    const pv = optionalNumber(values, 3, 0);
+    const type = paymentType(values, 4);
+    return -annuityBalance(rate, nper, pmt, pv, 0, type);
+  }),
+
+  // NPER(rate, pmt, pv, [fv], [type]) - number of periods
+  NPER: withEvaluatedArgs((values) => {
+    expectArgs('NPER', values, 3, 5);
+    const [rate, pmt, pv] = values.slice(0, 3).map(toNumber);
+    const fv = optionalNumber(values, 3, 0);
+    const type = paymentType(values, 4);
+
+    if (rate === 0) {
+      if (pmt === 0) throw invalidNumber('NPER needs a payment when the rate is 0');
+      return -(pv + fv) / pmt;
+    }
+    const adjustedPayment = pmt * (1 + rate * type);
+    const ratio = (adjustedPayment - fv * rate) / (adjustedPayment + pv * rate);
+    if (ratio <= 0) throw invalidNumber('NPER has no solution for these values');
+    return Math.log(ratio) / Math.log(1 + rate);
+  }),
+
+  // RATE(nper, pmt, pv, [fv], [type], [guess]) - interest rate per period
+  RATE: withEvaluatedArgs((values) => {
+    expectArgs('RATE', values, 3, 6);
+    const [nper, pmt, pv] = values.slice(0, 3).map(toNumber);
+    const fv = optionalNumber(values, 3, 0);
+    const type = paymentType(values, 4);
+    const guess = optionalNumber(values, 5, 0.1);
+    if (nper <= 0) throw invalidNumber('RATE needs at least one period');
+
+    return findRate('RATE', (rate) => annuityBalance(rate, nper, pmt, pv, fv, type), guess);
+  }),
+
+  // NPV(rate, value1, [value2, ...]) - the first value is discounted one period
+  NPV: withEvaluatedArgs((values) => {
+    if (values.length < 2) {
+      throw new FormulaEvaluationError('NPV expects a rate and at least one value');
+    }
+    const rate = toNumber(values[0]);
+    if (rate === -1) throw invalidNumber('NPV rate cannot be -100%');
+    return presentValueOfPeriodic(rate, collectNumbers(values.slice(1))) / (1 + rate);
+  }),
+
+  // IRR(values, [guess]) - rate at which the periodic cash flows' NPV is 0
+  IRR: withEvaluatedArgs((values) => {
+    expectArgs('IRR', values, 1, 2);
+    const flows = collectNumbers([values[0]]);
+    expectSignChange('IRR', flows);
+    return findRate('IRR', (rate) => presentValueOfPeriodic(rate, flows), optionalNumber(values, 1, 0.1));
+  }),
+
+  // XNPV(rate, values, dates) - NPV of cash flows on the given dates
+  XNPV: withEvaluatedArgs((values) => {
+    expectArgs('XNPV', values, 3, 3);
+    const rate = toNumber(values[0]);
+    if (rate <= -1) throw invalidNumber('XNPV rate must be above -100%');
+    return presentValueOfDated(rate, datedFlows('XNPV', values[1], values[2]));
+  }),
+
+  // XIRR(values, dates, [guess]) - rate at which the dated cash flows' XNPV is 0
+  XIRR: withEvaluatedArgs((values) => {
+    expectArgs('XIRR', values, 2, 3);
+    const flows = datedFlows('XIRR', values[0], values[1]);
+    expectSignChange('XIRR', flows.map(({ flow }) => flow));
+    return findRate('XIRR', (rate) => presentValueOfDated(rate, flows), optionalNumber(values, 2, 0.1));
+  }),
+};
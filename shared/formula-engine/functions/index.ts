@@ -0,0 +1,55 @@
+import { aggregateFunctions } from './aggregate';
+import { arrayFunctions } from './array';
+import { conditionalFunctions } from './conditional';
+import { dateFunctions } from './date';
+import { financialFunctions } from './financial';
+import { logicalFunctions } from './logical';
+import { lookupFunctions } from './lookup';
+import { mathFunctions } from './math';
+import { statisticalFunctions } from './statistical';
+import { stockFunctions } from './stock';
+import { textFunctions } from './text';
+import { FormulaFunction } from './types';
+
+export type { FormulaFunction, FunctionInvocation } from './types';
+export { FUNCTION_CATALOG, findFunctionInfo } from './catalog';
+export type { FunctionCategory, FunctionInfo } from './catalog';
+
+// Function registry - names are stored upper-case
+const registry = new Map<string, FormulaFunction>();
+
+function register(functions: Record<string, FormulaFunction>) {
+  for (const [name, fn] of Object.entries(functions)) {
+    registry.set(name, fn);
+  }
+}
+
+register(aggregateFunctions);
+register(arrayFunctions);
+register(conditionalFunctions);
+register(dateFunctions);
+register(financialFunctions);
+register(logicalFunctions);
+register(lookupFunctions);
+register(mathFunctions);
+register(statisticalFunctions);
+register(stockFunctions);
+register(textFunctions);
+
+// Aliases
+registry.set('AVG', aggregateFunctions.AVERAGE);
+registry.set('STDEV', statisticalFunctions['STDEV.S']);
+registry.set('VAR', statisticalFunctions['VAR.S']);
+registry.set('MODE.SNGL', statisticalFunctions.MODE);
+registry.set('PERCENTILE.INC', statisticalFunctions.PERCENTILE);
+registry.set('QUARTILE.INC', statisticalFunctions.QUARTILE);
+registry.set('RANK.EQ', statisticalFunctions.RANK);
+
+export function getFormulaFunction(name: string): FormulaFunction | undefined {
+  return registry.get(name.toUpperCase());
+}
+
+// Every registered name, aliases included
+export function formulaFunctionNames(): string[] {
+  return Array.from(registry.keys());
+}
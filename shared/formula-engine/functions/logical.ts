@@ -0,0 +1,146 @@
+import {
+  compareScalars,
+  FormulaEvaluationError,
+  FormulaValue,
+  ScalarValue,
+  isError,
+  isNumeric,
+  isRange,
+  raiseIfError,
+  toBoolean,
+  toScalar,
+} from '../values';
+import { evaluateCatchingErrors, expectArgs, FormulaFunction, FunctionInvocation, withEvaluatedArgs } from './types';
+
+function notAvailable(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#N/A');
+}
+
+// Single value tested by the IS* functions
+async function inspectedValue(name: string, { args, evaluate }: FunctionInvocation): Promise<ScalarValue> {
+  if (args.length !== 1) {
+    throw new FormulaEvaluationError(`${name} expects 1 argument`);
+  }
+  const value = await evaluateCatchingErrors(evaluate, args[0]);
+  return isRange(value) ? value.rows[0]?.[0] ?? null : value;
+}
+
+// Logical values for AND/OR/XOR: ranges contribute their booleans and numbers
+// (text and blanks are skipped), single values are converted like IF conditions
+function logicalValues(name: string, values: FormulaValue[]): boolean[] {
+  const logicals: boolean[] = [];
+  for (const value of values) {
+    if (isRange(value)) {
+      for (const item of value.flat()) {
+        raiseIfError(item);
+        if (typeof item === 'boolean' || isNumeric(item)) logicals.push(toBoolean(item));
+      }
+    } else if (value !== null) {
+      logicals.push(toBoolean(value));
+    }
+  }
+  if (logicals.length === 0) {
+    throw new FormulaEvaluationError(`${name} has no logical values to test`);
+  }
+  return logicals;
+}
+
+export const logicalFunctions: Record<string, FormulaFunction> = {
+  // IF(condition, value_if_true, [value_if_false]) - only the chosen branch is evaluated
+  IF: async ({ args, evaluate }) => {
+    if (args.length < 2 || args.length > 3) {
+      throw new FormulaEvaluationError('IF expects 2 or 3 arguments');
+    }
+    const condition = toBoolean(await evaluate(args[0]));
+    if (condition) {
+      return evaluate(args[1]);
+    }
+    return args.length === 3 ? evaluate(args[2]) : false;
+  },
+
+  AND: withEvaluatedArgs((values) => logicalValues('AND', values).every(Boolean)),
+
+  OR: withEvaluatedArgs((values) => logicalValues('OR', values).some(Boolean)),
+
+  // XOR is TRUE when an odd number of the values are TRUE
+  XOR: withEvaluatedArgs((values) => logicalValues('XOR', values).filter(Boolean).length % 2 === 1),
+
+  NOT: withEvaluatedArgs((values) => {
+    expectArgs('NOT', values, 1, 1);
+    return !toBoolean(values[0]);
+  }),
+
+  // IFERROR(value, value_if_error) - the fallback is only evaluated when needed
+  IFERROR: async ({ args, evaluate }) => {
+    if (args.length !== 2) {
+      throw new FormulaEvaluationError('IFERROR expects 2 arguments');
+    }
+    const value = await evaluateCatchingErrors(evaluate, args[0]);
+    return isError(value) ? evaluate(args[1]) : value;
+  },
+
+  // IFNA(value, value_if_na) - like IFERROR, but only for #N/A
+  IFNA: async ({ args, evaluate }) => {
+    if (args.length !== 2) {
+      throw new FormulaEvaluationError('IFNA expects 2 arguments');
+    }
+    const value = await evaluateCatchingErrors(evaluate, args[0]);
+    if (isError(value) && value.code === '#N/A') return evaluate(args[1]);
+    raiseIfError(value);
+    return value;
+  },
+
+  // IFS(condition1, value1, condition2, value2, ...) - the value of the first true condition
+  IFS: async ({ args, evaluate }) => {
+    if (args.length < 2 || args.length % 2 !== 0) {
+      throw new FormulaEvaluationError('IFS expects condition/value pairs');
+    }
+    for (let i = 0; i < args.length; i += 2) {
+      if (toBoolean(await evaluate(args[i]))) {
+        return evaluate(args[i + 1]);
+      }
+    }
+    throw notAvailable('IFS found no true condition');
+  },
+
+  // SWITCH(expression, case1, value1, ..., [default]) - cases must match exactly (1 does not match "1")
+  SWITCH: async ({ args, evaluate }) => {
+    if (args.length < 3) {
+      throw new FormulaEvaluationError('SWITCH expects an expression and at least one case/value pair');
+    }
+    const expression = toScalar(await evaluate(args[0]));
+    raiseIfError(expression);
+
+    const pairEnd = args.length - ((args.length - 1) % 2);
+    for (let i = 1; i < pairEnd; i += 2) {
+      const candidate = toScalar(await evaluate(args[i]));
+      raiseIfError(candidate);
+      if (compareScalars(expression, candidate) === 0 && (expression === null) === (candidate === null)) {
+        return evaluate(args[i + 1]);
+      }
+    }
+    if (pairEnd < args.length) {
+      return evaluate(args[args.length - 1]);
+    }
+    throw notAvailable('SWITCH found no matching case');
+  },
+
+  ISBLANK: async (invocation) => (await inspectedValue('ISBLANK', invocation)) === null,
+
+  ISNUMBER: async (invocation) => isNumeric(await inspectedValue('ISNUMBER', invocation)),
+
+  ISTEXT: async (invocation) => typeof (await inspectedValue('ISTEXT', invocation)) === 'string',
+
+  ISERROR: async (invocation) => isError(await inspectedValue('ISERROR', invocation)),
+
+  ISNA: async (invocation) => {
+    const value = await inspectedValue('ISNA', invocation);
+    return isError(value) && value.code === '#N/A';
+  },
+
+  // NA() - an explicit #N/A, e.g. to mark missing data
+  NA: withEvaluatedArgs((values) => {
+    expectArgs('NA', values, 0, 0);
+    throw notAvailable('No value is available');
+  }),
+};
@@ -0,0 +1,153 @@
+import {
+  FormulaEvaluationError,
+  FormulaValue,
+  RangeValue,
+  ScalarValue,
+  toBoolean,
+  toNumber,
+  toRange,
+  toScalar,
+} from '../values';
+import { expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+import { findMatch, MatchMode } from './matching';
+
+function notFound(name: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(`${name} found no match`, '#N/A');
+}
+
+// 1-based position argument, checked against the size of the table
+function toPosition(name: string, value: FormulaValue, size: number): number {
+  const position = Math.trunc(toNumber(value));
+  if (position < 1) {
+    throw new FormulaEvaluationError(`${name} index must be at least 1`, '#VALUE!');
+  }
+  if (position > size) {
+    throw new FormulaEvaluationError(`${name} index ${position} is outside the range`, '#REF!');
+  }
+  return position;
+}
+
+function column(range: RangeValue, index: number): ScalarValue[] {
+  return range.rows.map((row) => row[index]);
+}
+
+// A single row or column of values, as MATCH and XLOOKUP expect
+function toVector(name: string, value: FormulaValue): ScalarValue[] {
+  const range = toRange(value);
+  if (range.height === 1) return range.rows[0];
+  if (range.width === 1) return column(range, 0);
+  throw new FormulaEvaluationError(`${name} expects a single row or column`, '#VALUE!');
+}
+
+// VLOOKUP/HLOOKUP: approximate match (the default) assumes the first column/row is sorted
+function tableMatchMode(values: FormulaValue[], index: number): MatchMode {
+  const approximate = values.length > index ? toBoolean(values[index]) : true;
+  return approximate ? 'sortedAscending' : 'wildcard';
+}
+
+export const lookupFunctions: Record<string, FormulaFunction> = {
+  // VLOOKUP(lookup_value, table, col_index, [approximate_match])
+  VLOOKUP: withEvaluatedArgs((values) => {
+    expectArgs('VLOOKUP', values, 3, 4);
+    const lookup = toScalar(values[0]);
+    const table = toRange(values[1]);
+    const columnIndex = toPosition('VLOOKUP', values[2], table.width);
+
+    const match = findMatch(lookup, column(table, 0), tableMatchMode(values, 3));
+    if (match === -1) throw notFound('VLOOKUP');
+    return table.rows[match][columnIndex - 1];
+  }),
+
+  // HLOOKUP(lookup_value, table, row_index, [approximate_match])
+  HLOOKUP: withEvaluatedArgs((values) => {
+    expectArgs('HLOOKUP', values, 3, 4);
+    const lookup = toScalar(values[0]);
+    const table = toRange(values[1]);
+    const rowIndex = toPosition('HLOOKUP', values[2], table.height);
+
+    const match = findMatch(lookup, table.rows[0] ?? [], tableMatchMode(values, 3));
+    if (match === -1) throw notFound('HLOOKUP');
+    return table.rows[rowIndex - 1][match];
+  }),
+
+  // XLOOKUP(lookup_value, lookup_array, return_array, [if_not_found], [match_mode], [search_mode])
+  XLOOKUP: async ({ args, evaluate }) => {
+    if (args.length < 3 || args.length > 6) {
+      throw new FormulaEvaluationError('XLOOKUP expects 3 to 6 arguments');
+    }
+
+    const lookup = toScalar(await evaluate(args[0]));
+    const lookupRange = toRange(await evaluate(args[1]));
+    const returnRange = toRange(await evaluate(args[2]));
+    const candidates = toVector('XLOOKUP', lookupRange);
+
+    const matchModes: Record<number, MatchMode> = { 0: 'exact', [-1]: 'nextSmaller', 1: 'nextLarger', 2: 'wildcard' };
+    const mode = args.length > 4 && args[4].type !== 'empty' ? matchModes[toNumber(await evaluate(args[4]))] : 'exact';
+    if (!mode) {
+      throw new FormulaEvaluationError('XLOOKUP match_mode must be 0, -1, 1 or 2', '#VALUE!');
+    }
+    const searchMode = args.length > 5 && args[5].type !== 'empty' ? toNumber(await evaluate(args[5])) : 1;
+
+    const match = findMatch(lookup, candidates, mode, searchMode < 0);
+    if (match === -1) {
+      // if_not_found is only evaluated when it's needed
+      if (args.length > 3 && args[3].type !== 'empty') return evaluate(args[3]);
+      throw notFound('XLOOKUP');
+    }
+
+    // A vertical lookup array returns the matching row of the return array, a horizontal one the column
+    if (lookupRange.width === 1 && lookupRange.height > 1) {
+      if (returnRange.height !== lookupRange.height) {
+        throw new FormulaEvaluationError('XLOOKUP arrays must be the same size', '#VALUE!');
+      }
+      const row = returnRange.rows[match];
+      return row.length === 1 ? row[0] : new RangeValue([row]);
+    }
+
+    if (returnRange.width !== lookupRange.width) {
+      throw new FormulaEvaluationError('XLOOKUP arrays must be the same size', '#VALUE!');
+    }
+    const values = column(returnRange, match);
+    return values.length === 1 ? values[0] : new RangeValue(values.map((value) => [value]));
+  },
+
+  // INDEX(array, row_num, [col_num]) - a 0 row or column selects the whole column or row
+  INDEX: withEvaluatedArgs((values) => {
+    expectArgs('INDEX', values, 2, 3);
+    const range = toRange(values[0]);
+
+    let rowNumber = Math.trunc(toNumber(values[1]));
+    let columnNumber = values.length > 2 ? Math.trunc(toNumber(values[2])) : 1;
+
+    // With a single row, one index picks the column
+    if (values.length === 2 && range.height === 1 && range.width > 1) {
+      columnNumber = rowNumber;
+      rowNumber = 1;
+    }
+
+    if (rowNumber < 0 || columnNumber < 0) {
+      throw new FormulaEvaluationError('INDEX position cannot be negative', '#VALUE!');
+    }
+    if (rowNumber > range.height || columnNumber > range.width) {
+      throw new FormulaEvaluationError('INDEX position is outside the range', '#REF!');
+    }
+
+    if (rowNumber === 0 && columnNumber === 0) return range;
+    if (rowNumber === 0) return new RangeValue(column(range, columnNumber - 1).map((value) => [value]));
+    if (columnNumber === 0) return new RangeValue([range.rows[rowNumber - 1]]);
+    return range.rows[rowNumber - 1][columnNumber - 1];
+  }),
+
+  // MATCH(lookup_value, lookup_array, [match_type]) - returns a 1-based position
+  MATCH: withEvaluatedArgs((values) => {
+    expectArgs('MATCH', values, 2, 3);
+    const lookup = toScalar(values[0]);
+    const candidates = toVector('MATCH', values[1]);
+    const matchType = values.length > 2 ? toNumber(values[2]) : 1;
+
+    const mode: MatchMode = matchType === 0 ? 'wildcard' : matchType > 0 ? 'sortedAscending' : 'sortedDescending';
+    const match = findMatch(lookup, candidates, mode);
+    if (match === -1) throw notFound('MATCH');
+    return match + 1;
+  }),
+};
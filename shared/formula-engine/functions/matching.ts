@@ -0,0 +1,184 @@
+import { compareScalars, isError, isNumeric, parseNumberText, ScalarValue } from '../values';
+import { parseDateText } from '../dates';
+import { isErrorCode } from '../errors';
+
+// How a lookup value is matched against candidates
+export type MatchMode =
+  | 'exact'
+  | 'wildcard' // exact, but * and ? in the lookup text match any characters
+  | 'nextSmaller' // exact, otherwise the largest value below the lookup value
+  | 'nextLarger' // exact, otherwise the smallest value above the lookup value
+  | 'sortedAscending' // largest value <= lookup value; candidates sorted ascending
+  | 'sortedDescending'; // smallest value >= lookup value; candidates sorted descending
+
+// Convert an Excel wildcard pattern (* any run, ? any character, ~ escapes) to a RegExp
+export function wildcardToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Dates and numbers are interchangeable; otherwise types must match
+function isSameType(a: ScalarValue, b: ScalarValue): boolean {
+  return isNumeric(a) ? isNumeric(b) : typeof a === typeof b;
+}
+
+/**
+ * Index of the candidate matching `lookup`, or -1. Blank candidates never match,
+ * and values of a different type (e.g. the text "5" vs the number 5) are not equal.
+ */
+export function findMatch(
+  lookup: ScalarValue,
+  candidates: ScalarValue[],
+  mode: MatchMode,
+  reverse = false
+): number {
+  if (mode === 'sortedAscending' || mode === 'sortedDescending') {
+    // Walk the sorted list and keep the last candidate on the right side of the lookup value
+    let found = -1;
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index];
+      if (candidate === null || !isSameType(candidate, lookup)) continue;
+      const diff = compareScalars(candidate, lookup);
+      if (mode === 'sortedAscending' ? diff <= 0 : diff >= 0) {
+        found = index;
+      } else {
+        break;
+      }
+    }
+    return found;
+  }
+
+  const order = candidates.map((_, index) => index);
+  if (reverse) order.reverse();
+
+  const pattern = mode === 'wildcard' && typeof lookup === 'string' ? wildcardToRegExp(lookup) : null;
+  let best = -1;
+
+  for (const index of order) {
+    const candidate = candidates[index];
+    if (candidate === null || !isSameType(candidate, lookup)) continue;
+
+    if (pattern) {
+      if (pattern.test(String(candidate))) return index;
+      continue;
+    }
+
+    const diff = compareScalars(candidate, lookup);
+    if (diff === 0) return index;
+
+    if (mode === 'nextSmaller' && diff < 0) {
+      if (best === -1 || compareScalars(candidate, candidates[best]) > 0) best = index;
+    } else if (mode === 'nextLarger' && diff > 0) {
+      if (best === -1 || compareScalars(candidate, candidates[best]) < 0) best = index;
+    }
+  }
+
+  return best;
+}
+
+const CRITERIA_OPERATORS = ['<=', '>=', '<>', '<', '>', '='] as const;
+type CriteriaOperator = (typeof CRITERIA_OPERATORS)[number];
+
+// Numeric criteria text: a number, or a date such as "2024-01-15"
+function parseNumber(text: string): number | null {
+  if (text.trim() === '') return null;
+  return parseNumberText(text) ?? parseDateText(text);
+}
+
+function applyOperator(operator: CriteriaOperator, diff: number): boolean {
+  switch (operator) {
+    case '=':
+      return diff === 0;
+    case '<>':
+      return diff !== 0;
+    case '<':
+      return diff < 0;
+    case '>':
+      return diff > 0;
+    case '<=':
+      return diff <= 0;
+    case '>=':
+      return diff >= 0;
+  }
+}
+
+/**
+ * Build a predicate from SUMIF/COUNTIF-style criteria, following Excel:
+ * - a number or boolean matches equal values (numbers also match numeric text)
+ * - text may start with an operator: ">100", "<>Done", "<=2024"
+ * - "=" and "<>" against text are case-insensitive and support * and ? wildcards
+ * - "" or "=" matches blank cells, "<>" matches non-blank cells
+ * - an error code ("#N/A") matches cells showing that error
+ * - other comparisons only match values of the same type as the operand
+ */
+export function parseCriteria(criteria: ScalarValue): (value: ScalarValue) => boolean {
+  if (criteria === null) {
+    return (value) => value === null || value === '';
+  }
+  if (isNumeric(criteria)) {
+    const number = Number(criteria);
+    return (value) =>
+      isNumeric(value) ? Number(value) === number : typeof value === 'string' && parseNumber(value) === number;
+  }
+  if (typeof criteria === 'boolean') {
+    return (value) => value === criteria;
+  }
+  if (isError(criteria)) {
+    return (value) => isError(value) && value.code === criteria.code;
+  }
+
+  const operator = CRITERIA_OPERATORS.find((candidate) => criteria.startsWith(candidate));
+  const operand = operator ? criteria.slice(operator.length) : criteria;
+  const op: CriteriaOperator = operator ?? '=';
+
+  if (operand === '') {
+    const isBlank = (value: ScalarValue) => value === null || value === '';
+    if (op === '=') return isBlank;
+    if (op === '<>') return (value) => !isBlank(value);
+    return () => false;
+  }
+
+  const number = parseNumber(operand);
+  if (number !== null) {
+    return (value) => {
+      const candidate = isNumeric(value) ? Number(value) : typeof value === 'string' ? parseNumber(value) : null;
+      if (candidate === null) return op === '<>';
+      return applyOperator(op, candidate - number);
+    };
+  }
+
+  const upper = operand.toUpperCase();
+  if (isErrorCode(upper) && (op === '=' || op === '<>')) {
+    return (value) => (isError(value) && value.code === upper) === (op === '=');
+  }
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const bool = upper === 'TRUE';
+    return (value) => (typeof value === 'boolean' ? applyOperator(op, Number(value) - Number(bool)) : op === '<>');
+  }
+
+  if (op === '=' || op === '<>') {
+    const pattern = wildcardToRegExp(operand);
+    return (value) => {
+      const matches = typeof value === 'string' && pattern.test(value);
+      return op === '=' ? matches : !matches;
+    };
+  }
+
+  return (value) => typeof value === 'string' && applyOperator(op, compareScalars(value, operand));
+}
@@ -0,0 +1,90 @@
+import { FormulaEvaluationError, toNumber } from '../values';
+import { expectArgs, FormulaFunction, withElementwiseArgs, withEvaluatedArgs } from './types';
+
+// Math on single numbers; given ranges they work element by element
+
+function invalidNumber(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#NUM!');
+}
+
+function finite(name: string, result: number): number {
+  if (!isFinite(result)) throw invalidNumber(`${name} result is not a finite number`);
+  return result;
+}
+
+// number^power, shared by the ^ operator and POWER; 0 to a negative power divides by zero
+export function power(base: number, exponent: number): number {
+  if (base === 0 && exponent < 0) {
+    throw new FormulaEvaluationError('0 cannot be raised to a negative power', '#DIV/0!');
+  }
+  return Math.pow(base, exponent);
+}
+
+/**
+ * Round the magnitude of `value` to `digits` decimal places (negative digits
+ * round to tens, hundreds, ...) with `round`, keeping the sign. Scaling goes
+ * through 15 significant digits so 1.005 rounds to 1.01 rather than 1.00.
+ */
+function roundTo(value: number, digits: number, round: (magnitude: number) => number): number {
+  const places = Math.trunc(digits);
+  const factor = Math.pow(10, Math.abs(places));
+  const scaled = places >= 0 ? Math.abs(value) * factor : Math.abs(value) / factor;
+  const rounded = round(Number(scaled.toPrecision(15)));
+  const magnitude = places >= 0 ? rounded / factor : rounded * factor;
+  return value < 0 ? -magnitude : magnitude;
+}
+
+function rounding(name: string, round: (magnitude: number) => number): FormulaFunction {
+  return withElementwiseArgs(name, 1, 2, (values) => {
+    const digits = values.length > 1 && values[1] !== null ? toNumber(values[1]) : 0;
+    return roundTo(toNumber(values[0]), digits, round);
+  });
+}
+
+export const mathFunctions: Record<string, FormulaFunction> = {
+  // ROUND(number, [digits]) - halves round away from zero
+  ROUND: rounding('ROUND', Math.round),
+
+  // ROUNDUP(number, [digits]) - away from zero
+  ROUNDUP: rounding('ROUNDUP', Math.ceil),
+
+  // ROUNDDOWN(number, [digits]) - toward zero
+  ROUNDDOWN: rounding('ROUNDDOWN', Math.floor),
+
+  ABS: withElementwiseArgs('ABS', 1, 1, (values) => Math.abs(toNumber(values[0]))),
+
+  // MOD(number, divisor) - the result has the divisor's sign, as in Excel
+  MOD: withElementwiseArgs('MOD', 2, 2, (values) => {
+    const [number, divisor] = values.map((value) => toNumber(value));
+    if (divisor === 0) {
+      throw new FormulaEvaluationError('MOD divisor cannot be 0', '#DIV/0!');
+    }
+    return finite('MOD', number - divisor * Math.floor(number / divisor));
+  }),
+
+  // POWER(number, power) - same as number^power
+  POWER: withElementwiseArgs('POWER', 2, 2, (values) =>
+    finite('POWER', power(toNumber(values[0]), toNumber(values[1])))
+  ),
+
+  SQRT: withElementwiseArgs('SQRT', 1, 1, (values) => {
+    const number = toNumber(values[0]);
+    if (number < 0) throw invalidNumber('SQRT of a negative number');
+    return Math.sqrt(number);
+  }),
+
+  // RAND() - a number from 0 up to (not including) 1, new on every recalculation
+  RAND: withEvaluatedArgs((values) => {
+    expectArgs('RAND', values, 0, 0);
+    return Math.random();
+  }),
+
+  // RANDBETWEEN(bottom, top) - a whole number between the two, inclusive
+  RANDBETWEEN: withEvaluatedArgs((values) => {
+    expectArgs('RANDBETWEEN', values, 2, 2);
+    const bottom = Math.ceil(toNumber(values[0]));
+    const top = Math.floor(toNumber(values[1]));
+    if (bottom > top) throw invalidNumber('RANDBETWEEN bottom is greater than top');
+    return bottom + Math.floor(Math.random() * (top - bottom + 1));
+  }),
+};
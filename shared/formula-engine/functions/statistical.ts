@@ -0,0 +1,177 @@
+import {
+  collectNumbers,
+  FormulaEvaluationError,
+  FormulaValue,
+  isNumeric,
+  isRange,
+  toNumber,
+  toRange,
+} from '../values';
+import { decimalDivide, decimalMultiply, decimalSubtract, decimalSum } from '../decimal';
+import { evaluateCatchingErrors, expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+
+// Like the aggregates, these read the numbers in ranges and skip text and blanks
+
+function invalidNumber(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#NUM!');
+}
+
+function divisionByZero(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#DIV/0!');
+}
+
+function sortedNumbers(name: string, values: FormulaValue[]): number[] {
+  const numbers = collectNumbers(values).sort((a, b) => a - b);
+  if (numbers.length === 0) throw invalidNumber(`${name} has no numbers to work with`);
+  return numbers;
+}
+
+function mean(numbers: number[]): number {
+  return decimalDivide(decimalSum(numbers), numbers.length);
+}
+
+// Sample variance divides by n - 1, population variance by n. The sums are
+// decimal, like SUM's, so VAR.P(1.1, 2.2) is 0.3025 rather than 0.30250000000000005.
+function variance(name: string, values: FormulaValue[], sample: boolean): number {
+  const numbers = collectNumbers(values);
+  const divisor = sample ? numbers.length - 1 : numbers.length;
+  if (divisor < 1) {
+    throw divisionByZero(`${name} needs at least ${sample ? 2 : 1} numbers`);
+  }
+  const average = mean(numbers);
+  const squares = numbers.map((value) => {
+    const deviation = decimalSubtract(value, average);
+    return decimalMultiply(deviation, deviation);
+  });
+  return decimalDivide(decimalSum(squares), divisor);
+}
+
+// Inclusive percentile, interpolating between the two nearest values
+function percentile(name: string, numbers: number[], fraction: number): number {
+  if (fraction < 0 || fraction > 1) throw invalidNumber(`${name} must be between 0 and 1`);
+  const position = fraction * (numbers.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, numbers.length - 1);
+  return numbers[lower] + (position - lower) * (numbers[upper] - numbers[lower]);
+}
+
+// LARGE/SMALL: the k-th number counting from the top or the bottom
+function kth(name: string, values: FormulaValue[], fromTop: boolean): number {
+  expectArgs(name, values, 2, 2);
+  const numbers = sortedNumbers(name, [values[0]]);
+  const k = Math.ceil(toNumber(values[1]));
+  if (k < 1 || k > numbers.length) {
+    throw invalidNumber(`${name} k must be between 1 and ${numbers.length}`);
+  }
+  return fromTop ? numbers[numbers.length - k] : numbers[k - 1];
+}
+
+export const statisticalFunctions: Record<string, FormulaFunction> = {
+  MEDIAN: withEvaluatedArgs((values) => percentile('MEDIAN', sortedNumbers('MEDIAN', values), 0.5)),
+
+  // MODE(number1, ...) - the most frequent number; the first one seen wins ties
+  MODE: withEvaluatedArgs((values) => {
+    const counts = new Map<number, number>();
+    for (const number of collectNumbers(values)) {
+      counts.set(number, (counts.get(number) ?? 0) + 1);
+    }
+    let mode: number | null = null;
+    let highest = 1;
+    for (const [number, count] of counts) {
+      if (count > highest) {
+        mode = number;
+        highest = count;
+      }
+    }
+    if (mode === null) throw new FormulaEvaluationError('MODE found no repeated numbers', '#N/A');
+    return mode;
+  }),
+
+  'STDEV.S': withEvaluatedArgs((values) => Math.sqrt(variance('STDEV.S', values, true))),
+  'STDEV.P': withEvaluatedArgs((values) => Math.sqrt(variance('STDEV.P', values, false))),
+  'VAR.S': withEvaluatedArgs((values) => variance('VAR.S', values, true)),
+  'VAR.P': withEvaluatedArgs((values) => variance('VAR.P', values, false)),
+
+  // PERCENTILE(array, k) - k from 0 to 1, e.g. 0.9 for the 90th percentile
+  PERCENTILE: withEvaluatedArgs((values) => {
+    expectArgs('PERCENTILE', values, 2, 2);
+    return percentile('PERCENTILE k', sortedNumbers('PERCENTILE', [values[0]]), toNumber(values[1]));
+  }),
+
+  // QUARTILE(array, quart) - 0 is the minimum, 2 the median, 4 the maximum
+  QUARTILE: withEvaluatedArgs((values) => {
+    expectArgs('QUARTILE', values, 2, 2);
+    const quart = Math.trunc(toNumber(values[1]));
+    if (quart < 0 || quart > 4) throw invalidNumber('QUARTILE quart must be between 0 and 4');
+    return percentile('QUARTILE', sortedNumbers('QUARTILE', [values[0]]), quart / 4);
+  }),
+
+  // RANK(number, ref, [order]) - position of number in ref, largest first
+  // unless order is non-zero; equal numbers share a rank
+  RANK: withEvaluatedArgs((values) => {
+    expectArgs('RANK', values, 2, 3);
+    const number = toNumber(values[0]);
+    const numbers = collectNumbers([values[1]]);
+    const ascending = values.length > 2 && values[2] !== null && toNumber(values[2]) !== 0;
+    if (!numbers.includes(number)) {
+      throw new FormulaEvaluationError(`RANK could not find ${number} in the range`, '#N/A');
+    }
+    const ahead = numbers.filter((other) => (ascending ? other < number : other > number));
+    return ahead.length + 1;
+  }),
+
+  // LARGE(array, k) / SMALL(array, k) - k-th largest or smallest number
+  LARGE: withEvaluatedArgs((values) => kth('LARGE', values, true)),
+  SMALL: withEvaluatedArgs((values) => kth('SMALL', values, false)),
+
+  // CORREL(array1, array2) - Pearson correlation of pairs where both are numbers
+  CORREL: withEvaluatedArgs((values) => {
+    expectArgs('CORREL', values, 2, 2);
+    const first = toRange(values[0]).flat();
+    const second = toRange(values[1]).flat();
+    if (first.length !== second.length) {
+      throw new FormulaEvaluationError('CORREL arrays must be the same size', '#N/A');
+    }
+
+    const pairs = first.flatMap((value, index) => {
+      const other = second[index];
+      return isNumeric(value) && isNumeric(other) ? [[Number(value), Number(other)]] : [];
+    });
+    if (pairs.length < 2) throw divisionByZero('CORREL needs at least two pairs of numbers');
+
+    const meanX = mean(pairs.map(([x]) => x));
+    const meanY = mean(pairs.map(([, y]) => y));
+    let covariance = 0;
+    let spreadX = 0;
+    let spreadY = 0;
+    for (const [x, y] of pairs) {
+      covariance += (x - meanX) * (y - meanY);
+      spreadX += (x - meanX) ** 2;
+      spreadY += (y - meanY) ** 2;
+    }
+    if (spreadX === 0 || spreadY === 0) throw divisionByZero('CORREL arrays must not be constant');
+    return covariance / Math.sqrt(spreadX * spreadY);
+  }),
+
+  // COUNTA(value1, ...) - non-empty values of any kind, errors included
+  COUNTA: async ({ args, evaluate }) => {
+    let count = 0;
+    for (const arg of args) {
+      const value = await evaluateCatchingErrors(evaluate, arg);
+      if (isRange(value)) {
+        count += value.flat().filter((item) => item !== null).length;
+      } else if (value !== null) {
+        count += 1;
+      }
+    }
+    return count;
+  },
+
+  // COUNTBLANK(range) - empty cells, and formulas that return ""
+  COUNTBLANK: withEvaluatedArgs((values) => {
+    expectArgs('COUNTBLANK', values, 1, 1);
+    return toRange(values[0])
+      .flat()
+      .filter((item) => item === null || item === '').length;
+  }),
+};
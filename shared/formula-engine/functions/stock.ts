@@ -0,0 +1,38 @@
+import { FormulaEvaluationError, raiseIfError, toScalar, toText } from '../values';
+import { DateValue, dateToSerial } from '../dates';
+import { STOCK_ATTRIBUTES, StockAttribute } from '../stocks';
+import { FormulaFunction } from './types';
+
+function toAttribute(text: string): StockAttribute {
+  const attribute = STOCK_ATTRIBUTES.find((name) => name.toLowerCase() === text.trim().toLowerCase());
+  if (!attribute) {
+    throw new FormulaEvaluationError(
+      `STOCK attribute must be one of ${STOCK_ATTRIBUTES.join(', ')}`,
+      '#VALUE!'
+    );
+  }
+  return attribute;
+}
+
+export const stockFunctions: Record<string, FormulaFunction> = {
+  // STOCK(symbol, [attribute]) - latest market data for a ticker symbol:
+  // price (the default), change, changePercent or timestamp
+  STOCK: async ({ args, evaluate, getStockQuote }) => {
+    if (args.length < 1 || args.length > 2) {
+      throw new FormulaEvaluationError('STOCK expects 1 to 2 arguments');
+    }
+
+    const symbol = toScalar(await evaluate(args[0]));
+    raiseIfError(symbol);
+    const attribute = args.length > 1 ? toAttribute(toText(await evaluate(args[1]))) : 'price';
+    if (typeof symbol !== 'string' || symbol.trim() === '') {
+      throw new FormulaEvaluationError('STOCK symbol must be text, e.g. "AAPL"', '#VALUE!');
+    }
+
+    const quote = await getStockQuote(symbol.trim().toUpperCase());
+    if (attribute === 'timestamp') {
+      return new DateValue(dateToSerial(new Date(quote.timestamp)));
+    }
+    return quote[attribute];
+  },
+};
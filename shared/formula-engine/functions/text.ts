@@ -0,0 +1,252 @@
+import {
+  FormulaEvaluationError,
+  FormulaValue,
+  RangeValue,
+  isNumeric,
+  isRange,
+  parseNumberText,
+  toBoolean,
+  toNumber,
+  toScalar,
+  toText,
+} from '../values';
+import { DateValue, parseDateText } from '../dates';
+import { formatDate, formatNumber, isDateFormat } from '../textFormat';
+import { expectArgs, FormulaFunction, withEvaluatedArgs } from './types';
+import { wildcardToRegExp } from './matching';
+
+function invalidArgument(message: string): FormulaEvaluationError {
+  return new FormulaEvaluationError(message, '#VALUE!');
+}
+
+// Optional whole-number argument (character counts, positions)
+function optionalCount(values: FormulaValue[], index: number, fallback: number): number {
+  return values.length > index && values[index] !== null ? Math.trunc(toNumber(values[index])) : fallback;
+}
+
+// Every value as text, with ranges flattened row by row
+function textItems(values: FormulaValue[]): string[] {
+  const items: string[] = [];
+  for (const value of values) {
+    if (isRange(value)) {
+      items.push(...value.flat().map((item) => toText(item)));
+    } else {
+      items.push(toText(value));
+    }
+  }
+  return items;
+}
+
+// Parse text the way VALUE() does: allows thousands separators, a leading $ and a trailing %
+function parseNumericText(text: string): number | null {
+  let cleaned = text.trim().replace(/,/g, '');
+  let scale = 1;
+  if (cleaned.endsWith('%')) {
+    cleaned = cleaned.slice(0, -1);
+    scale = 0.01;
+  }
+  cleaned = cleaned.replace(/^(-?)\$/, '$1');
+  const number = parseNumberText(cleaned);
+  return number === null ? null : number * scale;
+}
+
+export const textFunctions: Record<string, FormulaFunction> = {
+  CONCAT: withEvaluatedArgs((values) => textItems(values).join('')),
+
+  LEN: withEvaluatedArgs((values) => {
+    expectArgs('LEN', values, 1, 1);
+    return toText(values[0]).length;
+  }),
+
+  // LEFT(text, [num_chars]) / RIGHT(text, [num_chars])
+  LEFT: withEvaluatedArgs((values) => {
+    expectArgs('LEFT', values, 1, 2);
+    const count = optionalCount(values, 1, 1);
+    if (count < 0) throw invalidArgument('LEFT num_chars cannot be negative');
+    return toText(values[0]).slice(0, count);
+  }),
+
+  RIGHT: withEvaluatedArgs((values) => {
+    expectArgs('RIGHT', values, 1, 2);
+    const count = optionalCount(values, 1, 1);
+    if (count < 0) throw invalidArgument('RIGHT num_chars cannot be negative');
+    const text = toText(values[0]);
+    return count === 0 ? '' : text.slice(-count);
+  }),
+
+  // MID(text, start_num, num_chars) - start_num is 1-based
+  MID: withEvaluatedArgs((values) => {
+    expectArgs('MID', values, 3, 3);
+    const start = Math.trunc(toNumber(values[1]));
+    const count = Math.trunc(toNumber(values[2]));
+    if (start < 1) throw invalidArgument('MID start_num must be at least 1');
+    if (count < 0) throw invalidArgument('MID num_chars cannot be negative');
+    return toText(values[0]).substr(start - 1, count);
+  }),
+
+  UPPER: withEvaluatedArgs((values) => {
+    expectArgs('UPPER', values, 1, 1);
+    return toText(values[0]).toUpperCase();
+  }),
+
+  LOWER: withEvaluatedArgs((values) => {
+    expectArgs('LOWER', values, 1, 1);
+    return toText(values[0]).toLowerCase();
+  }),
+
+  // Capitalize the first letter of every word, lower-case the rest
+  PROPER: withEvaluatedArgs((values) => {
+    expectArgs('PROPER', values, 1, 1);
+    return toText(values[0])
+      .toLowerCase()
+      .replace(/(^|[^a-z])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase());
+  }),
+
+  // Remove leading/trailing spaces and collapse runs of spaces inside the text
+  TRIM: withEvaluatedArgs((values) => {
+    expectArgs('TRIM', values, 1, 1);
+    return toText(values[0]).trim().replace(/ {2,}/g, ' ');
+  }),
+
+  // SUBSTITUTE(text, old_text, new_text, [instance_num])
+  SUBSTITUTE: withEvaluatedArgs((values) => {
+    expectArgs('SUBSTITUTE', values, 3, 4);
+    const text = toText(values[0]);
+    const oldText = toText(values[1]);
+    const newText = toText(values[2]);
+    if (oldText === '') return text;
+
+    if (values.length < 4) {
+      return text.split(oldText).join(newText);
+    }
+
+    const instance = Math.trunc(toNumber(values[3]));
+    if (instance < 1) throw invalidArgument('SUBSTITUTE instance_num must be at least 1');
+    let index = -1;
+    for (let found = 0; found < instance; found++) {
+      index = text.indexOf(oldText, index + 1);
+      if (index === -1) return text;
+    }
+    return text.slice(0, index) + newText + text.slice(index + oldText.length);
+  }),
+
+  // REPLACE(old_text, start_num, num_chars, new_text)
+  REPLACE: withEvaluatedArgs((values) => {
+    expectArgs('REPLACE', values, 4, 4);
+    const text = toText(values[0]);
+    const start = Math.trunc(toNumber(values[1]));
+    const count = Math.trunc(toNumber(values[2]));
+    if (start < 1) throw invalidArgument('REPLACE start_num must be at least 1');
+    if (count < 0) throw invalidArgument('REPLACE num_chars cannot be negative');
+    return text.slice(0, start - 1) + toText(values[3]) + text.slice(start - 1 + count);
+  }),
+
+  // FIND(find_text, within_text, [start_num]) - case-sensitive, 1-based result
+  FIND: withEvaluatedArgs((values) => {
+    expectArgs('FIND', values, 2, 3);
+    const needle = toText(values[0]);
+    const haystack = toText(values[1]);
+    const start = optionalCount(values, 2, 1);
+    if (start < 1 || start > haystack.length + 1) throw invalidArgument('FIND start_num is out of range');
+
+    const index = haystack.indexOf(needle, start - 1);
+    if (index === -1) throw invalidArgument(`FIND could not find "${needle}"`);
+    return index + 1;
+  }),
+
+  // SEARCH(find_text, within_text, [start_num]) - case-insensitive and supports * and ? wildcards
+  SEARCH: withEvaluatedArgs((values) => {
+    expectArgs('SEARCH', values, 2, 3);
+    const needle = toText(values[0]);
+    const haystack = toText(values[1]);
+    const start = optionalCount(values, 2, 1);
+    if (start < 1 || start > haystack.length + 1) throw invalidArgument('SEARCH start_num is out of range');
+
+    // Reuse the anchored wildcard pattern, unanchored, to find the first match
+    const anchored = wildcardToRegExp(needle).source;
+    const pattern = new RegExp(anchored.slice(1, -1), 'i');
+    const match = pattern.exec(haystack.slice(start - 1));
+    if (!match) throw invalidArgument(`SEARCH could not find "${needle}"`);
+    return start + match.index;
+  }),
+
+  // SPLIT(text, delimiter, [split_by_each], [remove_empty]) - returns a single-row array
+  SPLIT: withEvaluatedArgs((values) => {
+    expectArgs('SPLIT', values, 2, 4);
+    const text = toText(values[0]);
+    const delimiter = toText(values[1]);
+    const splitByEach = values.length > 2 && values[2] !== null ? toBoolean(values[2]) : true;
+    const removeEmpty = values.length > 3 && values[3] !== null ? toBoolean(values[3]) : true;
+    if (delimiter === '') throw invalidArgument('SPLIT delimiter cannot be empty');
+
+    let parts: string[];
+    if (splitByEach) {
+      const separators = new Set(delimiter.split(''));
+      parts = [''];
+      for (const char of text) {
+        if (separators.has(char)) parts.push('');
+        else parts[parts.length - 1] += char;
+      }
+    } else {
+      parts = text.split(delimiter);
+    }
+    if (removeEmpty) parts = parts.filter((part) => part !== '');
+
+    // Numeric pieces come back as numbers, like typing them into cells
+    const items = parts.map((part) => parseNumberText(part) ?? part);
+    return new RangeValue([items.length > 0 ? items : ['']]);
+  }),
+
+  // JOIN(delimiter, value1, ...) joins every value, including blanks
+  JOIN: withEvaluatedArgs((values) => {
+    if (values.length < 2) throw new FormulaEvaluationError('JOIN expects a delimiter and at least one value');
+    return textItems(values.slice(1)).join(toText(values[0]));
+  }),
+
+  // TEXTJOIN(delimiter, ignore_empty, text1, ...)
+  TEXTJOIN: withEvaluatedArgs((values) => {
+    if (values.length < 3) throw new FormulaEvaluationError('TEXTJOIN expects at least 3 arguments');
+    const ignoreEmpty = toBoolean(values[1]);
+    const items = textItems(values.slice(2)).filter((item) => !ignoreEmpty || item !== '');
+    return items.join(toText(values[0]));
+  }),
+
+  REPT: withEvaluatedArgs((values) => {
+    expectArgs('REPT', values, 2, 2);
+    const count = Math.trunc(toNumber(values[1]));
+    if (count < 0) throw invalidArgument('REPT number_times cannot be negative');
+    const text = toText(values[0]);
+    // Cap the result like Excel does (32,767 characters)
+    if (text.length * count > 32767) throw invalidArgument('REPT result is too long');
+    return text.repeat(count);
+  }),
+
+  // VALUE(text) converts text that looks like a number ("1,200", "$5", "15%") to a number
+  VALUE: withEvaluatedArgs((values) => {
+    expectArgs('VALUE', values, 1, 1);
+    const value = toScalar(values[0]);
+    if (isNumeric(value)) return Number(value);
+    const number = parseNumericText(toText(value)) ?? parseDateText(toText(value));
+    if (number === null) throw invalidArgument(`"${toText(value)}" is not a number`);
+    return number;
+  }),
+
+  // TEXT(value, format_text), e.g. TEXT(1234.5, "#,##0.00") -> "1,234.50", TEXT(A1, "mmm d, yyyy")
+  TEXT: withEvaluatedArgs((values) => {
+    expectArgs('TEXT', values, 2, 2);
+    const value = toScalar(values[0]);
+    const format = toText(values[1]);
+
+    if (isDateFormat(format)) {
+      const serial = value instanceof DateValue || typeof value === 'number' ? Number(value) : parseDateText(toText(value));
+      if (serial !== null) return formatDate(serial, format);
+    }
+
+    const number = isNumeric(value) ? Number(value) : parseNumericText(toText(value));
+    if (number === null) {
+      // Text passes through; "@" in the format stands for the text itself
+      return format.includes('@') ? format.replace(/@/g, toText(value)) : toText(value);
+    }
+    return formatNumber(number, format);
+  }),
+};
@@ -0,0 +1,66 @@
+import type { AstNode } from '../ast';
+import { CircularReferenceError } from '../evaluationPass';
+import type { StockQuote } from '../stocks';
+import { FormulaEvaluationError, FormulaValue, isArray, isRange, mapElements, raiseIfError, ScalarValue } from '../values';
+
+// Arguments are passed unevaluated so functions like IF can skip the branch they don't take
+export interface FunctionInvocation {
+  args: AstNode[];
+  evaluate: (node: AstNode) => Promise<FormulaValue>;
+  getStockQuote: (symbol: string) => Promise<StockQuote>;
+}
+
+export type FormulaFunction = (invocation: FunctionInvocation) => Promise<FormulaValue>;
+
+// Wrap a function that just needs all of its arguments evaluated, left to right.
+// An error passed as an argument is the function's result; errors inside ranges
+// are left to the function.
+export function withEvaluatedArgs(handler: (values: FormulaValue[]) => FormulaValue): FormulaFunction {
+  return async ({ args, evaluate }) => {
+    const values: FormulaValue[] = [];
+    for (const arg of args) {
+      const value = await evaluate(arg);
+      if (!isRange(value)) raiseIfError(value);
+      values.push(value);
+    }
+    return handler(values);
+  };
+}
+
+// Wrap a function of single values so it also takes ranges, applied element by
+// element (=ROUND(A1:A10, 2) gives a range of rounded values)
+export function withElementwiseArgs(
+  name: string,
+  min: number,
+  max: number,
+  handler: (values: ScalarValue[]) => ScalarValue
+): FormulaFunction {
+  return withEvaluatedArgs((values) => {
+    expectArgs(name, values, min, max);
+    if (values.some(isArray)) return mapElements(values, handler);
+    return handler(values.map((value) => (isRange(value) ? value.rows[0][0] : value)));
+  });
+}
+
+// Evaluate an argument for functions that inspect errors instead of passing them
+// on: a raised error comes back as its error value. Cycles still propagate.
+export async function evaluateCatchingErrors(
+  evaluate: FunctionInvocation['evaluate'],
+  node: AstNode
+): Promise<FormulaValue> {
+  try {
+    return await evaluate(node);
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError && !(error instanceof CircularReferenceError)) {
+      return error.toValue();
+    }
+    throw error;
+  }
+}
+
+export function expectArgs(name: string, values: FormulaValue[], min: number, max: number) {
+  if (values.length < min || values.length > max) {
+    const expected = min === max ? `${min}` : `${min} to ${max}`;
+    throw new FormulaEvaluationError(`${name} expects ${expected} arguments`);
+  }
+}
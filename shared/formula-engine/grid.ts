@@ -0,0 +1,319 @@
+import { AstNode } from './ast';
+import { parseFormula } from './parser';
+import { parseCellValue } from './cellValues';
+import { resolveColumnReferences } from './columnReferences';
+import { findByName } from './formulaText';
+import { resolveHierarchyFunctions } from './hierarchy';
+import { resolveNamedRanges } from './namedRanges';
+import { ScalarValue } from './values';
+import { SpillArea, spillAreaCovers, spillRowsOf } from './spill';
+import type { StockQuote } from './stocks';
+
+// The parts of a sheet's columns, rows and cells that formulas read
+export interface GridColumn {
+  id: string;
+  name: string;
+  type: string;
+}
+
+export interface GridRow {
+  id: string;
+  parentRowId?: string | null;
+}
+
+export interface GridCell {
+  id: string;
+  rowId: string;
+  columnId: string;
+  // JSON-encoded, as stored: the typed value, or the last result of the formula
+  value: string | null;
+  formula: string | null;
+  computedValue: string | null;
+  formulaAuthorId?: string | null;
+}
+
+export interface GridNamedRange {
+  name: string;
+  range: string;
+}
+
+// Grid position of the cell that holds a formula
+export interface FormulaPosition {
+  columnIndex: number;
+  rowIndex: number;
+}
+
+/**
+ * Raised for values this grid can't compute - another sheet's cells or stock
+ * prices in the browser. The formula's result is left to the server.
+ */
+export class FormulaUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaUnavailableError';
+  }
+}
+
+/**
+ * In-memory snapshot of a sheet's cells, indexed by grid position, that
+ * formulas are evaluated against. The server loads it from the database and
+ * the browser builds it from the sheet it already has, so both evaluate
+ * formulas the same way.
+ */
+export class FormulaGrid<C extends GridCell = GridCell> {
+  private cellsByPosition = new Map<string, C>();
+  private cellsById = new Map<string, C>();
+  private columnIndexById: Map<string, number>;
+  private rowIndexById: Map<string, number>;
+  private rangeByName: Map<string, string>;
+  private childRowIndices = new Map<string, number[]>();
+  // Where each formula's result currently spills, by the formula's cell id
+  private spillAreas = new Map<string, SpillArea>();
+  // Areas spills covered before they moved, grew or shrank - formulas reading
+  // them may need recalculating
+  private releasedSpillAreas: { anchorId: string; area: SpillArea }[] = [];
+  private resizedSpills = new Set<string>();
+
+  constructor(
+    public readonly sheetId: string,
+    public readonly columns: GridColumn[],
+    public readonly rows: GridRow[],
+    cells: C[],
+    namedRanges: GridNamedRange[] = []
+  ) {
+    this.columnIndexById = new Map(columns.map((column, index) => [column.id, index]));
+    this.rangeByName = new Map(namedRanges.map((namedRange) => [namedRange.name.toUpperCase(), namedRange.range]));
+    this.rowIndexById = new Map(rows.map((row, index) => [row.id, index]));
+    rows.forEach((row, index) => {
+      if (!row.parentRowId) return;
+      const siblings = this.childRowIndices.get(row.parentRowId) ?? [];
+      siblings.push(index);
+      this.childRowIndices.set(row.parentRowId, siblings);
+    });
+    cells.forEach((cell) => this.setCell(cell));
+  }
+
+  // Replace a cell after it was saved, so later evaluations see the new contents
+  setCell(cell: C) {
+    this.cellsByPosition.set(`${cell.rowId}:${cell.columnId}`, cell);
+    this.cellsById.set(cell.id, cell);
+    this.replaceSpillArea(cell.id, this.storedSpillArea(cell));
+  }
+
+  // Take out a cell that was only put in for an evaluation, like a what-if input in an empty cell
+  removeCell(cellId: string) {
+    const cell = this.cellsById.get(cellId);
+    if (!cell) return;
+    this.cellsById.delete(cellId);
+    this.cellsByPosition.delete(`${cell.rowId}:${cell.columnId}`);
+    this.replaceSpillArea(cellId, null);
+  }
+
+  getCellById(cellId: string): C | undefined {
+    return this.cellsById.get(cellId);
+  }
+
+  rowIndexOf(rowId: string): number | null {
+    return this.rowIndexById.get(rowId) ?? null;
+  }
+
+  // Where a formula cell sits in the grid, or null if it isn't in this sheet
+  positionOf(cell: C): FormulaPosition | null {
+    const columnIndex = this.columnIndexById.get(cell.columnId);
+    const rowIndex = this.rowIndexById.get(cell.rowId);
+    return columnIndex === undefined || rowIndex === undefined ? null : { columnIndex, rowIndex };
+  }
+
+  parentRowIndex(rowIndex: number): number | null {
+    const parentId = this.rows[rowIndex]?.parentRowId;
+    return parentId ? this.rowIndexOf(parentId) : null;
+  }
+
+  // Direct children of a row, in sheet order
+  childRowIndicesOf(rowIndex: number): number[] {
+    const row = this.rows[rowIndex];
+    return row ? this.childRowIndices.get(row.id) ?? [] : [];
+  }
+
+  // Column index for a [Column] reference: "#<columnId>" as stored, or a column name
+  resolveColumn(column: string): number | null {
+    if (column.startsWith('#')) {
+      const index = this.columnIndexById.get(column.slice(1));
+      if (index !== undefined) return index;
+    }
+    const match = findByName(this.columns, column);
+    return match ? this.columnIndexById.get(match.id)! : null;
+  }
+
+  /**
+   * Parse a formula for evaluation in the given cell, resolving [Column]
+   * references against this sheet's columns ([Column]@row needs the row), names
+   * against its named ranges and CHILDREN()/PARENT()/... against its row hierarchy.
+   */
+  parseCellFormula(formula: string, position: FormulaPosition | null): AstNode {
+    const withColumns = resolveColumnReferences(parseFormula(formula), {
+      resolveColumn: (column) => this.resolveColumn(column),
+      currentRowIndex: position?.rowIndex ?? null,
+      rowCount: this.rows.length,
+    });
+    const ast = resolveNamedRanges(withColumns, (name) => this.rangeByName.get(name.toUpperCase()) ?? null);
+    return resolveHierarchyFunctions(ast, {
+      parentRowIndex: (rowIndex) => this.parentRowIndex(rowIndex),
+      childRowIndices: (rowIndex) => this.childRowIndicesOf(rowIndex),
+      currentCell: position,
+    });
+  }
+
+  isInSheet(columnIndex: number, rowIndex: number): boolean {
+    return columnIndex < this.columns.length && rowIndex < this.rows.length;
+  }
+
+  getCell(columnIndex: number, rowIndex: number): C | undefined {
+    const column = this.columns[columnIndex];
+    const row = this.rows[rowIndex];
+    if (!column || !row) return undefined;
+    return this.cellsByPosition.get(`${row.id}:${column.id}`);
+  }
+
+  get cells(): C[] {
+    return Array.from(this.cellsByPosition.values());
+  }
+
+  // What a cell shows without evaluating it: formula cells give their stored
+  // result, and empty cells a spill covers the value spilled into them
+  getStoredValue(columnIndex: number, rowIndex: number): ScalarValue {
+    const cell = this.getCell(columnIndex, rowIndex);
+    const anchor = this.spillAnchorAt(columnIndex, rowIndex);
+    if (anchor) {
+      const area = this.spillAreas.get(anchor.id)!;
+      const rows = this.storedSpillRows(anchor);
+      const value = rows?.[rowIndex - area.rowIndex]?.[columnIndex - area.columnIndex] ?? null;
+      return parseCellValue(JSON.stringify(value), this.columns[columnIndex].type);
+    }
+    if (!cell) return null;
+    return parseCellValue(cell.formula ? cell.computedValue : cell.value, this.columns[columnIndex].type);
+  }
+
+  // Cells without a formula or a value, which spills can flow into
+  isEmptyAt(columnIndex: number, rowIndex: number): boolean {
+    const cell = this.getCell(columnIndex, rowIndex);
+    return !cell || (!cell.formula && parseCellValue(cell.value) === null);
+  }
+
+  // The formula cell whose result spills into this (empty) position, if any
+  spillAnchorAt(columnIndex: number, rowIndex: number): C | undefined {
+    if (!this.isEmptyAt(columnIndex, rowIndex)) return undefined;
+    for (const [anchorId, area] of this.spillAreas) {
+      const isAnchor = area.columnIndex === columnIndex && area.rowIndex === rowIndex;
+      if (!isAnchor && spillAreaCovers(area, columnIndex, rowIndex)) return this.cellsById.get(anchorId);
+    }
+    return undefined;
+  }
+
+  // Whether a result can spill over the area: it has to fit in the sheet, and
+  // every cell but the anchor has to be empty and outside other spills
+  canSpill(anchorId: string, area: SpillArea): boolean {
+    if (!this.isInSheet(area.columnIndex + area.width - 1, area.rowIndex + area.height - 1)) return false;
+
+    for (let row = area.rowIndex; row < area.rowIndex + area.height; row++) {
+      for (let col = area.columnIndex; col < area.columnIndex + area.width; col++) {
+        if (row === area.rowIndex && col === area.columnIndex) continue;
+        if (!this.isEmptyAt(col, row)) return false;
+        for (const [otherId, other] of this.spillAreas) {
+          if (otherId !== anchorId && spillAreaCovers(other, col, row)) return false;
+        }
+      }
+    }
+    return true;
+  }
+
+  // Record where a formula's result spills after evaluating it (null when it no longer spills)
+  setSpillArea(anchorId: string, area: SpillArea | null) {
+    if (this.replaceSpillArea(anchorId, area)) {
+      this.resizedSpills.add(anchorId);
+    }
+  }
+
+  // Spills this grid has seen, with the areas they covered before moving
+  knownSpillAreas(): { anchorId: string; area: SpillArea }[] {
+    const current = Array.from(this.spillAreas, ([anchorId, area]) => ({ anchorId, area }));
+    return [...current, ...this.releasedSpillAreas];
+  }
+
+  // Formula cells whose spill area changed since the last call
+  takeResizedSpills(): string[] {
+    const resized = Array.from(this.resizedSpills);
+    this.resizedSpills.clear();
+    return resized;
+  }
+
+  // Run an evaluation whose results aren't kept, like a what-if, and put the
+  // spill areas back the way they were afterwards, even if it fails
+  async keepingSpills<T>(evaluate: () => Promise<T>): Promise<T> {
+    const spillAreas = new Map(this.spillAreas);
+    const releasedSpillAreas = [...this.releasedSpillAreas];
+    const resizedSpills = new Set(this.resizedSpills);
+    try {
+      return await evaluate();
+    } finally {
+      this.spillAreas = spillAreas;
+      this.releasedSpillAreas = releasedSpillAreas;
+      this.resizedSpills = resizedSpills;
+    }
+  }
+
+  // Value of a cell in another sheet ({Sheet}!A1), read by a formula written by `authorId`
+  async getLinkedCellValue(
+    sheet: string,
+    _columnIndex: number,
+    _rowIndex: number,
+    _authorId: string | null
+  ): Promise<ScalarValue> {
+    throw new FormulaUnavailableError(`Sheet ${sheet} can't be read here`);
+  }
+
+  // Latest market data for a ticker symbol ($AAPL, STOCK("AAPL", "change"))
+  async getStockQuote(symbol: string): Promise<StockQuote> {
+    throw new FormulaUnavailableError(`The quote for ${symbol} can't be looked up here`);
+  }
+
+  // The values a formula cell's stored result spilled, if it did
+  private storedSpillRows(cell: C): unknown[][] | null {
+    if (!cell.formula || !cell.computedValue) return null;
+    try {
+      return spillRowsOf(JSON.parse(cell.computedValue));
+    } catch {
+      return null;
+    }
+  }
+
+  private storedSpillArea(cell: C): SpillArea | null {
+    const rows = this.storedSpillRows(cell);
+    const position = this.positionOf(cell);
+    if (!position || !rows || rows.length === 0) return null;
+    return { ...position, height: rows.length, width: rows[0].length };
+  }
+
+  // Returns whether the area changed
+  private replaceSpillArea(anchorId: string, area: SpillArea | null): boolean {
+    const current = this.spillAreas.get(anchorId);
+    const same = current && area
+      ? current.columnIndex === area.columnIndex && current.rowIndex === area.rowIndex &&
+        current.height === area.height && current.width === area.width
+      : !current && !area;
+    if (same) return false;
+
+    if (current) this.releasedSpillAreas.push({ anchorId, area: current });
+    if (area) {
+      this.spillAreas.set(anchorId, area);
+    } else {
+      this.spillAreas.delete(anchorId);
+    }
+    return true;
+  }
+
+  // Called with the formulas that evaluate to an error, and why - including
+  // failures that aren't formula errors and point at a bug in the engine. The
+  // shared engine doesn't log anything; subclasses decide where reports go.
+  reportError(_formula: string, _error: Error) {}
+}
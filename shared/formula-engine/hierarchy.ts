@@ -0,0 +1,106 @@
+import { AstNode, CellReference } from './ast';
+
+// What resolving CHILDREN(), PARENT(), ANCESTORS() and DESCENDANTS() needs to know about the sheet
+export interface HierarchyResolver {
+  // Grid index of a row's parent, or null for top-level rows
+  parentRowIndex(rowIndex: number): number | null;
+  // Grid indices of a row's direct children, in sheet order
+  childRowIndices(rowIndex: number): number[];
+  // Cell holding the formula; the functions use it when called without a reference
+  currentCell: { columnIndex: number; rowIndex: number } | null;
+}
+
+const HIERARCHY_FUNCTIONS = ['CHILDREN', 'PARENT', 'ANCESTORS', 'DESCENDANTS'];
+
+function cellAt(columnIndex: number, rowIndex: number): CellReference {
+  return { columnIndex, rowIndex, absoluteColumn: true, absoluteRow: true };
+}
+
+function ancestorRows(rowIndex: number, resolver: HierarchyResolver): number[] {
+  const ancestors: number[] = [];
+  const seen = new Set([rowIndex]);
+  let parent = resolver.parentRowIndex(rowIndex);
+  // Nearest first; stop on a (corrupt) cycle instead of looping forever
+  while (parent !== null && !seen.has(parent)) {
+    ancestors.push(parent);
+    seen.add(parent);
+    parent = resolver.parentRowIndex(parent);
+  }
+  return ancestors;
+}
+
+function descendantRows(rowIndex: number, resolver: HierarchyResolver): number[] {
+  const descendants: number[] = [];
+  const seen = new Set([rowIndex]);
+  // Depth first, so descendants come out in the order the sheet shows them
+  const visit = (parent: number) => {
+    for (const child of resolver.childRowIndices(parent)) {
+      if (seen.has(child)) continue;
+      seen.add(child);
+      descendants.push(child);
+      visit(child);
+    }
+  };
+  visit(rowIndex);
+  return descendants;
+}
+
+function resolveHierarchyFunction(name: string, args: AstNode[], resolver: HierarchyResolver): AstNode {
+  // The reference picks the row and the column: CHILDREN([Done]@row), or the formula's own cell
+  let target: { columnIndex: number; rowIndex: number } | null;
+  if (args.length === 0) {
+    target = resolver.currentCell;
+    if (!target) return { type: 'error', code: '#REF!' };
+  } else if (args.length === 1 && args[0].type === 'cell') {
+    target = args[0].ref;
+  } else {
+    return { type: 'error', code: '#VALUE!' };
+  }
+
+  const { columnIndex, rowIndex } = target;
+  switch (name) {
+    case 'PARENT': {
+      const parent = resolver.parentRowIndex(rowIndex);
+      // Top-level rows have no parent; read it as a blank cell
+      return parent === null ? { type: 'empty' } : { type: 'cell', ref: cellAt(columnIndex, parent) };
+    }
+    case 'CHILDREN':
+      return { type: 'cellList', refs: resolver.childRowIndices(rowIndex).map((row) => cellAt(columnIndex, row)) };
+    case 'ANCESTORS':
+      return { type: 'cellList', refs: ancestorRows(rowIndex, resolver).map((row) => cellAt(columnIndex, row)) };
+    default:
+      return { type: 'cellList', refs: descendantRows(rowIndex, resolver).map((row) => cellAt(columnIndex, row)) };
+  }
+}
+
+/**
+ * Replace CHILDREN(), PARENT(), ANCESTORS() and DESCENDANTS() with the cells they
+ * cover in the current row hierarchy, so `=SUM(CHILDREN())` is tracked like any
+ * other reference. Run after [Column] references are resolved, and again
+ * whenever rows are indented or outdented.
+ */
+export function resolveHierarchyFunctions(node: AstNode, resolver: HierarchyResolver): AstNode {
+  switch (node.type) {
+    case 'unary':
+      return { ...node, operand: resolveHierarchyFunctions(node.operand, resolver) };
+
+    case 'binary':
+      return {
+        ...node,
+        left: resolveHierarchyFunctions(node.left, resolver),
+        right: resolveHierarchyFunctions(node.right, resolver),
+      };
+
+    case 'function': {
+      // Arguments first, so CHILDREN(PARENT()) sees a plain cell
+      const args = node.args.map((arg) => resolveHierarchyFunctions(arg, resolver));
+      const name = node.name.toUpperCase();
+      return HIERARCHY_FUNCTIONS.includes(name)
+        ? resolveHierarchyFunction(name, args, resolver)
+        : { ...node, args };
+    }
+
+    default:
+      return node;
+  }
+}
@@ -0,0 +1,36 @@
+// Formula engine shared by the backend and the browser: parsing, evaluation,
+// dependency tracking and the formula text rewrites both sides need
+
+export { FormulaEngine, evaluateCells, dependentsInOrder } from './engine';
+export type { RecalculatedCell } from './engine';
+export { FormulaGrid, FormulaUnavailableError } from './grid';
+export type { FormulaPosition, GridCell, GridColumn, GridNamedRange, GridRow } from './grid';
+export { SpillValue, spillRowsOf } from './spill';
+export type { FormulaResult, SpillArea } from './spill';
+export { EvaluationPass } from './evaluationPass';
+export { traceCell, tracedCell } from './trace';
+export type { TraceDirection, TracedCell } from './trace';
+export { MAX_DATA_TABLE_RESULTS, dataTable, evaluateWithValues, goalSeek } from './whatIf';
+export type { DataTableInput, GoalSeekResult, WhatIfValue } from './whatIf';
+export { FUNCTION_CATALOG, findFunctionInfo, formulaFunctionNames } from './functions';
+export type { FunctionCategory, FunctionInfo } from './functions';
+export { STOCK_ATTRIBUTES, usesStockQuotes } from './stocks';
+export type { StockAttribute, StockQuote } from './stocks';
+export { VOLATILE_FUNCTIONS, usesVolatileFunctions } from './volatile';
+export { parseFormula } from './parser';
+export { FormulaSyntaxError } from './tokenizer';
+export type { AstNode, CellReference } from './ast';
+export { columnIndexToLetters, parseCellReference } from './ast';
+export { MAX_AREA_CELLS } from './references';
+export { FormulaEvaluationError } from './values';
+export { decimalAdd, decimalDivide, decimalMultiply, decimalSubtract, decimalSum, formatFixed } from './decimal';
+export type { ScalarValue } from './values';
+export { ERROR_CODES, ERROR_DESCRIPTIONS, ErrorValue, isErrorCode } from './errors';
+export type { ErrorCode } from './errors';
+export { displayColumnReferences, storeColumnReferences } from './columnReferences';
+export { displaySheetReferences, referencedSheetIds, storeSheetReferences } from './sheetReferences';
+export { findByName, referenceNames } from './formulaText';
+export type { NamedItem } from './formulaText';
+export { rewriteFormulaReferences, rewriteRangeText } from './structuralEdits';
+export type { StructuralEdit } from './structuralEdits';
+export { invalidNameReason, parseRangeText, renameInFormula, usesName } from './namedRanges';
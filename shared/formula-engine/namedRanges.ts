@@ -0,0 +1,98 @@
+import { AstNode, CellReference, parseCellReference } from './ast';
+import { tokenize } from './tokenizer';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+const MAX_NAME_LENGTH = 255;
+
+// Why a named range can't be called this, or null if it can. Names must read as a
+// bare name in formulas: not a cell reference (A1), boolean or anything else.
+export function invalidNameReason(name: string): string | null {
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `Names must be 1 to ${MAX_NAME_LENGTH} characters long`;
+  }
+  if (!NAME_PATTERN.test(name)) {
+    return 'Names must start with a letter or underscore and contain only letters, digits, underscores and periods';
+  }
+  const upper = name.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE' || parseCellReference(name)) {
+    return `"${name}" can't be used as a name because it reads as a value or cell reference`;
+  }
+  return null;
+}
+
+// The cell or range a named range's text ("B2", "$C$2:$C$20") covers, or null if it isn't one
+export function parseRangeText(range: string): { start: CellReference; end: CellReference } | null {
+  const [startText, endText, ...rest] = range.trim().split(':');
+  if (rest.length > 0) return null;
+  const start = parseCellReference(startText.trim());
+  const end = endText === undefined ? start : parseCellReference(endText.trim());
+  return start && end ? { start, end } : null;
+}
+
+/**
+ * Replace names (=TaxRate*2, =SUM(Q1Sales)) with the cell or range they stand
+ * for. `lookup` gives a name's range text, case-insensitively, or null for names
+ * that aren't defined - those stay and evaluate to #NAME?. A range whose cells
+ * were deleted is #REF!.
+ */
+export function resolveNamedRanges(node: AstNode, lookup: (name: string) => string | null): AstNode {
+  switch (node.type) {
+    case 'name': {
+      const range = lookup(node.name);
+      if (range === null) return node;
+      const area = parseRangeText(range);
+      if (!area) return { type: 'error', code: '#REF!' };
+      return area.start === area.end ? { type: 'cell', ref: area.start } : { type: 'range', ...area };
+    }
+
+    case 'unary':
+      return { ...node, operand: resolveNamedRanges(node.operand, lookup) };
+
+    case 'binary':
+      return {
+        ...node,
+        left: resolveNamedRanges(node.left, lookup),
+        right: resolveNamedRanges(node.right, lookup),
+      };
+
+    case 'function':
+      return { ...node, args: node.args.map((arg) => resolveNamedRanges(arg, lookup)) };
+
+    default:
+      return node;
+  }
+}
+
+// Where formula text uses a name, which is matched case-insensitively
+function namePositions(formula: string, name: string): number[] {
+  const start = formula.match(/^\s*=?/)![0].length;
+  let tokens;
+  try {
+    tokens = tokenize(formula, start);
+  } catch {
+    return [];
+  }
+
+  // Identifiers followed by "(" are function calls, not names
+  return tokens.flatMap((token, index) =>
+    token.type === 'identifier' && token.value === name.toUpperCase() && tokens[index + 1].type !== 'lparen'
+      ? [token.position]
+      : []
+  );
+}
+
+// Whether formula text uses a name, so it's recalculated when the name is defined, changed or removed
+export function usesName(formula: string, name: string): boolean {
+  return namePositions(formula, name).length > 0;
+}
+
+// Formula text with a renamed range's old name replaced, so formulas using it keep working
+export function renameInFormula(formula: string, oldName: string, newName: string): string {
+  let result = '';
+  let copiedUpTo = 0;
+  for (const position of namePositions(formula, oldName)) {
+    result += formula.slice(copiedUpTo, position) + newName;
+    copiedUpTo = position + oldName.length;
+  }
+  return result + formula.slice(copiedUpTo);
+}
@@ -0,0 +1,252 @@
+import { AstNode, BinaryOperator, CellReference, ColumnReference, parseCellReference, parseColumnReference } from './ast';
+import type { ErrorCode } from './errors';
+import { FormulaSyntaxError, Token, tokenize } from './tokenizer';
+
+// Binary operator precedence, lowest first (matches Excel)
+const PRECEDENCE: Record<string, number> = {
+  '=': 1,
+  '<>': 1,
+  '<': 1,
+  '>': 1,
+  '<=': 1,
+  '>=': 1,
+  '&': 2,
+  '+': 3,
+  '-': 3,
+  '*': 4,
+  '/': 4,
+  '^': 5,
+};
+
+// Limits on untrusted formula text: Excel's maximum formula length, and a nesting
+// depth (parentheses, function calls, unary operators) well past anything real
+// formulas use, so hostile input can't exhaust the stack while parsing or evaluating
+const MAX_FORMULA_LENGTH = 8192;
+const MAX_NESTING = 100;
+
+// Recursive descent parser with precedence climbing for binary operators
+class Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): AstNode {
+    if (this.peek().type === 'eof') {
+      throw new FormulaSyntaxError('Formula is empty', this.peek().position);
+    }
+
+    const node = this.parseExpression(1);
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new FormulaSyntaxError(`Unexpected "${next.value}"`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private expect(type: Token['type'], description: string): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'eof' ? 'end of formula' : `"${token.value}"`;
+      throw new FormulaSyntaxError(`Expected ${description} but found ${found}`, token.position);
+    }
+    return this.next();
+  }
+
+  private nested<T>(parse: () => T): T {
+    if (++this.depth > MAX_NESTING) {
+      throw new FormulaSyntaxError(`Formula is nested more than ${MAX_NESTING} levels deep`, this.peek().position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  private parseExpression(minPrecedence: number): AstNode {
+    return this.nested(() => this.parseBinary(minPrecedence));
+  }
+
+  private parseBinary(minPrecedence: number): AstNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (token.type !== 'operator' || !(token.value in PRECEDENCE)) break;
+
+      const precedence = PRECEDENCE[token.value];
+      if (precedence < minPrecedence) break;
+
+      this.next();
+      // "^" is left-associative in Excel, like every other binary operator
+      const right = this.parseExpression(precedence + 1);
+      left = { type: 'binary', operator: token.value as BinaryOperator, left, right };
+    }
+
+    return left;
+  }
+
+  // Unary minus binds tighter than "^" in Excel (-2^2 = 4)
+  private parseUnary(): AstNode {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      return { type: 'unary', operator: token.value, operand: this.nested(() => this.parseUnary()) };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): AstNode {
+    let node = this.parsePrimary();
+    while (this.peek().type === 'operator' && this.peek().value === '%') {
+      this.next();
+      node = { type: 'unary', operator: '%', operand: node };
+    }
+    return node;
+  }
+
+  private parsePrimary(): AstNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value) };
+
+      case 'string':
+        return { type: 'string', value: token.value };
+
+      case 'boolean':
+        return { type: 'boolean', value: token.value === 'TRUE' };
+
+      case 'error':
+        return { type: 'error', code: token.value as ErrorCode };
+
+      case 'stock':
+        return { type: 'stock', symbol: token.value };
+
+      case 'cell': {
+        const start = this.toCellReference(token);
+        if (this.peek().type === 'colon') {
+          this.next();
+          const end = this.toCellReference(this.expect('cell', 'a cell reference after ":"'));
+          return { type: 'range', start, end };
+        }
+        return { type: 'cell', ref: start };
+      }
+
+      case 'column':
+        return this.parseColumnReference(token);
+
+      case 'sheet': {
+        const sheet = token.value.slice(1, token.value.lastIndexOf('}')).trim();
+        const start = this.toCellReference(this.expect('cell', `a cell reference after "${token.value}"`));
+        if (this.peek().type === 'colon') {
+          this.next();
+          const end = this.toCellReference(this.expect('cell', 'a cell reference after ":"'));
+          return { type: 'sheetRange', sheet, start, end };
+        }
+        return { type: 'sheetCell', sheet, ref: start };
+      }
+
+      case 'identifier':
+        return this.parseFunctionCall(token);
+
+      case 'lparen': {
+        const inner = this.parseExpression(1);
+        this.expect('rparen', '")"');
+        return inner;
+      }
+
+      case 'eof':
+        throw new FormulaSyntaxError('Unexpected end of formula', token.position);
+
+      default:
+        throw new FormulaSyntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private parseFunctionCall(nameToken: Token): AstNode {
+    // A bare name; evaluation reports it as #NAME? unless it is defined
+    if (this.peek().type !== 'lparen') {
+      return { type: 'name', name: nameToken.value };
+    }
+    this.next();
+
+    const args: AstNode[] = [];
+    if (this.peek().type === 'rparen') {
+      this.next();
+      return { type: 'function', name: nameToken.value, args };
+    }
+
+    while (true) {
+      // An omitted argument, as in XLOOKUP(A1, B:B, C:C, , -1)
+      const next = this.peek().type;
+      args.push(next === 'comma' || next === 'rparen' ? { type: 'empty' } : this.parseExpression(1));
+      const separator = this.peek();
+      if (separator.type === 'comma') {
+        this.next();
+        continue;
+      }
+      if (separator.type === 'rparen') {
+        this.next();
+        break;
+      }
+      this.expect('rparen', `"," or ")" to close ${nameToken.value}(`);
+    }
+
+    return { type: 'function', name: nameToken.value, args };
+  }
+
+  // [Col]@row / [Col]5 are single cells; [Col]:[Col] spans whole columns and [Col]1:[Col]5 a block
+  private parseColumnReference(token: Token): AstNode {
+    const start = this.toColumnReference(token);
+    if (this.peek().type === 'colon') {
+      this.next();
+      const endToken = this.expect('column', 'a column reference after ":"');
+      const end = this.toColumnReference(endToken);
+      if ((start.row === null) !== (end.row === null)) {
+        throw new FormulaSyntaxError('Both ends of a column range need a row, or neither', endToken.position);
+      }
+      return { type: 'columnRange', start, end };
+    }
+    if (start.row === null) {
+      throw new FormulaSyntaxError(`Column reference "${token.value}" needs @row or a row number`, token.position);
+    }
+    return { type: 'columnCell', ref: start };
+  }
+
+  private toColumnReference(token: Token): ColumnReference {
+    const ref = parseColumnReference(token.value);
+    if (!ref) {
+      throw new FormulaSyntaxError(`Invalid column reference "${token.value}"`, token.position);
+    }
+    return ref;
+  }
+
+  private toCellReference(token: Token): CellReference {
+    const ref = parseCellReference(token.value);
+    if (!ref) {
+      throw new FormulaSyntaxError(`Invalid cell reference "${token.value}"`, token.position);
+    }
+    return ref;
+  }
+}
+
+// Parse formula text (with or without the leading "=") into an AST
+export function parseFormula(formula: string): AstNode {
+  if (formula.length > MAX_FORMULA_LENGTH) {
+    throw new FormulaSyntaxError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+  }
+  const match = formula.match(/^\s*=?/);
+  const start = match ? match[0].length : 0;
+  return new Parser(tokenize(formula, start)).parse();
+}
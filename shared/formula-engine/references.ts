@@ -0,0 +1,51 @@
+import { AstNode, CellReference } from './ast';
+
+// A rectangular area read by a formula; single cells have start === end
+export interface ReferencedArea {
+  start: CellReference;
+  end: CellReference;
+}
+
+// Largest area a formula may read; bigger ranges are #REF! rather than
+// allocating (or walking) millions of cells
+export const MAX_AREA_CELLS = 1000000;
+
+export function areaCellCount(start: CellReference, end: CellReference): number {
+  const height = Math.abs(end.rowIndex - start.rowIndex) + 1;
+  const width = Math.abs(end.columnIndex - start.columnIndex) + 1;
+  return height * width;
+}
+
+// Collect every cell/range a formula reads, without evaluating it
+export function collectReferences(node: AstNode): ReferencedArea[] {
+  const areas: ReferencedArea[] = [];
+
+  const visit = (current: AstNode) => {
+    switch (current.type) {
+      case 'cell':
+        areas.push({ start: current.ref, end: current.ref });
+        break;
+      case 'range':
+        areas.push({ start: current.start, end: current.end });
+        break;
+      case 'cellList':
+        current.refs.forEach((ref) => areas.push({ start: ref, end: ref }));
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      case 'function':
+        current.args.forEach(visit);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(node);
+  return areas;
+}
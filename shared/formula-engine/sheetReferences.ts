@@ -0,0 +1,27 @@
+import { findByName, NamedItem, referenceNames, rewriteReferenceNames } from './formulaText';
+
+// Ids of the sheets a stored formula reads through {#<sheetId>}!A1 references
+export function referencedSheetIds(formula: string): string[] {
+  return referenceNames(formula, 'sheet')
+    .filter((sheet) => sheet.startsWith('#'))
+    .map((sheet) => sheet.slice(1));
+}
+
+// Formula text as stored: {Budget}!A1 becomes {#<sheetId>}!A1, looked up among the
+// sheets the formula's author can access. Unknown names are kept and evaluate to #REF!.
+export function storeSheetReferences(formula: string, sheets: NamedItem[]): string {
+  return rewriteReferenceNames(formula, 'sheet', (sheet) => {
+    if (sheet.startsWith('#')) return null;
+    const match = findByName(sheets, sheet);
+    return match ? `#${match.id}` : null;
+  });
+}
+
+// Formula text as shown to users: stored sheet ids become the sheets' current names
+export function displaySheetReferences(formula: string, sheets: NamedItem[]): string {
+  return rewriteReferenceNames(formula, 'sheet', (sheet) => {
+    if (!sheet.startsWith('#')) return null;
+    const match = sheets.find((candidate) => candidate.id === sheet.slice(1));
+    return match ? match.name : null;
+  });
+}
@@ -0,0 +1,73 @@
+// Dynamic arrays: a formula whose result is a range (=UNIQUE(A2:A50),
+// =SEQUENCE(5)) spills it into the cells below and to the right of its own
+
+import { ScalarValue } from './values';
+
+// Largest result a formula may spill; it's stored with the formula's cell
+export const MAX_SPILL_CELLS = 100000;
+
+// The block of cells a spilled result covers, anchored at the formula's cell
+export interface SpillArea {
+  columnIndex: number;
+  rowIndex: number;
+  height: number;
+  width: number;
+}
+
+/**
+ * The result of a formula that spilled. Stored as {"spill": [[...]]} on the
+ * formula's (anchor) cell; the anchor shows the top-left value and the other
+ * cells of the area echo the rest.
+ */
+export class SpillValue {
+  constructor(public readonly rows: ScalarValue[][]) {}
+
+  get height(): number {
+    return this.rows.length;
+  }
+
+  get width(): number {
+    return this.rows.length > 0 ? this.rows[0].length : 0;
+  }
+
+  // Value `rowOffset` rows down and `columnOffset` columns right of the anchor
+  valueAt(rowOffset: number, columnOffset: number): ScalarValue {
+    return this.rows[rowOffset]?.[columnOffset] ?? null;
+  }
+
+  toJSON(): { spill: ScalarValue[][] } {
+    return { spill: this.rows };
+  }
+}
+
+// What a formula cell evaluates to: a single value, or a range that spilled
+export type FormulaResult = ScalarValue | SpillValue;
+
+// The rows of a parsed spill result ({"spill": [[...]]}), or null for any other result
+export function spillRowsOf(result: unknown): unknown[][] | null {
+  if (typeof result !== 'object' || result === null || !('spill' in result)) return null;
+  const rows = (result as { spill: unknown }).spill;
+  return Array.isArray(rows) && rows.every(Array.isArray) ? (rows as unknown[][]) : null;
+}
+
+export function spillAreaCovers(area: SpillArea, columnIndex: number, rowIndex: number): boolean {
+  return (
+    rowIndex >= area.rowIndex &&
+    rowIndex < area.rowIndex + area.height &&
+    columnIndex >= area.columnIndex &&
+    columnIndex < area.columnIndex + area.width
+  );
+}
+
+// Every position of the area except the anchor's own
+export function spilledPositions(area: SpillArea): { columnIndex: number; rowIndex: number }[] {
+  const positions: { columnIndex: number; rowIndex: number }[] = [];
+  for (let row = area.rowIndex; row < area.rowIndex + area.height; row++) {
+    for (let col = area.columnIndex; col < area.columnIndex + area.width; col++) {
+      if (row !== area.rowIndex || col !== area.columnIndex) {
+        positions.push({ columnIndex: col, rowIndex: row });
+      }
+    }
+  }
+  return positions;
+}
@@ -0,0 +1,43 @@
+import { parseFormula } from './parser';
+import { AstNode } from './ast';
+import { FormulaSyntaxError } from './tokenizer';
+
+// A stock's latest quote, as market data providers report it
+export interface StockQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  // ISO time the quote is from
+  timestamp: string;
+}
+
+// Attributes STOCK(symbol, attribute) can read; $AAPL is the price
+export const STOCK_ATTRIBUTES = ['price', 'change', 'changePercent', 'timestamp'] as const;
+export type StockAttribute = (typeof STOCK_ATTRIBUTES)[number];
+
+function readsStocks(node: AstNode): boolean {
+  switch (node.type) {
+    case 'stock':
+      return true;
+    case 'function':
+      return node.name.toUpperCase() === 'STOCK' || node.args.some(readsStocks);
+    case 'unary':
+      return readsStocks(node.operand);
+    case 'binary':
+      return readsStocks(node.left) || readsStocks(node.right);
+    default:
+      return false;
+  }
+}
+
+// Whether a formula reads market data ($AAPL or STOCK()), so its result goes
+// stale as prices move
+export function usesStockQuotes(formula: string): boolean {
+  try {
+    return readsStocks(parseFormula(formula));
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,193 @@
+import { CellReference, columnIndexToLetters, parseCellReference } from './ast';
+import { Token, tokenize } from './tokenizer';
+
+// Rows or columns inserted into or deleted from a sheet
+export interface StructuralEdit {
+  axis: 'row' | 'column';
+  kind: 'insert' | 'delete';
+  // Grid index of the first inserted or deleted row/column, and how many
+  index: number;
+  count: number;
+  // Ids of deleted columns, so [#<columnId>] references to them become #REF!
+  columnIds?: string[];
+}
+
+const REF_ERROR = '#REF!';
+
+// Where a row/column index ends up after the edit, or null if it was deleted
+export function shiftIndex(index: number, edit: StructuralEdit): number | null {
+  if (index < edit.index) return index;
+  if (edit.kind === 'insert') return index + edit.count;
+  return index < edit.index + edit.count ? null : index - edit.count;
+}
+
+/**
+ * Where a span of rows/columns ends up: inserting inside it makes it grow,
+ * deleting part of it makes it shrink, and deleting all of it gives null.
+ */
+export function shiftSpan(first: number, last: number, edit: StructuralEdit): [number, number] | null {
+  const start = Math.min(first, last);
+  const end = Math.max(first, last);
+  if (edit.kind === 'insert') {
+    return [start >= edit.index ? start + edit.count : start, end >= edit.index ? end + edit.count : end];
+  }
+
+  const deletedEnd = edit.index + edit.count;
+  const newStart = start < edit.index ? start : Math.max(start - edit.count, edit.index);
+  const newEnd = end < edit.index ? end : end < deletedEnd ? edit.index - 1 : end - edit.count;
+  return newEnd < newStart ? null : [newStart, newEnd];
+}
+
+function formatCellReference(ref: CellReference): string {
+  return `${ref.absoluteColumn ? '$' : ''}${columnIndexToLetters(ref.columnIndex)}${ref.absoluteRow ? '$' : ''}${ref.rowIndex + 1}`;
+}
+
+/**
+ * An A1 reference or range (`text`, with start === end for a single cell) after
+ * the edit: unchanged text if it didn't move, null if it was deleted. $ markers
+ * are kept - they matter when a formula is copied, not when the grid changes under it.
+ */
+function rewriteArea(start: CellReference, end: CellReference, text: string, edit: StructuralEdit): string | null {
+  const key = edit.axis === 'row' ? 'rowIndex' : 'columnIndex';
+  if (start === end) {
+    const index = shiftIndex(start[key], edit);
+    if (index === null) return null;
+    return index === start[key] ? text : formatCellReference({ ...start, [key]: index });
+  }
+
+  const span = shiftSpan(start[key], end[key], edit);
+  if (!span) return null;
+  // Backwards ranges (B3:A1) come back top-left first so the shifted ends line up
+  const [first, last] = start[key] <= end[key] ? [start, end] : [end, start];
+  if (span[0] === first[key] && span[1] === last[key]) return text;
+  return `${formatCellReference({ ...first, [key]: span[0] })}:${formatCellReference({ ...last, [key]: span[1] })}`;
+}
+
+// [Column] reference text after the edit, or null if it now points at nothing
+function rewriteColumnReference(text: string, edit: StructuralEdit): string | null {
+  const close = text.indexOf(']');
+  const column = text.slice(1, close).trim();
+  const rowPart = text.slice(close + 1);
+
+  if (edit.axis === 'column') {
+    const deleted = column.startsWith('#') && edit.columnIds?.includes(column.slice(1));
+    return deleted ? null : text;
+  }
+
+  // Only explicit row numbers ([Amount]5) move with rows; @row and whole columns don't
+  if (!/^\d+$/.test(rowPart)) return text;
+  const row = shiftIndex(parseInt(rowPart, 10) - 1, edit);
+  return row === null ? null : `${text.slice(0, close + 1)}${row + 1}`;
+}
+
+function rewriteColumnRange(startText: string, endText: string, edit: StructuralEdit): string | null {
+  const rowOf = (text: string) => text.slice(text.indexOf(']') + 1);
+  if (edit.axis === 'column' || !/^\d+$/.test(rowOf(startText)) || !/^\d+$/.test(rowOf(endText))) {
+    const start = rewriteColumnReference(startText, edit);
+    const end = rewriteColumnReference(endText, edit);
+    return start === null || end === null ? null : `${start}:${end}`;
+  }
+
+  const span = shiftSpan(parseInt(rowOf(startText), 10) - 1, parseInt(rowOf(endText), 10) - 1, edit);
+  if (!span) return null;
+  const withRow = (text: string, row: number) => `${text.slice(0, text.indexOf(']') + 1)}${row + 1}`;
+  return `${withRow(startText, span[0])}:${withRow(endText, span[1])}`;
+}
+
+/**
+ * Rewrite the references in formula text after rows or columns were inserted or
+ * deleted. `affectsSheet` says which references point into the edited sheet: it
+ * gets the {Sheet} prefix ("#<sheetId>" as stored), or null for references
+ * without one. References to deleted cells become #REF!. Text that doesn't
+ * tokenize is returned unchanged.
+ */
+export function rewriteFormulaReferences(
+  formula: string,
+  edit: StructuralEdit,
+  affectsSheet: (sheet: string | null) => boolean
+): string {
+  const prefix = formula.match(/^\s*=?/)![0].length;
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula, prefix);
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let copiedUpTo = 0;
+  // Replace tokens[from..to] with text (null meaning #REF!)
+  const splice = (from: number, to: number, text: string | null) => {
+    const start = tokens[from].position;
+    const end = tokens[to].position + tokens[to].value.length;
+    result += formula.slice(copiedUpTo, start) + (text ?? REF_ERROR);
+    copiedUpTo = end;
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    // A1 cells and ranges, with or without a {Sheet}! prefix
+    if (token.type === 'sheet' || token.type === 'cell') {
+      const from = i;
+      const sheet = token.type === 'sheet' ? token.value.slice(1, token.value.lastIndexOf('}')).trim() : null;
+      const first = token.type === 'sheet' ? i + 1 : i;
+      if (tokens[first].type !== 'cell') continue;
+      const last = tokens[first + 1].type === 'colon' && tokens[first + 2]?.type === 'cell' ? first + 2 : first;
+      i = last;
+
+      const start = parseCellReference(tokens[first].value);
+      const end = last === first ? start : parseCellReference(tokens[last].value);
+      if (!affectsSheet(sheet) || !start || !end) continue;
+
+      const text = formula.slice(tokens[first].position, tokens[last].position + tokens[last].value.length);
+      const area = rewriteArea(start, end, text, edit);
+      // A deleted area takes its {Sheet}! prefix with it
+      if (area === null) splice(from, last, null);
+      else if (area !== text) splice(first, last, area);
+      continue;
+    }
+
+    // [Column] references and ranges (always in the formula's own sheet)
+    if (token.type === 'column') {
+      const first = i;
+      const last = tokens[i + 1].type === 'colon' && tokens[i + 2]?.type === 'column' ? i + 2 : i;
+      i = last;
+      if (!affectsSheet(null)) continue;
+
+      const text = formula.slice(token.position, tokens[last].position + tokens[last].value.length);
+      const rewritten =
+        last === first
+          ? rewriteColumnReference(token.value, edit)
+          : rewriteColumnRange(token.value, tokens[last].value, edit);
+      if (rewritten !== text) splice(first, last, rewritten);
+    }
+  }
+
+  return result + formula.slice(copiedUpTo);
+}
+
+/**
+ * Rewrite a stored A1 range ("A1:B10", or a comma-separated list of cells and
+ * ranges) after rows or columns were inserted or deleted. Deleted parts are
+ * dropped; if nothing is left the range becomes #REF!. Parts that aren't A1
+ * references are kept as they are.
+ */
+export function rewriteRangeText(range: string, edit: StructuralEdit): string {
+  const parts = range.split(',').map((part) => part.trim());
+  const rewritten: string[] = [];
+
+  for (const part of parts) {
+    const [startText, endText, ...rest] = part.split(':');
+    const start = parseCellReference(startText);
+    const end = endText === undefined ? start : parseCellReference(endText);
+    if (!start || !end || rest.length > 0) {
+      rewritten.push(part);
+      continue;
+    }
+    const area = rewriteArea(start, end, part, edit);
+    if (area !== null) rewritten.push(area);
+  }
+
+  return rewritten.length > 0 ? rewritten.join(',') : REF_ERROR;
+}
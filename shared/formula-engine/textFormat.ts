@@ -0,0 +1,193 @@
+import { serialToDate } from './dates';
+
+// Format a number with an Excel-style format string, as used by TEXT(value, format).
+// Supports 0/# digit placeholders, "," thousands separators, decimals, "%",
+// quoted or backslash-escaped literals and positive;negative;zero sections.
+
+interface FormatToken {
+  kind: 'literal' | 'number';
+  text: string;
+}
+
+// Split a format section into literal text and the run of digit placeholders
+function tokenizeSection(section: string): FormatToken[] {
+  const tokens: FormatToken[] = [];
+  let literal = '';
+  let numberPart = '';
+  let inNumber = false;
+
+  const flushLiteral = () => {
+    if (literal) tokens.push({ kind: 'literal', text: literal });
+    literal = '';
+  };
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i];
+
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1);
+      literal += section.slice(i + 1, end === -1 ? undefined : end);
+      i = end === -1 ? section.length : end;
+      continue;
+    }
+    if (char === '\\' && i + 1 < section.length) {
+      literal += section[++i];
+      continue;
+    }
+
+    const isPlaceholder = char === '0' || char === '#' || char === '?';
+    const continuesNumber = inNumber && (char === ',' || char === '.');
+    if (isPlaceholder || continuesNumber || (char === '.' && /[0#?]/.test(section[i + 1] ?? ''))) {
+      if (!inNumber) {
+        if (numberPart) {
+          // Only the first run of placeholders is formatted; later ones are literal
+          literal += char;
+          continue;
+        }
+        flushLiteral();
+        inNumber = true;
+      }
+      numberPart += char;
+      continue;
+    }
+
+    if (inNumber) {
+      tokens.push({ kind: 'number', text: numberPart });
+      inNumber = false;
+    }
+    literal += char;
+  }
+
+  if (inNumber) tokens.push({ kind: 'number', text: numberPart });
+  flushLiteral();
+  return tokens;
+}
+
+function formatDigits(value: number, pattern: string): string {
+  const [integerPattern, decimalPattern = ''] = pattern.split('.');
+  const decimals = decimalPattern.replace(/[^0#?]/g, '').length;
+  const minDecimals = decimalPattern.replace(/[^0]/g, '').length;
+  const minIntegerDigits = integerPattern.replace(/[^0]/g, '').length;
+  const useThousands = integerPattern.includes(',');
+
+  let [integerText, decimalText = ''] = Math.abs(value).toFixed(decimals).split('.');
+
+  // Optional (#) decimal places drop trailing zeros
+  while (decimalText.length > minDecimals && decimalText.endsWith('0')) {
+    decimalText = decimalText.slice(0, -1);
+  }
+
+  if (integerText === '0' && minIntegerDigits === 0) {
+    integerText = '';
+  }
+  integerText = integerText.padStart(minIntegerDigits, '0');
+  if (useThousands) {
+    integerText = integerText.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  return decimalText ? `${integerText}.${decimalText}` : integerText;
+}
+
+export function formatNumber(value: number, format: string): string {
+  const sections = format.split(';');
+  let section = sections[0];
+  let number = value;
+  let showSign = value < 0;
+
+  if (value < 0 && sections.length > 1 && sections[1] !== '') {
+    section = sections[1];
+    number = Math.abs(value);
+    showSign = false;
+  } else if (value === 0 && sections.length > 2 && sections[2] !== '') {
+    section = sections[2];
+  }
+
+  const tokens = tokenizeSection(section);
+  if (tokens.some((token) => token.kind === 'literal' && token.text.includes('%'))) {
+    number *= 100;
+  }
+
+  const numberToken = tokens.find((token) => token.kind === 'number');
+  if (!numberToken) {
+    return tokens.map((token) => token.text).join('');
+  }
+
+  const digits = formatDigits(number, numberToken.text);
+  const isZero = Number(digits.replace(/,/g, '') || '0') === 0;
+  const body = tokens.map((token) => (token === numberToken ? digits : token.text)).join('');
+  return showSign && !isZero ? `-${body}` : body;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Date/time codes, longest first so "mmmm" wins over "mm"
+const DATE_CODE = /yyyy|yy|mmmm|mmm|mm|m|dddd|ddd|dd|d|hh|h|ss|s|am\/pm|"[^"]*"|\\./gi;
+
+// A format is a date format if it uses date/time codes and no digit placeholders
+export function isDateFormat(format: string): boolean {
+  const unquoted = format.replace(/"[^"]*"|\\./g, '');
+  return /[ymdhs]/i.test(unquoted) && !/[0#?]/.test(unquoted);
+}
+
+// Format a date serial with codes like "yyyy-mm-dd", "mmm d, yyyy" or "h:mm AM/PM"
+export function formatDate(serial: number, format: string): string {
+  const date = serialToDate(serial);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const hours = date.getUTCHours();
+  const twelveHour = /am\/pm/i.test(format);
+  const displayHours = twelveHour ? hours % 12 || 12 : hours;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  let previous = '';
+  return format.replace(DATE_CODE, (code) => {
+    const lower = code.toLowerCase();
+    // "m" right after an hour code means minutes, not month
+    const isMinutes = (lower === 'm' || lower === 'mm') && (previous === 'h' || previous === 'hh');
+    previous = lower.startsWith('"') ? previous : lower;
+
+    if (code.startsWith('"')) return code.slice(1, -1);
+    if (code.startsWith('\\')) return code.slice(1);
+    if (isMinutes) return lower === 'mm' ? pad(date.getUTCMinutes()) : String(date.getUTCMinutes());
+
+    switch (lower) {
+      case 'yyyy':
+        return String(year);
+      case 'yy':
+        return pad(year % 100);
+      case 'mmmm':
+        return MONTH_NAMES[month];
+      case 'mmm':
+        return MONTH_NAMES[month].slice(0, 3);
+      case 'mm':
+        return pad(month + 1);
+      case 'm':
+        return String(month + 1);
+      case 'dddd':
+        return DAY_NAMES[date.getUTCDay()];
+      case 'ddd':
+        return DAY_NAMES[date.getUTCDay()].slice(0, 3);
+      case 'dd':
+        return pad(day);
+      case 'd':
+        return String(day);
+      case 'hh':
+        return pad(displayHours);
+      case 'h':
+        return String(displayHours);
+      case 'ss':
+        return pad(date.getUTCSeconds());
+      case 's':
+        return String(date.getUTCSeconds());
+      case 'am/pm':
+        return hours < 12 ? 'AM' : 'PM';
+      default:
+        return code;
+    }
+  });
+}
@@ -0,0 +1,166 @@
+// Tokenizer for spreadsheet formulas (the part after the leading "=")
+
+import { ERROR_CODES } from './errors';
+
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'cell'
+  | 'column'
+  | 'sheet'
+  | 'identifier'
+  | 'stock'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  position: number; // 0-based offset into the formula text
+}
+
+// Raised for malformed formulas; the message always includes the offending position
+export class FormulaSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'FormulaSyntaxError';
+    this.position = position;
+  }
+}
+
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const CELL_PATTERN = /^\$?[A-Za-z]+\$?\d+/;
+const STOCK_PATTERN = /^\$[A-Za-z]+(?![A-Za-z0-9$])/;
+const SHEET_PATTERN = /^\{[^{}]+\}!/;
+const COLUMN_PATTERN = /^\[[^[\]]+\](?:@row(?![A-Za-z0-9_])|\d+)?/i;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*/;
+
+// Tokenize formula text starting at `start` (so positions stay relative to the full cell text)
+export function tokenize(input: string, start = 0): Token[] {
+  const tokens: Token[] = [];
+  let pos = start;
+
+  while (pos < input.length) {
+    const char = input[pos];
+    const rest = input.slice(pos);
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // String literal - double or single quoted, a doubled quote escapes itself
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = '';
+      pos++;
+      while (true) {
+        if (pos >= input.length) {
+          throw new FormulaSyntaxError('Unterminated string literal', start);
+        }
+        if (input[pos] === char) {
+          if (input[pos + 1] === char) {
+            value += char;
+            pos += 2;
+            continue;
+          }
+          pos++;
+          break;
+        }
+        value += input[pos];
+        pos++;
+      }
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    // Error literal such as #REF! (written into formulas whose references were deleted)
+    const errorCode = char === '#' ? ERROR_CODES.find((code) => rest.toUpperCase().startsWith(code)) : undefined;
+    if (errorCode) {
+      tokens.push({ type: 'error', value: errorCode, position: pos });
+      pos += errorCode.length;
+      continue;
+    }
+
+    // Column-name reference ([Amount]@row, [Amount]5, [Amount])
+    const columnMatch = char === '[' ? rest.match(COLUMN_PATTERN) : null;
+    if (columnMatch) {
+      tokens.push({ type: 'column', value: columnMatch[0], position: pos });
+      pos += columnMatch[0].length;
+      continue;
+    }
+
+    // Another sheet, as the prefix of a cell or range reference ({Budget}!A1:B10)
+    const sheetMatch = char === '{' ? rest.match(SHEET_PATTERN) : null;
+    if (sheetMatch) {
+      tokens.push({ type: 'sheet', value: sheetMatch[0], position: pos });
+      pos += sheetMatch[0].length;
+      continue;
+    }
+
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: numberMatch[0], position: pos });
+      pos += numberMatch[0].length;
+      continue;
+    }
+
+    // Stock ticker (e.g. $AAPL) - checked before cell refs so "$AAPL" is not read as a column
+    const stockMatch = rest.match(STOCK_PATTERN);
+    if (stockMatch) {
+      tokens.push({ type: 'stock', value: stockMatch[0].substring(1).toUpperCase(), position: pos });
+      pos += stockMatch[0].length;
+      continue;
+    }
+
+    // Cell reference (A1, $A$1) unless it is immediately followed by "(" - then it's a function like LOG10
+    const cellMatch = rest.match(CELL_PATTERN);
+    if (cellMatch && input[pos + cellMatch[0].length] !== '(' && !/[A-Za-z0-9_.]/.test(input[pos + cellMatch[0].length] || '')) {
+      tokens.push({ type: 'cell', value: cellMatch[0].toUpperCase(), position: pos });
+      pos += cellMatch[0].length;
+      continue;
+    }
+
+    const identifierMatch = rest.match(IDENTIFIER_PATTERN);
+    if (identifierMatch) {
+      const upper = identifierMatch[0].toUpperCase();
+      const type: TokenType = upper === 'TRUE' || upper === 'FALSE' ? 'boolean' : 'identifier';
+      tokens.push({ type, value: upper, position: pos });
+      pos += identifierMatch[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: pos });
+      pos += operator.length;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: pos });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: pos });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: pos });
+    } else if (char === ':') {
+      tokens.push({ type: 'colon', value: char, position: pos });
+    } else {
+      throw new FormulaSyntaxError(`Unexpected character "${char}"`, pos);
+    }
+    pos++;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: input.length });
+  return tokens;
+}
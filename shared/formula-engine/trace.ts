@@ -0,0 +1,69 @@
+import { sheetDependencyGraph } from './engine';
+import { FormulaGrid, FormulaPosition, GridCell } from './grid';
+
+export type TraceDirection = 'precedents' | 'dependents';
+
+export interface TracedCell extends FormulaPosition {
+  // Null for positions without a cell, e.g. inside a referenced range
+  cellId: string | null;
+  rowId: string;
+  columnId: string;
+  // 1 for cells read by (or reading) the traced cell directly, 2 one step further,
+  // ... (0 for the traced cell itself)
+  depth: number;
+}
+
+/**
+ * The cells a cell's formula reads (precedents) or the formulas that read it
+ * (dependents), for formula auditing. Only direct ones unless `recursive`,
+ * nearest first; the traced cell itself is left out even when it's in a cycle.
+ */
+export function traceCell<C extends GridCell>(
+  grid: FormulaGrid<C>,
+  cellId: string,
+  direction: TraceDirection,
+  recursive: boolean
+): TracedCell[] {
+  const { graph } = sheetDependencyGraph(grid);
+  const next = (key: string) => (direction === 'precedents' ? graph.getPrecedents(key) : graph.getDependents(key));
+
+  const found: TracedCell[] = [];
+  const visited = new Set([cellId]);
+  let frontier = [cellId];
+
+  for (let depth = 1; frontier.length > 0 && (recursive || depth === 1); depth++) {
+    const reached: string[] = [];
+    for (const key of frontier) {
+      for (const neighbour of next(key)) {
+        if (visited.has(neighbour)) continue;
+        visited.add(neighbour);
+        reached.push(neighbour);
+
+        const traced = tracedCell(grid, neighbour, depth);
+        if (traced) found.push(traced);
+      }
+    }
+    frontier = reached;
+  }
+
+  return found.sort((a, b) => a.depth - b.depth || a.rowIndex - b.rowIndex || a.columnIndex - b.columnIndex);
+}
+
+// Where a cell the trace reached is; graph keys are cell ids, or "column:row"
+// where there's no cell
+export function tracedCell<C extends GridCell>(grid: FormulaGrid<C>, key: string, depth: number): TracedCell | null {
+  const cell = grid.getCellById(key);
+  const match = /^(\d+):(\d+)$/.exec(key);
+  const position = cell
+    ? grid.positionOf(cell)
+    : match && { columnIndex: Number(match[1]), rowIndex: Number(match[2]) };
+  if (!position) return null;
+
+  return {
+    cellId: cell?.id ?? null,
+    rowId: grid.rows[position.rowIndex].id,
+    columnId: grid.columns[position.columnIndex].id,
+    ...position,
+    depth,
+  };
+}
@@ -0,0 +1,218 @@
+// Runtime values produced while evaluating a formula
+
+import { DateValue, parseDateText } from './dates';
+import { ErrorCode, ErrorValue } from './errors';
+import { MAX_AREA_CELLS } from './references';
+
+export type ScalarValue = number | string | boolean | DateValue | ErrorValue | null;
+
+// A rectangular block of cell values (e.g. the result of evaluating A1:B3)
+export class RangeValue {
+  constructor(public readonly rows: ScalarValue[][]) {}
+
+  get height(): number {
+    return this.rows.length;
+  }
+
+  get width(): number {
+    return this.rows.length > 0 ? this.rows[0].length : 0;
+  }
+
+  // Values in row-major order
+  flat(): ScalarValue[] {
+    return this.rows.flat();
+  }
+}
+
+export type FormulaValue = ScalarValue | RangeValue;
+
+// Raised when a value cannot be used the way a formula asks (e.g. "abc" * 2).
+// `code` is what the cell displays, e.g. "#N/A" when a lookup finds nothing.
+export class FormulaEvaluationError extends Error {
+  constructor(message: string, public readonly code: ErrorCode = '#VALUE!') {
+    super(message);
+    this.name = 'FormulaEvaluationError';
+  }
+
+  toValue(): ErrorValue {
+    return new ErrorValue(this.code, this.message);
+  }
+}
+
+export function isRange(value: FormulaValue): value is RangeValue {
+  return value instanceof RangeValue;
+}
+
+export function isError(value: FormulaValue): value is ErrorValue {
+  return value instanceof ErrorValue;
+}
+
+// Using an error value in a calculation yields the same error
+export function raiseIfError(value: FormulaValue): asserts value is Exclude<FormulaValue, ErrorValue> {
+  if (value instanceof ErrorValue) {
+    throw new FormulaEvaluationError(value.message, value.code);
+  }
+}
+
+// Collapse a range to a single value; only 1x1 ranges can be used where a scalar is expected
+export function toScalar(value: FormulaValue): ScalarValue {
+  if (!isRange(value)) return value;
+  if (value.height === 1 && value.width === 1) return value.rows[0][0];
+  throw new FormulaEvaluationError('A range cannot be used as a single value');
+}
+
+// A range of more than one cell, which operators apply to element by element
+export function isArray(value: FormulaValue): value is RangeValue {
+  return isRange(value) && (value.height !== 1 || value.width !== 1);
+}
+
+/**
+ * Apply a scalar operation element by element (=C2:C100>10). Single values and
+ * single rows/columns are repeated to the size of the largest operand;
+ * positions past a smaller operand's edge are #N/A. An operation that fails
+ * gives an error in that position rather than failing the whole result.
+ */
+export function mapElements(operands: FormulaValue[], operation: (values: ScalarValue[]) => ScalarValue): RangeValue {
+  const ranges = operands.map(toRange);
+  const height = Math.max(...ranges.map((range) => range.height));
+  const width = Math.max(...ranges.map((range) => range.width));
+  if (height * width > MAX_AREA_CELLS) {
+    throw new FormulaEvaluationError(`Arrays can hold at most ${MAX_AREA_CELLS} values`, '#NUM!');
+  }
+
+  const elementAt = (range: RangeValue, row: number, col: number): ScalarValue => {
+    const rowIndex = range.height === 1 ? 0 : row;
+    const colIndex = range.width === 1 ? 0 : col;
+    if (rowIndex >= range.height || colIndex >= range.width) return new ErrorValue('#N/A');
+    return range.rows[rowIndex][colIndex];
+  };
+
+  const rows: ScalarValue[][] = [];
+  for (let row = 0; row < height; row++) {
+    const values: ScalarValue[] = [];
+    for (let col = 0; col < width; col++) {
+      try {
+        values.push(operation(ranges.map((range) => elementAt(range, row, col))));
+      } catch (error) {
+        if (!(error instanceof FormulaEvaluationError)) throw error;
+        values.push(error.toValue());
+      }
+    }
+    rows.push(values);
+  }
+  return new RangeValue(rows);
+}
+
+// Treat a single value as a 1x1 range, for functions that accept either
+export function toRange(value: FormulaValue): RangeValue {
+  return isRange(value) ? value : new RangeValue([[value]]);
+}
+
+// Numbers and dates (which are day serials underneath)
+export function isNumeric(value: ScalarValue): value is number | DateValue {
+  return typeof value === 'number' || value instanceof DateValue;
+}
+
+// Text written as a plain decimal number: "12", "-0.5", "1.5e3". Unlike
+// Number(), "Infinity", "0x10", "0b1" and blank text aren't numbers.
+const DECIMAL_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+export function parseNumberText(text: string): number | null {
+  const trimmed = text.trim();
+  if (!DECIMAL_NUMBER.test(trimmed)) return null;
+  const number = Number(trimmed);
+  return isFinite(number) ? number : null;
+}
+
+export function toNumber(value: FormulaValue): number {
+  const scalar = toScalar(value);
+  raiseIfError(scalar);
+  if (scalar === null) return 0;
+  if (typeof scalar === 'boolean') return scalar ? 1 : 0;
+  if (typeof scalar === 'number') return scalar;
+  if (scalar instanceof DateValue) return scalar.serial;
+
+  const parsed = parseNumberText(scalar);
+  if (parsed === null) {
+    // Date text such as "2024-01-15" can be used in date arithmetic
+    const serial = parseDateText(scalar.trim());
+    if (serial !== null) return serial;
+    throw new FormulaEvaluationError(`"${scalar}" is not a number`);
+  }
+  return parsed;
+}
+
+export function toText(value: FormulaValue): string {
+  const scalar = toScalar(value);
+  raiseIfError(scalar);
+  if (scalar === null) return '';
+  if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+  return String(scalar);
+}
+
+export function toBoolean(value: FormulaValue): boolean {
+  const scalar = toScalar(value);
+  raiseIfError(scalar);
+  if (scalar === null) return false;
+  if (typeof scalar === 'boolean') return scalar;
+  if (typeof scalar === 'number') return scalar !== 0;
+  if (scalar instanceof DateValue) return scalar.serial !== 0;
+
+  const upper = scalar.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE' || upper === '') return false;
+  return toNumber(scalar) !== 0;
+}
+
+// Flatten arguments for aggregate functions; only numbers coming from ranges are
+// kept, but an error anywhere in them is the aggregate's result
+export function collectNumbers(values: FormulaValue[]): number[] {
+  const numbers: number[] = [];
+  for (const value of values) {
+    if (isRange(value)) {
+      for (const item of value.flat()) {
+        raiseIfError(item);
+        if (isNumeric(item) && !isNaN(Number(item))) {
+          numbers.push(Number(item));
+        }
+      }
+    } else if (value !== null) {
+      numbers.push(toNumber(value));
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Excel ordering for mixed types: numbers < text < booleans; text compares
+ * case-insensitively. Blank cells compare as 0 against numbers and "" against text.
+ * Returns a negative number, zero or a positive number like a sort comparator.
+ */
+export function compareScalars(left: ScalarValue, right: ScalarValue): number {
+  // Dates rank (and compare) as the numbers they are; errors sort last
+  const rank = (value: ScalarValue) =>
+    value instanceof ErrorValue ? 3 : typeof value === 'boolean' ? 2 : typeof value === 'string' ? 1 : 0;
+
+  const normalize = (value: ScalarValue, other: ScalarValue): ScalarValue => {
+    if (value !== null) return value;
+    if (typeof other === 'string') return '';
+    if (typeof other === 'boolean') return false;
+    return 0;
+  };
+
+  const a = normalize(left, right);
+  const b = normalize(right, left);
+
+  if (rank(a) !== rank(b)) {
+    return rank(a) - rank(b);
+  }
+  if (a instanceof ErrorValue && b instanceof ErrorValue) {
+    return a.code < b.code ? -1 : a.code > b.code ? 1 : 0;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    return lowerA < lowerB ? -1 : lowerA > lowerB ? 1 : 0;
+  }
+  return Number(a) - Number(b);
+}
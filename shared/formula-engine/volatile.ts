@@ -0,0 +1,31 @@
+import { parseFormula } from './parser';
+import { AstNode } from './ast';
+import { FormulaSyntaxError } from './tokenizer';
+
+// Functions whose result changes without any cell they read changing. Stock
+// prices change too, but are refreshed along with the quotes (see stocks.ts).
+export const VOLATILE_FUNCTIONS = ['NOW', 'TODAY', 'RAND', 'RANDBETWEEN'];
+
+function callsVolatile(node: AstNode): boolean {
+  switch (node.type) {
+    case 'function':
+      return VOLATILE_FUNCTIONS.includes(node.name.toUpperCase()) || node.args.some(callsVolatile);
+    case 'unary':
+      return callsVolatile(node.operand);
+    case 'binary':
+      return callsVolatile(node.left) || callsVolatile(node.right);
+    default:
+      return false;
+  }
+}
+
+// Whether a formula calls NOW(), TODAY(), RAND() or RANDBETWEEN(), so it has to
+// be recalculated on a schedule to stay current
+export function usesVolatileFunctions(formula: string): boolean {
+  try {
+    return callsVolatile(parseFormula(formula));
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,175 @@
+import { FormulaEngine } from './engine';
+import { EvaluationPass } from './evaluationPass';
+import { FormulaGrid, FormulaPosition, GridCell } from './grid';
+import { SpillValue } from './spill';
+import { ScalarValue } from './values';
+
+// Goal seek counts the target as reached once it's this close to the desired
+// value (relative to its size when that's above 1), and gives up after
+// MAX_GOAL_SEEK_ITERATIONS tries
+const GOAL_SEEK_TOLERANCE = 1e-9;
+const MAX_GOAL_SEEK_ITERATIONS = 100;
+
+// Results one data table may compute - each one evaluates the target formulas again
+export const MAX_DATA_TABLE_RESULTS = 2500;
+
+// A value put in place of what's in a cell
+export interface WhatIfValue extends FormulaPosition {
+  value: number;
+}
+
+// An input cell and the values a data table tries in it
+export interface DataTableInput extends FormulaPosition {
+  values: number[];
+}
+
+export interface GoalSeekResult {
+  // Whether the target reached the desired value; if not, the closest input tried
+  found: boolean;
+  inputValue: number;
+  targetValue: ScalarValue;
+  iterations: number;
+}
+
+/**
+ * What the target formulas give with the input cells holding other values. The
+ * values are swapped into the grid only while evaluating, and afterwards the
+ * cells and spills are put back as they were; nothing is saved. A spilled
+ * result is read as its top-left value.
+ */
+export async function evaluateWithValues(
+  grid: FormulaGrid,
+  targets: GridCell[],
+  values: WhatIfValue[]
+): Promise<ScalarValue[]> {
+  const originals = values.map(({ columnIndex, rowIndex }) => grid.getCell(columnIndex, rowIndex));
+  // Empty positions get a stand-in cell for the input, taken out again afterwards
+  const inputs = values.map(({ columnIndex, rowIndex }, index) => {
+    const rowId = grid.rows[rowIndex].id;
+    const columnId = grid.columns[columnIndex].id;
+    return (
+      originals[index] ??
+      { id: `what-if:${rowId}:${columnId}`, rowId, columnId, value: null, formula: null, computedValue: null }
+    );
+  });
+
+  return grid.keepingSpills(async () => {
+    try {
+      inputs.forEach((cell, index) => {
+        grid.setCell({ ...cell, value: JSON.stringify(values[index].value), formula: null, computedValue: null });
+      });
+
+      // A fresh pass, so formulas between the inputs and the targets see the new values
+      const pass = new EvaluationPass();
+      const results: ScalarValue[] = [];
+      for (const target of targets) {
+        const result = await FormulaEngine.evaluate(grid, target.formula!, target.id, pass);
+        results.push(result instanceof SpillValue ? result.valueAt(0, 0) : result);
+      }
+      return results;
+    } finally {
+      inputs.forEach((cell, index) => {
+        const original = originals[index];
+        if (original) {
+          grid.setCell(original);
+        } else {
+          grid.removeCell(cell.id);
+        }
+      });
+    }
+  });
+}
+
+/**
+ * The value of the input cell that makes the target formula give
+ * `desiredValue`, found with the secant method starting from the input's
+ * current value. Only numbers are tried; the target has to evaluate to a number.
+ */
+export async function goalSeek(
+  grid: FormulaGrid,
+  target: GridCell,
+  input: FormulaPosition,
+  desiredValue: number
+): Promise<GoalSeekResult> {
+  const tolerance = GOAL_SEEK_TOLERANCE * Math.max(1, Math.abs(desiredValue));
+  const current = grid.getStoredValue(input.columnIndex, input.rowIndex);
+  let iterations = 0;
+
+  const tryValue = async (value: number) => {
+    iterations++;
+    const [result] = await evaluateWithValues(grid, [target], [{ ...input, value }]);
+    const miss = typeof result === 'number' && isFinite(result) ? result - desiredValue : null;
+    return { value, result, miss };
+  };
+
+  let previous = await tryValue(typeof current === 'number' ? current : 0);
+  let best = previous;
+  const isCloser = (attempt: typeof previous) =>
+    attempt.miss !== null && (best.miss === null || Math.abs(attempt.miss) < Math.abs(best.miss));
+  const done = (found: boolean): GoalSeekResult => ({
+    found,
+    inputValue: best.value,
+    targetValue: best.result,
+    iterations,
+  });
+
+  if (previous.miss === 0) return done(true);
+
+  let latest = await tryValue(previous.value === 0 ? 0.01 : previous.value * 1.01);
+  if (isCloser(latest)) best = latest;
+
+  // Close in until the target is hit exactly or the input stops moving; an
+  // error or text result, or a target the input doesn't move, gives no slope to follow
+  while (iterations < MAX_GOAL_SEEK_ITERATIONS && latest.miss !== 0) {
+    if (previous.miss === null || latest.miss === null || latest.miss === previous.miss) break;
+
+    const next = latest.value - (latest.miss * (latest.value - previous.value)) / (latest.miss - previous.miss);
+    if (!isFinite(next) || next === latest.value) break;
+    previous = latest;
+    latest = await tryValue(next);
+    if (isCloser(latest)) best = latest;
+  }
+
+  if (best.miss === null || Math.abs(best.miss) > tolerance) return done(false);
+
+  // Prefer the rounder value when it hits the target just as well: 0.15 over 0.15000000000000002
+  const rounded = Number(best.value.toPrecision(12));
+  if (rounded !== best.value && iterations < MAX_GOAL_SEEK_ITERATIONS) {
+    const attempt = await tryValue(rounded);
+    if (attempt.miss !== null && Math.abs(attempt.miss) <= tolerance) best = attempt;
+  }
+  return done(true);
+}
+
+/**
+ * A what-if table: the target formulas evaluated with each of `rowInput`'s
+ * values in its cell, one row per value. With one input, each row has a column
+ * per target; with a `columnInput` too there's a single target, and each row
+ * has a column per `columnInput` value, tried in its cell at the same time.
+ */
+export async function dataTable(
+  grid: FormulaGrid,
+  targets: GridCell[],
+  rowInput: DataTableInput,
+  columnInput?: DataTableInput
+): Promise<ScalarValue[][]> {
+  const table: ScalarValue[][] = [];
+  for (const rowValue of rowInput.values) {
+    const substituted = { ...rowInput, value: rowValue };
+    if (!columnInput) {
+      table.push(await evaluateWithValues(grid, targets, [substituted]));
+      continue;
+    }
+
+    const row: ScalarValue[] = [];
+    for (const columnValue of columnInput.values) {
+      const [result] = await evaluateWithValues(grid, targets.slice(0, 1), [
+        substituted,
+        { ...columnInput, value: columnValue },
+      ]);
+      row.push(result);
+    }
+    table.push(row);
+  }
+  return table;
+}